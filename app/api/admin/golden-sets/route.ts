@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseServerClient } from '../../../../lib/supabase';
+import { goldenSetStore } from '../../../../lib/eval/golden-set-store';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GOLDEN QUESTION SETS
+ * GET ?documentId= lists questions (all documents when omitted).
+ * POST { documentId, question, expectedSlos?, expectedChunkId?, expectedExcerpt? }
+ * adds one; DELETE ?id= removes one.
+ */
+async function authorizeAdmin(req: NextRequest): Promise<NextResponse | null> {
+  const authHeader = req.headers.get('Authorization');
+  const token = authHeader?.split(' ')[1];
+  if (!token) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const supabase = getSupabaseServerClient(token);
+  const { data: { user } } = await supabase.auth.getUser(token);
+
+  const adminString = process.env.NEXT_PUBLIC_ADMIN_EMAILS || '';
+  const adminEmails = adminString.split(',').map(e => e.trim().toLowerCase()).filter(Boolean);
+  if (!user || !adminEmails.includes((user.email || '').toLowerCase())) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+  }
+  return null;
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const denied = await authorizeAdmin(req);
+    if (denied) return denied;
+
+    const documentId = req.nextUrl.searchParams.get('documentId');
+    const questions = await goldenSetStore.list(documentId ? [documentId] : undefined);
+    return NextResponse.json({ questions });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const denied = await authorizeAdmin(req);
+    if (denied) return denied;
+
+    const { documentId, question, expectedSlos, expectedChunkId, expectedExcerpt } = await req.json();
+    const created = await goldenSetStore.create({
+      documentId,
+      question,
+      expectedSlos: Array.isArray(expectedSlos) ? expectedSlos.map(String) : [],
+      expectedChunkId,
+      expectedExcerpt
+    });
+    return NextResponse.json({ success: true, question: created });
+  } catch (error: any) {
+    if (error.issues) return NextResponse.json({ error: error.message, issues: error.issues }, { status: 422 });
+    console.error("❌ [Golden Set Fault]:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const denied = await authorizeAdmin(req);
+    if (denied) return denied;
+
+    const id = req.nextUrl.searchParams.get('id');
+    if (!id) return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    await goldenSetStore.remove(id);
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
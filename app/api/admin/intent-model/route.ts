@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseServerClient } from '../../../../lib/supabase';
+import { intentModelStore } from '../../../../lib/ai/intent-model-store';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * INTENT MODEL TRAINING
+ * GET: recent model versions with held-out accuracy.
+ * POST: retrain from retrieval_logs and activate the new version.
+ */
+async function authorizeAdmin(req: NextRequest): Promise<NextResponse | null> {
+  const authHeader = req.headers.get('Authorization');
+  const token = authHeader?.split(' ')[1];
+  if (!token) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const supabase = getSupabaseServerClient(token);
+  const { data: { user } } = await supabase.auth.getUser(token);
+
+  const adminString = process.env.NEXT_PUBLIC_ADMIN_EMAILS || '';
+  const adminEmails = adminString.split(',').map(e => e.trim().toLowerCase()).filter(Boolean);
+  if (!user || !adminEmails.includes((user.email || '').toLowerCase())) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+  }
+  return null;
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const denied = await authorizeAdmin(req);
+    if (denied) return denied;
+
+    return NextResponse.json({ models: await intentModelStore.list() });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const denied = await authorizeAdmin(req);
+    if (denied) return denied;
+
+    const model = await intentModelStore.train();
+    return NextResponse.json({ success: true, model });
+  } catch (error: any) {
+    console.error("❌ [Intent Training Fault]:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseServerClient } from '../../../../lib/supabase';
+import { rateLimiter, DEFAULT_LIMIT_POLICIES, ANY_SUBJECT, LimitScope } from '../../../../lib/ai/rate-limiter';
+import { providerRegistry } from '../../../../lib/ai/providers/registry';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * RATE LIMIT POLICIES
+ * GET: defaults, overrides and live bucket levels for every provider and
+ * every overridden subject.
+ * POST: { scope, subject, capacity, refillPerMinute } upserts an override;
+ * { scope, subject, remove: true } drops it.
+ */
+async function authorizeAdmin(req: NextRequest): Promise<NextResponse | null> {
+  const authHeader = req.headers.get('Authorization');
+  const token = authHeader?.split(' ')[1];
+  if (!token) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const supabase = getSupabaseServerClient(token);
+  const { data: { user } } = await supabase.auth.getUser(token);
+
+  const adminString = process.env.NEXT_PUBLIC_ADMIN_EMAILS || '';
+  const adminEmails = adminString.split(',').map(e => e.trim().toLowerCase()).filter(Boolean);
+  if (!user || !adminEmails.includes((user.email || '').toLowerCase())) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+  }
+  return null;
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const denied = await authorizeAdmin(req);
+    if (denied) return denied;
+
+    const policies = await rateLimiter.listPolicies();
+    const limitedEngines = providerRegistry.rateLimitedIds();
+    const subjects = [
+      ...limitedEngines.map(engine => ({ scope: 'provider' as LimitScope, subject: engine })),
+      ...policies
+        .filter(p => p.subject !== ANY_SUBJECT && !(p.scope === 'provider' && limitedEngines.includes(p.subject)))
+        .map(p => ({ scope: p.scope, subject: p.subject }))
+    ];
+
+    return NextResponse.json({
+      defaults: DEFAULT_LIMIT_POLICIES,
+      policies,
+      buckets: await rateLimiter.snapshot(subjects)
+    });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const denied = await authorizeAdmin(req);
+    if (denied) return denied;
+
+    const { scope, subject, capacity, refillPerMinute, remove } = await req.json();
+
+    if (remove) {
+      await rateLimiter.deletePolicy(scope, subject);
+      return NextResponse.json({ success: true, message: `Override for ${scope} ${subject} removed.` });
+    }
+
+    await rateLimiter.upsertPolicy({ scope, subject, capacity: Number(capacity), refillPerMinute: Number(refillPerMinute) });
+    return NextResponse.json({ success: true, message: `Limit for ${scope} ${subject} saved.` });
+  } catch (error: any) {
+    if (error.issues) return NextResponse.json({ error: error.message, issues: error.issues }, { status: 422 });
+    console.error("❌ [Rate Limit Policy Fault]:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseServerClient } from '../../../../lib/supabase';
+import { piiShield } from '../../../../lib/ai/pii-shield';
+import { DEFAULT_PII_POLICY } from '../../../../lib/ai/pii-redactor';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * STUDENT PII POLICIES
+ * GET: the built-in default, per-workspace policies and the latest
+ * redaction audit rows (counts only).
+ * POST: { workspace, enabled, kinds, knownNames } upserts a policy;
+ * { workspace, remove: true } drops it.
+ */
+async function authorizeAdmin(req: NextRequest): Promise<NextResponse | null> {
+  const authHeader = req.headers.get('Authorization');
+  const token = authHeader?.split(' ')[1];
+  if (!token) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const supabase = getSupabaseServerClient(token);
+  const { data: { user } } = await supabase.auth.getUser(token);
+
+  const adminString = process.env.NEXT_PUBLIC_ADMIN_EMAILS || '';
+  const adminEmails = adminString.split(',').map(e => e.trim().toLowerCase()).filter(Boolean);
+  if (!user || !adminEmails.includes((user.email || '').toLowerCase())) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+  }
+  return null;
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const denied = await authorizeAdmin(req);
+    if (denied) return denied;
+
+    const limit = Math.min(Number(req.nextUrl.searchParams.get('limit')) || 50, 500);
+    return NextResponse.json({
+      defaults: DEFAULT_PII_POLICY,
+      policies: await piiShield.listPolicies(),
+      audit: await piiShield.listAudit(limit)
+    });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const denied = await authorizeAdmin(req);
+    if (denied) return denied;
+
+    const { workspace, enabled, kinds, knownNames, remove } = await req.json();
+
+    if (remove) {
+      await piiShield.deletePolicy(workspace);
+      return NextResponse.json({ success: true, message: `PII policy for ${workspace} removed.` });
+    }
+
+    await piiShield.upsertPolicy({ workspace, enabled, kinds, knownNames: knownNames || [] });
+    return NextResponse.json({ success: true, message: `PII policy for ${workspace} saved.` });
+  } catch (error: any) {
+    if (error.issues) return NextResponse.json({ error: error.message, issues: error.issues }, { status: 422 });
+    console.error("❌ [PII Policy Fault]:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseServerClient } from '../../../../lib/supabase';
+import { providerRegistry } from '../../../../lib/ai/providers/registry';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GRID PROVIDERS
+ * GET: every registered engine (built-in and configured) with its
+ * capabilities, key status and admin switch, plus configuration issues.
+ * POST: { engine, enabled } switches an engine on or off for all routing.
+ */
+async function authorizeAdmin(req: NextRequest): Promise<{ denied: NextResponse } | { userId: string }> {
+  const authHeader = req.headers.get('Authorization');
+  const token = authHeader?.split(' ')[1];
+  if (!token) return { denied: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+
+  const supabase = getSupabaseServerClient(token);
+  const { data: { user } } = await supabase.auth.getUser(token);
+
+  const adminString = process.env.NEXT_PUBLIC_ADMIN_EMAILS || '';
+  const adminEmails = adminString.split(',').map(e => e.trim().toLowerCase()).filter(Boolean);
+  if (!user || !adminEmails.includes((user.email || '').toLowerCase())) {
+    return { denied: NextResponse.json({ error: 'Admin access required' }, { status: 403 }) };
+  }
+  return { userId: user.id };
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await authorizeAdmin(req);
+    if ('denied' in auth) return auth.denied;
+
+    return NextResponse.json({
+      providers: await providerRegistry.describe(),
+      issues: providerRegistry.issues()
+    });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await authorizeAdmin(req);
+    if ('denied' in auth) return auth.denied;
+
+    const { engine, enabled } = await req.json();
+    if (typeof enabled !== 'boolean') {
+      return NextResponse.json({ error: 'Provider switch failed validation.', issues: ['enabled must be true or false.'] }, { status: 422 });
+    }
+
+    await providerRegistry.setEnabled(engine, enabled, auth.userId);
+    return NextResponse.json({ success: true, message: `${engine} switched ${enabled ? 'on' : 'off'}.` });
+  } catch (error: any) {
+    if (error.issues) return NextResponse.json({ error: error.message, issues: error.issues }, { status: 422 });
+    console.error("❌ [Provider Switch Fault]:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
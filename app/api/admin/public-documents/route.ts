@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseServerClient, getSupabaseAdminClient } from '../../../../lib/supabase';
+import { responseCache } from '../../../../lib/ai/response-cache';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * PUBLIC LIBRARY REVIEW
+ * GET: every document its owner has shared, awaiting review first.
+ * POST: { documentId, approved } approves a shared document, which makes it
+ * searchable by every teacher who includes public documents, or revokes it.
+ */
+const REVIEW_LIMIT = 200;
+
+async function authorizeAdmin(req: NextRequest): Promise<{ denied: NextResponse } | { userId: string }> {
+  const authHeader = req.headers.get('Authorization');
+  const token = authHeader?.split(' ')[1];
+  if (!token) return { denied: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+
+  const supabase = getSupabaseServerClient(token);
+  const { data: { user } } = await supabase.auth.getUser(token);
+
+  const adminString = process.env.NEXT_PUBLIC_ADMIN_EMAILS || '';
+  const adminEmails = adminString.split(',').map(e => e.trim().toLowerCase()).filter(Boolean);
+  if (!user || !adminEmails.includes((user.email || '').toLowerCase())) {
+    return { denied: NextResponse.json({ error: 'Admin access required' }, { status: 403 }) };
+  }
+  return { userId: user.id };
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await authorizeAdmin(req);
+    if ('denied' in auth) return auth.denied;
+
+    const { data, error } = await getSupabaseAdminClient()
+      .from('documents')
+      .select('id, name, subject, grade_level, user_id, is_approved, created_at')
+      .eq('is_public', true)
+      .order('is_approved', { ascending: true })
+      .order('created_at', { ascending: false })
+      .limit(REVIEW_LIMIT);
+    if (error) throw new Error(error.message);
+
+    return NextResponse.json({
+      documents: (data || []).map(d => ({
+        id: d.id,
+        name: d.name,
+        subject: d.subject || 'General',
+        gradeLevel: d.grade_level || 'Auto',
+        ownerId: d.user_id,
+        isApproved: !!d.is_approved,
+        createdAt: d.created_at
+      }))
+    });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await authorizeAdmin(req);
+    if ('denied' in auth) return auth.denied;
+
+    const { documentId, approved } = await req.json();
+    const issues: string[] = [];
+    if (!documentId || typeof documentId !== 'string') issues.push('documentId is required.');
+    if (typeof approved !== 'boolean') issues.push('approved must be true or false.');
+    if (issues.length > 0) {
+      return NextResponse.json({ error: 'Review decision failed validation.', issues }, { status: 422 });
+    }
+
+    // Only documents their owner has shared can be approved
+    const { data, error } = await getSupabaseAdminClient()
+      .from('documents')
+      .update({ is_approved: approved })
+      .eq('id', documentId)
+      .eq('is_public', true)
+      .select('id');
+    if (error) throw new Error(error.message);
+    if (!data?.length) return NextResponse.json({ error: 'No shared document with that id.' }, { status: 404 });
+    await responseCache.invalidatePublicLibrary();
+
+    return NextResponse.json({ success: true, message: approved ? 'Approved for the public library.' : 'Approval revoked.' });
+  } catch (error: any) {
+    console.error("❌ [Public Review Fault]:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseServerClient } from '../../../../lib/supabase';
+import { gridRecorder, recorderMode } from '../../../../lib/ai/grid-recorder';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GRID RECORDINGS
+ * GET ?traceId=&userId=&since=&until=&limit= exports matching recordings as a
+ * replay cassette (save it and point GRID_REPLAY_FILE at it).
+ * DELETE ?traceId=&userId=&until= purges recordings; at least one filter.
+ */
+async function authorizeAdmin(req: NextRequest): Promise<NextResponse | null> {
+  const authHeader = req.headers.get('Authorization');
+  const token = authHeader?.split(' ')[1];
+  if (!token) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const supabase = getSupabaseServerClient(token);
+  const { data: { user } } = await supabase.auth.getUser(token);
+
+  const adminString = process.env.NEXT_PUBLIC_ADMIN_EMAILS || '';
+  const adminEmails = adminString.split(',').map(e => e.trim().toLowerCase()).filter(Boolean);
+  if (!user || !adminEmails.includes((user.email || '').toLowerCase())) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+  }
+  return null;
+}
+
+const param = (req: NextRequest, name: string) => req.nextUrl.searchParams.get(name) || undefined;
+
+export async function GET(req: NextRequest) {
+  try {
+    const denied = await authorizeAdmin(req);
+    if (denied) return denied;
+
+    const limit = Number(param(req, 'limit'));
+    const cassette = await gridRecorder.export({
+      traceId: param(req, 'traceId'),
+      userId: param(req, 'userId'),
+      since: param(req, 'since'),
+      until: param(req, 'until'),
+      limit: Number.isFinite(limit) && limit > 0 ? limit : undefined
+    });
+
+    return NextResponse.json(cassette, {
+      headers: { 'X-Recorder-Mode': recorderMode() }
+    });
+  } catch (error: any) {
+    console.error("❌ [Grid Recordings Fault]:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const denied = await authorizeAdmin(req);
+    if (denied) return denied;
+
+    const removed = await gridRecorder.purge({
+      traceId: param(req, 'traceId'),
+      userId: param(req, 'userId'),
+      until: param(req, 'until')
+    });
+    return NextResponse.json({ success: true, removed });
+  } catch (error: any) {
+    if (error.issues) return NextResponse.json({ error: error.message, issues: error.issues }, { status: 422 });
+    console.error("❌ [Grid Recordings Fault]:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseServerClient, getSupabaseAdminClient } from '../../../../lib/supabase';
+import { summarizeUsage } from '../../../../lib/ai/usage-ledger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_WINDOW_DAYS = 180;
+const PAGE_SIZE = 1000;              // PostgREST's default max-rows; larger requests come back cut
+const MAX_ROWS = 50000;
+
+/**
+ * SPEND LEDGER REPORT
+ * Rolls `ai_model_usage` up per workspace, tool and provider for Mission Control.
+ * Rows are read newest first, one page at a time; past MAX_ROWS the report's
+ * `since` moves up to the oldest row it covers.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const authHeader = req.headers.get('Authorization');
+    const token = authHeader?.split(' ')[1];
+    if (!token) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const supabase = getSupabaseServerClient(token);
+    const { data: { user } } = await supabase.auth.getUser(token);
+
+    const adminString = process.env.NEXT_PUBLIC_ADMIN_EMAILS || '';
+    const adminEmails = adminString.split(',').map(e => e.trim().toLowerCase()).filter(Boolean);
+    if (!user || !adminEmails.includes((user.email || '').toLowerCase())) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const requestedDays = parseInt(req.nextUrl.searchParams.get('days') || '30', 10);
+    const days = Math.min(MAX_WINDOW_DAYS, Math.max(1, isNaN(requestedDays) ? 30 : requestedDays));
+    const since = new Date(Date.now() - days * 86400000).toISOString();
+
+    const admin = getSupabaseAdminClient();
+    const rows: any[] = [];
+    while (rows.length < MAX_ROWS) {
+      const { data: page, error } = await admin
+        .from('ai_model_usage')
+        .select('user_id, provider, model_name, task_type, tool, tokens_prompt, tokens_completion, cost_usd, created_at')
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .range(rows.length, rows.length + PAGE_SIZE - 1);
+
+      if (error) {
+        return NextResponse.json({ error: `Ledger unavailable: ${error.message}. Run the latest SQL blueprint.` }, { status: 500 });
+      }
+      rows.push(...(page || []));
+      if (!page || page.length < PAGE_SIZE) break;
+    }
+    const covered = rows.length >= MAX_ROWS ? rows[rows.length - 1].created_at : since;
+
+    const userIds = Array.from(new Set(rows.map(r => r.user_id).filter(Boolean)));
+    const workspaceByUser: Record<string, string> = {};
+    if (userIds.length > 0) {
+      const { data: profiles } = await admin.from('profiles').select('id, workspace_name').in('id', userIds);
+      (profiles || []).forEach(p => {
+        if (p.workspace_name) workspaceByUser[p.id] = p.workspace_name;
+      });
+    }
+
+    return NextResponse.json({ days, ...summarizeUsage(rows, workspaceByUser, covered) });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { getSynthesizer } from '../../../lib/ai/synthesizer-core';
+import { neuralGrid } from '../../../lib/ai/model-orchestrator';
 import { supabase } from '../../../lib/supabase';
 
 export const dynamic = 'force-dynamic';
@@ -18,7 +19,7 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
     }
 
-    getSynthesizer().realignGrid();
+    await Promise.all([getSynthesizer().realignGrid(), neuralGrid.resetBreakers()]);
 
     return NextResponse.json({
       success: true,
@@ -1,12 +1,35 @@
 import { NextResponse } from 'next/server';
 import { getSynthesizer } from '../../../lib/ai/synthesizer-core';
+import { neuralGrid } from '../../../lib/ai/model-orchestrator';
+import { requestQueue } from '../../../lib/ai/request-queue';
 
 export const dynamic = 'force-dynamic';
 
 export async function GET() {
-  const providers = getSynthesizer().getProviderStatus();
+  const [gridHealth, synthNodes] = await Promise.all([
+    neuralGrid.getGridHealth(),
+    getSynthesizer().getProviderStatus()
+  ]);
+
+  // Grid engines carry the persisted breaker state (shared across instances)
+  const gridEngines = gridHealth.map(e => ({
+    id: e.engine,
+    name: e.displayName,
+    status: e.status === 'DISABLED' ? 'disabled'
+      : e.health.state === 'open' ? 'failed'
+      : e.health.state === 'half-open' ? 'recovering'
+      : 'active',
+    tier: e.engine === 'openrouter' ? 3 : 1,
+    breaker: e.health.state,
+    errorRate: e.health.errorRate,
+    latencyMs: Math.round(e.health.latencyMs),
+    retryAt: e.health.retryAt,
+    lastError: e.health.lastError
+  }));
+
   return NextResponse.json({
-    providers,
+    providers: [...gridEngines, ...synthNodes],
+    queue: requestQueue.getStats(), // Per-instance: lanes and provider slots in use
     timestamp: new Date().toISOString()
   });
-}
\ No newline at end of file
+}
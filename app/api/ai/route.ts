@@ -1,14 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase as anonClient, getSupabaseServerClient } from '../../../lib/supabase';
 import { generateAIResponse } from '../../../lib/ai/multi-provider-router';
-import { detectToolIntent, ToolType, getToolDisplayName } from '../../../lib/ai/tool-router';
+import { ToolType, getToolDisplayName } from '../../../lib/ai/tool-router';
+import { routeTool } from '../../../lib/ai/semantic-tool-router';
 import { getFullPrompt } from '../../../lib/ai/prompt-manager';
+import { promptVariantStore } from '../../../lib/ai/prompt-variant-store';
+import { VARIANT_HEADER, formatVariantHeader } from '../../../lib/ai/prompt-variants';
+import { rateLimiter, RateLimitError } from '../../../lib/ai/rate-limiter';
+import { rateLimitedResponse, queueTimeoutResponse } from '../../../lib/auth/api-guard';
+import { workspaceResolver } from '../../../lib/auth/workspace';
+import { QueueTimeoutError } from '../../../lib/ai/request-queue';
 import { DEFAULT_MASTER_PROMPT } from '../../../constants';
+import { neuralGrid } from '../../../lib/ai/model-orchestrator';
+import { buildAssessmentPrompt, ASSESSMENT_SCHEMA } from '../../../lib/pedagogy/assessment-generator';
+import { retrieveRelevantChunks } from '../../../lib/rag/retriever';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 export const maxDuration = 120;
 
+const ASSESSMENT_EXTRACTS = 6;         // Focused-document chunks an assessment is grounded on
+
 export async function POST(req: NextRequest) {
   try {
     const authHeader = req.headers.get('Authorization');
@@ -19,22 +31,59 @@ export async function POST(req: NextRequest) {
     if (!user) return NextResponse.json({ error: 'Invalid Session' }, { status: 401 });
 
     const body = await req.json();
-    const { toolType, userInput, priorityDocumentId, adaptiveContext, history } = body;
-    
+    const { task, toolType, userInput, priorityDocumentId, adaptiveContext, history } = body;
+
     const supabase = getSupabaseServerClient(token);
     const { data: profile } = await supabase.from('profiles').select('workspace_name, name').eq('id', user.id).single();
     const brandName = profile?.workspace_name || 'Pedagogy Master AI';
 
-    // SECURE BRAIN INJECTION
-    const { data: brain } = await supabase.from('neural_brain').select('master_prompt').eq('is_active', true).maybeSingle();
-    const activeMasterPrompt = brain?.master_prompt || DEFAULT_MASTER_PROMPT;
+    const limit = await rateLimiter.check({ user: user.id, workspace: await workspaceResolver.of(user.id).catch(() => undefined) });
+    if (!limit.allowed) {
+      return rateLimitedResponse(limit.retryAfterSeconds, `AI Alert: Rate limit reached. Retry in ${limit.retryAfterSeconds}s.`);
+    }
+
+    // STRUCTURED ASSESSMENT: schema-validated JSON instead of a markdown stream
+    if (task === 'generate-assessment') {
+      const { lessonContent, options } = body;
+      if (!lessonContent || !options) {
+        return NextResponse.json({ error: 'lessonContent and options are required' }, { status: 400 });
+      }
+      // Grounded on the focused document, as the chat it came from was
+      const extracts = priorityDocumentId
+        ? await retrieveRelevantChunks({
+            query: [options.standards?.join(' '), lessonContent.slice(0, 2000)].filter(Boolean).join('\n'),
+            documentIds: [priorityDocumentId],
+            supabase,
+            matchCount: ASSESSMENT_EXTRACTS
+          })
+        : [];
+      const result = await neuralGrid.executeStructured(
+        buildAssessmentPrompt(lessonContent, options, extracts.map(c => c.chunk_text)),
+        'QUIZ_GENERATE',
+        ASSESSMENT_SCHEMA,
+        { signal: req.signal },
+        { userId: user.id, tool: 'neural_quiz' }
+      );
+      return NextResponse.json({
+        assessment: result.data,
+        provider: `${result.provider}/${result.modelUsed}`,
+        repaired: result.repaired,
+        attempts: result.attempts
+      });
+    }
+
 
-    const routeInfo = toolType ? { tool: toolType as ToolType } : detectToolIntent(userInput || "");
+    const routeInfo = toolType ? { tool: toolType as ToolType } : await routeTool(userInput || "");
     const effectiveTool = routeInfo.tool;
     const expertTitle = getToolDisplayName(effectiveTool);
 
+    // SECURE BRAIN INJECTION (A/B variants override the live prompts for their traffic share)
+    const variants = await promptVariantStore.assign(user.id, effectiveTool);
+    const { data: brain } = await supabase.from('neural_brain').select('master_prompt').eq('is_active', true).maybeSingle();
+    const activeMasterPrompt = variants.master.body || brain?.master_prompt || DEFAULT_MASTER_PROMPT;
+
     const customContext = `[INSTITUTION: ${brandName}]\n[INSTRUCTION: Format headers for ${brandName} standards.]\n[SPECIALIST: ${expertTitle}]`;
-    const systemPrompt = await getFullPrompt(effectiveTool, customContext, activeMasterPrompt);
+    const systemPrompt = await getFullPrompt(effectiveTool, customContext, activeMasterPrompt, variants.expert.body);
 
     const { text, provider, metadata } = await generateAIResponse(
       userInput || "",
@@ -45,7 +94,8 @@ export async function POST(req: NextRequest) {
       undefined,
       effectiveTool,
       systemPrompt, 
-      priorityDocumentId
+      priorityDocumentId,
+      req.signal
     );
 
     const encoder = new TextEncoder();
@@ -53,13 +103,19 @@ export async function POST(req: NextRequest) {
       start(controller) {
         controller.enqueue(encoder.encode(text));
         const groundedNote = metadata?.isGrounded ? ` | Standards Anchored: ${metadata.sourceDocument}` : '';
-        const footer = `\n\n---\n### 🏛️ ${brandName} | Institutional Artifact\n**Expert Node:** ${expertTitle}\n**Neural Status:** ✅ Verified Alignment${groundedNote}`;
+        const unverified = metadata?.grounding?.unverified.length || 0;
+        const status = unverified ? `⚠️ ${unverified} Unverified SLO${unverified === 1 ? '' : 's'}` : '✅ Verified Alignment';
+        const footer = `\n\n---\n### 🏛️ ${brandName} | Institutional Artifact\n**Expert Node:** ${expertTitle}\n**Neural Status:** ${status}${groundedNote}`;
         controller.enqueue(encoder.encode(footer));
         controller.close();
       }
-    }), { headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+    }), { headers: { 'Content-Type': 'text/plain; charset=utf-8', [VARIANT_HEADER]: formatVariantHeader([variants.master, variants.expert]) } });
 
   } catch (error: any) {
+    if (error instanceof RateLimitError) {
+      return rateLimitedResponse(error.retryAfterSeconds, `AI Alert: Synthesis grid busy. Retry in ${error.retryAfterSeconds}s.`);
+    }
+    if (error instanceof QueueTimeoutError) return queueTimeoutResponse(error);
     console.error("❌ [Synthesis Fault]:", error);
     return NextResponse.json({ 
       error: "Synthesis grid exception. Verify usage limits.",
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdminClient, getSupabaseServerClient } from '../../../../lib/supabase';
+import { promptVariantStore } from '../../../../lib/ai/prompt-variant-store';
+import { PROMPT_SCOPES, PromptScope } from '../../../../lib/ai/prompt-variants';
+import { TOOL_EXPERT_PROMPTS } from '../../../../lib/ai/prompt-manager';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * PROMPT EXPERIMENT GATEWAY (v1.0)
+ * GET ?days=30: variants, live control prompts and per-variant outcomes.
+ * POST: { scope, label, body, traffic } creates the next version;
+ *       { id, traffic?, status? } adjusts traffic or retires a variant.
+ */
+async function authorizeFounder(req: NextRequest): Promise<{ userId: string } | NextResponse> {
+  const authHeader = req.headers.get('Authorization');
+  const token = authHeader?.split(' ')[1];
+  if (!token) return NextResponse.json({ error: 'Unauthorized: Gateway closed.' }, { status: 401 });
+
+  const userClient = getSupabaseServerClient(token);
+  const { data: { user }, error: authError } = await userClient.auth.getUser();
+  if (authError || !user) return NextResponse.json({ error: 'Session Invalid.' }, { status: 401 });
+
+  const { data: profile } = await getSupabaseAdminClient()
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.role !== 'app_admin') {
+    return NextResponse.json({ error: 'Access Denied: Founder privileges required.' }, { status: 403 });
+  }
+  return { userId: user.id };
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await authorizeFounder(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const days = Math.min(Math.max(Number(req.nextUrl.searchParams.get('days')) || 30, 1), 180);
+    const since = new Date(Date.now() - days * 86400000);
+
+    const [variants, stats] = await Promise.all([
+      promptVariantStore.list(),
+      promptVariantStore.report(since)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      days,
+      scopes: PROMPT_SCOPES,
+      controls: TOOL_EXPERT_PROMPTS,
+      variants,
+      stats
+    });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await authorizeFounder(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const { id, scope, label, body, traffic, status } = await req.json();
+
+    if (id) {
+      const variant = await promptVariantStore.update(id, {
+        ...(traffic !== undefined ? { traffic: Number(traffic) } : {}),
+        ...(status ? { status } : {})
+      });
+      return NextResponse.json({ success: true, variant, message: `${variant.scope} v${variant.version} updated.` });
+    }
+
+    if (!PROMPT_SCOPES.includes(scope)) {
+      return NextResponse.json({ error: `Unknown prompt scope: ${scope}` }, { status: 400 });
+    }
+    const variant = await promptVariantStore.create(scope as PromptScope, label, body, Number(traffic) || 0, auth.userId);
+    return NextResponse.json({ success: true, variant, message: `${variant.scope} v${variant.version} live at ${variant.traffic}% traffic.` });
+  } catch (error: any) {
+    if (error.issues) {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: 422 });
+    }
+    console.error("❌ [Prompt Experiment Fault]:", error);
+    return NextResponse.json({ error: error.message || "Synthesis grid exception." }, { status: 500 });
+  }
+}
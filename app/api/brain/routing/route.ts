@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdminClient, getSupabaseServerClient } from '../../../../lib/supabase';
+import { routingStore } from '../../../../lib/ai/routing-store';
+import { DEFAULT_ROUTING_TABLE, TASK_TYPES } from '../../../../lib/ai/routing-table';
+import { providerRegistry } from '../../../../lib/ai/providers/registry';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GRID ROUTING GATEWAY (v1.0)
+ * GET: active table, version history and defaults.
+ * POST: { table, notes } saves a validated new version; { activateVersion } rolls back.
+ */
+async function authorizeFounder(req: NextRequest): Promise<{ userId: string } | NextResponse> {
+  const authHeader = req.headers.get('Authorization');
+  const token = authHeader?.split(' ')[1];
+  if (!token) return NextResponse.json({ error: 'Unauthorized: Gateway closed.' }, { status: 401 });
+
+  const userClient = getSupabaseServerClient(token);
+  const { data: { user }, error: authError } = await userClient.auth.getUser();
+  if (authError || !user) return NextResponse.json({ error: 'Session Invalid.' }, { status: 401 });
+
+  const { data: profile } = await getSupabaseAdminClient()
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.role !== 'app_admin') {
+    return NextResponse.json({ error: 'Access Denied: Founder privileges required.' }, { status: 403 });
+  }
+  return { userId: user.id };
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await authorizeFounder(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const [active, versions] = await Promise.all([
+      routingStore.getActive(),
+      routingStore.listVersions().catch(() => [])
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      active,
+      versions,
+      defaults: DEFAULT_ROUTING_TABLE,
+      engines: providerRegistry.routableIds(),
+      tasks: TASK_TYPES
+    });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await authorizeFounder(req);
+    if (auth instanceof NextResponse) return auth;
+
+    const { table, notes, activateVersion } = await req.json();
+
+    const active = activateVersion !== undefined
+      ? await routingStore.activate(Number(activateVersion))
+      : await routingStore.save(table, notes || '', auth.userId);
+
+    return NextResponse.json({
+      success: true,
+      message: `Routing table v${active.version} active. Instances reload within seconds.`,
+      active
+    });
+  } catch (error: any) {
+    if (error.issues) {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: 422 });
+    }
+    console.error("❌ [Routing Update Fault]:", error);
+    return NextResponse.json({ error: error.message || "Synthesis grid exception." }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdminClient, getSupabaseServerClient } from '../../../../lib/supabase';
+import { responseCache } from '../../../../lib/ai/response-cache';
 
 export const runtime = 'nodejs';
 
@@ -59,6 +60,8 @@ export async function POST(req: NextRequest) {
        throw result.error;
     }
 
+    await responseCache.invalidateBrain();
+
     return NextResponse.json({
       success: true,
       message: "Neural Brain re-aligned.",
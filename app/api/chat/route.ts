@@ -1,8 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseServerClient } from '../../../lib/supabase';
-import { generateAIResponse } from '../../../lib/ai/multi-provider-router';
-import { detectToolIntent, getToolDisplayName } from '../../../lib/ai/tool-router';
+import { streamAIResponse } from '../../../lib/ai/multi-provider-router';
+import { ToolType, TOOL_TYPES, getToolDisplayName, formatClarificationMarker } from '../../../lib/ai/tool-router';
+import { routeTool } from '../../../lib/ai/semantic-tool-router';
 import { getFullPrompt } from '../../../lib/ai/prompt-manager';
+import { promptVariantStore } from '../../../lib/ai/prompt-variant-store';
+import { VARIANT_HEADER, formatVariantHeader } from '../../../lib/ai/prompt-variants';
+import { rateLimiter, RateLimitError } from '../../../lib/ai/rate-limiter';
+import { rateLimitedResponse, queueTimeoutResponse } from '../../../lib/auth/api-guard';
+import { workspaceResolver } from '../../../lib/auth/workspace';
+import { QueueTimeoutError } from '../../../lib/ai/request-queue';
+import { threadStore } from '../../../lib/chat/thread-store';
+import { ChatThread, ConversationMemory, ConversationTurn, THREAD_HEADER, WATERMARK_RULE, toTurn } from '../../../lib/chat/chat-memory';
+import { extractSLOCodes, normalizeSLO } from '../../../lib/rag/slo-extractor';
+import { FOCUSED_DOCUMENT_WEIGHT, LibraryFilters } from '../../../lib/rag/library-ranking';
+import type { RetrievalFilters } from '../../../lib/rag/retrieval';
 import { DEFAULT_MASTER_PROMPT } from '../../../constants';
 
 export const runtime = 'nodejs';
@@ -20,47 +32,160 @@ export async function POST(req: NextRequest) {
     if (!user) return NextResponse.json({ error: 'Invalid Session' }, { status: 401 });
 
     const body = await req.json();
-    const { message, history = [], priorityDocumentId, adaptiveContext } = body;
+    const { message, history = [], threadId, newThread, priorityDocumentId, adaptiveContext, toolType } = body;
+    const documentIds: string[] = Array.isArray(body.documentIds) ? body.documentIds.filter((id: any) => typeof id === 'string') : [];
+    const filters: LibraryFilters = body.libraryFilters || {};
     if (!message) return NextResponse.json({ error: 'Message required' }, { status: 400 });
 
     const { data: profile } = await supabase.from('profiles').select('workspace_name').eq('id', user.id).single();
     const brandName = profile?.workspace_name || 'Pedagogy Master AI';
 
-    // SECURE BRAIN INJECTION
-    const { data: brain } = await supabase.from('neural_brain').select('master_prompt').eq('is_active', true).maybeSingle();
-    const activeMasterPrompt = brain?.master_prompt || DEFAULT_MASTER_PROMPT;
+    const limit = await rateLimiter.check({ user: user.id, workspace: await workspaceResolver.of(user.id).catch(() => undefined) });
+    if (!limit.allowed) {
+      return rateLimitedResponse(limit.retryAfterSeconds, `AI Alert: Rate limit reached. Retry in ${limit.retryAfterSeconds}s.`);
+    }
+
+    // A quick-reply answer names the tool; otherwise route, and ask when unsure
+    const routeInfo = TOOL_TYPES.includes(toolType)
+      ? { tool: toolType as ToolType }
+      : await routeTool(message);
+
+    // Clarifications are not stored: the quick reply re-asks the question
+    if ('needsClarification' in routeInfo && routeInfo.needsClarification) {
+      const options = routeInfo.alternatives.slice(0, 2).map(alt => alt.tool);
+      return new Response(`${routeInfo.clarifyingQuestion}${formatClarificationMarker(options)}`, {
+        headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-cache' }
+      });
+    }
+
+    // THREAD MEMORY: threaded turns are answered against the stored
+    // conversation; anything else falls back to the posted history
+    let thread: ChatThread | null = null;
+    if (threadId) {
+      thread = await threadStore.get(user.id, threadId);
+      if (!thread) return NextResponse.json({ error: 'Thread not found' }, { status: 404 });
+    } else if (newThread) {
+      thread = await threadStore.create(user.id, message, priorityDocumentId);
+    }
+
+    // The document and the last SLO named stay pinned until the teacher changes them
+    const namedSLO = extractSLOCodes(message)[0];
+    const pinnedSlo = namedSLO ? normalizeSLO(namedSLO.code) : thread?.pinnedSlo || null;
+    const documentId = priorityDocumentId || thread?.documentId || undefined;
+
+    let memory: ConversationMemory | ConversationTurn[] = history;
+    let summaryFrom = 0;                 // Thread position of the first turn in memory
+    if (thread) {
+      if ((documentId || null) !== thread.documentId || pinnedSlo !== thread.pinnedSlo) {
+        thread = (await threadStore.update(user.id, thread.id, { documentId: documentId || null, pinnedSlo })) || thread;
+      }
+      const stored = await threadStore.unsummarized(thread);
+      summaryFrom = stored.from;
+      memory = {
+        summary: thread.summary,
+        turns: stored.messages.map(m => toTurn(m.role, m.content)),
+        pinnedSlo,
+        rolling: true,
+        threadId: thread.id
+      };
+    }
+
+    // LIBRARY SCOPE: the selected documents, else the whole vault, under the selector's filters
+    const library: RetrievalFilters = {
+      userId: user.id,
+      documentIds: documentIds.length ? documentIds : undefined,
+      subject: filters.subject || undefined,
+      gradeLevel: filters.gradeLevel || undefined,
+      sloCode: filters.sloCode ? normalizeSLO(filters.sloCode) : undefined,
+      includePublic: !!filters.includePublic,
+      documentWeights: documentId ? { [documentId]: FOCUSED_DOCUMENT_WEIGHT } : undefined
+    };
 
-    const routeInfo = detectToolIntent(message);
     const expertTitle = getToolDisplayName(routeInfo.tool);
+
+    // SECURE BRAIN INJECTION (A/B variants override the live prompts for their traffic share)
+    const variants = await promptVariantStore.assign(user.id, routeInfo.tool);
+    const { data: brain } = await supabase.from('neural_brain').select('master_prompt').eq('is_active', true).maybeSingle();
+    const activeMasterPrompt = variants.master.body || brain?.master_prompt || DEFAULT_MASTER_PROMPT;
+
     const customContext = `[CHAT_MODE: ACTIVE]\n[INSTITUTION: ${brandName}]\n[ROLE: Pedagogical Consultant]`;
-    const assembledSystemPrompt = await getFullPrompt(routeInfo.tool, customContext, activeMasterPrompt);
+    const assembledSystemPrompt = await getFullPrompt(routeInfo.tool, customContext, activeMasterPrompt, variants.expert.body);
 
-    const { text, provider, metadata } = await generateAIResponse(
+    // Resolves once an engine has committed its first token (fallback happens before this point)
+    const { tokens, provider, metadata } = await streamAIResponse(
       message,
-      history,
+      memory,
       user.id,
       supabase,
       adaptiveContext,
-      undefined,
       'chat_tutor',
       assembledSystemPrompt,
-      priorityDocumentId
+      documentId,
+      req.signal, // Teacher closed the chat or navigated away: abort the engine call
+      library
     );
 
+    const activeThread = thread;
+    if (activeThread && metadata?.memoryUpdate) {
+      const { summary, folded } = metadata.memoryUpdate;
+      threadStore.saveSummary(activeThread, summary, summaryFrom + folded)
+        .catch(e => console.warn(`⚠️ [Chat Threads] Summary not saved: ${e.message}`));
+    }
+
     const appUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://pedagogy-master.vercel.app';
     const encoder = new TextEncoder();
+    const iterator = tokens[Symbol.asyncIterator]();
+    let transcript = '';
     
     return new Response(new ReadableStream({
-      start(controller) {
-        controller.enqueue(encoder.encode(text));
+      async pull(controller) {
+        try {
+          const { done, value } = await iterator.next();
+          if (!done) {
+            transcript += value;
+            controller.enqueue(encoder.encode(value));
+            return;
+          }
+        } catch (streamError: any) {
+          console.error("❌ Conversational Stream Interrupted:", streamError);
+          controller.enqueue(encoder.encode('\n\nAI Alert: Synthesis grid exception.'));
+          controller.close();
+          return;
+        }
         const groundedNote = metadata?.isGrounded ? ` | Standards Match: ${metadata.sourceDocument}` : '';
-        const watermark = `\n\n---\n### 🏛️ ${brandName} Institutional Intelligence Hub\n*Synthesized via ${expertTitle} (${provider}${groundedNote})*\n\n✅ Verified alignment match. [Build your own verified curriculum assets here](${appUrl})`;
+        const unverified = metadata?.grounding?.unverified.length || 0;
+        const alignmentNote = unverified
+          ? `⚠️ ${unverified} SLO code${unverified === 1 ? '' : 's'} not found in your curriculum documents.`
+          : '✅ Verified alignment match.';
+        const watermark = `${WATERMARK_RULE} ${brandName} Institutional Intelligence Hub\n*Synthesized via ${expertTitle} (${provider}${groundedNote})*\n\n${alignmentNote} [Build your own verified curriculum assets here](${appUrl})`;
         controller.enqueue(encoder.encode(watermark));
         controller.close();
+
+        if (activeThread) {
+          threadStore.appendExchange(activeThread, message, transcript + watermark, {
+            provider,
+            isGrounded: metadata?.isGrounded || false,
+            sourceDocument: metadata?.sourceDocument || null,
+            grounding: metadata?.grounding || null
+          }).catch(e => console.warn(`⚠️ [Chat Threads] Exchange not saved: ${e.message}`));
+        }
+      },
+      async cancel() {
+        // Teacher closed the chat: stop pulling from the engine
+        await iterator.return?.(undefined);
       }
-    }), { headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+    }), { headers: {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      [VARIANT_HEADER]: formatVariantHeader([variants.master, variants.expert]),
+      ...(thread ? { [THREAD_HEADER]: thread.id } : {})
+    } });
 
   } catch (error: any) {
+    if (error instanceof RateLimitError) {
+      return rateLimitedResponse(error.retryAfterSeconds, `AI Alert: Synthesis grid busy. Retry in ${error.retryAfterSeconds}s.`);
+    }
+    if (error instanceof QueueTimeoutError) return queueTimeoutResponse(error);
     console.error("❌ Conversational Node Error:", error);
     return NextResponse.json({ error: 'Synthesis engine error', details: error.message }, { status: 500 });
   }
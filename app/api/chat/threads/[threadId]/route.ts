@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseServerClient } from '../../../../../lib/supabase';
+import { threadStore } from '../../../../../lib/chat/thread-store';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * CHAT THREAD (v1.0)
+ * GET: thread + messages (resume). PATCH: { title?, documentId?, pinnedSlo? }.
+ * DELETE: thread and its messages.
+ */
+type Params = { params: Promise<{ threadId: string }> };
+
+async function authorize(req: NextRequest): Promise<{ userId: string } | NextResponse> {
+  const token = req.headers.get('Authorization')?.split(' ')[1];
+  if (!token || token === 'undefined') return NextResponse.json({ error: 'Auth Required' }, { status: 401 });
+
+  const { data: { user } } = await getSupabaseServerClient(token).auth.getUser(token);
+  if (!user) return NextResponse.json({ error: 'Invalid Session' }, { status: 401 });
+  return { userId: user.id };
+}
+
+const notFound = () => NextResponse.json({ error: 'Thread not found' }, { status: 404 });
+
+export async function GET(req: NextRequest, props: Params) {
+  try {
+    const auth = await authorize(req);
+    if (auth instanceof NextResponse) return auth;
+    const { threadId } = await props.params;
+
+    const thread = await threadStore.get(auth.userId, threadId);
+    if (!thread) return notFound();
+    return NextResponse.json({ thread, messages: await threadStore.messages(thread) });
+  } catch (error: any) {
+    console.error('❌ [Chat Threads] Load failed:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, props: Params) {
+  try {
+    const auth = await authorize(req);
+    if (auth instanceof NextResponse) return auth;
+    const { threadId } = await props.params;
+
+    const { title, documentId, pinnedSlo } = await req.json();
+    const thread = await threadStore.update(auth.userId, threadId, { title, documentId, pinnedSlo });
+    if (!thread) return notFound();
+    return NextResponse.json({ thread });
+  } catch (error: any) {
+    if (error.issues) return NextResponse.json({ error: error.message, issues: error.issues }, { status: 422 });
+    console.error('❌ [Chat Threads] Update failed:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, props: Params) {
+  try {
+    const auth = await authorize(req);
+    if (auth instanceof NextResponse) return auth;
+    const { threadId } = await props.params;
+
+    if (!(await threadStore.remove(auth.userId, threadId))) return notFound();
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('❌ [Chat Threads] Delete failed:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
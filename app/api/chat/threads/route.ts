@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseServerClient } from '../../../../lib/supabase';
+import { threadStore } from '../../../../lib/chat/thread-store';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * CHAT THREADS (v1.0)
+ * GET: the teacher's threads, most recently active first. Threads are created
+ * by the first message sent to /api/chat with `newThread: true`.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const token = req.headers.get('Authorization')?.split(' ')[1];
+    if (!token || token === 'undefined') return NextResponse.json({ error: 'Auth Required' }, { status: 401 });
+
+    const { data: { user } } = await getSupabaseServerClient(token).auth.getUser(token);
+    if (!user) return NextResponse.json({ error: 'Invalid Session' }, { status: 401 });
+
+    return NextResponse.json({ threads: await threadStore.list(user.id) });
+  } catch (error: any) {
+    console.error('❌ [Chat Threads] List failed:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
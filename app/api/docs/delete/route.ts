@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { supabase as anonClient, getSupabaseAdminClient } from '../../../../lib/supabase';
 import { r2Client, R2_BUCKET } from '../../../../lib/r2';
 import { DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { responseCache } from '../../../../lib/ai/response-cache';
 
 /**
  * NEURAL NODE PURGE PROTOCOL (v10.2)
@@ -78,6 +79,9 @@ export async function DELETE(request: NextRequest) {
       throw new Error(`DB Purge Failed: ${deleteError.message}`);
     }
 
+    // Library answers that searched the document must not be served again
+    await responseCache.invalidateDocument(id, doc.user_id, !!doc.is_public);
+
     return NextResponse.json({ 
       success: true, 
       message: 'Node successfully purged from the neural grid.' 
@@ -1,47 +1,100 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { getSupabaseAdminClient } from '../../../../../lib/supabase';
 import { getObjectBuffer } from '../../../../../lib/r2';
 import { indexDocumentForRAG } from '../../../../../lib/rag/document-indexer';
 import { IngestionStep, JobStatus } from '../../../../../types';
 import { neuralGrid } from '../../../../../lib/ai/model-orchestrator';
+import { routingStore } from '../../../../../lib/ai/routing-store';
+import { DEFAULT_ROUTING_TABLE } from '../../../../../lib/ai/routing-table';
+import { resumeLinearization, segmentInstruction, LinearizeResult, PendingLinearization, ResumeOptions, SegmentNote } from '../../../../../lib/rag/curriculum-linearizer';
 import { DEFAULT_MASTER_PROMPT } from '../../../../../constants';
 import { IngestionQueue } from '../../../../../lib/jobs/ingestion-queue';
 import pdf from 'pdf-parse';
+import { renderPdfPage } from '../../../../../lib/rag/table-detector';
 
 export const runtime = 'nodejs';
 export const maxDuration = 300;
 
 /**
- * ORCHESTRATED INGESTION ENGINE v14.0
+ * ORCHESTRATED INGESTION ENGINE v15.0
  * Uses multi-provider failover to prevent "Sync Protocol Interrupted" errors.
+ * Source text is never truncated: documents larger than the INGEST_LINEARIZE
+ * chain's context budget are linearized segment by segment and merged.
+ * Each invocation linearizes one batch of segments, saves the outputs on the
+ * ingestion job and re-triggers itself, so no document has to fit in a
+ * single request's duration.
  */
-async function callLinearizer(content: string, recipe: string): Promise<string> {
-  const result = await neuralGrid.execute(
-    `[CURRICULUM_LINEARIZATION_TASK]
+const LINEARIZE_BATCH = 2;           // Matches the background lane's concurrency
+const CONTINUE_DISPATCH_MS = 5000;
+
+function linearizationPrompt(source: string, recipe: string, note?: SegmentNote): string {
+  return `[CURRICULUM_LINEARIZATION_TASK]
 Apply the Master Recipe instructions precisely.
 MANDATORY: Include <STRUCTURED_INDEX> JSON block at the very end.
 
 SLO CODE FORMAT: SUBJECTCODE+GRADE(2digits)+DOMAIN(letter)+NUMBER(2digits)
 Example: BIO09A01, MAT11B03, ENG07C12
 
+TABLES: Keep progression grids (grade columns × domain rows) as Markdown tables, one row per domain/strand, with the header row intact. Never flatten a table into prose.
+${note ? `\n${segmentInstruction(note)}\n` : ''}
 === MASTER RECIPE ===
 ${recipe}
 
 === RAW CURRICULUM TEXT ===
-${content.substring(0, 90000)}
-=== END TEXT ===`,
-    'INGEST_LINEARIZE',
-    { temperature: 0.1, maxTokens: 8192 }
-  );
+${source}
+=== END TEXT ===`;
+}
 
-  console.log(`[Linearizer] ${result.provider}/${result.modelUsed} — ${result.latencyMs}ms`);
+async function callLinearizer(
+  content: string,
+  recipe: string,
+  userId: string | undefined,
+  onSegment: (done: number, total: number) => Promise<void>,
+  resume: ResumeOptions
+): Promise<LinearizeResult | PendingLinearization> {
+  const { table } = await routingStore.getActive();
+  const chain = table.INGEST_LINEARIZE?.length ? table.INGEST_LINEARIZE : DEFAULT_ROUTING_TABLE.INGEST_LINEARIZE;
+
+  return resumeLinearization(content, {
+    chain,
+    buildPrompt: (source, note) => linearizationPrompt(source, recipe, note),
+    onSegment,
+    call: async (prompt, index) => {
+      const result = await neuralGrid.execute(
+        prompt,
+        'INGEST_LINEARIZE',
+        { temperature: 0.1, maxTokens: 8192 },
+        { userId, tool: 'ingestion' }
+      );
+
+      console.log(`[Linearizer] Segment ${index + 1}: ${result.provider}/${result.modelUsed} — ${result.latencyMs}ms`);
+
+      if (!result.text || result.text.length < 100) {
+        throw new Error(`AI returned insufficient content (${result.text?.length || 0} chars)`);
+      }
+      return result.text;
+    }
+  }, resume);
+}
 
-  if (!result.text || result.text.length < 100) {
-    throw new Error(`AI returned insufficient content (${result.text?.length || 0} chars)`);
+// Starts the next invocation. Only the dispatch is awaited: the next batch
+// runs on its own duration budget, so timing out once the request is out is
+// expected. A dispatch that fails outright marks the job failed; its saved
+// segments stay, and the next POST (e.g. Repair & Re-Index) resumes from them.
+async function continueIngestion(url: URL, queue: IngestionQueue, jobId: string, documentId: string) {
+  try {
+    const res = await fetch(url, { method: 'POST', signal: AbortSignal.timeout(CONTINUE_DISPATCH_MS) });
+    // A 500 comes from the continuation's own handler, which marks the job failed
+    if (!res.ok && res.status !== 500) throw new Error(`continuation answered ${res.status}`);
+  } catch (e: any) {
+    if (e.name === 'TimeoutError') return;
+    console.error(`❌ [Ingestion] ${documentId}: continuation dispatch failed: ${e.message}`);
+    const msg = 'Linearization paused before the remaining segments. Re-index to resume.';
+    await queue.markFailed(jobId, msg);
+    await getSupabaseAdminClient().from('documents').update({ status: 'failed', document_summary: msg }).eq('id', documentId);
   }
-
-  return result.text;
 }
+
 export async function POST(req: NextRequest, props: { params: Promise<{ documentId: string }> }) {
   const { documentId } = await props.params;
   const adminSupabase = getSupabaseAdminClient();
@@ -66,7 +119,8 @@ export async function POST(req: NextRequest, props: { params: Promise<{ document
       await queue.updateProgress(job.id, { step: IngestionStep.EXTRACT, progress: 10, message: 'Neural extraction...' });
       const buffer = await getObjectBuffer(doc.file_path);
       if (!buffer) throw new Error("R2_FAULT: Object unreachable.");
-      const raw = await pdf(buffer);
+      // Layout-aware pages: progression grids come through as Markdown tables
+      const raw = await pdf(buffer, { pagerender: renderPdfPage });
       await adminSupabase.from('documents').update({ 
   raw_text: raw.text.trim(),      // ← preserved forever
   extracted_text: raw.text.trim() // ← will be overwritten by Master MD in Step 2
@@ -78,31 +132,38 @@ export async function POST(req: NextRequest, props: { params: Promise<{ document
     // STEP 2: PEDAGOGICAL LINEARIZATION
     if (job.step === IngestionStep.LINEARIZE) {
       const { data: current } = await adminSupabase.from('documents').select('extracted_text').eq('id', documentId).single();
-      const markdown = await callLinearizer(current?.extracted_text || "", recipe);
-      
-      const indexMatch = markdown.match(/<STRUCTURED_INDEX>([\s\S]+?)<\/STRUCTURED_INDEX>/);
-      if (indexMatch) {
+      const jobId = job.id;
+      const outcome = await callLinearizer(
+        current?.extracted_text || "",
+        recipe,
+        doc.user_id,
+        (done, total) => queue.updateProgress(jobId, {
+          step: IngestionStep.LINEARIZE,
+          progress: 25 + Math.round((done / total) * 35),
+          message: `Linearization (${done}/${total} segments)...`
+        }),
+        {
+          checkpoint: job.segment_outputs,
+          save: checkpoint => queue.saveSegments(jobId, checkpoint),
+          batchSize: LINEARIZE_BATCH
+        }
+      );
+      if ('pending' in outcome) {
+        after(() => continueIngestion(req.nextUrl, queue, jobId, documentId));
+        return NextResponse.json({ success: true, pending: outcome.pending }, { status: 202 });
+      }
+      const { markdown, index: sloIndex, segments } = outcome;
+      if (segments > 1) console.log(`[Linearizer] ${documentId} merged from ${segments} segments.`);
+
+      if (sloIndex.length) {
         try {
-          const sloIndex = JSON.parse(indexMatch[1].trim().replace(/```json|```/g, '').trim());
-          if (Array.isArray(sloIndex)) {
-            const records = sloIndex
-  .filter((s: any) => s.slo_code || s.code)
-  .map((s: any) => ({
-    document_id: documentId,
-    slo_code: (s.slo_code || s.code || '').toUpperCase().trim(),
-    slo_full_text: s.slo_full_text || s.text || '',
-    bloom_level: s.bloomLevel || 'Understand',
-    domain: s.domain || '',
-    domain_name: s.domain_name || '',
-    grade: s.grade || '',
-    subject: s.subject || '',
-    code_valid: /^[A-Z]{2,3}\d{2}[A-Z]\d{2}$/.test(
-      (s.slo_code || s.code || '').toUpperCase().trim()
-    )
-  }));
-            await adminSupabase.from('slo_database').delete().eq('document_id', documentId);
-            await adminSupabase.from('slo_database').insert(records);
-          }
+          const records = sloIndex.map(s => ({
+            document_id: documentId,
+            ...s,
+            code_valid: /^[A-Z]{2,3}\d{2}[A-Z]\d{2}$/.test(s.slo_code)
+          }));
+          await adminSupabase.from('slo_database').delete().eq('document_id', documentId);
+          await adminSupabase.from('slo_database').insert(records);
         } catch (e) { console.error("Structured Index Failure", e); }
       }
 
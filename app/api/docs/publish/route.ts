@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase as anonClient, getSupabaseAdminClient } from '../../../../lib/supabase';
+import { responseCache } from '../../../../lib/ai/response-cache';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * PUBLIC LIBRARY SUBMISSION
+ * POST: { documentId, isPublic } shares one of the teacher's own indexed
+ * documents with every library search, or withdraws it. Sharing always
+ * waits for an admin's approval (see /api/admin/public-documents); a
+ * withdrawn document loses its approval too.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const token = req.headers.get('Authorization')?.split(' ')[1];
+    if (!token) return NextResponse.json({ error: 'Auth required' }, { status: 401 });
+
+    const { data: { user }, error: authError } = await anonClient.auth.getUser(token);
+    if (authError || !user) return NextResponse.json({ error: 'Invalid session' }, { status: 401 });
+
+    const { documentId, isPublic } = await req.json();
+    const issues: string[] = [];
+    if (!documentId || typeof documentId !== 'string') issues.push('documentId is required.');
+    if (typeof isPublic !== 'boolean') issues.push('isPublic must be true or false.');
+    if (issues.length > 0) {
+      return NextResponse.json({ error: 'Publication request failed validation.', issues }, { status: 422 });
+    }
+
+    const adminSupabase = getSupabaseAdminClient();
+    const { data: doc } = await adminSupabase.from('documents').select('id, user_id, status').eq('id', documentId).maybeSingle();
+    if (!doc || doc.user_id !== user.id) return NextResponse.json({ error: 'Document not found.' }, { status: 404 });
+    if (isPublic && !['ready', 'completed'].includes(doc.status)) {
+      return NextResponse.json({
+        error: 'Publication request failed validation.',
+        issues: ['Only indexed documents can be shared.']
+      }, { status: 422 });
+    }
+
+    const { error } = await adminSupabase.from('documents')
+      .update({ is_public: isPublic, is_approved: false })
+      .eq('id', documentId);
+    if (error) throw new Error(error.message);
+    // A withdrawn document may have been approved and searched
+    await responseCache.invalidatePublicLibrary();
+
+    return NextResponse.json({
+      success: true,
+      isPublic,
+      isApproved: false,
+      message: isPublic ? 'Submitted to the public library; it appears in searches once approved.' : 'Removed from the public library.'
+    });
+  } catch (error: any) {
+    console.error("❌ [Publication Fault]:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -5,6 +5,7 @@ import { r2Client, R2_BUCKET, isR2Configured } from '../../../lib/r2';
 import { ListObjectsV2Command } from '@aws-sdk/client-s3';
 import { SchemaManager } from '../../../lib/cache/schema-manager';
 import { neuralGrid } from '../../../lib/ai/model-orchestrator';
+import { isLocalModeEnabled } from '../../../lib/ai/providers/local';
 
 export const dynamic = 'force-dynamic';
 
@@ -30,6 +31,7 @@ export async function GET() {
     cerebrasKey:   !!process.env.CEREBRAS_API_KEY,
     sambanovaKey:  !!process.env.SAMBANOVA_API_KEY,
     openrouterKey: !!process.env.OPENROUTER_API_KEY,
+    localMode:     isLocalModeEnabled(),
     r2AccountId:   !!process.env.R2_ACCOUNT_ID,
     schemaSynced:  syncState.inSync,
   };
@@ -22,6 +22,8 @@ export async function POST(req: NextRequest) {
     if (!query) return NextResponse.json({ error: 'Query required' }, { status: 400 });
 
     const supabase = getSupabaseServerClient(token);
+    // The teacher's workspace decides the PII policy applied before synthesis
+    const { data: { user } } = await supabase.auth.getUser(token);
     let context = "";
     let searchMethod = "semantic";
 
@@ -78,7 +80,7 @@ RULES:
 - Answer ONLY using provided context.
 - Use verbatim SLO codes.
 - Do not hallucinate standards not present in the vault.
-`, { systemPrompt: 'You are a high-fidelity curriculum assistant. Answer using ONLY provided context.', complexity: 2 });
+`, { systemPrompt: 'You are a high-fidelity curriculum assistant. Answer using ONLY provided context.', complexity: 2, userId: user?.id, tool: 'query' });
 
     return NextResponse.json({
       success: true,
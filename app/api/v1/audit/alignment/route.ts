@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { validateApiKey } from '@/lib/auth/api-guard';
+import { validateApiKey, enforcePartnerLimit } from '@/lib/auth/api-guard';
 import { GoogleGenAI, Type } from '@google/genai';
 
 export const runtime = 'nodejs';
@@ -12,6 +12,8 @@ export const runtime = 'nodejs';
 export async function POST(req: NextRequest) {
   const auth = await validateApiKey(req);
   if (!auth.authorized) return NextResponse.json({ error: auth.error }, { status: 401 });
+  const limited = await enforcePartnerLimit(req, auth.user!.id);
+  if (limited) return limited;
 
   try {
     const { content_transcript, target_slo } = await req.json();
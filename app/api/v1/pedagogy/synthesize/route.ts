@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { validateApiKey } from '@/lib/auth/api-guard';
+import { validateApiKey, enforcePartnerLimit } from '@/lib/auth/api-guard';
 import { GoogleGenAI } from '@google/genai';
 
 export const runtime = 'nodejs';
@@ -11,6 +11,8 @@ export const runtime = 'nodejs';
 export async function POST(req: NextRequest) {
   const auth = await validateApiKey(req);
   if (!auth.authorized) return NextResponse.json({ error: auth.error }, { status: 401 });
+  const limited = await enforcePartnerLimit(req, auth.user!.id);
+  if (limited) return limited;
 
   try {
     const { slo_code, type = 'lesson_plan', context = '' } = await req.json();
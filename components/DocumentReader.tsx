@@ -11,6 +11,7 @@ import { Document } from '../types';
 import { renderSTEM } from '../lib/math-renderer';
 import { supabase } from '../lib/supabase';
 import { parseSLOCode } from '../lib/rag/slo-parser';
+import { normalizeSLO } from '../lib/rag/slo-extractor';
 
 interface SloRecord {
   id: string;
@@ -21,12 +22,19 @@ interface SloRecord {
   created_at: string;
 }
 
+// A chunk cited in a chat answer: shown above the ledger, its SLOs highlighted
+export interface ReaderFocus {
+  chunkId: string;
+  sloCodes: string[];
+}
+
 interface DocumentReaderProps {
   document: Document;
   onClose: () => void;
+  focus?: ReaderFocus;
 }
 
-export const DocumentReader: React.FC<DocumentReaderProps> = ({ document: activeDoc, onClose }) => {
+export const DocumentReader: React.FC<DocumentReaderProps> = ({ document: activeDoc, onClose, focus }) => {
   const [copiedCode, setCopiedCode] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [viewMode, setViewMode] = useState<'ledger' | 'raw'>('ledger');
@@ -34,6 +42,7 @@ export const DocumentReader: React.FC<DocumentReaderProps> = ({ document: active
   const [loading, setLoading] = useState(true);
   const [isReindexing, setIsReindexing] = useState(false);
   const [jobStatus, setJobStatus] = useState<string | null>(null);
+  const [citedChunk, setCitedChunk] = useState<{ text: string; sloCodes: string[] } | null>(null);
 
   const fetchSlos = async () => {
     setLoading(true);
@@ -92,6 +101,32 @@ export const DocumentReader: React.FC<DocumentReaderProps> = ({ document: active
     fetchSlos();
   }, [activeDoc.id]);
 
+  useEffect(() => {
+    setCitedChunk(null);
+    if (!focus) return;
+    setViewMode('ledger');
+    supabase.from('document_chunks')
+      .select('chunk_text, slo_codes')
+      .eq('id', focus.chunkId)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (data) setCitedChunk({ text: data.chunk_text, sloCodes: data.slo_codes || focus.sloCodes });
+      });
+  }, [focus?.chunkId]);
+
+  const focusedCodes = useMemo(
+    () => new Set((citedChunk?.sloCodes || focus?.sloCodes || []).map(normalizeSLO)),
+    [citedChunk, focus]
+  );
+
+  // Scroll to the first cited SLO once the ledger is in, else to the passage
+  useEffect(() => {
+    if (!focus || loading) return;
+    const first = slos.find(s => focusedCodes.has(normalizeSLO(s.slo_code)));
+    const target = window.document.getElementById(first ? `slo-${first.id}` : 'cited-chunk');
+    target?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focus, loading, slos, focusedCodes, citedChunk]);
+
   const handleCopy = (code: string) => {
     navigator.clipboard.writeText(code);
     setCopiedCode(code);
@@ -115,6 +150,21 @@ export const DocumentReader: React.FC<DocumentReaderProps> = ({ document: active
     return groups;
   }, [slos, searchTerm]);
 
+  // The cited passage shows whether or not the ledger has SLOs
+  const citedPassage = citedChunk && (
+    <section id="cited-chunk" className="cited-highlight p-8 rounded-[2rem] border border-amber-200 dark:border-amber-900/40 animate-in fade-in duration-500">
+      <div className="flex items-center gap-3 mb-4">
+        <Hash size={16} className="text-amber-500" />
+        <span className="text-[10px] font-black uppercase tracking-[0.3em] text-amber-600">Cited Passage</span>
+        {citedChunk.sloCodes.map(code => (
+          <span key={code} className="text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded bg-white dark:bg-white/10 text-slate-600 dark:text-slate-300">{code}</span>
+        ))}
+      </div>
+      <div className="prose dark:prose-invert max-w-none text-sm leading-relaxed"
+           dangerouslySetInnerHTML={{ __html: renderSTEM(citedChunk.text) }} />
+    </section>
+  );
+
   const isWorking = jobStatus === 'processing' || jobStatus === 'indexing' || jobStatus === 'draft';
 
   return (
@@ -189,6 +239,7 @@ export const DocumentReader: React.FC<DocumentReaderProps> = ({ document: active
             </div>
           ) : slos.length > 0 ? (
             <div className="space-y-24">
+              {citedPassage}
               {(Object.entries(groupedSlos) as [string, SloRecord[]][]).sort().map(([domain, items]) => (
                 <section key={domain} className="animate-in fade-in slide-in-from-bottom-4 duration-700">
                    <div className="flex items-center gap-6 mb-8">
@@ -204,7 +255,7 @@ export const DocumentReader: React.FC<DocumentReaderProps> = ({ document: active
 
                    <div className="grid grid-cols-1 gap-4">
                       {items.map((slo) => (
-                        <div key={slo.id} className="group relative flex flex-col md:flex-row gap-6 p-6 bg-white dark:bg-[#080808] rounded-[2rem] border border-slate-100 dark:border-white/5 hover:border-indigo-400 hover:shadow-2xl transition-all duration-300">
+                        <div key={slo.id} id={`slo-${slo.id}`} className={`group relative flex flex-col md:flex-row gap-6 p-6 bg-white dark:bg-[#080808] rounded-[2rem] border border-slate-100 dark:border-white/5 hover:border-indigo-400 hover:shadow-2xl transition-all duration-300 ${focusedCodes.has(normalizeSLO(slo.slo_code)) ? 'cited-highlight' : ''}`}>
                            <div className="md:w-48 shrink-0 space-y-4">
                              <button 
                                onClick={() => handleCopy(slo.slo_code)}
@@ -228,36 +279,39 @@ export const DocumentReader: React.FC<DocumentReaderProps> = ({ document: active
               ))}
             </div>
           ) : (
-            <div className="flex flex-col items-center justify-center py-40 text-center animate-in zoom-in-95 duration-700">
-               <div className="w-24 h-24 bg-amber-50 dark:bg-amber-950/20 rounded-[2.5rem] flex items-center justify-center mb-10 text-amber-600">
-                 {isWorking ? <Loader2 size={48} className="animate-spin" /> : <AlertTriangle size={48} />}
-               </div>
-               <h3 className="text-2xl font-black uppercase tracking-[0.2em] text-slate-900 dark:text-white">
-                 {isWorking ? 'Extraction in Progress' : 'Sync Protocol Interrupted'}
-               </h3>
-               <p className="text-sm font-medium text-slate-500 max-w-sm mt-4 leading-relaxed italic">
-                 {isWorking 
-                   ? 'The neural grid is currently linearizing your document. Click refresh below to check for completion.' 
-                   : 'The curriculum ledger for this document is currently empty. This happens if the document was uploaded before the database migration.'}
-               </p>
-               <div className="flex gap-4 mt-12">
-                 <button 
-                   onClick={fetchSlos}
-                   className="flex items-center gap-3 px-8 py-5 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-[2rem] font-black text-xs uppercase tracking-widest shadow-sm hover:bg-slate-200 transition-all"
-                 >
-                   <RefreshCw size={16} /> {isWorking ? 'Poll Node' : 'Refresh Grid'}
-                 </button>
-                 {!isWorking && (
+            <div className="space-y-24">
+              {citedPassage}
+              <div className="flex flex-col items-center justify-center py-40 text-center animate-in zoom-in-95 duration-700">
+                 <div className="w-24 h-24 bg-amber-50 dark:bg-amber-950/20 rounded-[2.5rem] flex items-center justify-center mb-10 text-amber-600">
+                   {isWorking ? <Loader2 size={48} className="animate-spin" /> : <AlertTriangle size={48} />}
+                 </div>
+                 <h3 className="text-2xl font-black uppercase tracking-[0.2em] text-slate-900 dark:text-white">
+                   {isWorking ? 'Extraction in Progress' : 'Sync Protocol Interrupted'}
+                 </h3>
+                 <p className="text-sm font-medium text-slate-500 max-w-sm mt-4 leading-relaxed italic">
+                   {isWorking 
+                     ? 'The neural grid is currently linearizing your document. Click refresh below to check for completion.' 
+                     : 'The curriculum ledger for this document is currently empty. This happens if the document was uploaded before the database migration.'}
+                 </p>
+                 <div className="flex gap-4 mt-12">
                    <button 
-                     onClick={handleReindex}
-                     disabled={isReindexing}
-                     className="flex items-center gap-3 px-10 py-5 bg-indigo-600 text-white rounded-[2rem] font-black text-xs uppercase tracking-widest shadow-2xl hover:bg-indigo-700 active:scale-95 transition-all disabled:opacity-50"
+                     onClick={fetchSlos}
+                     className="flex items-center gap-3 px-8 py-5 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-[2rem] font-black text-xs uppercase tracking-widest shadow-sm hover:bg-slate-200 transition-all"
                    >
-                     {isReindexing ? <RefreshCw className="animate-spin" size={16}/> : <Zap size={16} />} 
-                     {isReindexing ? 'Analyzing...' : 'Repair & Re-Index'}
+                     <RefreshCw size={16} /> {isWorking ? 'Poll Node' : 'Refresh Grid'}
                    </button>
-                 )}
-               </div>
+                   {!isWorking && (
+                     <button 
+                       onClick={handleReindex}
+                       disabled={isReindexing}
+                       className="flex items-center gap-3 px-10 py-5 bg-indigo-600 text-white rounded-[2rem] font-black text-xs uppercase tracking-widest shadow-2xl hover:bg-indigo-700 active:scale-95 transition-all disabled:opacity-50"
+                     >
+                       {isReindexing ? <RefreshCw className="animate-spin" size={16}/> : <Zap size={16} />} 
+                       {isReindexing ? 'Analyzing...' : 'Repair & Re-Index'}
+                     </button>
+                   )}
+                 </div>
+              </div>
             </div>
           )}
         </div>
@@ -0,0 +1,141 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Target, RefreshCcw, Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { GoldenQuestion } from '../lib/eval/rag-metrics';
+
+const EMPTY_DRAFT = { documentId: '', question: '', expectedSlos: '', expectedExcerpt: '' };
+
+const GoldenSetPanel: React.FC = () => {
+  const [questions, setQuestions] = useState<GoldenQuestion[]>([]);
+  const [documents, setDocuments] = useState<Array<{ id: string; name: string }>>([]);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchQuestions();
+    supabase.from('documents').select('id, name').order('name').then(({ data }) => setDocuments(data || []));
+  }, []);
+
+  const authedFetch = async (query = '', init?: RequestInit) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    const res = await fetch(`/api/admin/golden-sets${query}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${session?.access_token}` }
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setIssues(data.issues || []);
+      throw new Error(data.error || 'Golden set request failed');
+    }
+    setIssues([]);
+    return data;
+  };
+
+  const fetchQuestions = async () => {
+    setLoading(true);
+    try {
+      setQuestions((await authedFetch()).questions || []);
+    } catch (e: any) {
+      setMessage(e.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    setSaving(true);
+    try {
+      await authedFetch('', {
+        method: 'POST',
+        body: JSON.stringify({
+          documentId: draft.documentId,
+          question: draft.question,
+          expectedSlos: draft.expectedSlos.split(',').map(s => s.trim()).filter(Boolean),
+          expectedExcerpt: draft.expectedExcerpt
+        })
+      });
+      setDraft({ ...EMPTY_DRAFT, documentId: draft.documentId });
+      setMessage('Question added.');
+      await fetchQuestions();
+    } catch (e: any) {
+      setMessage(e.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      await authedFetch(`?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+      setQuestions(prev => prev.filter(q => q.id !== id));
+    } catch (e: any) {
+      setMessage(e.message);
+    }
+  };
+
+  const docName = (id: string) => documents.find(d => d.id === id)?.name || id.slice(0, 8);
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] border border-slate-100 dark:border-white/5 shadow-sm p-6 space-y-6">
+      <div className="flex justify-between items-center gap-4">
+        <h3 className="text-md font-bold text-slate-900 dark:text-white uppercase tracking-tight flex items-center gap-2">
+          <Target size={16} className="text-indigo-600" /> Golden Questions
+        </h3>
+        <button onClick={fetchQuestions} className="p-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-400 hover:text-indigo-600">
+          <RefreshCcw size={12} className={loading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl p-4 max-h-72 overflow-y-auto custom-scrollbar">
+        {questions.length === 0 ? (
+          <p className="text-[9px] text-slate-400 italic text-center py-2">No golden questions yet.</p>
+        ) : (
+          <table className="w-full text-[9px]">
+            <tbody className="divide-y divide-slate-100 dark:divide-white/5">
+              {questions.map(q => (
+                <tr key={q.id}>
+                  <td className="py-1.5 font-bold text-slate-400 uppercase truncate max-w-[120px]">{docName(q.documentId)}</td>
+                  <td className="py-1.5 font-semibold text-slate-700 dark:text-slate-200">{q.question}</td>
+                  <td className="py-1.5 text-right font-mono text-indigo-600">{q.expectedSlos.join(', ') || (q.expectedExcerpt ? 'excerpt' : 'chunk')}</td>
+                  <td className="py-1.5 text-right">
+                    <button onClick={() => handleRemove(q.id)} title="Remove question" className="p-1 rounded text-slate-400 hover:text-rose-500">
+                      <Trash2 size={10} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-2">
+        <select value={draft.documentId} onChange={e => setDraft({ ...draft, documentId: e.target.value })} className="md:w-48 px-3 py-2 bg-slate-50 dark:bg-slate-800 rounded-xl text-[10px] font-bold outline-none">
+          <option value="">Document…</option>
+          {documents.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+        </select>
+        <input value={draft.question} onChange={e => setDraft({ ...draft, question: e.target.value })} placeholder="Question a teacher would ask" className="flex-1 px-3 py-2 bg-slate-50 dark:bg-slate-800 rounded-xl text-[10px] font-semibold outline-none" />
+        <input value={draft.expectedSlos} onChange={e => setDraft({ ...draft, expectedSlos: e.target.value })} placeholder="Expected SLOs, e.g. B09A01" className="md:w-40 px-3 py-2 bg-slate-50 dark:bg-slate-800 rounded-xl text-[10px] font-mono outline-none" />
+        <input value={draft.expectedExcerpt} onChange={e => setDraft({ ...draft, expectedExcerpt: e.target.value })} placeholder="Expected chunk excerpt (optional)" className="md:w-48 px-3 py-2 bg-slate-50 dark:bg-slate-800 rounded-xl text-[10px] font-semibold outline-none" />
+        <button onClick={handleAdd} disabled={saving || !draft.documentId || !draft.question.trim()} className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-[9px] font-bold uppercase tracking-widest flex items-center gap-1 disabled:opacity-50">
+          {saving ? <RefreshCcw size={10} className="animate-spin" /> : <Plus size={10} />} Add
+        </button>
+      </div>
+
+      {issues.length > 0 && (
+        <div className="p-3 bg-rose-50 dark:bg-rose-950/20 rounded-xl space-y-1">
+          <p className="text-[8px] font-bold uppercase tracking-widest text-rose-600 flex items-center gap-1"><AlertTriangle size={10} /> Validation</p>
+          {issues.map(issue => <p key={issue} className="text-[9px] text-rose-500 font-mono">{issue}</p>)}
+        </div>
+      )}
+      {message && issues.length === 0 && <p className="text-[10px] font-semibold text-slate-500">{message}</p>}
+    </div>
+  );
+};
+
+export default GoldenSetPanel;
@@ -0,0 +1,190 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Lock, RefreshCcw, Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { PII_KINDS, PiiKind, PiiPolicy } from '../lib/ai/pii-redactor';
+import type { RedactionAuditEntry } from '../lib/ai/pii-shield';
+
+interface PrivacyReport {
+  defaults: PiiPolicy;
+  policies: PiiPolicy[];
+  audit: RedactionAuditEntry[];
+}
+
+const KIND_LABELS: Record<PiiKind, string> = {
+  name: 'Names',
+  nationalId: 'CNIC / B-form',
+  phone: 'Phones',
+  roster: 'Rosters',
+};
+
+const EMPTY_DRAFT = {
+  workspace: '*',
+  enabled: true,
+  kinds: { name: true, nationalId: true, phone: true, roster: true } as Record<PiiKind, boolean>,
+  knownNames: ''
+};
+
+const PrivacyPanel: React.FC = () => {
+  const [report, setReport] = useState<PrivacyReport | null>(null);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchPrivacy();
+  }, []);
+
+  const authedFetch = async (init?: RequestInit) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    const res = await fetch('/api/admin/privacy', {
+      ...init,
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${session?.access_token}` }
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setIssues(data.issues || []);
+      throw new Error(data.error || 'Privacy fetch failed');
+    }
+    setIssues([]);
+    return data;
+  };
+
+  const fetchPrivacy = async () => {
+    setLoading(true);
+    try {
+      setReport(await authedFetch());
+    } catch (e: any) {
+      setMessage(e.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const mutate = async (payload: Record<string, any>) => {
+    setSaving(true);
+    try {
+      const data = await authedFetch({ method: 'POST', body: JSON.stringify(payload) });
+      setMessage(data.message);
+      await fetchPrivacy();
+      return true;
+    } catch (e: any) {
+      setMessage(e.message);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const knownNames = draft.knownNames.split(/[,\n]/).map(n => n.trim()).filter(Boolean);
+    if (await mutate({ ...draft, knownNames })) setDraft(EMPTY_DRAFT);
+  };
+
+  const handleEdit = (p: PiiPolicy) => {
+    setDraft({ workspace: p.workspace, enabled: p.enabled, kinds: { ...p.kinds }, knownNames: p.knownNames.join(', ') });
+  };
+
+  const kindsSummary = (p: PiiPolicy) =>
+    p.enabled ? PII_KINDS.filter(k => p.kinds[k]).map(k => KIND_LABELS[k]).join(' · ') || 'nothing' : 'off';
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] border border-slate-100 dark:border-white/5 shadow-sm p-6 space-y-6">
+      <div className="flex justify-between items-center gap-4">
+        <h3 className="text-md font-bold text-slate-900 dark:text-white uppercase tracking-tight flex items-center gap-2">
+          <Lock size={16} className="text-indigo-600" /> Student Privacy
+        </h3>
+        <button onClick={fetchPrivacy} className="p-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-400 hover:text-indigo-600">
+          <RefreshCcw size={12} className={loading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      {report && (
+        <>
+          <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl p-4">
+            <h4 className="text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-3">Redaction Policies</h4>
+            <table className="w-full text-[9px]">
+              <tbody className="divide-y divide-slate-100 dark:divide-white/5">
+                <tr className="text-slate-400">
+                  <td className="py-1.5 uppercase font-bold">*</td>
+                  <td className="py-1.5 italic">built-in default</td>
+                  <td className="py-1.5 text-right font-mono">{kindsSummary(report.defaults)}</td>
+                  <td />
+                </tr>
+                {report.policies.map(p => (
+                  <tr key={p.workspace}>
+                    <td className="py-1.5 font-bold text-slate-700 dark:text-slate-200 truncate max-w-[140px]">
+                      <button onClick={() => handleEdit(p)} className="hover:text-indigo-600">{p.workspace}</button>
+                    </td>
+                    <td className="py-1.5 text-slate-400">{p.knownNames.length} known names</td>
+                    <td className={`py-1.5 text-right font-mono ${p.enabled ? 'text-indigo-600' : 'text-rose-500'}`}>{kindsSummary(p)}</td>
+                    <td className="py-1.5 text-right">
+                      <button onClick={() => mutate({ workspace: p.workspace, remove: true })} disabled={saving} title="Remove policy" className="p-1 rounded text-slate-400 hover:text-rose-500">
+                        <Trash2 size={10} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex flex-col md:flex-row gap-2">
+              <input value={draft.workspace} onChange={e => setDraft({ ...draft, workspace: e.target.value })} placeholder="* or workspace id" className="md:w-48 px-3 py-2 bg-slate-50 dark:bg-slate-800 rounded-xl text-[10px] font-semibold outline-none" />
+              <label className="flex items-center gap-1 px-3 py-2 bg-slate-50 dark:bg-slate-800 rounded-xl text-[9px] font-bold uppercase text-slate-500">
+                <input type="checkbox" checked={draft.enabled} onChange={e => setDraft({ ...draft, enabled: e.target.checked })} /> Enabled
+              </label>
+              {PII_KINDS.map(kind => (
+                <label key={kind} className="flex items-center gap-1 px-3 py-2 bg-slate-50 dark:bg-slate-800 rounded-xl text-[9px] font-bold uppercase text-slate-500">
+                  <input type="checkbox" checked={draft.kinds[kind]} disabled={!draft.enabled} onChange={e => setDraft({ ...draft, kinds: { ...draft.kinds, [kind]: e.target.checked } })} /> {KIND_LABELS[kind]}
+                </label>
+              ))}
+            </div>
+            <div className="flex flex-col md:flex-row gap-2">
+              <input value={draft.knownNames} onChange={e => setDraft({ ...draft, knownNames: e.target.value })} placeholder="Known student names, comma separated (always redacted)" className="flex-1 px-3 py-2 bg-slate-50 dark:bg-slate-800 rounded-xl text-[10px] font-semibold outline-none" />
+              <button onClick={handleSave} disabled={saving || !draft.workspace.trim()} className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-[9px] font-bold uppercase tracking-widest flex items-center gap-1 disabled:opacity-50">
+                {saving ? <RefreshCcw size={10} className="animate-spin" /> : <Plus size={10} />} Save
+              </button>
+            </div>
+          </div>
+
+          <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl p-4 max-h-64 overflow-y-auto custom-scrollbar">
+            <h4 className="text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-3">Redaction Audit</h4>
+            {report.audit.length === 0 ? (
+              <p className="text-[9px] text-slate-400 italic text-center py-2">Nothing redacted yet.</p>
+            ) : (
+              <table className="w-full text-[9px]">
+                <tbody className="divide-y divide-slate-100 dark:divide-white/5">
+                  {report.audit.map(entry => (
+                    <tr key={entry.id}>
+                      <td className="py-1.5 text-slate-400 font-mono">{new Date(entry.createdAt).toLocaleString()}</td>
+                      <td className="py-1.5 font-bold text-slate-700 dark:text-slate-200 truncate max-w-[120px]">{entry.workspace || '—'}</td>
+                      <td className="py-1.5 text-slate-500 uppercase">{entry.tool || entry.taskType}</td>
+                      <td className="py-1.5 text-right font-mono text-indigo-600">
+                        {PII_KINDS.filter(k => entry.counts[k]).map(k => `${KIND_LABELS[k]} ${entry.counts[k]}`).join(' · ')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+
+      {issues.length > 0 && (
+        <div className="p-3 bg-rose-50 dark:bg-rose-950/20 rounded-xl space-y-1">
+          <p className="text-[8px] font-bold uppercase tracking-widest text-rose-600 flex items-center gap-1"><AlertTriangle size={10} /> Validation</p>
+          {issues.map(issue => <p key={issue} className="text-[9px] text-rose-500 font-mono">{issue}</p>)}
+        </div>
+      )}
+      {message && issues.length === 0 && <p className="text-[10px] font-semibold text-slate-500">{message}</p>}
+    </div>
+  );
+};
+
+export default PrivacyPanel;
@@ -0,0 +1,224 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { RefreshCw, FlaskConical, Plus, Archive, AlertTriangle, CheckCircle2, Trophy } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { PromptVariant, PromptScope, VariantStats, PROMPT_SCOPES, CONTROL_VARIANT } from '../lib/ai/prompt-variants';
+
+interface PromptExperimentsPanelProps {
+  masterPrompt: string;
+}
+
+const WINDOWS = [7, 30, 90];
+
+const pct = (value: number) => `${Math.round(value * 100)}%`;
+
+const PromptExperimentsPanel: React.FC<PromptExperimentsPanelProps> = ({ masterPrompt }) => {
+  const [scope, setScope] = useState<PromptScope>('master_plan');
+  const [days, setDays] = useState(30);
+  const [variants, setVariants] = useState<PromptVariant[]>([]);
+  const [stats, setStats] = useState<VariantStats[]>([]);
+  const [controls, setControls] = useState<Record<string, string>>({});
+  const [draft, setDraft] = useState({ label: '', body: '', traffic: 10 });
+  const [issues, setIssues] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchExperiments();
+  }, [days]);
+
+  const authedFetch = async (query: string, init?: RequestInit) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    const res = await fetch(`/api/brain/prompts${query}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${session?.access_token}` }
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setIssues(data.issues || []);
+      throw new Error(data.error || 'Experiment gateway refused.');
+    }
+    setIssues([]);
+    return data;
+  };
+
+  const fetchExperiments = async () => {
+    setIsLoading(true);
+    try {
+      const data = await authedFetch(`?days=${days}`);
+      setVariants(data.variants);
+      setStats(data.stats);
+      setControls(data.controls);
+    } catch (e: any) {
+      setMessage(e.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const mutate = async (payload: Record<string, any>) => {
+    setIsSaving(true);
+    try {
+      const data = await authedFetch('', { method: 'POST', body: JSON.stringify(payload) });
+      setMessage(data.message);
+      await fetchExperiments();
+      return true;
+    } catch (e: any) {
+      setMessage(e.message);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (await mutate({ scope, ...draft })) setDraft({ label: '', body: '', traffic: 10 });
+  };
+
+  const controlBody = scope === 'master' ? masterPrompt : controls[scope] || '';
+  const scoped = variants.filter(v => v.scope === scope);
+  const claimed = scoped.filter(v => v.status === 'active').reduce((sum, v) => sum + v.traffic, 0);
+  const scopedStats = stats.filter(s => s.scope === scope);
+  const best = scopedStats.filter(s => s.generations >= 20).sort((a, b) => b.keepRate - a.keepRate)[0];
+  const labelOf = (variantId: string) => {
+    if (variantId === CONTROL_VARIANT) return 'Control (live)';
+    const v = variants.find(x => x.id === variantId);
+    return v ? `v${v.version} · ${v.label}` : variantId.slice(0, 8);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      <div className="lg:col-span-2 space-y-8">
+        <div className="bg-white dark:bg-slate-900 p-10 rounded-[3.5rem] border border-slate-200 dark:border-white/5 shadow-sm space-y-8">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <div>
+              <h3 className="text-xs font-black uppercase tracking-[0.2em] text-slate-400 flex items-center gap-2"><FlaskConical size={14} /> Prompt Experiments</h3>
+              <p className="text-[10px] text-indigo-600 font-bold mt-1 uppercase tracking-widest">Control serves {100 - claimed}% of teachers</p>
+            </div>
+            <div className="flex gap-1 bg-slate-100 dark:bg-slate-800 p-1 rounded-xl">
+              {WINDOWS.map(w => (
+                <button key={w} onClick={() => setDays(w)} className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest ${days === w ? 'bg-white dark:bg-slate-900 text-indigo-600 shadow-sm' : 'text-slate-500'}`}>{w}d</button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {PROMPT_SCOPES.map(s => (
+              <button key={s} onClick={() => setScope(s)} className={`px-4 py-2 rounded-xl text-[9px] font-bold uppercase tracking-widest transition-all ${scope === s ? 'bg-slate-900 text-white dark:bg-indigo-600' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-indigo-600'}`}>
+                {s.replace(/_/g, ' ')}
+              </button>
+            ))}
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center gap-3 text-slate-400 text-[10px] font-bold uppercase tracking-widest"><RefreshCw size={14} className="animate-spin" /> Loading outcomes...</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-[10px]">
+                <thead className="bg-slate-50 dark:bg-slate-800 text-slate-400 font-black uppercase tracking-widest text-[8px]">
+                  <tr>
+                    <th className="p-3">Variant</th>
+                    <th className="p-3 text-right">Generated</th>
+                    <th className="p-3 text-right">Exported</th>
+                    <th className="p-3 text-right">Accepted</th>
+                    <th className="p-3 text-right">Edited</th>
+                    <th className="p-3 text-right">Abandoned</th>
+                    <th className="p-3 text-right">Keep Rate</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50 dark:divide-white/5">
+                  {scopedStats.length === 0 && (
+                    <tr><td colSpan={7} className="p-6 text-center text-slate-400 italic">No tagged artifacts in the last {days} days.</td></tr>
+                  )}
+                  {scopedStats.map(row => (
+                    <tr key={row.variantId}>
+                      <td className="p-3 font-bold flex items-center gap-2">
+                        {best?.variantId === row.variantId && <Trophy size={12} className="text-amber-500" />}
+                        {labelOf(row.variantId)}
+                      </td>
+                      <td className="p-3 text-right font-mono">{row.generations}</td>
+                      <td className="p-3 text-right font-mono">{row.export}</td>
+                      <td className="p-3 text-right font-mono">{row.accept}</td>
+                      <td className="p-3 text-right font-mono">{row.edit}</td>
+                      <td className="p-3 text-right font-mono">{row.abandon}</td>
+                      <td className="p-3 text-right font-black text-indigo-600">{pct(row.keepRate)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-[9px] text-slate-400 mt-3 italic">Keep rate = artifacts exported or accepted. A leader is only marked after 20 generations.</p>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white dark:bg-slate-900 p-10 rounded-[3.5rem] border border-slate-200 dark:border-white/5 shadow-sm space-y-6">
+          <h3 className="text-xs font-black uppercase tracking-[0.2em] text-slate-400 flex items-center gap-2"><Plus size={14} /> New Variant · {scope.replace(/_/g, ' ')}</h3>
+          <div className="flex flex-col md:flex-row gap-3">
+            <input value={draft.label} onChange={e => setDraft({ ...draft, label: e.target.value })} placeholder="Label (e.g. shorter objectives)" className="flex-1 px-4 py-3 bg-slate-50 dark:bg-slate-800 rounded-2xl text-[10px] font-semibold outline-none focus:ring-2 focus:ring-indigo-500" />
+            <div className="flex items-center gap-2 px-4 bg-slate-50 dark:bg-slate-800 rounded-2xl">
+              <input type="number" min={0} max={100} value={draft.traffic} onChange={e => setDraft({ ...draft, traffic: Number(e.target.value) })} className="w-14 py-3 bg-transparent text-[10px] font-bold outline-none" />
+              <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">% traffic</span>
+            </div>
+          </div>
+          <textarea
+            value={draft.body}
+            onChange={e => setDraft({ ...draft, body: e.target.value })}
+            placeholder="Variant prompt body"
+            className="w-full h-64 p-6 bg-slate-50 dark:bg-slate-800 rounded-[2rem] font-mono text-[11px] leading-relaxed outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
+          />
+          <div className="flex gap-2">
+            <button onClick={() => setDraft({ ...draft, body: controlBody })} className="px-5 py-3 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-200 transition-all">
+              Start From Control
+            </button>
+            <button onClick={handleCreate} disabled={isSaving || !draft.body.trim()} className="px-8 py-3 bg-indigo-600 text-white rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-xl hover:bg-indigo-700 transition-all flex items-center gap-2 disabled:opacity-50">
+              {isSaving ? <RefreshCw className="animate-spin" size={14} /> : <FlaskConical size={14} />} Launch Variant
+            </button>
+          </div>
+          {issues.length > 0 && (
+            <div className="p-5 bg-rose-50 dark:bg-rose-950/20 border border-rose-100 dark:border-rose-900/30 rounded-2xl space-y-1">
+              <p className="text-[9px] font-black uppercase tracking-widest text-rose-600 flex items-center gap-2"><AlertTriangle size={12} /> Validation</p>
+              {issues.map(issue => <p key={issue} className="text-[10px] text-rose-500 font-mono">{issue}</p>)}
+            </div>
+          )}
+          {message && issues.length === 0 && (
+            <p className="text-[10px] font-bold text-emerald-600 flex items-center gap-2"><CheckCircle2 size={12} /> {message}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-slate-950 text-white p-10 rounded-[3.5rem] shadow-2xl border border-white/5 space-y-6">
+        <h3 className="text-xl font-black uppercase tracking-tight text-indigo-300">Versions</h3>
+        <p className="text-xs text-slate-400 font-medium leading-relaxed italic">Teachers are bucketed by account, so each one keeps the same variant while traffic is unchanged.</p>
+        <div className="space-y-2">
+          {scoped.length === 0 && <p className="text-[10px] text-slate-500 italic">No variants yet. 100% on control.</p>}
+          {scoped.map(v => (
+            <div key={v.id} className={`p-3 rounded-2xl bg-white/5 space-y-2 ${v.status === 'retired' ? 'opacity-40' : ''}`}>
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-[10px] font-black uppercase tracking-widest truncate">v{v.version} · {v.label}</p>
+                {v.status === 'active' && (
+                  <button onClick={() => mutate({ id: v.id, status: 'retired' })} disabled={isSaving} title="Retire" className="p-1.5 rounded-lg bg-white/10 hover:bg-rose-600 transition-all"><Archive size={12} /></button>
+                )}
+              </div>
+              {v.status === 'active' ? (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number" min={0} max={100} defaultValue={v.traffic}
+                    onBlur={e => Number(e.target.value) !== v.traffic && mutate({ id: v.id, traffic: Number(e.target.value) })}
+                    className="w-16 px-2 py-1 bg-white/10 rounded-lg text-[10px] font-bold outline-none"
+                  />
+                  <span className="text-[9px] text-slate-400 uppercase tracking-widest">% traffic</span>
+                </div>
+              ) : (
+                <p className="text-[9px] text-slate-500 uppercase tracking-widest">Retired</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptExperimentsPanel;
@@ -36,9 +36,9 @@ export const ProviderStatusBar: React.FC = () => {
           <div key={p.id} className="flex items-center gap-2.5 shrink-0 group">
              <div className={`w-1.5 h-1.5 rounded-full ${
                p.status === 'active' ? 'bg-emerald-500' :
-               p.status === 'rate-limited' ? 'bg-amber-500' :
-               p.status === 'failed' ? 'bg-rose-500' : 'bg-slate-700'
-             }`} />
+               p.status === 'rate-limited' || p.status === 'recovering' ? 'bg-amber-500' :
+               p.status === 'failed' || p.status === 'saturated' ? 'bg-rose-500' : 'bg-slate-700'
+             }`} title={p.lastError || undefined} />
              <div className="flex flex-col">
                 <div className="flex items-center gap-1.5">
                   <span className={`text-[10px] font-black uppercase tracking-tight ${p.status === 'disabled' ? 'text-slate-600' : 'text-slate-200'}`}>
@@ -49,6 +49,16 @@ export const ProviderStatusBar: React.FC = () => {
                 <div className="flex items-center gap-2">
                    <span className="text-[8px] font-bold text-slate-500 uppercase">{p.status}</span>
                    {p.status === 'active' && <span className="text-[8px] font-black text-indigo-400">SERVICE_ONLINE</span>}
+                   {p.breaker && p.breaker !== 'closed' && (
+                     <span className="text-[8px] font-black text-amber-400 uppercase">
+                       BREAKER_{p.breaker}{p.retryAt && p.breaker === 'open' ? ` · ${Math.max(0, Math.round((p.retryAt - Date.now()) / 1000))}s` : ''}
+                     </span>
+                   )}
+                   {p.status !== 'disabled' && typeof p.errorRate === 'number' && (
+                     <span className="text-[8px] font-bold text-slate-600">
+                       {Math.round(p.errorRate * 100)}% ERR{p.latencyMs ? ` · ${p.latencyMs}ms` : ''}
+                     </span>
+                   )}
                 </div>
              </div>
           </div>
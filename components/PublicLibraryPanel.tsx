@@ -0,0 +1,118 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Globe, RefreshCcw, Check, X, AlertTriangle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+
+interface SharedDocument {
+  id: string;
+  name: string;
+  subject: string;
+  gradeLevel: string;
+  ownerId: string;
+  isApproved: boolean;
+  createdAt: string;
+}
+
+const PublicLibraryPanel: React.FC = () => {
+  const [documents, setDocuments] = useState<SharedDocument[]>([]);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchDocuments();
+  }, []);
+
+  const authedFetch = async (init?: RequestInit) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    const res = await fetch('/api/admin/public-documents', {
+      ...init,
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${session?.access_token}` }
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setIssues(data.issues || []);
+      throw new Error(data.error || 'Public library fetch failed');
+    }
+    setIssues([]);
+    return data;
+  };
+
+  const fetchDocuments = async () => {
+    setLoading(true);
+    try {
+      setDocuments((await authedFetch()).documents);
+    } catch (e: any) {
+      setMessage(e.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const review = async (documentId: string, approved: boolean) => {
+    setSavingId(documentId);
+    try {
+      const data = await authedFetch({ method: 'POST', body: JSON.stringify({ documentId, approved }) });
+      setMessage(data.message);
+      await fetchDocuments();
+    } catch (e: any) {
+      setMessage(e.message);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const pending = documents.filter(d => !d.isApproved).length;
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] border border-slate-100 dark:border-white/5 shadow-sm p-6 space-y-6">
+      <div className="flex justify-between items-center gap-4">
+        <h3 className="text-md font-bold text-slate-900 dark:text-white uppercase tracking-tight flex items-center gap-2">
+          <Globe size={16} className="text-indigo-600" /> Public Library
+          {pending > 0 && <span className="px-2 py-0.5 bg-amber-50 text-amber-600 rounded-full text-[8px] font-black uppercase tracking-widest">{pending} awaiting review</span>}
+        </h3>
+        <button onClick={fetchDocuments} className="p-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-400 hover:text-indigo-600">
+          <RefreshCcw size={12} className={loading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      <table className="w-full text-[9px]">
+        <tbody className="divide-y divide-slate-100 dark:divide-white/5">
+          {documents.map(d => (
+            <tr key={d.id}>
+              <td className="py-1.5 font-semibold text-slate-700 dark:text-slate-200 truncate max-w-[180px]">{d.name}</td>
+              <td className="py-1.5 text-slate-400 uppercase">{d.subject} · Grade {d.gradeLevel}</td>
+              <td className={`py-1.5 font-bold uppercase ${d.isApproved ? 'text-emerald-600' : 'text-amber-600'}`}>{d.isApproved ? 'Approved' : 'Pending'}</td>
+              <td className="py-1.5 text-right">
+                {d.isApproved ? (
+                  <button onClick={() => review(d.id, false)} disabled={savingId === d.id} title="Revoke approval" className="p-1 rounded text-slate-400 hover:text-rose-500">
+                    <X size={10} />
+                  </button>
+                ) : (
+                  <button onClick={() => review(d.id, true)} disabled={savingId === d.id} title="Approve for every teacher's library search" className="p-1 rounded text-slate-400 hover:text-emerald-600">
+                    <Check size={10} />
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+          {!loading && documents.length === 0 && (
+            <tr><td className="py-3 text-slate-400 italic">No documents have been shared yet.</td></tr>
+          )}
+        </tbody>
+      </table>
+
+      {issues.length > 0 && (
+        <div className="p-3 bg-rose-50 dark:bg-rose-950/20 rounded-xl space-y-1">
+          <p className="text-[8px] font-bold uppercase tracking-widest text-rose-600 flex items-center gap-1"><AlertTriangle size={10} /> Validation</p>
+          {issues.map(issue => <p key={issue} className="text-[9px] text-rose-500 font-mono">{issue}</p>)}
+        </div>
+      )}
+      {message && issues.length === 0 && <p className="text-[10px] font-semibold text-slate-500">{message}</p>}
+    </div>
+  );
+};
+
+export default PublicLibraryPanel;
@@ -0,0 +1,172 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Gauge, RefreshCcw, Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import type { LimitPolicy, LimitScope, BucketSnapshot } from '../lib/ai/rate-limiter';
+
+interface LimitsReport {
+  defaults: Record<LimitScope, { capacity: number; refillPerMinute: number }>;
+  policies: LimitPolicy[];
+  buckets: BucketSnapshot[];
+}
+
+const SCOPES: LimitScope[] = ['provider', 'apiKey', 'user', 'workspace'];
+
+const SCOPE_HINTS: Record<LimitScope, string> = {
+  provider: 'engine id, e.g. groq',
+  apiKey: 'partner key fingerprint, e.g. key_3f9a…',
+  user: 'user id',
+  workspace: 'workspace id',
+};
+
+const EMPTY_DRAFT = { scope: 'user' as LimitScope, subject: '*', capacity: 20, refillPerMinute: 10 };
+
+const RateLimitsPanel: React.FC = () => {
+  const [report, setReport] = useState<LimitsReport | null>(null);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchLimits();
+  }, []);
+
+  const authedFetch = async (init?: RequestInit) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    const res = await fetch('/api/admin/limits', {
+      ...init,
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${session?.access_token}` }
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setIssues(data.issues || []);
+      throw new Error(data.error || 'Limits fetch failed');
+    }
+    setIssues([]);
+    return data;
+  };
+
+  const fetchLimits = async () => {
+    setLoading(true);
+    try {
+      setReport(await authedFetch());
+    } catch (e: any) {
+      setMessage(e.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const mutate = async (payload: Record<string, any>) => {
+    setSaving(true);
+    try {
+      const data = await authedFetch({ method: 'POST', body: JSON.stringify(payload) });
+      setMessage(data.message);
+      await fetchLimits();
+      return true;
+    } catch (e: any) {
+      setMessage(e.message);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (await mutate(draft)) setDraft(EMPTY_DRAFT);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] border border-slate-100 dark:border-white/5 shadow-sm p-6 space-y-6">
+      <div className="flex justify-between items-center gap-4">
+        <h3 className="text-md font-bold text-slate-900 dark:text-white uppercase tracking-tight flex items-center gap-2">
+          <Gauge size={16} className="text-indigo-600" /> Rate Limits
+        </h3>
+        <button onClick={fetchLimits} className="p-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-400 hover:text-indigo-600">
+          <RefreshCcw size={12} className={loading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      {report && (
+        <>
+          <div>
+            <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-2">Live Buckets</p>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {report.buckets.map(b => {
+                const fill = b.capacity > 0 ? b.remaining / b.capacity : 0;
+                return (
+                  <div key={`${b.scope}:${b.subject}`} className="p-3 bg-slate-50 dark:bg-slate-800/50 rounded-2xl space-y-2">
+                    <div className="flex justify-between text-[9px]">
+                      <span className="font-bold text-slate-700 dark:text-slate-200 truncate max-w-[110px]">{b.subject}</span>
+                      <span className="text-slate-400 uppercase">{b.scope}</span>
+                    </div>
+                    <div className="h-1.5 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full ${fill < 0.2 ? 'bg-rose-500' : fill < 0.5 ? 'bg-amber-500' : 'bg-emerald-500'}`}
+                        style={{ width: `${Math.round(fill * 100)}%` }}
+                      />
+                    </div>
+                    <p className="text-[8px] text-slate-400 font-mono">{b.remaining}/{b.capacity} · +{b.refillPerMinute}/min</p>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl p-4">
+            <h4 className="text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-3">Policies</h4>
+            <table className="w-full text-[9px]">
+              <tbody className="divide-y divide-slate-100 dark:divide-white/5">
+                {SCOPES.map(scope => (
+                  <tr key={`default:${scope}`} className="text-slate-400">
+                    <td className="py-1.5 uppercase font-bold">{scope}</td>
+                    <td className="py-1.5 italic">built-in default</td>
+                    <td className="py-1.5 text-right font-mono">{report.defaults[scope].capacity} burst · {report.defaults[scope].refillPerMinute}/min</td>
+                    <td />
+                  </tr>
+                ))}
+                {report.policies.map(p => (
+                  <tr key={`${p.scope}:${p.subject}`}>
+                    <td className="py-1.5 uppercase font-bold text-slate-700 dark:text-slate-200">{p.scope}</td>
+                    <td className="py-1.5 font-semibold text-slate-700 dark:text-slate-200 truncate max-w-[140px]">{p.subject}</td>
+                    <td className="py-1.5 text-right font-mono text-indigo-600">{p.capacity} burst · {p.refillPerMinute}/min</td>
+                    <td className="py-1.5 text-right">
+                      <button onClick={() => mutate({ scope: p.scope, subject: p.subject, remove: true })} disabled={saving} title="Remove override" className="p-1 rounded text-slate-400 hover:text-rose-500">
+                        <Trash2 size={10} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-col md:flex-row gap-2">
+            <select value={draft.scope} onChange={e => setDraft({ ...draft, scope: e.target.value as LimitScope })} className="px-3 py-2 bg-slate-50 dark:bg-slate-800 rounded-xl text-[10px] font-bold outline-none">
+              {SCOPES.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+            <input value={draft.subject} onChange={e => setDraft({ ...draft, subject: e.target.value })} placeholder={`* or ${SCOPE_HINTS[draft.scope]}`} className="flex-1 px-3 py-2 bg-slate-50 dark:bg-slate-800 rounded-xl text-[10px] font-semibold outline-none" />
+            <input type="number" min={1} value={draft.capacity} onChange={e => setDraft({ ...draft, capacity: Number(e.target.value) })} title="Burst capacity" className="w-20 px-3 py-2 bg-slate-50 dark:bg-slate-800 rounded-xl text-[10px] font-bold outline-none" />
+            <input type="number" min={1} value={draft.refillPerMinute} onChange={e => setDraft({ ...draft, refillPerMinute: Number(e.target.value) })} title="Refill per minute" className="w-20 px-3 py-2 bg-slate-50 dark:bg-slate-800 rounded-xl text-[10px] font-bold outline-none" />
+            <button onClick={handleSave} disabled={saving || !draft.subject.trim()} className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-[9px] font-bold uppercase tracking-widest flex items-center gap-1 disabled:opacity-50">
+              {saving ? <RefreshCcw size={10} className="animate-spin" /> : <Plus size={10} />} Save
+            </button>
+          </div>
+        </>
+      )}
+
+      {issues.length > 0 && (
+        <div className="p-3 bg-rose-50 dark:bg-rose-950/20 rounded-xl space-y-1">
+          <p className="text-[8px] font-bold uppercase tracking-widest text-rose-600 flex items-center gap-1"><AlertTriangle size={10} /> Validation</p>
+          {issues.map(issue => <p key={issue} className="text-[9px] text-rose-500 font-mono">{issue}</p>)}
+        </div>
+      )}
+      {message && issues.length === 0 && <p className="text-[10px] font-semibold text-slate-500">{message}</p>}
+    </div>
+  );
+};
+
+export default RateLimitsPanel;
@@ -0,0 +1,249 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+  RefreshCw, Save, Plus, Trash2, ArrowUp, ArrowDown,
+  RotateCcw, History, AlertTriangle, CheckCircle2, Route
+} from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import {
+  RoutingTable, RoutingEntry, RoutingConfig,
+  TASK_TYPES, ROUTABLE_ENGINES, validateRoutingTable
+} from '../lib/ai/routing-table';
+import type { TaskType, GridEngine } from '../lib/ai/model-orchestrator';
+
+interface RoutingVersion {
+  version: number;
+  notes?: string;
+  isActive: boolean;
+  createdAt: string;
+}
+
+const numberOrUndefined = (value: string) => value.trim() === '' ? undefined : Number(value);
+
+const RoutingTableEditor: React.FC = () => {
+  const [table, setTable] = useState<RoutingTable | null>(null);
+  const [defaults, setDefaults] = useState<RoutingTable | null>(null);
+  const [engines, setEngines] = useState<GridEngine[]>(ROUTABLE_ENGINES);
+  const [active, setActive] = useState<RoutingConfig | null>(null);
+  const [versions, setVersions] = useState<RoutingVersion[]>([]);
+  const [selectedTask, setSelectedTask] = useState<TaskType>('CHAT_LOOKUP');
+  const [notes, setNotes] = useState('');
+  const [issues, setIssues] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchRouting();
+  }, []);
+
+  const authedFetch = async (init?: RequestInit) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    const res = await fetch('/api/brain/routing', {
+      ...init,
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${session?.access_token}` }
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setIssues(data.issues || []);
+      throw new Error(data.error || 'Routing gateway refused.');
+    }
+    return data;
+  };
+
+  const fetchRouting = async () => {
+    setIsLoading(true);
+    try {
+      const data = await authedFetch();
+      setActive(data.active);
+      setTable(data.active.table);
+      setDefaults(data.defaults);
+      if (data.engines) setEngines(data.engines);
+      setVersions(data.versions);
+      setIssues([]);
+    } catch (e: any) {
+      setMessage(e.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateChain = (task: TaskType, chain: RoutingEntry[]) => {
+    if (!table) return;
+    const next = { ...table, [task]: chain };
+    setTable(next);
+    setIssues(validateRoutingTable(next, engines));
+    setMessage(null);
+  };
+
+  const updateEntry = (index: number, patch: Partial<RoutingEntry>) => {
+    const chain = table![selectedTask].map((entry, i) => i === index ? { ...entry, ...patch } : entry);
+    updateChain(selectedTask, chain);
+  };
+
+  const moveEntry = (index: number, delta: number) => {
+    const chain = [...table![selectedTask]];
+    const target = index + delta;
+    if (target < 0 || target >= chain.length) return;
+    [chain[index], chain[target]] = [chain[target], chain[index]];
+    updateChain(selectedTask, chain);
+  };
+
+  const handleSave = async () => {
+    if (!table) return;
+    const localIssues = validateRoutingTable(table, engines);
+    setIssues(localIssues);
+    if (localIssues.length > 0) return;
+
+    setIsSaving(true);
+    try {
+      const data = await authedFetch({ method: 'POST', body: JSON.stringify({ table, notes }) });
+      setMessage(data.message);
+      setNotes('');
+      await fetchRouting();
+    } catch (e: any) {
+      setMessage(e.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleActivate = async (version: number) => {
+    if (!window.confirm(`ROLLBACK: Activate routing table v${version} on every instance?`)) return;
+    setIsSaving(true);
+    try {
+      const data = await authedFetch({ method: 'POST', body: JSON.stringify({ activateVersion: version }) });
+      setMessage(data.message);
+      await fetchRouting();
+    } catch (e: any) {
+      setMessage(e.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading || !table) {
+    return (
+      <div className="bg-white dark:bg-slate-900 p-10 rounded-[3.5rem] border border-slate-200 dark:border-white/5 flex items-center justify-center gap-3 text-slate-400 text-[10px] font-bold uppercase tracking-widest">
+        <RefreshCw size={14} className="animate-spin" /> {message || 'Loading routing table...'}
+      </div>
+    );
+  }
+
+  const chain = table[selectedTask];
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      <div className="lg:col-span-2 bg-white dark:bg-slate-900 p-10 rounded-[3.5rem] border border-slate-200 dark:border-white/5 shadow-sm space-y-8">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h3 className="text-xs font-black uppercase tracking-[0.2em] text-slate-400 flex items-center gap-2"><Route size={14} /> Grid Routing Table</h3>
+            <p className="text-[10px] text-indigo-600 font-bold mt-1 uppercase tracking-widest">Version {active?.version ?? 0}.0 Active</p>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={() => defaults && updateChain(selectedTask, defaults[selectedTask])} className="px-5 py-3 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-200 transition-all flex items-center gap-2">
+              <RotateCcw size={14} /> Task Defaults
+            </button>
+            <button onClick={handleSave} disabled={isSaving || issues.length > 0} className="px-8 py-3 bg-indigo-600 text-white rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-xl hover:bg-indigo-700 transition-all flex items-center gap-2 disabled:opacity-50">
+              {isSaving ? <RefreshCw className="animate-spin" size={14} /> : <Save size={14} />} Publish Version
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {TASK_TYPES.map(task => (
+            <button key={task} onClick={() => setSelectedTask(task)} className={`px-4 py-2 rounded-xl text-[9px] font-bold uppercase tracking-widest transition-all ${selectedTask === task ? 'bg-slate-900 text-white dark:bg-indigo-600' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-indigo-600'}`}>
+              {task.replace(/_/g, ' ')} <span className="opacity-50">({table[task].length})</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-[10px]">
+            <thead className="bg-slate-50 dark:bg-slate-800 text-slate-400 font-black uppercase tracking-widest text-[8px]">
+              <tr>
+                <th className="p-3">#</th>
+                <th className="p-3">Engine</th>
+                <th className="p-3">Model</th>
+                <th className="p-3">Temp</th>
+                <th className="p-3">Max Tokens</th>
+                <th className="p-3">Timeout (ms)</th>
+                <th className="p-3 text-right">Order</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50 dark:divide-white/5">
+              {chain.map((entry, i) => (
+                <tr key={i}>
+                  <td className="p-3 font-black text-slate-400">{i === 0 ? 'PRIMARY' : `FB${i}`}</td>
+                  <td className="p-3">
+                    <select value={entry.engine} onChange={e => updateEntry(i, { engine: e.target.value as RoutingEntry['engine'] })} className="bg-slate-50 dark:bg-slate-800 rounded-lg px-2 py-1.5 font-bold uppercase outline-none">
+                      {engines.map(engine => <option key={engine} value={engine}>{engine}</option>)}
+                    </select>
+                  </td>
+                  <td className="p-3">
+                    <input value={entry.model} onChange={e => updateEntry(i, { model: e.target.value })} className="w-56 bg-slate-50 dark:bg-slate-800 rounded-lg px-2 py-1.5 font-mono outline-none" />
+                  </td>
+                  <td className="p-3">
+                    <input type="number" step="0.1" value={entry.temperature ?? ''} placeholder="caller" onChange={e => updateEntry(i, { temperature: numberOrUndefined(e.target.value) })} className="w-16 bg-slate-50 dark:bg-slate-800 rounded-lg px-2 py-1.5 outline-none" />
+                  </td>
+                  <td className="p-3">
+                    <input type="number" value={entry.maxTokens ?? ''} placeholder="default" onChange={e => updateEntry(i, { maxTokens: numberOrUndefined(e.target.value) })} className="w-20 bg-slate-50 dark:bg-slate-800 rounded-lg px-2 py-1.5 outline-none" />
+                  </td>
+                  <td className="p-3">
+                    <input type="number" step="1000" value={entry.timeoutMs ?? ''} placeholder="none" onChange={e => updateEntry(i, { timeoutMs: numberOrUndefined(e.target.value) })} className="w-24 bg-slate-50 dark:bg-slate-800 rounded-lg px-2 py-1.5 outline-none" />
+                  </td>
+                  <td className="p-3">
+                    <div className="flex gap-1 justify-end">
+                      <button onClick={() => moveEntry(i, -1)} className="p-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-400 hover:text-indigo-600"><ArrowUp size={12} /></button>
+                      <button onClick={() => moveEntry(i, 1)} className="p-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-400 hover:text-indigo-600"><ArrowDown size={12} /></button>
+                      <button onClick={() => updateChain(selectedTask, chain.filter((_, j) => j !== i))} className="p-1.5 rounded-lg bg-rose-50 dark:bg-rose-950/30 text-rose-500 hover:bg-rose-100"><Trash2 size={12} /></button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-3">
+          <button onClick={() => updateChain(selectedTask, [...chain, { engine: 'openrouter', model: '' }])} className="px-5 py-3 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-200 transition-all flex items-center gap-2">
+            <Plus size={14} /> Add Fallback
+          </button>
+          <input value={notes} onChange={e => setNotes(e.target.value)} placeholder="Change note (e.g. Cerebras outage, demote to fallback)" className="flex-1 px-4 py-3 bg-slate-50 dark:bg-slate-800 rounded-2xl text-[10px] font-semibold outline-none focus:ring-2 focus:ring-indigo-500" />
+        </div>
+
+        {issues.length > 0 && (
+          <div className="p-5 bg-rose-50 dark:bg-rose-950/20 border border-rose-100 dark:border-rose-900/30 rounded-2xl space-y-1">
+            <p className="text-[9px] font-black uppercase tracking-widest text-rose-600 flex items-center gap-2"><AlertTriangle size={12} /> Validation</p>
+            {issues.slice(0, 8).map(issue => <p key={issue} className="text-[10px] text-rose-500 font-mono">{issue}</p>)}
+          </div>
+        )}
+        {message && issues.length === 0 && (
+          <p className="text-[10px] font-bold text-emerald-600 flex items-center gap-2"><CheckCircle2 size={12} /> {message}</p>
+        )}
+      </div>
+
+      <div className="bg-slate-950 text-white p-10 rounded-[3.5rem] shadow-2xl border border-white/5 space-y-6">
+        <h3 className="text-xl font-black uppercase tracking-tight text-indigo-300 flex items-center gap-2"><History size={20} /> Versions</h3>
+        <p className="text-xs text-slate-400 font-medium leading-relaxed italic">Every publish is stored. Instances hot-reload the active version within ~15 seconds.</p>
+        <div className="space-y-2">
+          {versions.length === 0 && <p className="text-[10px] text-slate-500 italic">Serving built-in defaults (v0).</p>}
+          {versions.map(v => (
+            <div key={v.version} className="flex items-center justify-between gap-3 p-3 rounded-2xl bg-white/5">
+              <div className="min-w-0">
+                <p className="text-[10px] font-black uppercase tracking-widest">v{v.version}.0 {v.isActive && <span className="text-emerald-400">· Active</span>}</p>
+                <p className="text-[9px] text-slate-400 truncate">{v.notes || new Date(v.createdAt).toLocaleString()}</p>
+              </div>
+              {!v.isActive && (
+                <button onClick={() => handleActivate(v.version)} disabled={isSaving} className="px-3 py-1.5 bg-indigo-600 rounded-lg text-[8px] font-black uppercase tracking-widest hover:bg-indigo-700">Activate</button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RoutingTableEditor;
@@ -0,0 +1,173 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Coins, RefreshCcw, Building, Wrench, Cpu } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+
+interface SpendBucket {
+  key: string;
+  costUsd: number;
+  tokens: number;
+  calls: number;
+}
+
+interface UsageReport {
+  days: number;
+  totals: { costUsd: number; tokens: number; calls: number };
+  byWorkspace: SpendBucket[];
+  byTool: SpendBucket[];
+  byProvider: SpendBucket[];
+  daily: Array<{ date: string; costUsd: number; byProvider: Record<string, number> }>;
+}
+
+const WINDOWS = [7, 30, 90];
+
+const PROVIDER_COLORS: Record<string, string> = {
+  google: 'bg-indigo-500',
+  deepseek: 'bg-sky-500',
+  groq: 'bg-orange-500',
+  cerebras: 'bg-emerald-500',
+  sambanova: 'bg-rose-500',
+  openrouter: 'bg-purple-500',
+};
+
+const usd = (n: number) => `$${n < 1 ? n.toFixed(4) : n.toFixed(2)}`;
+const compact = (n: number) => n >= 1_000_000 ? `${(n / 1_000_000).toFixed(1)}M` : n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+
+const BucketTable: React.FC<{ title: string; icon: React.ReactNode; rows: SpendBucket[] }> = ({ title, icon, rows }) => (
+  <div className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl p-4">
+    <h4 className="text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-3 flex items-center gap-1.5">{icon} {title}</h4>
+    {rows.length === 0 ? (
+      <p className="text-[9px] text-slate-400 italic text-center py-2">No usage recorded.</p>
+    ) : (
+      <table className="w-full text-[9px]">
+        <tbody className="divide-y divide-slate-100 dark:divide-white/5">
+          {rows.slice(0, 8).map(row => (
+            <tr key={row.key}>
+              <td className="py-1.5 font-semibold text-slate-700 dark:text-slate-200 truncate max-w-[120px]">{row.key}</td>
+              <td className="py-1.5 text-right text-slate-400">{compact(row.tokens)} tok</td>
+              <td className="py-1.5 text-right font-bold text-emerald-600">{usd(row.costUsd)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+const SpendLedger: React.FC = () => {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchReport();
+  }, [days]);
+
+  const fetchReport = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      const res = await fetch(`/api/admin/usage?days=${days}`, {
+        headers: { 'Authorization': `Bearer ${session?.access_token}` }
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Ledger fetch failed');
+      setReport(data);
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const maxDaily = Math.max(0.000001, ...(report?.daily || []).map(d => d.costUsd));
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] border border-slate-100 dark:border-white/5 shadow-sm p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between gap-4">
+        <h3 className="text-md font-bold text-slate-900 dark:text-white uppercase tracking-tight flex items-center gap-2">
+          <Coins size={16} className="text-emerald-600" /> Spend Ledger
+        </h3>
+        <div className="flex items-center gap-2">
+          {WINDOWS.map(w => (
+            <button
+              key={w}
+              onClick={() => setDays(w)}
+              className={`px-3 py-1 rounded-lg text-[9px] font-bold uppercase tracking-widest transition-all ${days === w ? 'bg-indigo-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-indigo-600'}`}
+            >
+              {w}d
+            </button>
+          ))}
+          <button onClick={fetchReport} className="p-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-400 hover:text-indigo-600">
+            <RefreshCcw size={12} className={loading ? 'animate-spin' : ''} />
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-[10px] font-semibold text-rose-500">{error}</p>}
+
+      {report && (
+        <>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-2xl text-center">
+              <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-1">Spend (USD)</p>
+              <p className="text-xl font-bold text-emerald-600">{usd(report.totals.costUsd)}</p>
+            </div>
+            <div className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-2xl text-center">
+              <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-1">Tokens</p>
+              <p className="text-xl font-bold text-indigo-600">{compact(report.totals.tokens)}</p>
+            </div>
+            <div className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-2xl text-center">
+              <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-1">Grid Calls</p>
+              <p className="text-xl font-bold text-slate-700 dark:text-slate-200">{report.totals.calls.toLocaleString()}</p>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest mb-2">Daily Spend by Provider</p>
+            {report.daily.length === 0 ? (
+              <p className="text-[9px] text-slate-400 italic text-center py-6">No usage in this window.</p>
+            ) : (
+              <div className="flex items-end gap-1 h-32">
+                {report.daily.map(day => (
+                  <div
+                    key={day.date}
+                    title={`${day.date}: ${usd(day.costUsd)}`}
+                    className="flex-1 flex flex-col-reverse rounded-t overflow-hidden min-w-[4px]"
+                    style={{ height: `${Math.max(2, (day.costUsd / maxDaily) * 100)}%` }}
+                  >
+                    {Object.entries(day.byProvider).map(([provider, cost]) => (
+                      <div
+                        key={provider}
+                        className={PROVIDER_COLORS[provider] || 'bg-slate-400'}
+                        style={{ height: `${day.costUsd > 0 ? (cost / day.costUsd) * 100 : 0}%` }}
+                      />
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex flex-wrap gap-3 mt-3">
+              {report.byProvider.map(p => (
+                <span key={p.key} className="flex items-center gap-1 text-[8px] font-bold uppercase text-slate-500">
+                  <span className={`w-2 h-2 rounded-full ${PROVIDER_COLORS[p.key] || 'bg-slate-400'}`} /> {p.key}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <BucketTable title="Per Workspace" icon={<Building size={10} />} rows={report.byWorkspace} />
+            <BucketTable title="Per Tool" icon={<Wrench size={10} />} rows={report.byTool} />
+            <BucketTable title="Per Provider" icon={<Cpu size={10} />} rows={report.byProvider} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SpendLedger;
@@ -1,17 +1,27 @@
 'use client';
 
 import React from 'react';
-import { FileText, CheckCircle, Circle, Library, Zap } from 'lucide-react';
+import { FileText, CheckCircle, Circle, Library, Zap, Globe, X } from 'lucide-react';
 import { Document } from '../../types';
+import { LibraryFilters } from '../../lib/rag/library-ranking';
 
 interface DocumentSelectorProps {
   documents: Document[];
   onToggle: (id: string) => void;
+  onClear?: () => void;
+  filters?: LibraryFilters;
+  onFiltersChange?: (filters: LibraryFilters) => void;
 }
 
-export const DocumentSelector: React.FC<DocumentSelectorProps> = ({ documents, onToggle }) => {
+// Several documents can be linked at once; with none linked, chat searches the whole vault
+export const DocumentSelector: React.FC<DocumentSelectorProps> = ({ documents, onToggle, onClear, filters = {}, onFiltersChange }) => {
   if (documents.length === 0) return null;
 
+  const selectedCount = documents.filter(d => d.isSelected).length;
+  const subjects = Array.from(new Set(documents.map(d => d.subject).filter(Boolean))).sort();
+  const grades = Array.from(new Set(documents.map(d => d.gradeLevel).filter(g => g && g !== 'Auto'))).sort();
+  const setFilter = (patch: LibraryFilters) => onFiltersChange?.({ ...filters, ...patch });
+
   return (
     <div className="space-y-4 p-4 bg-white/5 rounded-3xl border border-white/5">
       <div className="flex items-center justify-between mb-2 px-1">
@@ -19,31 +29,72 @@ export const DocumentSelector: React.FC<DocumentSelectorProps> = ({ documents, o
           <Library size={14} className="text-indigo-400" />
           <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Neural Context</span>
         </div>
-        {documents.some(d => d.isSelected) && (
-          <span className="flex items-center gap-1.5 text-[8px] font-black text-emerald-500 uppercase tracking-tighter animate-pulse">
-            <Zap size={8} fill="currentColor" /> Linked
+        {selectedCount > 0 ? (
+          <span className="flex items-center gap-1.5 text-[8px] font-black text-emerald-500 uppercase tracking-tighter">
+            <Zap size={8} fill="currentColor" className="animate-pulse" /> {selectedCount} Linked
+            {onClear && (
+              <button onClick={onClear} title="Unlink all" className="p-0.5 rounded text-slate-400 hover:text-rose-500">
+                <X size={10} />
+              </button>
+            )}
           </span>
+        ) : (
+          <span className="text-[8px] font-black text-slate-500 uppercase tracking-tighter">Whole Vault</span>
         )}
       </div>
+
+      {onFiltersChange && (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <select
+              value={filters.subject || ''}
+              onChange={e => setFilter({ subject: e.target.value || undefined })}
+              className="flex-1 min-w-0 px-2 py-1.5 bg-white/5 rounded-xl text-[9px] font-bold uppercase text-slate-400 outline-none"
+            >
+              <option value="">All subjects</option>
+              {subjects.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+            <select
+              value={filters.gradeLevel || ''}
+              onChange={e => setFilter({ gradeLevel: e.target.value || undefined })}
+              className="flex-1 min-w-0 px-2 py-1.5 bg-white/5 rounded-xl text-[9px] font-bold uppercase text-slate-400 outline-none"
+            >
+              <option value="">All grades</option>
+              {grades.map(g => <option key={g} value={g}>Grade {g}</option>)}
+            </select>
+          </div>
+          <input
+            value={filters.sloCode || ''}
+            onChange={e => setFilter({ sloCode: e.target.value.trim() || undefined })}
+            placeholder="Only chunks tagged with SLO, e.g. B09A01"
+            className="w-full px-2 py-1.5 bg-white/5 rounded-xl text-[9px] font-semibold text-slate-400 outline-none"
+          />
+          <label className="flex items-center gap-2 px-1 text-[9px] font-bold uppercase text-slate-500 cursor-pointer">
+            <input type="checkbox" checked={!!filters.includePublic} onChange={e => setFilter({ includePublic: e.target.checked })} />
+            <Globe size={10} /> Include approved public documents
+          </label>
+        </div>
+      )}
+
       <div className="space-y-2">
         {documents.map(doc => (
           <button
             key={doc.id}
             onClick={() => onToggle(doc.id)}
             className={`w-full flex items-center gap-3 p-3 rounded-2xl transition-all border group relative overflow-hidden ${
-              doc.isSelected 
-                ? 'bg-indigo-600/10 border-indigo-500/50 text-white shadow-lg' 
+              doc.isSelected
+                ? 'bg-indigo-600/10 border-indigo-500/50 text-white shadow-lg'
                 : 'bg-white/5 border-transparent text-slate-400 hover:bg-white/10'
             }`}
           >
             {doc.isSelected && <div className="absolute inset-0 bg-indigo-500/5 animate-pulse pointer-events-none" />}
-            
+
             {doc.isSelected ? (
               <CheckCircle size={16} className="text-indigo-400 shrink-0 relative z-10" />
             ) : (
               <Circle size={16} className="opacity-20 shrink-0 group-hover:opacity-40 transition-opacity" />
             )}
-            
+
             <div className="flex-1 text-left min-w-0 relative z-10">
               <p className={`text-xs font-bold truncate ${doc.isSelected ? 'text-indigo-100' : ''}`}>{doc.name}</p>
               <p className="text-[9px] opacity-50 font-medium uppercase tracking-tighter">
@@ -56,4 +107,4 @@ export const DocumentSelector: React.FC<DocumentSelectorProps> = ({ documents, o
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
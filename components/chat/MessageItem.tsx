@@ -2,8 +2,13 @@
 'use client';
 
 import React, { useState, useMemo } from 'react';
-import { User, Bot, Copy, Check, Sparkles, Globe, ExternalLink, Library, AlertTriangle, BookOpen, Search } from 'lucide-react';
+import { User, Bot, Copy, Check, Sparkles, Globe, ExternalLink, Library, AlertTriangle, BookOpen, Search, Wrench, ShieldCheck } from 'lucide-react';
 import { renderSTEM } from '../../lib/math-renderer';
+import { ToolType, getToolDisplayName, parseClarification } from '../../lib/ai/tool-router';
+import { AgentStep, AGENT_TOOL_LABELS, parseAgentSteps } from '../../lib/ai/agent-steps';
+import { parseSloCheck, markUnverifiedSlos } from '../../lib/ai/slo-citations';
+import { ChunkSource, parseChunkSources, linkCitations } from '../../lib/ai/chunk-citations';
+import { answerBody } from '../../lib/chat/chat-memory';
 
 interface MessageItemProps {
   role: 'user' | 'assistant';
@@ -11,25 +16,79 @@ interface MessageItemProps {
   timestamp: string;
   id: string;
   isLatest?: boolean;
+  isStreaming?: boolean;
   metadata?: any;
+  onCopy?: () => void;
+  onQuickReply?: (tool: ToolType) => void;
+  onOpenCitation?: (source: ChunkSource) => void;
 }
 
-export const MessageItem: React.FC<MessageItemProps> = ({ role, content, timestamp, id, metadata }) => {
+// Retrieval tool calls made before the answer; each expands to its result
+const AgentSteps: React.FC<{ steps: AgentStep[] }> = ({ steps }) => (
+  <details className="group mb-5 rounded-2xl border border-slate-200 dark:border-white/10 bg-slate-50/60 dark:bg-white/5">
+    <summary className="flex items-center gap-2 px-4 py-2.5 cursor-pointer select-none text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600 transition-colors">
+      <Wrench size={12} className="text-indigo-500" />
+      Research Steps ({steps.length})
+    </summary>
+    <div className="px-4 pb-3 space-y-2">
+      {steps.map((step, i) => (
+        <details key={i} className="rounded-xl border border-slate-200 dark:border-white/10 bg-white dark:bg-black/20">
+          <summary className="flex items-center gap-2 px-3 py-2 cursor-pointer select-none text-[11px] text-slate-600 dark:text-slate-300">
+            <span className="font-black uppercase tracking-wider text-indigo-600 dark:text-indigo-400">{AGENT_TOOL_LABELS[step.tool] || step.tool}</span>
+            <span className="truncate font-mono text-[10px] text-slate-400">
+              {Object.entries(step.args).map(([k, v]) => `${k}: ${v}`).join(', ')}
+            </span>
+            <span className={`ml-auto shrink-0 text-[9px] font-bold uppercase tracking-widest ${step.error ? 'text-rose-500' : 'text-slate-400'}`}>
+              {step.error ? 'Failed' : `${step.resultCount} result${step.resultCount === 1 ? '' : 's'}`} · {step.latencyMs}ms
+            </span>
+          </summary>
+          <pre className="px-3 pb-3 text-[11px] leading-relaxed whitespace-pre-wrap break-words text-slate-500 dark:text-slate-400 font-mono">
+            {step.error || step.preview}
+          </pre>
+        </details>
+      ))}
+    </div>
+  </details>
+);
+
+export const MessageItem: React.FC<MessageItemProps> = ({ role, content, timestamp, id, metadata, isStreaming, onCopy, onQuickReply, onOpenCitation }) => {
   const isAi = role === 'assistant';
   const [copied, setCopied] = useState(false);
   
   const isGlitch = content.includes('Neural Glitch Guard');
 
   const handleCopy = async () => {
-    const cleanText = content.split('--- Synthesis Node:')[0].trim();
+    const cleanText = answerBody(content).split('--- Synthesis Node:')[0].trim();
     await navigator.clipboard.writeText(cleanText);
+    onCopy?.();
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
+  // Source and tool-step markers lead the stream, the SLO check trails it; the rest is the answer
+  const { body, steps, sloCheck, sources } = useMemo(() => {
+    if (!isAi) return { body: content, steps: [], sloCheck: null, sources: [] };
+    const { body: cited, sources } = parseChunkSources(content);
+    const { body: answer, steps } = parseAgentSteps(cited);
+    const { body, report } = parseSloCheck(answer);
+    return { body: report ? markUnverifiedSlos(body, report.unverified) : body, steps, sloCheck: report, sources };
+  }, [content, isAi]);
+
+  // Routing was unsure: the marker lists the tools to offer as quick replies
+  const clarification = useMemo(() => isAi && !isStreaming ? parseClarification(body) : null, [body, isAi, isStreaming]);
+
   const renderedHtml = useMemo(() => {
-    return renderSTEM(content);
-  }, [content]);
+    return renderSTEM(linkCitations(clarification ? clarification.body : body, sources));
+  }, [body, clarification, sources]);
+
+  // Footnotes are plain markup inside the rendered answer
+  const handleAnswerClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const link = (e.target as HTMLElement).closest('[data-cite]');
+    if (!link) return;
+    e.preventDefault();
+    const source = sources.find(s => s.tag === Number(link.getAttribute('data-cite')));
+    if (source) onOpenCitation?.(source);
+  };
 
   return (
     <div className={`w-full animate-chat-turn mb-10 ${isAi ? 'bg-transparent' : ''}`}>
@@ -47,7 +106,7 @@ export const MessageItem: React.FC<MessageItemProps> = ({ role, content, timesta
           <span className={`text-[10px] font-black uppercase tracking-[0.2em] ${isGlitch ? 'text-rose-600' : 'text-slate-600 dark:text-slate-300'}`}>
             {isAi ? isGlitch ? 'System Override' : 'Pedagogy Master' : 'Educator Node'}
           </span>
-          {isAi && content && !isGlitch && (
+          {isAi && content && !isGlitch && !isStreaming && (
             <button onClick={handleCopy} className="p-1.5 text-slate-400 hover:text-indigo-600 transition-all">
               {copied ? <Check size={14} className="text-emerald-500" /> : <Copy size={14} />}
             </button>
@@ -65,10 +124,56 @@ export const MessageItem: React.FC<MessageItemProps> = ({ role, content, timesta
           }`}>
             
             {isAi ? (
-              <div 
-                className="prose dark:prose-invert max-w-full text-sm md:text-base leading-relaxed md:leading-[1.8] break-words"
-                dangerouslySetInnerHTML={{ __html: renderedHtml }}
-              />
+              <>
+                {steps.length > 0 && <AgentSteps steps={steps} />}
+                {isStreaming && !body ? (
+                  <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400 animate-pulse">
+                    <Sparkles size={12} className="text-indigo-500" /> Synthesizing...
+                  </div>
+                ) : (
+                  <div 
+                    className="prose dark:prose-invert max-w-full text-sm md:text-base leading-relaxed md:leading-[1.8] break-words"
+                    onClick={handleAnswerClick}
+                    dangerouslySetInnerHTML={{ __html: renderedHtml }}
+                  />
+                )}
+                {!isStreaming && sources.length > 0 && (
+                  <ol className="mt-6 pt-4 border-t border-slate-200 dark:border-white/10 space-y-1.5">
+                    {sources.map(source => (
+                      <li key={source.tag}>
+                        <button
+                          onClick={() => onOpenCitation?.(source)}
+                          title={source.excerpt}
+                          className="flex items-start gap-2 text-left text-[11px] text-slate-500 hover:text-indigo-600 transition-colors"
+                        >
+                          <span className="shrink-0 font-black text-indigo-600">{source.tag}.</span>
+                          <Library size={12} className="shrink-0 mt-0.5" />
+                          <span className="truncate">
+                            {source.documentName}
+                            {source.sloCodes.length > 0 && <span className="ml-1.5 font-mono text-[10px] text-slate-400">{source.sloCodes.slice(0, 3).join(', ')}</span>}
+                          </span>
+                        </button>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+                {clarification && onQuickReply && (
+                  <div className="flex flex-wrap gap-2 mt-4">
+                    {clarification.tools.map(tool => (
+                      <button
+                        key={tool}
+                        onClick={() => onQuickReply(tool)}
+                        className="px-4 py-2 rounded-full border border-indigo-200 dark:border-indigo-800/50 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-300 text-[10px] font-black uppercase tracking-widest hover:bg-indigo-600 hover:text-white transition-all"
+                      >
+                        {getToolDisplayName(tool)}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {isStreaming && body && (
+                  <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-indigo-500 animate-pulse rounded-sm" />
+                )}
+              </>
             ) : (
               <div className="text-sm md:text-[16px] font-black leading-relaxed text-white tracking-tight selection:bg-indigo-400">
                 {content}
@@ -115,7 +220,20 @@ export const MessageItem: React.FC<MessageItemProps> = ({ role, content, timesta
                 : 'text-indigo-600 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-900/30 border-indigo-100 dark:border-indigo-800/50'
             }`}>
               <Sparkles size={8} />
-              {isGlitch ? 'Sanity Intercept' : metadata?.isGrounded ? 'Standard Anchored' : 'Neural Grid'}
+              {isGlitch ? 'Sanity Intercept' : isStreaming ? 'Streaming' : metadata?.isGrounded ? 'Standard Anchored' : 'Neural Grid'}
+            </div>
+          )}
+          {isAi && sloCheck?.score != null && (
+            <div
+              title={sloCheck.unverified.length ? `Not in your curriculum documents: ${sloCheck.unverified.join(', ')}` : `Verified: ${sloCheck.verified.join(', ')}`}
+              className={`flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest px-3 py-1 rounded-full border shadow-sm ${
+                sloCheck.unverified.length
+                  ? 'text-amber-600 bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800/50'
+                  : 'text-emerald-600 bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800/50'
+              }`}
+            >
+              <ShieldCheck size={8} />
+              SLO Grounding {Math.round(sloCheck.score * 100)}%
             </div>
           )}
           <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">
@@ -0,0 +1,72 @@
+'use client';
+
+import React from 'react';
+import { MessagesSquare, Plus, Pencil, Trash2, Pin } from 'lucide-react';
+import { ChatThread } from '../../lib/chat/chat-memory';
+
+interface ThreadListProps {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const ThreadList: React.FC<ThreadListProps> = ({ threads, activeThreadId, onSelect, onNew, onRename, onDelete }) => (
+  <div className="space-y-3 p-4 bg-white/5 rounded-3xl border border-white/5">
+    <div className="flex items-center justify-between px-1">
+      <div className="flex items-center gap-2">
+        <MessagesSquare size={14} className="text-indigo-400" />
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Conversations</span>
+      </div>
+      <button
+        onClick={onNew}
+        className="p-1 rounded-lg text-slate-400 hover:text-indigo-500 hover:bg-white/10 transition-all"
+        title="New conversation"
+      >
+        <Plus size={14} />
+      </button>
+    </div>
+    {threads.length === 0 ? (
+      <p className="px-1 text-[10px] text-slate-400 font-medium">Your conversations are saved here.</p>
+    ) : (
+      <div className="space-y-1 max-h-64 overflow-y-auto custom-scrollbar">
+        {threads.map(thread => (
+          <div
+            key={thread.id}
+            className={`group flex items-center gap-2 px-3 py-2 rounded-2xl border transition-all ${
+              thread.id === activeThreadId
+                ? 'bg-indigo-600/10 border-indigo-500/50'
+                : 'border-transparent hover:bg-white/10'
+            }`}
+          >
+            <button onClick={() => onSelect(thread.id)} className="flex-1 min-w-0 text-left">
+              <p className={`text-xs font-bold truncate ${thread.id === activeThreadId ? 'text-indigo-500 dark:text-indigo-200' : 'text-slate-500 dark:text-slate-400'}`}>
+                {thread.title}
+              </p>
+              <p className="flex items-center gap-1 text-[9px] opacity-50 font-medium uppercase tracking-tighter text-slate-500">
+                {thread.pinnedSlo && <><Pin size={8} /> {thread.pinnedSlo} •</>}
+                {new Date(thread.updatedAt).toLocaleDateString()}
+              </p>
+            </button>
+            <button
+              onClick={() => onRename(thread.id)}
+              className="p-1 text-slate-400 hover:text-indigo-500 opacity-0 group-hover:opacity-100 transition-all"
+              title="Rename"
+            >
+              <Pencil size={12} />
+            </button>
+            <button
+              onClick={() => onDelete(thread.id)}
+              className="p-1 text-slate-400 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-all"
+              title="Delete"
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
@@ -56,6 +56,22 @@ DO $$ BEGIN
     ALTER TABLE public.documents ADD COLUMN token_count int DEFAULT 0;
   END IF;
 
+  -- Approved public documents can be searched from any teacher's library
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='documents' AND column_name='is_public') THEN
+    ALTER TABLE public.documents ADD COLUMN is_public boolean DEFAULT false;
+  END IF;
+
+  -- Admin-assigned workspace; keys PII policies and workspace rate limits
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='profiles' AND column_name='workspace_id') THEN
+    ALTER TABLE public.profiles ADD COLUMN workspace_id text;
+  END IF;
+
+  -- Linearized segments kept between invocations so long documents resume
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name='ingestion_jobs')
+     AND NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='ingestion_jobs' AND column_name='segment_outputs') THEN
+    ALTER TABLE public.ingestion_jobs ADD COLUMN segment_outputs jsonb;
+  END IF;
+
   -- Ensure document_chunks is performance-aligned
   IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='document_chunks' AND column_name='token_count') THEN
     ALTER TABLE public.document_chunks ADD COLUMN token_count int DEFAULT 0;
@@ -109,9 +125,248 @@ create table if not exists public.ai_model_usage (
   tokens_completion int default 0,
   execution_time_ms int default 0,
   task_type text,
+  provider text,
+  tool text,
+  cost_usd numeric(12,6) default 0,
+  tokens_estimated boolean default false,
+  created_at timestamp with time zone default now()
+);
+
+DO $$ BEGIN
+  -- Spend ledger columns for installs that predate the cost tracker
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='ai_model_usage' AND column_name='provider') THEN
+    ALTER TABLE public.ai_model_usage ADD COLUMN provider text;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='ai_model_usage' AND column_name='tool') THEN
+    ALTER TABLE public.ai_model_usage ADD COLUMN tool text;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='ai_model_usage' AND column_name='cost_usd') THEN
+    ALTER TABLE public.ai_model_usage ADD COLUMN cost_usd numeric(12,6) DEFAULT 0;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='ai_model_usage' AND column_name='tokens_estimated') THEN
+    ALTER TABLE public.ai_model_usage ADD COLUMN tokens_estimated boolean DEFAULT false;
+  END IF;
+END $$;
+
+create index if not exists idx_ai_model_usage_created on public.ai_model_usage(created_at);
+
+-- 6b. GRID ROUTING TABLE (versioned, one active row)
+create table if not exists public.grid_routing_tables (
+  version int primary key,
+  routing jsonb not null,
+  notes text,
+  is_active boolean default false,
+  created_by uuid references public.profiles(id),
+  created_at timestamp with time zone default now()
+);
+
+-- 6c. RETRIEVAL LOG TELEMETRY (hedge winners, intent labels for the local classifier)
+DO $$ BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name='retrieval_logs') THEN
+    ALTER TABLE public.retrieval_logs ADD COLUMN IF NOT EXISTS hedge_winner text;
+    ALTER TABLE public.retrieval_logs ADD COLUMN IF NOT EXISTS hedge_engines text[];
+    ALTER TABLE public.retrieval_logs ADD COLUMN IF NOT EXISTS hedge_fired boolean;
+    ALTER TABLE public.retrieval_logs ADD COLUMN IF NOT EXISTS intent text;
+    ALTER TABLE public.retrieval_logs ADD COLUMN IF NOT EXISTS complexity int;
+    ALTER TABLE public.retrieval_logs ADD COLUMN IF NOT EXISTS intent_source text;
+    ALTER TABLE public.retrieval_logs ADD COLUMN IF NOT EXISTS intent_confidence float;
+  END IF;
+END $$;
+
+create table if not exists public.intent_models (
+  version int primary key,
+  model jsonb not null,
+  samples int default 0,
+  accuracy jsonb,
+  is_active boolean default false,
+  created_at timestamp with time zone default now()
+);
+
+-- 6d. PROMPT VARIANTS (A/B experiments on master + tool expert prompts)
+create table if not exists public.prompt_variants (
+  id uuid primary key default uuid_generate_v4(),
+  scope text not null, -- 'master' or a ToolType
+  version int not null,
+  label text,
+  body text not null,
+  traffic int default 0 check (traffic between 0 and 100),
+  status text default 'active',
+  created_by uuid references public.profiles(id),
+  created_at timestamp with time zone default now(),
+  unique(scope, version)
+);
+
+-- 6e. RATE LIMIT POLICIES (token-bucket overrides; subject '*' = scope default)
+create table if not exists public.rate_limit_policies (
+  scope text not null, -- 'provider' | 'apiKey' | 'user' | 'workspace'
+  subject text not null default '*',
+  capacity int not null check (capacity > 0),
+  refill_per_minute numeric not null check (refill_per_minute > 0),
+  updated_at timestamp with time zone default now(),
+  primary key (scope, subject)
+);
+
+-- 6f. CHAT THREADS (server-side conversations with rolling summary + pins)
+create table if not exists public.chat_threads (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  title text not null default 'New conversation',
+  document_id uuid references public.documents(id) on delete set null,
+  pinned_slo text,
+  summary text,
+  summarized_count int default 0, -- leading messages folded into summary
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now()
+);
+
+create table if not exists public.chat_messages (
+  id uuid primary key default uuid_generate_v4(),
+  thread_id uuid not null references public.chat_threads(id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  metadata jsonb default '{}'::jsonb,
+  created_at timestamp with time zone default now()
+);
+
+create index if not exists idx_chat_threads_user on public.chat_threads(user_id, updated_at desc);
+create index if not exists idx_chat_messages_thread on public.chat_messages(thread_id, created_at);
+
+-- 6g. GRID RECORDINGS (GRID_RECORD=1; exported as replay cassettes)
+create table if not exists public.grid_recordings (
+  id uuid primary key default uuid_generate_v4(),
+  trace_id text, -- chat thread, when the call had one
+  user_id uuid references public.profiles(id) on delete cascade,
+  tool text,
+  task_type text not null,
+  stream boolean default false,
+  prompt text not null,
+  system_prompt text,
+  config jsonb default '{}'::jsonb, -- temperature, maxTokens, responseSchema
+  request_hash text not null,
+  response jsonb not null,
+  created_at timestamp with time zone default now()
+);
+
+create index if not exists idx_grid_recordings_trace on public.grid_recordings(trace_id, created_at);
+create index if not exists idx_grid_recordings_user on public.grid_recordings(user_id, created_at);
+
+-- 6h. RAG EVALUATION (golden questions per document + scored runs)
+create table if not exists public.rag_golden_questions (
+  id uuid primary key default uuid_generate_v4(),
+  document_id uuid not null references public.documents(id) on delete cascade,
+  question text not null,
+  expected_slos text[] default ARRAY[]::text[],
+  expected_chunk_id uuid,
+  expected_excerpt text, -- matches the chunk again after re-indexing
+  created_at timestamp with time zone default now()
+);
+
+create table if not exists public.rag_eval_runs (
+  id uuid primary key default uuid_generate_v4(),
+  k int not null default 5,
+  status text not null default 'running' check (status in ('running', 'completed', 'failed')),
+  metrics jsonb, -- recallAtK, mrr, citationAccuracy, sloHallucinationRate
+  by_document jsonb default '{}'::jsonb,
+  results jsonb default '[]'::jsonb,
+  triggered_by uuid references public.profiles(id) on delete set null,
+  created_at timestamp with time zone default now(),
+  finished_at timestamp with time zone
+);
+
+-- Runs advance a batch per request: the question set is fixed at start
+ALTER TABLE public.rag_eval_runs ADD COLUMN IF NOT EXISTS question_ids uuid[] DEFAULT ARRAY[]::uuid[];
+ALTER TABLE public.rag_eval_runs ADD COLUMN IF NOT EXISTS updated_at timestamp with time zone DEFAULT now();
+
+create index if not exists idx_rag_golden_questions_doc on public.rag_golden_questions(document_id);
+create index if not exists idx_rag_eval_runs_created on public.rag_eval_runs(created_at desc);
+
+-- 6i. STUDENT PII REDACTION (per-workspace policy; workspace '*' = default)
+create table if not exists public.pii_policies (
+  workspace text primary key,
+  enabled boolean not null default true,
+  kinds jsonb not null default '{"name": true, "nationalId": true, "phone": true, "roster": true}'::jsonb,
+  known_names text[] default ARRAY[]::text[],
+  updated_at timestamp with time zone default now()
+);
+
+create table if not exists public.pii_redaction_audit (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid references public.profiles(id) on delete set null,
+  workspace text,
+  tool text,
+  task_type text not null,
+  counts jsonb not null, -- matches per kind; the redacted values are never stored
+  placeholders int not null default 0,
   created_at timestamp with time zone default now()
 );
 
+create index if not exists idx_pii_redaction_audit_created on public.pii_redaction_audit(created_at desc);
+
+-- Teachers edit their own profile (workspace_name is their branding), but
+-- only the service role may set the workspace that selects their policy
+create or replace function public.protect_profile_workspace()
+returns trigger language plpgsql as $$
+begin
+  if current_user in ('authenticated', 'anon') then
+    if tg_op = 'INSERT' then
+      new.workspace_id := null;
+    else
+      new.workspace_id := old.workspace_id;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_profile_workspace on public.profiles;
+create trigger protect_profile_workspace before insert or update on public.profiles
+  for each row execute function public.protect_profile_workspace();
+
+-- 6j. GRID PROVIDER SWITCHES (absent row = engine on)
+create table if not exists public.grid_provider_settings (
+  engine text primary key,
+  enabled boolean not null default true,
+  updated_by uuid references public.profiles(id) on delete set null,
+  updated_at timestamp with time zone default now()
+);
+
+-- 6k. FUSION CANDIDATES (top full-text, vector and SLO-carrier chunks; fused in-process by fusion-ranker)
+create or replace function public.fusion_candidates(
+  query_text text,
+  query_embedding vector,
+  filter_document_ids uuid[],
+  per_list int default 100,
+  slo_filter text[] default ARRAY[]::text[]
+)
+returns table (id uuid, document_id uuid, chunk_text text, slo_codes text[], metadata jsonb, embedding vector)
+language sql stable as $$
+  with q as (
+    -- Any query term may match; ts_rank_cd puts chunks matching more of them first
+    select nullif(replace(plainto_tsquery('english', query_text)::text, '&', '|'), '')::tsquery as terms
+  ),
+  fts as (
+    select c.id from public.document_chunks c, q
+    where c.document_id = any(filter_document_ids) and q.terms is not null
+      and to_tsvector('english', c.chunk_text) @@ q.terms
+    order by ts_rank_cd(to_tsvector('english', c.chunk_text), q.terms) desc
+    limit per_list
+  ),
+  vec as (
+    select c.id from public.document_chunks c
+    where c.document_id = any(filter_document_ids) and query_embedding is not null and c.embedding is not null
+    order by c.embedding <=> query_embedding
+    limit per_list
+  ),
+  slo as (
+    select c.id from public.document_chunks c
+    where c.document_id = any(filter_document_ids) and c.slo_codes && slo_filter
+    limit per_list
+  )
+  select c.id, c.document_id, c.chunk_text, c.slo_codes, c.metadata, c.embedding
+  from public.document_chunks c
+  where c.id in (select fts.id from fts union select vec.id from vec union select slo.id from slo);
+$$;
+
 -- 7. HEALTH VIEWS (FIX: DROP FIRST TO PREVENT 42P16 ERROR)
 DROP VIEW IF EXISTS public.rag_health_report;
 create or replace view public.rag_health_report as
@@ -136,10 +391,23 @@ $$;
 
 -- 9. PERMISSIONS
 grant execute on function reload_schema_cache to authenticated, anon, service_role;
+grant execute on function public.fusion_candidates to authenticated, service_role;
 grant all on public.slo_database to authenticated, service_role;
 grant all on public.chunk_slo_mapping to authenticated, service_role;
 grant all on public.vertical_alignment to authenticated, service_role;
 grant all on public.ai_model_usage to authenticated, service_role;
+grant all on public.grid_routing_tables to service_role;
+grant all on public.prompt_variants to service_role;
+grant all on public.intent_models to service_role;
+grant all on public.rate_limit_policies to service_role;
+grant all on public.chat_threads to service_role;
+grant all on public.chat_messages to service_role;
+grant all on public.grid_recordings to service_role;
+grant all on public.rag_golden_questions to service_role;
+grant all on public.rag_eval_runs to service_role;
+grant all on public.pii_policies to service_role;
+grant all on public.pii_redaction_audit to service_role;
+grant all on public.grid_provider_settings to service_role;
 
 -- 10. FORCE RELOAD
 SELECT reload_schema_cache();
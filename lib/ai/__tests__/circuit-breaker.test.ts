@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { isRateLimitError } from '../circuit-breaker';
+
+describe('isRateLimitError', () => {
+  it('recognises status codes and provider rate-limit wording', () => {
+    expect(isRateLimitError('[429 Too Many Requests] quota exceeded')).toBe(true);
+    expect(isRateLimitError('Rate limit reached for requests')).toBe(true);
+    expect(isRateLimitError('RESOURCE_EXHAUSTED: retry later')).toBe(true);
+  });
+
+  it('ignores words that merely contain "rate"', () => {
+    expect(isRateLimitError('Failed to generate content')).toBe(false);
+    expect(isRateLimitError('Response blocked by moderate safety setting')).toBe(false);
+    expect(isRateLimitError('Prompt has 4290 tokens, inaccurate count')).toBe(false);
+  });
+});
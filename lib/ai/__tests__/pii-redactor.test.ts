@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PII_POLICY, Redaction } from '../pii-redactor';
+
+const redact = (text: string) => new Redaction(DEFAULT_PII_POLICY).redact(text);
+
+describe('Redaction roster detection', () => {
+  it('redacts the name column of a roster table', () => {
+    const out = redact('| Roll | Student Name | Score |\n| --- | --- | --- |\n| 1 | Ayesha Khan | 18/25 |');
+    expect(out).toContain('| 1 | [STUDENT_1] | 18/25 |');
+  });
+
+  it('leaves rubric and progression tables alone', () => {
+    const rubric = '| Criteria | Description | Marks |\n| --- | --- | --- |\n| Cell Structure | Identifies organelles | 5 marks |';
+    const grid = '| Domain | Grade 6 | Grade 7 |\n| --- | --- | --- |\n| Life Processes | B06A01 | B07A01 |';
+    expect(redact(rubric)).toBe(rubric);
+    expect(redact(grid)).toBe(grid);
+  });
+
+  it('redacts names that open a scored list or CSV line', () => {
+    expect(redact('3. Bilal Ahmed — 18/25')).toBe('3. [STUDENT_1] — 18/25');
+    expect(redact('Zara Malik, 18, B+')).toBe('[STUDENT_1], 18, B+');
+  });
+
+  it('ignores rubric bullets that mention marks', () => {
+    expect(redact('- Diagram: 5 marks')).toBe('- Diagram: 5 marks');
+  });
+
+  it('restores placeholders in the answer', () => {
+    const redaction = new Redaction(DEFAULT_PII_POLICY);
+    const prompt = redaction.redact('3. Bilal Ahmed — 18/25');
+    expect(redaction.restore(`Feedback for ${prompt.slice(3, 14)}`)).toBe('Feedback for Bilal Ahmed');
+  });
+});
@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { requestQueue, QueueLane, QueueSlot, QueueTimeoutError } from '../request-queue';
+import { neuralGrid } from '../model-orchestrator';
+
+const held: QueueSlot[] = [];
+
+// Each test gets a fresh hour on the fake clock, so the last staggered start
+// of an earlier test is always in the past
+let clock = 0;
+const useClock = () => vi.useFakeTimers({ now: clock += 3_600_000 });
+
+// Starts are staggered, so each grant needs the clock moved on
+async function take(lane: QueueLane, count: number) {
+  for (let i = 0; i < count; i++) {
+    const slot = requestQueue.acquire({ lane });
+    await vi.advanceTimersByTimeAsync(200);
+    held.push(await slot);
+  }
+}
+
+afterEach(async () => {
+  held.splice(0).forEach(slot => slot.release());
+  // Let a staggered start scheduled on the fake clock run before it is dropped
+  if (vi.isFakeTimers()) await vi.advanceTimersByTimeAsync(200);
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe('requestQueue', () => {
+  it('keeps slots free for chat while tool and ingestion work fill the rest', async () => {
+    useClock();
+    await take('tool', 4);
+    await take('background', 2);
+
+    let toolGranted = false;
+    const tool = requestQueue.acquire({ lane: 'tool' }).then(slot => { toolGranted = true; held.push(slot); });
+    const chat = requestQueue.acquire({ lane: 'interactive' });
+    await vi.advanceTimersByTimeAsync(200);
+    held.push(await chat);
+    expect(toolGranted).toBe(false);
+
+    held.splice(0, 2).forEach(slot => slot.release());
+    await vi.advanceTimersByTimeAsync(200);
+    await tool;
+    expect(toolGranted).toBe(true);
+  });
+
+  it('fails a waiter that reaches its deadline without a slot', async () => {
+    useClock();
+    await take('background', 2);
+    const waiting = requestQueue.acquire({ lane: 'background', deadlineAt: Date.now() + 1000 });
+    const failed = expect(waiting).rejects.toBeInstanceOf(QueueTimeoutError);
+    await vi.advanceTimersByTimeAsync(1000);
+    await failed;
+    expect(requestQueue.getStats().queued).toBe(0);
+  });
+
+  it('drops a waiter whose signal aborts', async () => {
+    useClock();
+    await take('background', 2);
+    const controller = new AbortController();
+    const waiting = requestQueue.acquire({ lane: 'background', signal: controller.signal });
+    controller.abort(new Error('teacher left'));
+    await expect(waiting).rejects.toThrow('teacher left');
+    expect(requestQueue.getStats().queued).toBe(0);
+  });
+
+  it('releases the slot of a stream cancelled before its first token is read', async () => {
+    vi.stubEnv('LOCAL_AI_MODE', '1');
+    const handle = await neuralGrid.executeStream('Explain photosynthesis', 'CHAT_LOOKUP');
+    expect(requestQueue.getStats().active).toBe(1);
+
+    await handle.tokens.return(undefined);
+    await expect(handle.result).resolves.toMatchObject({ text: '' });
+    expect(requestQueue.getStats().active).toBe(0);
+  });
+});
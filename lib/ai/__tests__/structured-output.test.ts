@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { parseStructured, renderRubric, renderBloomTags, RUBRIC_SCHEMA, BLOOM_TAG_SCHEMA } from '../structured-output';
+
+describe('tool contracts', () => {
+  it('renders a validated rubric as a markdown table', () => {
+    const { value } = parseStructured(`\`\`\`json
+{"title": "Cell Structure", "criteria": [
+  {"criterion": "Labelling", "levels": [
+    {"label": "Exemplary", "score": 4, "descriptor": "Labels every organelle"},
+    {"label": "Beginning", "score": 1, "descriptor": "Labels | few"}
+  ]}
+]}
+\`\`\``, RUBRIC_SCHEMA);
+    const markdown = renderRubric(value);
+    expect(markdown).toContain('## Cell Structure');
+    expect(markdown).toContain('| Criterion | Exemplary (4) | Beginning (1) |');
+    expect(markdown).toContain('| Labelling | Labels every organelle | Labels \\| few |');
+  });
+
+  it('fills Bloom tag defaults before rendering', () => {
+    const { value } = parseStructured('{"tags": [{"text": "Describe the cell", "bloomLevel": "Understand"}]}', BLOOM_TAG_SCHEMA);
+    expect(renderBloomTags(value)).toContain('| Describe the cell | Understand |  | 50% |');
+  });
+});
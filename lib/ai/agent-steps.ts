@@ -0,0 +1,53 @@
+/**
+ * AGENT STEP MARKERS
+ * Client-safe half of agentic retrieval. /api/chat prefixes the answer with
+ * one marker per tool call; MessageItem strips them and renders each call as
+ * a collapsible step above the answer.
+ */
+
+export type AgentToolName = 'sloLookup' | 'hybridSearch' | 'getPrerequisites' | 'teacher_progress';
+
+export const AGENT_TOOL_NAMES: AgentToolName[] = ['sloLookup', 'hybridSearch', 'getPrerequisites', 'teacher_progress'];
+
+export const AGENT_TOOL_LABELS: Record<AgentToolName, string> = {
+  sloLookup: 'SLO Lookup',
+  hybridSearch: 'Curriculum Search',
+  getPrerequisites: 'Prerequisite Map',
+  teacher_progress: 'Teaching Progress',
+};
+
+export interface AgentStep {
+  round: number;                     // Planner round that issued the call (1-based)
+  tool: AgentToolName;
+  args: Record<string, string>;
+  resultCount: number;
+  preview: string;                   // Start of the result as the model saw it
+  latencyMs: number;
+  error?: string;
+}
+
+const STEP_OPEN = '<!--agent-step';
+const STEP_PATTERN = /<!--agent-step (.*?)-->\n?/g;
+
+// `<` and `>` are escaped so a result preview can never close the comment
+export function formatAgentStepMarker(step: AgentStep): string {
+  const json = JSON.stringify(step).replace(/</g, '\\u003c').replace(/>/g, '\\u003e');
+  return `${STEP_OPEN} ${json}-->\n`;
+}
+
+export function parseAgentSteps(content: string): { body: string; steps: AgentStep[] } {
+  if (!content.includes(STEP_OPEN)) return { body: content, steps: [] };
+
+  const steps: AgentStep[] = [];
+  for (const match of content.matchAll(STEP_PATTERN)) {
+    try {
+      steps.push(JSON.parse(match[1]));
+    } catch {
+      // Malformed marker: drop it rather than the whole message
+    }
+  }
+  // A marker still arriving mid-stream is hidden until it is complete
+  const body = content.replace(STEP_PATTERN, '');
+  const partial = body.indexOf(STEP_OPEN);
+  return { body: partial === -1 ? body : body.slice(0, partial), steps };
+}
@@ -0,0 +1,261 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { neuralGrid } from './model-orchestrator';
+import type { GridCallContext } from './model-orchestrator';
+import { defineSchema, parseStructured } from './structured-output';
+import { hybridSearch, sloLookup, RetrievalFilters } from '../rag/retrieval';
+import { normalizeSLO } from '../rag/slo-extractor';
+import { VerticalAlignmentEngine } from '../slo/vertical-alignment';
+import { AgentStep, AgentToolName, AGENT_TOOL_NAMES } from './agent-steps';
+
+/**
+ * AGENTIC RETRIEVAL LOOP (v1.0)
+ * After the one-pass cascade, a planner call on the CHAT_LOOKUP chain may ask
+ * for more evidence: SLO chunks, hybrid search, prerequisite SLOs or the
+ * teacher's own progress. Calls run in parallel within a round, results are
+ * fed back, and the loop stops when the planner is done or the budget
+ * (rounds, calls, evidence size) runs out. The gathered evidence joins the
+ * vault for the streamed answer.
+ */
+
+const DEFAULT_MAX_ROUNDS = 3;
+const MAX_CALLS_PER_ROUND = 3;
+const MAX_CALLS = 6;
+const RESULT_CHARS = 1500;             // Per tool result, as the model sees it
+const EVIDENCE_CHARS = 12000;          // All tool results together
+const PREVIEW_CHARS = 280;
+const PLANNER_VAULT_CHARS = 3000;      // Initial vault excerpt shown to the planner
+
+// AGENT_MAX_STEPS=0 turns the loop off; the one-pass cascade still runs
+export function agentRoundBudget(): number {
+  const raw = process.env.AGENT_MAX_STEPS;
+  if (raw === undefined || raw.trim() === '') return DEFAULT_MAX_ROUNDS;
+  const rounds = Number(raw);
+  return Number.isFinite(rounds) && rounds >= 0 ? Math.floor(rounds) : DEFAULT_MAX_ROUNDS;
+}
+
+export interface AgentContext {
+  supabase: SupabaseClient;
+  userId: string;
+  priorityDocumentId?: string;
+  documentIds?: string[];            // Library scope resolved by the caller: the teacher's own documents in it
+  library?: RetrievalFilters;        // Library mode: searches go through the library retriever (public documents, filters)
+  signal?: AbortSignal;
+  grid: GridCallContext;
+}
+
+export interface AgentResult {
+  steps: AgentStep[];
+  evidence: string;                  // Tool results, ready for the prompt
+  chunkIds: string[];
+}
+
+interface ToolOutput {
+  text: string;
+  count: number;
+  chunkIds?: string[];
+}
+
+interface AgentTool {
+  usage: string;                     // Line in the planner's tool catalogue
+  run: (args: Record<string, string>, ctx: AgentContext, scope: () => Promise<string[]>) => Promise<ToolOutput>;
+}
+
+const clip = (text: string, max: number) => text.length > max ? `${text.slice(0, max)}…` : text;
+
+function chunkOutput(chunks: Array<{ id: string; content: string }>): ToolOutput {
+  return {
+    text: chunks.map(c => clip(c.content, Math.floor(RESULT_CHARS / Math.max(1, chunks.length)))).join('\n---\n'),
+    count: chunks.length,
+    chunkIds: chunks.map(c => c.id)
+  };
+}
+
+function requireArg(args: Record<string, string>, name: string): string {
+  const value = (args[name] || '').trim();
+  if (!value) throw new Error(`Missing "${name}" argument.`);
+  return value;
+}
+
+const TOOLS: Record<AgentToolName, AgentTool> = {
+  sloLookup: {
+    usage: 'sloLookup {"code": "BIO09A01"} — curriculum chunks that state or teach one SLO',
+    run: async (args, ctx, scope) => {
+      const code = normalizeSLO(requireArg(args, 'code'));
+      if (!ctx.library) return chunkOutput(await sloLookup(code, ctx.supabase, await scope()));
+      // The selector's SLO filter holds for tool searches too
+      if (ctx.library.sloCode && ctx.library.sloCode !== code) {
+        return { text: `The library is filtered to ${ctx.library.sloCode}; ${code} is outside it.`, count: 0 };
+      }
+      return chunkOutput(await hybridSearch(code, ctx.supabase, { ...ctx.library, sloCode: code }, 4));
+    }
+  },
+  hybridSearch: {
+    usage: 'hybridSearch {"query": "photosynthesis practical work"} — keyword + semantic search over the teacher\'s curriculum documents',
+    run: async (args, ctx, scope) => chunkOutput(await hybridSearch(requireArg(args, 'query'), ctx.supabase, ctx.library || { documentIds: await scope() }, 4))
+  },
+  getPrerequisites: {
+    usage: 'getPrerequisites {"code": "BIO10A02"} — prerequisite SLOs from earlier grades, with their text',
+    run: async (args, ctx) => {
+      const code = normalizeSLO(requireArg(args, 'code'));
+      const engine = new VerticalAlignmentEngine(ctx.supabase);
+      let codes = await engine.getPrerequisites(code);
+      if (codes.length === 0) {
+        const suggested = await engine.suggestVerticalPrerequisite(code);
+        if (suggested) codes = [suggested];
+      }
+      if (codes.length === 0) return { text: `No prerequisites recorded for ${code}.`, count: 0 };
+
+      const { data } = await ctx.supabase.from('slo_database')
+        .select('slo_code, slo_full_text')
+        .in('slo_code', codes);
+      const text = new Map((data || []).map(s => [s.slo_code, s.slo_full_text]));
+      return { text: codes.map(c => `- ${c}: ${text.get(c) || '(text not in ledger)'}`).join('\n'), count: codes.length };
+    }
+  },
+  teacher_progress: {
+    usage: 'teacher_progress {"code": "BIO09A01"} — what this teacher has planned or taught and student mastery; omit "code" for an overview',
+    run: async (args, ctx) => {
+      let query = ctx.supabase.from('teacher_progress')
+        .select('slo_code, status, taught_date, student_mastery_percentage, notes')
+        .eq('user_id', ctx.userId)
+        .order('updated_at', { ascending: false })
+        .limit(25);
+      if (args.code?.trim()) query = query.eq('slo_code', normalizeSLO(args.code));
+      const { data, error } = await query;
+      if (error) throw new Error(error.message);
+      if (!data?.length) return { text: 'No progress recorded.', count: 0 };
+      return {
+        text: data.map(p => `- ${p.slo_code}: ${p.status}${p.taught_date ? ` (taught ${p.taught_date})` : ''}${p.student_mastery_percentage != null ? `, mastery ${p.student_mastery_percentage}%` : ''}${p.notes ? ` — ${clip(p.notes, 120)}` : ''}`).join('\n'),
+        count: data.length
+      };
+    }
+  },
+};
+
+interface PlannedCall {
+  tool: AgentToolName;
+  args: Record<string, string>;
+}
+
+const AGENT_PLAN_SCHEMA = defineSchema<{ calls: PlannedCall[]; done: boolean }>('AGENT_PLAN', {
+  type: 'object',
+  required: ['calls'],
+  properties: {
+    calls: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['tool'],
+        properties: {
+          tool: { type: 'string', enum: AGENT_TOOL_NAMES },
+          args: { type: 'object' }
+        }
+      }
+    },
+    done: { type: 'boolean' }
+  }
+}, value => ({
+  calls: (value.calls || []).map((c: any) => ({
+    tool: c.tool,
+    args: Object.fromEntries(Object.entries(c.args || {}).map(([k, v]) => [k, String(v)]))
+  })),
+  done: Boolean(value.done)
+}));
+
+const PLANNER_SYSTEM = `You are the retrieval planner for a curriculum assistant. You do not answer the teacher. You decide which tools to call so the answer can be grounded in their documents and records.`;
+
+function plannerPrompt(query: string, vault: string, evidence: string, round: number, maxRounds: number): string {
+  return `[AGENTIC_RETRIEVAL — ROUND ${round} OF ${maxRounds}]
+TOOLS:
+${AGENT_TOOL_NAMES.map(name => `- ${TOOLS[name].usage}`).join('\n')}
+
+TEACHER QUESTION: "${query}"
+
+INITIAL VAULT EXTRACT:
+${clip(vault, PLANNER_VAULT_CHARS) || '[EMPTY]'}
+
+TOOL RESULTS SO FAR:
+${evidence || '[NONE]'}
+
+Call at most ${MAX_CALLS_PER_ROUND} tools this round, and only for evidence that is still missing.
+Respond ONLY with JSON: {"calls": [{"tool": "<name>", "args": {...}}], "done": false}
+When the evidence is sufficient (or no tool can help), respond {"calls": [], "done": true}.`;
+}
+
+export async function runAgenticRetrieval(query: string, vault: string, ctx: AgentContext): Promise<AgentResult> {
+  const maxRounds = agentRoundBudget();
+  const steps: AgentStep[] = [];
+  const results: string[] = [];
+  const chunkIds = new Set<string>();
+  const seen = new Set<string>();
+  let evidenceChars = 0;
+
+  // Documents the search tools may read: the caller's library scope, the focused one, else all the teacher's
+  let scopeIds: Promise<string[]> | null = null;
+  const scope = () => scopeIds ??= ctx.documentIds?.length
+    ? Promise.resolve(ctx.documentIds)
+    : ctx.priorityDocumentId
+    ? Promise.resolve([ctx.priorityDocumentId])
+    : Promise.resolve(ctx.supabase.from('documents').select('id').eq('user_id', ctx.userId).limit(50))
+        .then(({ data }) => (data || []).map(d => d.id));
+
+  for (let round = 1; round <= maxRounds; round++) {
+    if (steps.length >= MAX_CALLS || evidenceChars >= EVIDENCE_CHARS) break;
+
+    let plan: { calls: PlannedCall[]; done: boolean };
+    try {
+      const response = await neuralGrid.execute(
+        plannerPrompt(query, vault, results.join('\n\n'), round, maxRounds),
+        'CHAT_LOOKUP',
+        { systemPrompt: PLANNER_SYSTEM, temperature: 0, maxTokens: 512, signal: ctx.signal },
+        ctx.grid
+      );
+      plan = parseStructured(response.text, AGENT_PLAN_SCHEMA).value;
+    } catch (e: any) {
+      if (ctx.signal?.aborted) throw e;
+      // A failed planner only ends the loop; the answer uses what we have
+      console.warn(`⚠️ [Agentic Retrieval] Planner round ${round} failed: ${e.message}`);
+      break;
+    }
+
+    const calls = plan.calls
+      .filter(call => {
+        const key = `${call.tool}:${JSON.stringify(call.args)}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, Math.min(MAX_CALLS_PER_ROUND, MAX_CALLS - steps.length));
+    if (calls.length === 0) break;
+
+    const outcomes = await Promise.all(calls.map(async call => {
+      const started = Date.now();
+      try {
+        const output = await TOOLS[call.tool].run(call.args, ctx, scope);
+        return { call, output, latencyMs: Date.now() - started };
+      } catch (e: any) {
+        return { call, error: e.message || 'Tool failed', latencyMs: Date.now() - started };
+      }
+    }));
+
+    for (const { call, output, error, latencyMs } of outcomes) {
+      const label = `[${call.tool} ${Object.entries(call.args).map(([k, v]) => `${k}=${v}`).join(' ')}]`.replace(' ]', ']');
+      const text = clip(error ? `ERROR: ${error}` : output!.text || 'No results.', Math.max(0, Math.min(RESULT_CHARS, EVIDENCE_CHARS - evidenceChars)));
+      results.push(`${label}\n${text}`);
+      evidenceChars += text.length;
+      output?.chunkIds?.forEach(id => chunkIds.add(id));
+      steps.push({
+        round,
+        tool: call.tool,
+        args: call.args,
+        resultCount: output?.count || 0,
+        preview: clip(text, PREVIEW_CHARS),
+        latencyMs,
+        ...(error ? { error } : {})
+      });
+    }
+    if (plan.done) break;
+  }
+
+  return { steps, evidence: results.join('\n\n'), chunkIds: Array.from(chunkIds) };
+}
@@ -0,0 +1,80 @@
+/**
+ * CHUNK CITATIONS
+ * Client-safe half of chunk-level grounding. In chat, every vault chunk is
+ * tagged [S1], [S2]… in the prompt and the model cites those tags after the
+ * claims they support. The answer leads with a marker listing what each tag
+ * points to (a `document_chunks` row); MessageItem turns the tags into
+ * footnotes that open the chunk in DocumentReader.
+ */
+
+export interface ChunkSource {
+  tag: number;                       // n in [Sn]
+  chunkId: string;
+  documentId: string;
+  documentName: string;
+  sloCodes: string[];
+  excerpt: string;                   // Start of the chunk, for the footnote tooltip
+}
+
+const EXCERPT_CHARS = 240;
+const SOURCES_OPEN = '<!--chunk-sources';
+const SOURCES_PATTERN = /<!--chunk-sources (.*?)-->\n?/;
+const TAG_PATTERN = /\[S(\d{1,2})\]/g;
+
+export function sourceTag(tag: number): string {
+  return `[S${tag}]`;
+}
+
+export function toChunkSource(
+  tag: number,
+  chunk: { id: string; text: string; sloCodes?: string[] },
+  document: { id: string; name: string }
+): ChunkSource {
+  const text = chunk.text.replace(/\s+/g, ' ').trim();
+  return {
+    tag,
+    chunkId: chunk.id,
+    documentId: document.id,
+    documentName: document.name,
+    sloCodes: chunk.sloCodes || [],
+    excerpt: text.length > EXCERPT_CHARS ? `${text.slice(0, EXCERPT_CHARS)}…` : text
+  };
+}
+
+// Same escaping as agent steps: an excerpt can never close the comment
+export function formatSourcesMarker(sources: ChunkSource[]): string {
+  if (sources.length === 0) return '';
+  const json = JSON.stringify(sources).replace(/</g, '\\u003c').replace(/>/g, '\\u003e');
+  return `${SOURCES_OPEN} ${json}-->\n`;
+}
+
+export function parseChunkSources(content: string): { body: string; sources: ChunkSource[] } {
+  const start = content.indexOf(SOURCES_OPEN);
+  if (start === -1) return { body: content, sources: [] };
+
+  const match = content.match(SOURCES_PATTERN);
+  if (!match) return { body: content.slice(0, start), sources: [] };   // Still arriving
+  let sources: ChunkSource[] = [];
+  try {
+    sources = JSON.parse(match[1]);
+  } catch {
+    // Malformed marker: tags stay as plain text
+  }
+  return { body: content.replace(SOURCES_PATTERN, ''), sources };
+}
+
+/**
+ * Replaces [Sn] tags that have a source with footnote links. The markup goes
+ * through the markdown renderer untouched; clicks are picked up from
+ * `data-cite` on the rendered element.
+ */
+export function linkCitations(text: string, sources: ChunkSource[]): string {
+  if (sources.length === 0) return text;
+  const byTag = new Map(sources.map(s => [s.tag, s]));
+  return text.replace(TAG_PATTERN, (tag, n) => {
+    const source = byTag.get(Number(n));
+    if (!source) return tag;
+    const title = `${source.documentName}: ${source.excerpt}`.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+    return `<sup><a href="#" data-cite="${source.tag}" title="${title}" class="citation-footnote">${source.tag}</a></sup>`;
+  });
+}
@@ -0,0 +1,177 @@
+import { kv } from '../kv';
+
+/**
+ * PERSISTENT CIRCUIT BREAKER (v1.0)
+ * Per-provider closed / open / half-open state plus rolling health scores,
+ * persisted through the KV store so every serverless instance sees the same grid.
+ */
+
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+export interface BreakerRecord {
+  state: BreakerState;
+  consecutiveFailures: number;
+  trips: number;
+  openedAt?: number;
+  retryAt?: number;
+  lastError?: string;
+  updatedAt: number;
+}
+
+export interface HealthScore {
+  errorRate: number;   // EWMA of failures, 0..1
+  latencyMs: number;   // EWMA of successful call latency
+  samples: number;
+  updatedAt: number;
+}
+
+export interface ProviderHealth extends BreakerRecord, HealthScore {
+  provider: string;
+}
+
+const FAILURE_THRESHOLD = 3;
+const BASE_COOLDOWN_MS = 30_000;
+const RATE_LIMIT_COOLDOWN_MS = 60_000;
+const MAX_COOLDOWN_MS = 600_000;
+const PROBE_LEASE_MS = 30_000;
+const EWMA_ALPHA = 0.2;
+const MIN_SAMPLES_FOR_RANKING = 5;
+const STATE_TTL_SECONDS = 86400;
+
+// Status code or provider wording; a bare "rate" would match generate, moderate…
+const RATE_LIMIT_ERROR = /\b429\b|rate.?limit|too many requests|resource.?exhausted/i;
+
+export const isRateLimitError = (message: string) => RATE_LIMIT_ERROR.test(message);
+
+const breakerKey = (provider: string) => `breaker:${provider}`;
+const scoreKey = (provider: string, scope: string) => `health:${scope}:${provider}`;
+
+const freshBreaker = (): BreakerRecord => ({
+  state: 'closed', consecutiveFailures: 0, trips: 0, updatedAt: Date.now()
+});
+
+const freshScore = (): HealthScore => ({
+  errorRate: 0, latencyMs: 0, samples: 0, updatedAt: Date.now()
+});
+
+class CircuitBreaker {
+
+  async getBreaker(provider: string): Promise<BreakerRecord> {
+    return (await kv.get<BreakerRecord>(breakerKey(provider))) || freshBreaker();
+  }
+
+  async getScore(provider: string, scope: string = 'ALL'): Promise<HealthScore> {
+    return (await kv.get<HealthScore>(scoreKey(provider, scope))) || freshScore();
+  }
+
+  async getHealth(provider: string, scope: string = 'ALL'): Promise<ProviderHealth> {
+    const [breaker, score] = await Promise.all([this.getBreaker(provider), this.getScore(provider, scope)]);
+    return { provider, ...breaker, ...score };
+  }
+
+  /**
+   * Gate for a single attempt. An open breaker lets exactly one probe through
+   * (guarded by a KV lease) once its cooldown has elapsed.
+   */
+  async canAttempt(provider: string): Promise<boolean> {
+    const breaker = await this.getBreaker(provider);
+    if (breaker.state === 'closed') return true;
+
+    if (breaker.state === 'open' && Date.now() < (breaker.retryAt || 0)) return false;
+
+    const gotProbe = await kv.acquireLease(`breaker-probe:${provider}`, PROBE_LEASE_MS);
+    if (!gotProbe) return false;
+
+    if (breaker.state === 'open') {
+      await kv.set(breakerKey(provider), { ...breaker, state: 'half-open', updatedAt: Date.now() }, STATE_TTL_SECONDS);
+    }
+    return true;
+  }
+
+  async recordSuccess(provider: string, latencyMs: number, scope?: string): Promise<void> {
+    const breaker = await this.getBreaker(provider);
+    if (breaker.state !== 'closed' || breaker.consecutiveFailures > 0) {
+      if (breaker.state !== 'closed') console.log(`🟢 [Breaker] ${provider} closed after successful probe.`);
+      await kv.set(breakerKey(provider), freshBreaker(), STATE_TTL_SECONDS);
+      await kv.releaseLease(`breaker-probe:${provider}`);
+    }
+    await this.updateScores(provider, scope, false, latencyMs);
+  }
+
+  async recordFailure(provider: string, error: any, scope?: string): Promise<void> {
+    const message: string = error?.message || String(error);
+    const isRateLimit = isRateLimitError(message);
+    const breaker = await this.getBreaker(provider);
+    const now = Date.now();
+
+    const consecutiveFailures = breaker.consecutiveFailures + 1;
+    const shouldTrip = breaker.state === 'half-open' || isRateLimit || consecutiveFailures >= FAILURE_THRESHOLD;
+
+    let next: BreakerRecord = { ...breaker, consecutiveFailures, lastError: message.substring(0, 160), updatedAt: now };
+
+    if (shouldTrip) {
+      const trips = breaker.trips + 1;
+      const base = isRateLimit ? RATE_LIMIT_COOLDOWN_MS : BASE_COOLDOWN_MS;
+      const cooldown = Math.min(MAX_COOLDOWN_MS, base * Math.pow(2, trips - 1));
+      next = { ...next, state: 'open', trips, openedAt: now, retryAt: now + cooldown };
+      console.warn(`🔴 [Breaker] ${provider} opened for ${Math.round(cooldown / 1000)}s: ${next.lastError}`);
+    }
+
+    await kv.set(breakerKey(provider), next, STATE_TTL_SECONDS);
+    await kv.releaseLease(`breaker-probe:${provider}`);
+    await this.updateScores(provider, scope, true);
+  }
+
+  private async updateScores(provider: string, scope: string | undefined, failed: boolean, latencyMs?: number) {
+    const scopes = scope ? ['ALL', scope] : ['ALL'];
+    await Promise.all(scopes.map(async s => {
+      const score = await this.getScore(provider, s);
+      const next: HealthScore = {
+        errorRate: score.samples === 0
+          ? (failed ? 1 : 0)
+          : score.errorRate * (1 - EWMA_ALPHA) + (failed ? EWMA_ALPHA : 0),
+        latencyMs: latencyMs === undefined
+          ? score.latencyMs
+          : score.latencyMs === 0 ? latencyMs : score.latencyMs * (1 - EWMA_ALPHA) + latencyMs * EWMA_ALPHA,
+        samples: score.samples + 1,
+        updatedAt: Date.now()
+      };
+      await kv.set(scoreKey(provider, s), next, STATE_TTL_SECONDS);
+    }));
+  }
+
+  /**
+   * Reorders a fallback chain using per-scope health. The configured order is
+   * kept as a tiebreaker, so the table only bends when the numbers say so.
+   * Open breakers sink to the end rather than being dropped: if everything is
+   * down, the chain is still walked as a last resort.
+   */
+  async rankRoutes<T>(routes: T[], providerOf: (route: T) => string, scope: string): Promise<T[]> {
+    const providers = Array.from(new Set(routes.map(providerOf)));
+    const health = new Map<string, ProviderHealth>();
+    await Promise.all(providers.map(async p => health.set(p, await this.getHealth(p, scope))));
+
+    const maxLatency = Math.max(1, ...Array.from(health.values()).map(h => h.latencyMs));
+
+    const scored = routes.map((route, index) => {
+      const h = health.get(providerOf(route))!;
+      const isOpen = h.state === 'open' && Date.now() < (h.retryAt || 0);
+      const hasSignal = h.samples >= MIN_SAMPLES_FOR_RANKING;
+      const score = (isOpen ? 10 : 0)
+        + (hasSignal ? h.errorRate + 0.25 * (h.latencyMs / maxLatency) : 0)
+        + index * 0.15;
+      return { route, score };
+    });
+
+    return scored.sort((a, b) => a.score - b.score).map(s => s.route);
+  }
+
+  async reset(providers: string[]): Promise<void> {
+    await Promise.all(providers.map(async p => {
+      await kv.delete(breakerKey(p));
+      await kv.releaseLease(`breaker-probe:${p}`, true);
+    }));
+  }
+}
+
+export const circuitBreaker = new CircuitBreaker();
@@ -0,0 +1,290 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { getSupabaseAdminClient } from '../supabase';
+import type { AIResponse, AIRequestConfig } from './providers/providers';
+import type { TaskType, GridCallContext, AIStreamHandle } from './model-orchestrator';
+
+/**
+ * GRID RECORDER (v1.0)
+ * Opt-in record-and-replay around the orchestrator's entry points.
+ *
+ * GRID_RECORD=1 stores every grid request (prompt, system prompt, config,
+ * task type, caller) and its answer in `grid_recordings`, grouped by trace
+ * (the chat thread, when there is one).
+ *
+ * GRID_REPLAY_FILE=<cassette.json> (exported from /api/admin/recordings)
+ * serves those answers instead of calling engines. A request is matched by
+ * hash first; when prompt or retrieval code has changed it no longer matches,
+ * and GRID_REPLAY_MISS decides what happens:
+ *   sequence (default) — next unused recording of the same task, in order
+ *   error              — throw ReplayMissError
+ *   live               — call the engines as usual
+ */
+
+export type RecorderMode = 'off' | 'record' | 'replay';
+export type ReplayMissPolicy = 'sequence' | 'error' | 'live';
+
+export interface RecordedRequest {
+  taskType: TaskType;
+  prompt: string;
+  systemPrompt?: string;
+  config: Pick<AIRequestConfig, 'temperature' | 'maxTokens' | 'responseSchema'>;
+  stream: boolean;
+  userId?: string;
+  tool?: string;
+  traceId?: string;
+}
+
+export interface Recording extends RecordedRequest {
+  id?: string;
+  hash: string;
+  response: AIResponse;
+  createdAt?: string;
+}
+
+export interface Cassette {
+  version: 1;
+  exportedAt: string;
+  recordings: Recording[];
+}
+
+export interface RecordingFilters {
+  traceId?: string;
+  userId?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+export class ReplayMissError extends Error {
+  constructor(public taskType: TaskType, public hash: string) {
+    super(`Replay miss: no recorded ${taskType} answer for request ${hash.slice(0, 12)}`);
+    this.name = 'ReplayMissError';
+  }
+}
+
+const EXPORT_LIMIT = 1000;
+const REPLAY_PROVIDER_SUFFIX = '+replay';
+
+export function recorderMode(): RecorderMode {
+  if (process.env.GRID_REPLAY_FILE?.trim()) return 'replay';
+  return process.env.GRID_RECORD === '1' || process.env.GRID_RECORD === 'true' ? 'record' : 'off';
+}
+
+function missPolicy(): ReplayMissPolicy {
+  const raw = process.env.GRID_REPLAY_MISS;
+  return raw === 'error' || raw === 'live' ? raw : 'sequence';
+}
+
+/** Everything that shapes an answer; who asked and how it is delivered do not. */
+export function requestHash(request: RecordedRequest): string {
+  return createHash('sha256').update(JSON.stringify([
+    request.taskType,
+    request.prompt,
+    request.systemPrompt || '',
+    request.config.temperature ?? null,
+    request.config.maxTokens ?? null,
+    request.config.responseSchema || null
+  ])).digest('hex');
+}
+
+export function describeRequest(
+  prompt: string,
+  taskType: TaskType,
+  config: AIRequestConfig,
+  context: GridCallContext,
+  stream: boolean
+): RecordedRequest {
+  return {
+    taskType,
+    prompt,
+    systemPrompt: config.systemPrompt,
+    config: {
+      temperature: config.temperature,
+      maxTokens: config.maxTokens,
+      ...(config.responseSchema ? { responseSchema: config.responseSchema } : {})
+    },
+    stream,
+    userId: context.userId,
+    tool: context.tool,
+    traceId: context.traceId
+  };
+}
+
+const toRecording = (row: any): Recording => ({
+  id: row.id,
+  hash: row.request_hash,
+  taskType: row.task_type,
+  prompt: row.prompt,
+  systemPrompt: row.system_prompt || undefined,
+  config: row.config || {},
+  stream: row.stream,
+  userId: row.user_id || undefined,
+  tool: row.tool || undefined,
+  traceId: row.trace_id || undefined,
+  response: row.response,
+  createdAt: row.created_at
+});
+
+// Replayed answers stream back word by word so the UI path is exercised
+function replayHandle(response: AIResponse): AIStreamHandle {
+  async function* tokens(): AsyncGenerator<string> {
+    for (const piece of response.text.match(/\s*\S+\s*/g) || []) yield piece;
+  }
+  return { provider: response.provider, modelUsed: response.modelUsed, tokens: tokens(), result: Promise.resolve(response) };
+}
+
+class GridRecorder {
+  private cassette: Recording[] | null = null;
+  private cassettePath = '';
+  private used = new Set<number>();
+
+  mode(): RecorderMode {
+    return recorderMode();
+  }
+
+  /**
+   * Runs `live` unless replaying. `fromRecording` rebuilds the caller's
+   * result type from a stored answer (e.g. re-parsing structured output).
+   */
+  async around<R extends AIResponse>(
+    request: RecordedRequest,
+    live: () => Promise<R>,
+    fromRecording: (response: AIResponse) => R = response => response as R
+  ): Promise<R> {
+    const mode = this.mode();
+    if (mode === 'replay') {
+      const recorded = this.take(request);
+      if (recorded) return fromRecording(recorded);
+      return live();
+    }
+
+    const result = await live();
+    if (mode === 'record') this.save(request, result);
+    return result;
+  }
+
+  async aroundStream(request: RecordedRequest, live: () => Promise<AIStreamHandle>, signal?: AbortSignal): Promise<AIStreamHandle> {
+    const mode = this.mode();
+    if (mode === 'replay') {
+      const recorded = this.take(request);
+      if (recorded) return replayHandle(recorded);
+      return live();
+    }
+
+    const handle = await live();
+    if (mode === 'record') {
+      // Only complete answers are worth replaying
+      handle.result.then(result => { if (!signal?.aborted) this.save(request, result); }, () => {});
+    }
+    return handle;
+  }
+
+  private save(request: RecordedRequest, response: AIResponse) {
+    getSupabaseAdminClient().from('grid_recordings').insert({
+      request_hash: requestHash(request),
+      task_type: request.taskType,
+      prompt: request.prompt,
+      system_prompt: request.systemPrompt || null,
+      config: request.config,
+      stream: request.stream,
+      user_id: request.userId || null,
+      tool: request.tool || null,
+      trace_id: request.traceId || null,
+      response: {
+        text: response.text,
+        provider: response.provider,
+        modelUsed: response.modelUsed,
+        latencyMs: response.latencyMs,
+        tokensUsed: response.tokensUsed,
+        promptTokens: response.promptTokens,
+        completionTokens: response.completionTokens
+      }
+    }).then(({ error }) => {
+      if (error) console.warn(`⚠️ [Grid Recorder] Recording not saved: ${error.message}`);
+    });
+  }
+
+  // ─── REPLAY ─────────────────────────────────────────────────────
+
+  private load(): Recording[] {
+    const path = process.env.GRID_REPLAY_FILE!.trim();
+    if (this.cassette && this.cassettePath === path) return this.cassette;
+
+    const parsed = JSON.parse(readFileSync(path, 'utf8')) as Cassette | Recording[];
+    const recordings = Array.isArray(parsed) ? parsed : parsed.recordings;
+    if (!Array.isArray(recordings)) throw new Error(`Replay cassette ${path} has no recordings.`);
+
+    this.cassette = recordings.map(r => ({ ...r, hash: r.hash || requestHash(r) }));
+    this.cassettePath = path;
+    this.used.clear();
+    console.log(`[Grid Replay] Loaded ${this.cassette.length} recordings from ${path}`);
+    return this.cassette;
+  }
+
+  // Exact match first, then the miss policy. Each recording is served once,
+  // in cassette order, so a re-run is deterministic.
+  private take(request: RecordedRequest): AIResponse | null {
+    const recordings = this.load();
+    const hash = requestHash(request);
+    const pick = (index: number) => {
+      this.used.add(index);
+      const { response } = recordings[index];
+      return { ...response, provider: `${response.provider}${REPLAY_PROVIDER_SUFFIX}`, latencyMs: 0 };
+    };
+
+    const exact = recordings.findIndex((r, i) => !this.used.has(i) && r.hash === hash);
+    if (exact !== -1) return pick(exact);
+
+    const policy = missPolicy();
+    if (policy === 'error') throw new ReplayMissError(request.taskType, hash);
+    if (policy === 'live') {
+      console.warn(`[Grid Replay] ${request.taskType}: no recording for ${hash.slice(0, 12)}, calling engines`);
+      return null;
+    }
+
+    const next = recordings.findIndex((r, i) => !this.used.has(i) && r.taskType === request.taskType);
+    if (next === -1) throw new ReplayMissError(request.taskType, hash);
+    console.warn(`[Grid Replay] ${request.taskType}: request changed since recording, serving recording ${next + 1} in sequence`);
+    return pick(next);
+  }
+
+  /** Forget which recordings were served, so the cassette can be replayed again. */
+  rewind(): void {
+    this.used.clear();
+  }
+
+  // ─── ADMIN ──────────────────────────────────────────────────────
+
+  async export(filters: RecordingFilters): Promise<Cassette> {
+    let query = getSupabaseAdminClient()
+      .from('grid_recordings')
+      .select('*')
+      .order('created_at', { ascending: true })
+      .limit(Math.min(filters.limit || EXPORT_LIMIT, EXPORT_LIMIT));
+    if (filters.traceId) query = query.eq('trace_id', filters.traceId);
+    if (filters.userId) query = query.eq('user_id', filters.userId);
+    if (filters.since) query = query.gte('created_at', filters.since);
+    if (filters.until) query = query.lte('created_at', filters.until);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return { version: 1, exportedAt: new Date().toISOString(), recordings: (data || []).map(toRecording) };
+  }
+
+  async purge(filters: Pick<RecordingFilters, 'traceId' | 'userId' | 'until'>): Promise<number> {
+    if (!filters.traceId && !filters.userId && !filters.until) {
+      throw Object.assign(new Error('Purge needs a filter.'), { issues: ['Give traceId, userId or until.'] });
+    }
+    let query = getSupabaseAdminClient().from('grid_recordings').delete();
+    if (filters.traceId) query = query.eq('trace_id', filters.traceId);
+    if (filters.userId) query = query.eq('user_id', filters.userId);
+    if (filters.until) query = query.lte('created_at', filters.until);
+
+    const { data, error } = await query.select('id');
+    if (error) throw error;
+    return (data || []).length;
+  }
+}
+
+export const gridRecorder = new GridRecorder();
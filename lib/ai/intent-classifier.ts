@@ -1,5 +1,8 @@
-
 import { GoogleGenAI, Type } from "@google/genai";
+import { isLocalModeEnabled } from './providers/local';
+import { analyzeUserQuery } from './query-analyzer';
+import { intentModelStore } from './intent-model-store';
+import { predictIntent } from './intent-model';
 
 export type QueryIntent = 'lookup' | 'creation' | 'analysis' | 'comparison' | 'general';
 
@@ -9,25 +12,127 @@ export interface IntentResult {
   suggestedProvider: string;
   isSTEM: boolean;
   requiresGrounding: boolean;
+  confidence?: number;
+  source?: 'rules' | 'model' | 'llm';
 }
 
+const INTENTS: QueryIntent[] = ['lookup', 'creation', 'analysis', 'comparison', 'general'];
+
+// Rule hits on an explicit analyzer pattern are trusted; 'general' is a shrug
+const RULE_CONFIDENCE = 0.85;
+const RULE_FALLBACK_CONFIDENCE = 0.4;
+// The model overrides the rules only when it is this sure, beats them by the
+// margin and has seen the words
+const MODEL_OVERRIDE_CONFIDENCE = 0.75;
+const MODEL_OVERRIDE_MARGIN = 0.1;
+const MIN_MODEL_COVERAGE = 2;
+// Below this, with rules and model disagreeing, the LLM tiebreaker may be asked
+const TIEBREAK_BELOW = 0.6;
+const LLM_TIMEOUT_MS = 2500;
+
+const isLLMTiebreakerEnabled = () =>
+  ['1', 'true', 'on'].includes((process.env.INTENT_LLM_TIEBREAKER || '').toLowerCase()) && !isLocalModeEnabled();
+
 /**
- * NEURAL INTENT CLASSIFIER (v1.0)
- * Uses Gemini 3 Flash for zero-cost, high-speed routing logic.
+ * HYBRID INTENT CLASSIFIER (v2.0)
+ * In-process: analyzer rules, refined by a Naive Bayes model trained from
+ * retrieval_logs (see intent-model-store). The Gemini call only breaks ties,
+ * and only when INTENT_LLM_TIEBREAKER is on.
  */
 export async function classifyIntent(query: string): Promise<IntentResult> {
+  const rules = classifyIntentByRules(query);
+  const model = intentModelStore.peek();
+  if (!model) return rules;
+
+  const prediction = predictIntent(model, query);
+  if (prediction.coverage < MIN_MODEL_COVERAGE) return rules;
+
+  const modelIntent = prediction.intent.label as QueryIntent;
+  const modelComplexity = Number(prediction.complexity.label) as IntentResult['complexity'];
+  const agree = modelIntent === rules.intent;
+
+  if (agree) {
+    return {
+      ...rules,
+      complexity: prediction.complexity.confidence >= MODEL_OVERRIDE_CONFIDENCE ? modelComplexity : rules.complexity,
+      confidence: Math.max(rules.confidence!, prediction.intent.confidence),
+    };
+  }
+
+  const modelWins = prediction.intent.confidence >= MODEL_OVERRIDE_CONFIDENCE &&
+    prediction.intent.confidence >= rules.confidence! + MODEL_OVERRIDE_MARGIN;
+  if (modelWins) {
+    return withIntent(rules, modelIntent, modelComplexity, prediction.intent.confidence, 'model');
+  }
+
+  if (Math.max(rules.confidence!, prediction.intent.confidence) < TIEBREAK_BELOW && isLLMTiebreakerEnabled()) {
+    const llm = await classifyIntentWithLLM(query);
+    if (llm) return llm;
+  }
+
+  return rules;
+}
+
+function withIntent(
+  base: IntentResult,
+  intent: QueryIntent,
+  complexity: IntentResult['complexity'],
+  confidence: number,
+  source: IntentResult['source']
+): IntentResult {
+  return {
+    ...base,
+    intent,
+    complexity,
+    confidence,
+    source,
+    requiresGrounding: base.requiresGrounding || intent !== 'general'
+  };
+}
+
+/**
+ * Deterministic rules derived from the query analyzer.
+ */
+export function classifyIntentByRules(query: string): IntentResult {
+  const analysis = analyzeUserQuery(query);
+  const isComparison = /compare|versus|\bvs\b|difference between/i.test(query);
+  const intent: QueryIntent =
+    analysis.queryType === 'lookup' ? 'lookup'
+    : analysis.queryType === 'lesson_plan' || analysis.queryType === 'assessment' ? 'creation'
+    : analysis.queryType === 'differentiation' || analysis.queryType === 'teaching' ? 'analysis'
+    : isComparison ? 'comparison'
+    : 'general';
+  const complexity = analysis.complexityLevel === 'simple' ? 1 : analysis.complexityLevel === 'complex' ? 3 : 2;
+
+  return {
+    intent,
+    complexity,
+    suggestedProvider: isLocalModeEnabled() ? 'local' : complexity === 3 ? 'gemini-pro' : 'groq',
+    isSTEM: /math|physics|chemistry|biology|science|equation|formula|\$/i.test(query),
+    requiresGrounding: analysis.allSLOCodes.length > 0 || intent !== 'general',
+    confidence: intent === 'general' ? RULE_FALLBACK_CONFIDENCE : RULE_CONFIDENCE,
+    source: 'rules'
+  };
+}
+
+/**
+ * Gemini Flash tiebreaker. Returns null on timeout or failure so the caller
+ * keeps its local answer.
+ */
+async function classifyIntentWithLLM(query: string): Promise<IntentResult | null> {
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
+
   try {
     const response = await ai.models.generateContent({
       model: 'gemini-3-flash-preview',
       contents: `Classify the pedagogical intent of this user query: "${query}"`,
       config: {
+        abortSignal: AbortSignal.timeout(LLM_TIMEOUT_MS),
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
           properties: {
-            intent: { type: Type.STRING, enum: ['lookup', 'creation', 'analysis', 'comparison', 'general'] },
+            intent: { type: Type.STRING, enum: INTENTS },
             complexity: { type: Type.INTEGER, description: "1: Simple recall, 2: Application, 3: Complex synthesis" },
             suggestedProvider: { type: Type.STRING, description: "gemini-pro, groq, deepseek, or gemini-flash" },
             isSTEM: { type: Type.BOOLEAN },
@@ -38,15 +143,11 @@ export async function classifyIntent(query: string): Promise<IntentResult> {
       }
     });
 
-    return JSON.parse(response.text || '{}');
-  } catch (e) {
-    // Default fallback
-    return {
-      intent: 'general',
-      complexity: 2,
-      suggestedProvider: 'gemini-flash',
-      isSTEM: false,
-      requiresGrounding: true
-    };
+    const parsed = JSON.parse(response.text || '{}');
+    if (!INTENTS.includes(parsed.intent) || ![1, 2, 3].includes(parsed.complexity)) return null;
+    return { ...parsed, confidence: 1, source: 'llm' };
+  } catch (e: any) {
+    console.warn(`⚠️ [Intent] LLM tiebreaker unavailable: ${e.message}`);
+    return null;
   }
 }
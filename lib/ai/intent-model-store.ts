@@ -0,0 +1,150 @@
+import { getSupabaseAdminClient } from '../supabase';
+import {
+  IntentModel, IntentTrainingRow,
+  trainIntentModel, evaluateIntentModel
+} from './intent-model';
+
+/**
+ * INTENT MODEL STORE (v1.0)
+ * Trained models live in `intent_models`; the active one is loaded once per
+ * RECHECK_MS and served from memory. Training reads labelled chat turns from
+ * `retrieval_logs`: LLM labels, confident rule labels and the rules' 'general'
+ * fallback. Rows the model labelled itself are never fed back.
+ */
+
+const RECHECK_MS = 5 * 60_000;
+const TRAINING_WINDOW = 5000;
+const MIN_TRAINING_ROWS = 50;
+const SELF_LABEL_CONFIDENCE = 0.8;
+const HOLDOUT_EVERY = 5;           // Every 5th row is held out for accuracy
+
+// The model must not train on its own guesses. Rule labels count when
+// confident; 'general' is their low-confidence fallback, kept so the model
+// learns that class too instead of relabelling it.
+function isTrustedLabel(row: { intent: string; intent_source?: string | null; intent_confidence?: number | null }): boolean {
+  if (row.intent_source === 'llm') return true;
+  if (row.intent_source === 'model') return false;
+  if (row.intent_source === 'rules' && row.intent === 'general') return true;
+  return (row.intent_confidence ?? 0) >= SELF_LABEL_CONFIDENCE;
+}
+
+export interface IntentModelSummary {
+  version: number;
+  samples: number;
+  accuracy: IntentModel['accuracy'];
+  trainedAt: string;
+  isActive: boolean;
+}
+
+class IntentModelStore {
+  private cached: IntentModel | null = null;
+  private checkedAt = 0;
+  private loading: Promise<IntentModel | null> | null = null;
+
+  /** The active model, or null until one has been trained. Never throws. */
+  async getActive(): Promise<IntentModel | null> {
+    if (Date.now() - this.checkedAt < RECHECK_MS) return this.cached;
+    if (!this.loading) {
+      this.loading = this.refresh().finally(() => { this.loading = null; });
+    }
+    return this.loading;
+  }
+
+  // Synchronous peek for callers that must not wait on the first load
+  peek(): IntentModel | null {
+    if (Date.now() - this.checkedAt >= RECHECK_MS) this.getActive().catch(() => {});
+    return this.cached;
+  }
+
+  private async refresh(): Promise<IntentModel | null> {
+    this.checkedAt = Date.now();
+    try {
+      const { data, error } = await getSupabaseAdminClient()
+        .from('intent_models')
+        .select('version, model')
+        .eq('is_active', true)
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      if (data && data.version !== this.cached?.version) {
+        console.log(`🧠 [Intent] Loaded intent model v${data.version}.`);
+        this.cached = data.model;
+      }
+    } catch (e: any) {
+      console.warn(`⚠️ [Intent] Model load failed, keeping ${this.cached ? `v${this.cached.version}` : 'rules only'}: ${e.message}`);
+    }
+    return this.cached;
+  }
+
+  async list(limit: number = 10): Promise<IntentModelSummary[]> {
+    const { data, error } = await getSupabaseAdminClient()
+      .from('intent_models')
+      .select('version, samples, accuracy, is_active, created_at')
+      .order('version', { ascending: false })
+      .limit(limit);
+    if (error) throw error;
+    return (data || []).map(row => ({
+      version: row.version,
+      samples: row.samples,
+      accuracy: row.accuracy,
+      trainedAt: row.created_at,
+      isActive: row.is_active
+    }));
+  }
+
+  private async loadTrainingRows(): Promise<IntentTrainingRow[]> {
+    const { data, error } = await getSupabaseAdminClient()
+      .from('retrieval_logs')
+      .select('query_text, intent, complexity, intent_source, intent_confidence')
+      .not('intent', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(TRAINING_WINDOW);
+    if (error) throw error;
+
+    return (data || [])
+      .filter(row => row.query_text && isTrustedLabel(row))
+      .map(row => ({ query: row.query_text, intent: row.intent, complexity: row.complexity || 2 }));
+  }
+
+  /**
+   * Trains on recent retrieval_logs, measures held-out accuracy and activates
+   * the result. Throws when there is not enough labelled history yet.
+   */
+  async train(): Promise<IntentModelSummary> {
+    const rows = await this.loadTrainingRows();
+    if (rows.length < MIN_TRAINING_ROWS) {
+      throw new Error(`Only ${rows.length} labelled queries in retrieval_logs; need ${MIN_TRAINING_ROWS}.`);
+    }
+
+    const admin = getSupabaseAdminClient();
+    const { data: latest } = await admin
+      .from('intent_models')
+      .select('version')
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    const version = (latest?.version || 0) + 1;
+
+    const train = rows.filter((_, i) => i % HOLDOUT_EVERY !== 0);
+    const holdout = rows.filter((_, i) => i % HOLDOUT_EVERY === 0);
+    const accuracy = evaluateIntentModel(trainIntentModel(train, version), holdout);
+
+    // The shipped model sees every row; the split only measured it
+    const model: IntentModel = { ...trainIntentModel(rows, version), accuracy };
+
+    const { error } = await admin
+      .from('intent_models')
+      .insert({ version, model, samples: rows.length, accuracy, is_active: false });
+    if (error) throw error;
+
+    await admin.from('intent_models').update({ is_active: false }).neq('version', version);
+    await admin.from('intent_models').update({ is_active: true }).eq('version', version);
+
+    this.cached = model;
+    this.checkedAt = Date.now();
+    return { version, samples: rows.length, accuracy, trainedAt: model.trainedAt, isActive: true };
+  }
+}
+
+export const intentModelStore = new IntentModelStore();
@@ -0,0 +1,164 @@
+// lib/ai/intent-model.ts
+// LIGHTWEIGHT INTENT MODEL — multinomial Naive Bayes over unigrams + bigrams.
+// Pure and serialisable: trained from retrieval_logs, stored as JSON, and
+// evaluated in-process in well under a millisecond per query.
+
+import { extractSLOCodes } from '../rag/slo-extractor';
+
+export interface NaiveBayesHead {
+  classes: string[];
+  logPrior: number[];
+  logLikelihood: number[][];   // [class][vocabIndex]; out-of-vocab tokens are ignored
+}
+
+export interface IntentModel {
+  version: number;
+  trainedAt: string;
+  samples: number;
+  vocab: string[];
+  heads: {
+    intent: NaiveBayesHead;
+    complexity: NaiveBayesHead;
+  };
+  accuracy: { intent: number; complexity: number };   // Measured on a held-out split
+}
+
+export interface IntentTrainingRow {
+  query: string;
+  intent: string;
+  complexity: number;
+}
+
+export interface HeadPrediction {
+  label: string;
+  confidence: number;
+}
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'is', 'are', 'be', 'it',
+  'this', 'that', 'with', 'me', 'my', 'i', 'you', 'your', 'can', 'please', 'do', 'at', 'by'
+]);
+const MAX_VOCAB = 3000;
+const MIN_DOC_FREQ = 2;
+const SMOOTHING = 1;
+const PRECISION = 1e4;
+
+export function tokenizeQuery(query: string): string[] {
+  const words = query.toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(w => w.length > 1 && !STOP_WORDS.has(w));
+
+  const tokens = [...words];
+  for (let i = 0; i < words.length - 1; i++) tokens.push(`${words[i]}_${words[i + 1]}`);
+
+  // Structural features the words alone miss
+  if (extractSLOCodes(query).length > 0) tokens.push('__slo_code__');
+  const length = query.split(/\s+/).length;
+  tokens.push(length < 8 ? '__len_short__' : length < 25 ? '__len_medium__' : '__len_long__');
+  if (query.trim().endsWith('?')) tokens.push('__question__');
+  return tokens;
+}
+
+const isStructuralToken = (token: string) => token.startsWith('__');
+
+const round = (n: number) => Math.round(n * PRECISION) / PRECISION;
+
+function trainHead(docs: string[][], labels: string[], vocabIndex: Map<string, number>): NaiveBayesHead {
+  const classes = Array.from(new Set(labels)).sort();
+  const counts = classes.map(() => new Array(vocabIndex.size).fill(0));
+  const totals = classes.map(() => 0);
+  const docCounts = classes.map(() => 0);
+
+  docs.forEach((tokens, d) => {
+    const c = classes.indexOf(labels[d]);
+    docCounts[c]++;
+    for (const token of tokens) {
+      const v = vocabIndex.get(token);
+      if (v === undefined) continue;
+      counts[c][v]++;
+      totals[c]++;
+    }
+  });
+
+  return {
+    classes,
+    logPrior: docCounts.map(n => round(Math.log(n / docs.length))),
+    logLikelihood: counts.map((row, c) =>
+      row.map(n => round(Math.log((n + SMOOTHING) / (totals[c] + SMOOTHING * vocabIndex.size))))
+    )
+  };
+}
+
+function predictHead(head: NaiveBayesHead, tokenIds: number[]): HeadPrediction {
+  const scores = head.classes.map((_, c) =>
+    tokenIds.reduce((sum, v) => sum + head.logLikelihood[c][v], head.logPrior[c])
+  );
+  const max = Math.max(...scores);
+  const exps = scores.map(s => Math.exp(s - max));
+  const sum = exps.reduce((a, b) => a + b, 0);
+  const best = scores.indexOf(max);
+  return { label: head.classes[best], confidence: exps[best] / sum };
+}
+
+export function trainIntentModel(rows: IntentTrainingRow[], version: number): Omit<IntentModel, 'accuracy'> {
+  const docs = rows.map(r => tokenizeQuery(r.query));
+
+  const docFreq = new Map<string, number>();
+  for (const tokens of docs) {
+    for (const token of new Set(tokens)) docFreq.set(token, (docFreq.get(token) || 0) + 1);
+  }
+  const vocab = Array.from(docFreq.entries())
+    .filter(([, df]) => df >= MIN_DOC_FREQ)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_VOCAB)
+    .map(([token]) => token);
+  const vocabIndex = new Map(vocab.map((token, i) => [token, i]));
+
+  return {
+    version,
+    trainedAt: new Date().toISOString(),
+    samples: rows.length,
+    vocab,
+    heads: {
+      intent: trainHead(docs, rows.map(r => r.intent), vocabIndex),
+      complexity: trainHead(docs, rows.map(r => String(r.complexity)), vocabIndex)
+    }
+  };
+}
+
+// Vocab lookups are rebuilt once per loaded model, not per query
+const vocabCache = new WeakMap<string[], Map<string, number>>();
+
+export function predictIntent(model: Pick<IntentModel, 'vocab' | 'heads'>, query: string) {
+  let index = vocabCache.get(model.vocab);
+  if (!index) {
+    index = new Map(model.vocab.map((token, i) => [token, i]));
+    vocabCache.set(model.vocab, index);
+  }
+  const known = tokenizeQuery(query).filter(token => index!.has(token));
+  const tokenIds = known.map(token => index!.get(token)!);
+
+  return {
+    intent: predictHead(model.heads.intent, tokenIds),
+    complexity: predictHead(model.heads.complexity, tokenIds),
+    // Known words and bigrams; structural features ride along on every query
+    // and say nothing about whether the model has seen its vocabulary
+    coverage: known.filter(token => !isStructuralToken(token)).length
+  };
+}
+
+export function evaluateIntentModel(model: Pick<IntentModel, 'vocab' | 'heads'>, rows: IntentTrainingRow[]) {
+  if (rows.length === 0) return { intent: 0, complexity: 0 };
+  let intentHits = 0;
+  let complexityHits = 0;
+  for (const row of rows) {
+    const prediction = predictIntent(model, row.query);
+    if (prediction.intent.label === row.intent) intentHits++;
+    if (prediction.complexity.label === String(row.complexity)) complexityHits++;
+  }
+  return {
+    intent: round(intentHits / rows.length),
+    complexity: round(complexityHits / rows.length)
+  };
+}
@@ -1,11 +1,23 @@
 // lib/ai/model-orchestrator.ts
 // 7-ENGINE NEURAL GRID — Task-specialized routing with full fallback chain
 
+import { AIResponse, AIRequestConfig, AITokenStream, AIStreamSummary } from './providers/providers';
+import { isLocalModeEnabled } from './providers/local';
+import { providerRegistry } from './providers/registry';
+import type { GridEngine } from './providers/catalog';
+import { circuitBreaker, isRateLimitError, ProviderHealth } from './circuit-breaker';
+import { rateLimiter, RateLimitError } from './rate-limiter';
+import { requestQueue, QueueLane, QueueOptions, QueueSlot, QueueTimeoutError, LANE_DEADLINE_MS } from './request-queue';
+import { routingStore } from './routing-store';
+import { DEFAULT_ROUTING_TABLE } from './routing-table';
+import { buildUsageRecord, recordUsage } from './usage-ledger';
+import { gridRecorder, describeRequest } from './grid-recorder';
+import { piiShield } from './pii-shield';
+import { Redaction } from './pii-redactor';
 import {
-  callGemini, callDeepSeek, callGroq,
-  callCerebras, callSambanova, callOpenRouter,
-  AIResponse, AIRequestConfig
-} from './providers/providers';
+  StructuredSchema, StructuredOutputError,
+  parseStructured, schemaInstruction, reaskPrompt
+} from './structured-output';
 
 // ─── TASK TYPES (maps to your Neural Tools) ───────────────────────
 export type TaskType =
@@ -19,287 +31,690 @@ export type TaskType =
   | 'SLO_PARSE'           // Extract SLOs from text → JSON
   | 'VERTICAL_ALIGN';     // Grade-to-grade alignment analysis
 
+// ─── ENGINE DISPATCH ──────────────────────────────────────────────
+// Every engine is a registry plugin (providers/registry.ts) exposing a
+// blocking call and a token stream with the same signature
+
+export type { GridEngine };
+
+// Only engines with a shared upstream quota are charged against a provider bucket
+const providerLimit = (engine: GridEngine) =>
+  ({ provider: providerRegistry.get(engine).rateLimited ? engine : undefined });
+
 // ─── ROUTING TABLE ────────────────────────────────────────────────
-// Each task has a PRIMARY engine + ordered FALLBACK chain
-// Based on: context needs, speed requirements, JSON reliability
+// Each task has a PRIMARY engine + ordered FALLBACK chain, declared in
+// routing-table.ts and editable from Brain Control (see routing-store.ts)
+
+export interface GridRoute {
+  engine: GridEngine;
+  model: string;
+  config: AIRequestConfig;
+}
+
+const route = (engine: GridEngine, model: string, config: AIRequestConfig): GridRoute =>
+  ({ engine, model, config });
+
+// ─── CALL CONTEXT ─────────────────────────────────────────────────
+// Who the call is for. Used for metering; never sent to a provider.
+
+export interface GridCallContext {
+  userId?: string;
+  tool?: string;
+  lane?: QueueLane;           // Queue priority; defaults to laneFor(taskType)
+  traceId?: string;           // Groups recorded calls (e.g. a chat thread) for replay
+  workspace?: string;         // PII policy; resolved from userId when absent
+  evaluation?: boolean;       // Golden-set replay: no usage charge to the user
+}
+
+// ─── QUEUE LANES ──────────────────────────────────────────────────
+// Every engine attempt waits for a request-queue slot. Chat is served first,
+// ingestion last; a caller can override the lane through its context.
+
+const BACKGROUND_TASKS: TaskType[] = ['INGEST_LINEARIZE', 'SLO_PARSE'];
+
+export function laneFor(taskType: TaskType): QueueLane {
+  if (taskType === 'CHAT_LOOKUP') return 'interactive';
+  return BACKGROUND_TASKS.includes(taskType) ? 'background' : 'tool';
+}
+
+// ─── STRUCTURED RESULT ────────────────────────────────────────────
+// `data` has passed schema validation; `attempts` counts engine answers.
+
+export interface StructuredResponse<T> extends AIResponse {
+  data: T;
+  repaired: boolean;
+  attempts: number;
+}
+
+// ─── STREAM HANDLE ────────────────────────────────────────────────
+// Resolved once the first token has arrived, i.e. once an engine is committed.
+// `result` settles with the assembled AIResponse once `tokens` is drained or
+// returned early; either way the engine's queue slot is released.
+
+export interface AIStreamHandle {
+  provider: string;
+  modelUsed: string;
+  tokens: AsyncGenerator<string>;
+  result: Promise<AIResponse>;
+  hedge?: HedgeReport;
+}
+
+// ─── HEDGING ──────────────────────────────────────────────────────
+// Opt-in via GRID_HEDGE_DELAY_MS (unset = off, 0 = race both engines).
 
-interface RouteConfig {
-  description: string;
-  primary: () => Promise<AIResponse>;
-  fallbacks: Array<() => Promise<AIResponse>>;
+export interface HedgePolicy {
+  delayMs: number;
+}
+
+export interface HedgeReport {
+  winner: GridEngine;
+  contenders: GridEngine[];   // Engines actually fired, in firing order
+  hedged: boolean;            // False when the primary answered before the delay
+  delayMs: number;
+}
+
+export interface HedgedResponse extends AIResponse {
+  hedge?: HedgeReport;        // Absent when fewer than two engines were available
+}
+
+// Shortest wait among routes skipped for a rate limit during one walk
+interface RateLimitTally {
+  retryAfterSeconds: number;
+}
+
+const HEDGEABLE_TASKS: TaskType[] = ['CHAT_LOOKUP'];
+
+export function hedgePolicyFor(taskType: TaskType): HedgePolicy | null {
+  const raw = process.env.GRID_HEDGE_DELAY_MS;
+  if (!HEDGEABLE_TASKS.includes(taskType) || raw === undefined || raw.trim() === '') return null;
+  const delayMs = Number(raw);
+  return Number.isFinite(delayMs) && delayMs >= 0 ? { delayMs } : null;
+}
+
+// A generator returned before its first next() never runs its body, so its
+// finally cannot close the engine stream; `close` does that instead.
+function closeOnEarlyReturn(tokens: AsyncGenerator<string>, close: () => Promise<unknown>): AsyncGenerator<string> {
+  let started = false;
+  const next = tokens.next.bind(tokens);
+  const finish = tokens.return.bind(tokens);
+  tokens.next = (...args) => { started = true; return next(...args); };
+  tokens.return = async value => {
+    if (!started) {
+      started = true;
+      await close();
+    }
+    return finish(value);
+  };
+  return tokens;
 }
 
 export class NeuralOrchestrator {
 
-  private async executeWithFallback(
-    routes: Array<() => Promise<AIResponse>>,
-    taskType: TaskType
-  ): Promise<AIResponse> {
+  private async backoff(err: any, attempt: number, total: number, taskType: TaskType) {
+    const isRateLimit = isRateLimitError(err.message || '');
+    const isModel = err.message?.includes('404') || err.message?.includes('model');
+
+    console.warn(`[Grid] ${taskType} attempt ${attempt + 1} failed on route ${attempt}: ${err.message?.substring(0, 80)}`);
+
+    if (!isRateLimit && !isModel && attempt < total - 1) {
+      // Non-rate-limit error: still try next fallback but add small delay
+      await new Promise(r => setTimeout(r, 500));
+    } else if (isRateLimit) {
+      // Rate limit: longer backoff before trying fallback
+      await new Promise(r => setTimeout(r, 2000 * (attempt + 1)));
+    }
+  }
+
+  // Breaker + rate-limit gate for one attempt; returns why the route is
+  // skipped, or null. When every earlier route was skipped, the final route is
+  // tried despite an open breaker so a fully tripped grid still answers. Rate
+  // limits are never overridden: the shared quota belongs to every instance.
+  private async gate(engine: GridEngine, index: number, total: number, attempted: number, limits: RateLimitTally) {
+    const circuitOpen = !(await circuitBreaker.canAttempt(engine)) && !(attempted === 0 && index === total - 1);
+    if (circuitOpen) return 'circuit open';
+    const decision = await rateLimiter.check(providerLimit(engine));
+    if (decision.allowed) return null;
+    limits.retryAfterSeconds = Math.min(limits.retryAfterSeconds, decision.retryAfterSeconds);
+    return `rate limited, retry in ${decision.retryAfterSeconds}s`;
+  }
+
+  // Every route was skipped and at least one for a rate limit: that is the
+  // caller's answer, not an engine fault
+  private exhausted(taskType: TaskType, attempted: number, limits: RateLimitTally, lastError: Error | null): Error {
+    if (attempted === 0 && Number.isFinite(limits.retryAfterSeconds)) {
+      return new RateLimitError(`Synthesis grid rate limited for task ${taskType}.`, limits.retryAfterSeconds);
+    }
+    return new Error(`All synthesis engines failed for task ${taskType}. Last error: ${lastError?.message}`);
+  }
+
+  // One queue deadline per walk down the chain, so fallbacks share the wait
+  private queueFor(taskType: TaskType, context: GridCallContext, signal?: AbortSignal): QueueOptions {
+    const lane = context.lane || laneFor(taskType);
+    return { lane, signal, deadlineAt: Date.now() + LANE_DEADLINE_MS[lane] };
+  }
+
+  private meter(result: AIResponse, prompt: string, route: GridRoute, taskType: TaskType, context: GridCallContext) {
+    if (context.evaluation) return;
+    recordUsage(buildUsageRecord(result, taskType, prompt, route.config.systemPrompt, context));
+  }
+
+  // `accept` turns a raw answer into the caller's result. A StructuredOutputError
+  // from it is not an engine fault: the next engine is re-asked with the issues.
+  private async executeWithFallback<R = AIResponse>(
+    prompt: string,
+    routes: GridRoute[],
+    taskType: TaskType,
+    context: GridCallContext,
+    accept: (result: AIResponse) => R = result => result as unknown as R
+  ): Promise<R> {
     let lastError: Error | null = null;
+    let attempted = 0;
+    let attemptPrompt = prompt;
+    const limits: RateLimitTally = { retryAfterSeconds: Infinity };
+    const queue = this.queueFor(taskType, context, routes[0]?.config.signal);
+    const ranked = await circuitBreaker.rankRoutes(routes, r => r.engine, taskType);
+
+    for (let i = 0; i < ranked.length; i++) {
+      const { engine, model, config } = ranked[i];
+      const skip = await this.gate(engine, i, ranked.length, attempted, limits);
+      if (skip) {
+        console.warn(`[Grid] ${taskType}: skipping ${engine} (${skip})`);
+        continue;
+      }
+      const slot = await requestQueue.acquire({ ...queue, provider: engine });
+      attempted++;
+      let result: AIResponse;
+      try {
+        result = await providerRegistry.get(engine).call(attemptPrompt, model, config);
+      } catch (err: any) {
+        // The caller went away: not the engine's fault, and nobody to fall back for
+        if (config.signal?.aborted) throw err;
+        lastError = err;
+        await circuitBreaker.recordFailure(engine, err, taskType);
+        await this.backoff(err, i, ranked.length, taskType);
+        continue;
+      } finally {
+        slot.release();
+      }
 
-    for (let i = 0; i < routes.length; i++) {
+      await circuitBreaker.recordSuccess(engine, result.latencyMs, taskType);
+      this.meter(result, attemptPrompt, ranked[i], taskType, context);
       try {
-        const result = await routes[i]();
+        const accepted = accept(result);
         if (i > 0) {
           console.log(`[Grid] Task ${taskType}: Fallback level ${i} succeeded (${result.provider})`);
         }
-        return result;
+        return accepted;
       } catch (err: any) {
+        if (!(err instanceof StructuredOutputError)) throw err;
         lastError = err;
-        const isRateLimit = err.message?.includes('429') || err.message?.includes('rate');
-        const isModel = err.message?.includes('404') || err.message?.includes('model');
-
-        console.warn(`[Grid] ${taskType} attempt ${i + 1} failed on route ${i}: ${err.message?.substring(0, 80)}`);
-
-        if (!isRateLimit && !isModel && i < routes.length - 1) {
-          // Non-rate-limit error: still try next fallback but add small delay
-          await new Promise(r => setTimeout(r, 500));
-        } else if (isRateLimit) {
-          // Rate limit: longer backoff before trying fallback
-          await new Promise(r => setTimeout(r, 2000 * (i + 1)));
-        }
+        console.warn(`[Grid] ${taskType}: ${engine} output rejected — ${err.issues[0]}`);
+        attemptPrompt = reaskPrompt(prompt, err);
       }
     }
 
-    throw new Error(
-      `All synthesis engines failed for task ${taskType}. Last error: ${lastError?.message}`
-    );
+    throw this.exhausted(taskType, attempted, limits, lastError);
   }
 
   // ─── MASTER ROUTING FUNCTION ────────────────────────────────────
   async execute(
     prompt: string,
     taskType: TaskType,
-    config: AIRequestConfig = {}
+    config: AIRequestConfig = {},
+    context: GridCallContext = {}
   ): Promise<AIResponse> {
 
-    const routes = this.buildRoutes(prompt, taskType, config);
-    return this.executeWithFallback(routes, taskType);
+    const shielded = await piiShield.open(prompt, config, taskType, context);
+    const result = await gridRecorder.around(describeRequest(shielded.prompt, taskType, shielded.config, context, false), async () => {
+      const routes = await this.buildRoutes(taskType, shielded.config);
+      return this.executeWithFallback(shielded.prompt, routes, taskType, context);
+    });
+    return this.unshield(result, shielded.redaction);
+  }
+
+  // ─── STRUCTURED ROUTING FUNCTION ────────────────────────────────
+  // Same chain, but every engine runs in JSON mode and its answer must pass
+  // `contract`. Malformed output is repaired locally first, then re-asked.
+  async executeStructured<T>(
+    prompt: string,
+    taskType: TaskType,
+    contract: StructuredSchema<T>,
+    config: AIRequestConfig = {},
+    context: GridCallContext = {}
+  ): Promise<StructuredResponse<T>> {
+
+    const shielded = await piiShield.open(prompt, config, taskType, context);
+    const structuredConfig = { ...shielded.config, responseSchema: contract.schema };
+    let attempts = 0;
+    const accept = (result: AIResponse) => {
+      attempts++;
+      const { value, repaired } = parseStructured(result.text, contract);
+      return { ...result, data: value, repaired, attempts };
+    };
+
+    const result = await gridRecorder.around(describeRequest(shielded.prompt, taskType, structuredConfig, context, false), async () => {
+      const routes = await this.buildRoutes(taskType, structuredConfig);
+      return this.executeWithFallback(`${shielded.prompt}\n\n${schemaInstruction(contract)}`, routes, taskType, context, accept);
+    }, accept);
+    return { ...this.unshield(result, shielded.redaction), data: shielded.redaction.restoreValue(result.data) };
+  }
+
+  // ─── STREAMING ROUTING FUNCTION ─────────────────────────────────
+  // Walks the same fallback chain, but an engine only "wins" once it has
+  // produced its first token. Failures after that point surface to the caller.
+  async executeStream(
+    prompt: string,
+    taskType: TaskType,
+    config: AIRequestConfig = {},
+    context: GridCallContext = {}
+  ): Promise<AIStreamHandle> {
+
+    const shielded = await piiShield.open(prompt, config, taskType, context);
+    const handle = await gridRecorder.aroundStream(describeRequest(shielded.prompt, taskType, shielded.config, context, true), async () => {
+      const routes = await this.buildRoutes(taskType, shielded.config);
+      return this.streamWithFallback(shielded.prompt, routes, taskType, context);
+    }, config.signal);
+    return this.unshieldStream(handle, shielded.redaction);
+  }
+
+  // ─── HEDGED ROUTING FUNCTIONS ───────────────────────────────────
+  // Opt-in for latency-sensitive tasks: the two best available engines
+  // compete, the second firing after `policy.delayMs` (0 = race from the
+  // start, and immediately if the first fails). The first valid answer wins
+  // and the loser's request is aborted. If both fail, the rest of the chain
+  // runs as a normal fallback.
+  async executeHedged(
+    prompt: string,
+    taskType: TaskType,
+    policy: HedgePolicy,
+    config: AIRequestConfig = {},
+    context: GridCallContext = {}
+  ): Promise<HedgedResponse> {
+
+    const shielded = await piiShield.open(prompt, config, taskType, context);
+    const result = await gridRecorder.around(describeRequest(shielded.prompt, taskType, shielded.config, context, false),
+      () => this.hedged(shielded.prompt, taskType, policy, shielded.config, context));
+    return this.unshield(result, shielded.redaction);
   }
 
-  private buildRoutes(
+  async executeStreamHedged(
     prompt: string,
+    taskType: TaskType,
+    policy: HedgePolicy,
+    config: AIRequestConfig = {},
+    context: GridCallContext = {}
+  ): Promise<AIStreamHandle> {
+
+    const shielded = await piiShield.open(prompt, config, taskType, context);
+    const handle = await gridRecorder.aroundStream(describeRequest(shielded.prompt, taskType, shielded.config, context, true),
+      () => this.streamHedged(shielded.prompt, taskType, policy, shielded.config, context), config.signal);
+    return this.unshieldStream(handle, shielded.redaction);
+  }
+
+  // ─── PII RESTORE ────────────────────────────────────────────────
+  // Engines, recordings and the usage ledger only ever see placeholders;
+  // the caller gets the teacher's own names and numbers back.
+  private unshield<R extends AIResponse>(result: R, redaction: Redaction): R {
+    return redaction.redacted ? { ...result, text: redaction.restore(result.text) } : result;
+  }
+
+  private unshieldStream(handle: AIStreamHandle, redaction: Redaction): AIStreamHandle {
+    if (!redaction.redacted) return handle;
+    const result = handle.result.then(r => this.unshield(r, redaction));
+    result.catch(() => {});
+    const tokens = closeOnEarlyReturn(redaction.restoreTokens(handle.tokens), () => handle.tokens.return(undefined));
+    return { ...handle, tokens, result };
+  }
+
+  private async hedged(
+    prompt: string,
+    taskType: TaskType,
+    policy: HedgePolicy,
+    config: AIRequestConfig,
+    context: GridCallContext
+  ): Promise<HedgedResponse> {
+
+    const { contenders, rest } = await this.pickContenders(await this.buildRoutes(taskType, config), taskType);
+    if (contenders.length < 2) {
+      return this.executeWithFallback(prompt, [...contenders, ...rest], taskType, context);
+    }
+
+    const queue = this.queueFor(taskType, context);
+    try {
+      const { value, route: winner, report } = await this.race(contenders, policy, taskType, config.signal,
+        async (candidate, signal) => {
+          await this.charge(candidate.engine);
+          const slot = await requestQueue.acquire({ ...queue, provider: candidate.engine, signal });
+          try {
+            const result = await providerRegistry.get(candidate.engine).call(prompt, candidate.model, { ...candidate.config, signal });
+            if (!result.text.trim()) throw new Error(`${candidate.engine} returned an empty answer`);
+            return result;
+          } finally {
+            slot.release();
+          }
+        }
+      );
+      await circuitBreaker.recordSuccess(winner.engine, value.latencyMs, taskType);
+      this.meter(value, prompt, winner, taskType, context);
+      return { ...value, hedge: report };
+    } catch (err: any) {
+      if (rest.length === 0 || config.signal?.aborted || err instanceof QueueTimeoutError) throw err;
+      console.warn(`[Grid] ${taskType}: both hedged engines failed, continuing down the chain`);
+      return this.executeWithFallback(prompt, rest, taskType, context);
+    }
+  }
+
+  private async streamHedged(
+    prompt: string,
+    taskType: TaskType,
+    policy: HedgePolicy,
+    config: AIRequestConfig,
+    context: GridCallContext
+  ): Promise<AIStreamHandle> {
+
+    const { contenders, rest } = await this.pickContenders(await this.buildRoutes(taskType, config), taskType);
+    if (contenders.length < 2) {
+      return this.streamWithFallback(prompt, [...contenders, ...rest], taskType, context);
+    }
+
+    const queue = this.queueFor(taskType, context);
+    try {
+      const { value, route: winner, report } = await this.race(contenders, policy, taskType, config.signal,
+        async (candidate, signal) => {
+          await this.charge(candidate.engine);
+          const slot = await requestQueue.acquire({ ...queue, provider: candidate.engine, signal });
+          try {
+            const start = Date.now();
+            const iterator = providerRegistry.get(candidate.engine).stream(prompt, candidate.model, { ...candidate.config, signal });
+            const first = await this.firstToken(iterator, candidate.engine, candidate.config.timeoutMs);
+            if (first.done) throw new Error(`${candidate.engine} stream closed before the first token`);
+            return { iterator, first, start, slot };
+          } catch (err) {
+            slot.release();
+            throw err;
+          }
+        },
+        ({ iterator, slot }) => { iterator.return({}).catch(() => {}); slot.release(); }
+      );
+      const handle = this.commitStream(value.iterator, value.first, providerRegistry.get(winner.engine).vendor, winner.model, value.start);
+      this.trackStream(handle, prompt, winner, taskType, context, value.slot);
+      return { ...handle, hedge: report };
+    } catch (err: any) {
+      if (rest.length === 0 || config.signal?.aborted || err instanceof QueueTimeoutError) throw err;
+      console.warn(`[Grid] ${taskType}: both hedged streams failed, continuing down the chain`);
+      return this.streamWithFallback(prompt, rest, taskType, context);
+    }
+  }
+
+  // The first two ranked engines whose breakers and rate limits allow an
+  // attempt; everything after them is the fallback tail. Buckets are only
+  // peeked at here: a contender is charged when it fires (see charge), and a
+  // fallback walk charges through gate().
+  private async pickContenders(routes: GridRoute[], taskType: TaskType) {
+    const ranked = await circuitBreaker.rankRoutes(routes, r => r.engine, taskType);
+    const contenders: GridRoute[] = [];
+    for (const candidate of ranked) {
+      if (contenders.length === 2) break;
+      if (!(await circuitBreaker.canAttempt(candidate.engine))) continue;
+      const { remaining } = await rateLimiter.check(providerLimit(candidate.engine), 0);
+      if ((remaining.provider ?? 1) >= 1) contenders.push(candidate);
+    }
+    return { contenders, rest: ranked.filter(r => !contenders.includes(r)) };
+  }
+
+  // One provider token for a contender that actually fires
+  private async charge(engine: GridEngine) {
+    const decision = await rateLimiter.check(providerLimit(engine));
+    if (!decision.allowed) {
+      throw new RateLimitError(`${engine} rate limited, retry in ${decision.retryAfterSeconds}s`, decision.retryAfterSeconds);
+    }
+  }
+
+  // Runs two contenders under separate AbortControllers. `launch` resolves
+  // once a contender has committed to an answer; `discard` releases a value
+  // that lost a photo finish. Aborted and rate-limited contenders are not
+  // counted as breaker faults.
+  private race<T>(
+    contenders: GridRoute[],
+    policy: HedgePolicy,
+    taskType: TaskType,
+    callerSignal: AbortSignal | undefined,
+    launch: (route: GridRoute, signal: AbortSignal) => Promise<T>,
+    discard: (value: T) => void = () => {}
+  ): Promise<{ value: T; route: GridRoute; report: HedgeReport }> {
+    return new Promise((resolve, reject) => {
+      const controllers = contenders.map(() => new AbortController());
+      const fired: GridEngine[] = [];
+      let settled = false;
+      let failures = 0;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const fire = (i: number) => {
+        if (settled || fired.length > i) return;
+        const { engine } = contenders[i];
+        fired.push(engine);
+        const signal = callerSignal
+          ? AbortSignal.any([callerSignal, controllers[i].signal])
+          : controllers[i].signal;
+
+        launch(contenders[i], signal).then(
+          value => {
+            if (settled) return discard(value);
+            settled = true;
+            clearTimeout(timer);
+            controllers.forEach((c, j) => { if (j !== i) c.abort(new Error(`Hedge lost to ${engine}`)); });
+            if (fired.length > 1) console.log(`[Grid] ${taskType}: hedge won by ${engine} (${fired.join(' vs ')})`);
+            resolve({
+              value,
+              route: contenders[i],
+              report: { winner: engine, contenders: [...fired], hedged: fired.length > 1, delayMs: policy.delayMs }
+            });
+          },
+          err => {
+            if (settled) return;
+            const engineFault = !callerSignal?.aborted && !(err instanceof QueueTimeoutError) && !(err instanceof RateLimitError);
+            if (engineFault) circuitBreaker.recordFailure(engine, err, taskType);
+            failures++;
+            if (callerSignal?.aborted || failures === contenders.length) {
+              settled = true;
+              clearTimeout(timer);
+              return reject(err);
+            }
+            clearTimeout(timer);
+            fire(1);
+          }
+        );
+      };
+
+      fire(0);
+      if (policy.delayMs <= 0) fire(1);
+      else timer = setTimeout(() => fire(1), policy.delayMs);
+    });
+  }
+
+  private async streamWithFallback(
+    prompt: string,
+    routes: GridRoute[],
+    taskType: TaskType,
+    context: GridCallContext
+  ): Promise<AIStreamHandle> {
+    let lastError: Error | null = null;
+    let attempted = 0;
+    const limits: RateLimitTally = { retryAfterSeconds: Infinity };
+    const queue = this.queueFor(taskType, context, routes[0]?.config.signal);
+    const ranked = await circuitBreaker.rankRoutes(routes, r => r.engine, taskType);
+
+    for (let i = 0; i < ranked.length; i++) {
+      const { engine, model, config: routeConfig } = ranked[i];
+      const skip = await this.gate(engine, i, ranked.length, attempted, limits);
+      if (skip) {
+        console.warn(`[Grid] ${taskType}: skipping ${engine} (${skip})`);
+        continue;
+      }
+      const slot = await requestQueue.acquire({ ...queue, provider: engine });
+      attempted++;
+      const start = Date.now();
+      const iterator = providerRegistry.get(engine).stream(prompt, model, routeConfig);
+      try {
+        const first = await this.firstToken(iterator, engine, routeConfig.timeoutMs);
+        if (first.done) {
+          throw new Error(`${engine} stream closed before the first token`);
+        }
+        if (i > 0) {
+          console.log(`[Grid] Task ${taskType}: Stream fallback level ${i} engaged (${engine})`);
+        }
+        const handle = this.commitStream(iterator, first, providerRegistry.get(engine).vendor, model, start);
+        this.trackStream(handle, prompt, ranked[i], taskType, context, slot);
+        return handle;
+      } catch (err: any) {
+        slot.release();
+        if (routeConfig.signal?.aborted) throw err;
+        lastError = err;
+        await circuitBreaker.recordFailure(engine, err, taskType);
+        await this.backoff(err, i, ranked.length, taskType);
+      }
+    }
+
+    throw this.exhausted(taskType, attempted, limits, lastError);
+  }
+
+  // Breaker + metering for a committed stream, once it has been drained. The
+  // queue slot is held until then. A stream cut by the caller's signal is not
+  // an engine failure.
+  private trackStream(handle: AIStreamHandle, prompt: string, route: GridRoute, taskType: TaskType, context: GridCallContext, slot: QueueSlot) {
+    handle.result.finally(() => slot.release()).then(
+      r => {
+        this.meter(r, prompt, route, taskType, context);
+        return circuitBreaker.recordSuccess(route.engine, r.latencyMs, taskType);
+      },
+      err => {
+        if (!route.config.signal?.aborted) return circuitBreaker.recordFailure(route.engine, err, taskType);
+      }
+    );
+  }
+
+  // A stream's deadline covers time-to-first-token only; once an engine is
+  // committed the answer is allowed to run to completion.
+  private async firstToken(iterator: AITokenStream, engine: GridEngine, timeoutMs?: number) {
+    if (!timeoutMs) return iterator.next();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`${engine} timed out after ${timeoutMs}ms waiting for first token`)), timeoutMs);
+    });
+    try {
+      return await Promise.race([iterator.next(), timeout]);
+    } catch (err) {
+      iterator.return({}).catch(() => {});
+      throw err;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private commitStream(
+    iterator: AITokenStream,
+    first: IteratorResult<string, AIStreamSummary>,
+    provider: string,
+    modelUsed: string,
+    start: number
+  ): AIStreamHandle {
+    let settle!: (response: AIResponse) => void;
+    let fail!: (err: any) => void;
+    const result = new Promise<AIResponse>((resolve, reject) => { settle = resolve; fail = reject; });
+    result.catch(() => {}); // Callers that only consume `tokens` must not trip unhandled rejections
+
+    async function* tokens(): AsyncGenerator<string> {
+      let text = '';
+      let step = first;
+      try {
+        while (!step.done) {
+          text += step.value;
+          yield step.value;
+          step = await iterator.next();
+        }
+      } catch (err) {
+        fail(err);
+        throw err;
+      } finally {
+        // Early exit by the consumer (client disconnect) still settles with the partial text
+        if (!step.done) await iterator.return({});
+        settle({ text, modelUsed, provider, latencyMs: Date.now() - start, ...(step.done ? step.value : {}) });
+      }
+    }
+
+    // Returned before the first pull (client gone before the answer began):
+    // close the engine stream and settle, so the queue slot is released
+    const stream = closeOnEarlyReturn(tokens(), async () => {
+      await iterator.return({}).catch(() => {});
+      settle({ text: '', modelUsed, provider, latencyMs: Date.now() - start });
+    });
+    return { provider, modelUsed, tokens: stream, result };
+  }
+
+  // Resolved from the active routing table version (hot-reloaded, see routing-store).
+  // Table values override the caller's temperature/maxTokens/timeout per route.
+  // Engines that are switched off, unconfigured or unknown are dropped.
+  private async buildRoutes(
     taskType: TaskType,
     config: AIRequestConfig
-  ): Array<() => Promise<AIResponse>> {
-
-    switch (taskType) {
-
-      // ── INGEST_LINEARIZE: PDF → Structured Master MD
-      // Needs: 100k+ context window, best instruction following
-      // Primary: Gemini 2.5 Pro → Flash → OpenRouter (Gemini Flash)
-      case 'INGEST_LINEARIZE':
-        return [
-          () => callGemini(prompt, 'gemini-2.5-pro-preview-06-05', {
-            ...config, temperature: 0.1, maxTokens: 8192
-          }),
-          () => callGemini(prompt, 'gemini-2.5-flash-preview-05-20', {
-            ...config, temperature: 0.1, maxTokens: 8192
-          }),
-          () => callOpenRouter(prompt, 'google/gemini-2.0-flash-001', {
-            ...config, temperature: 0.1
-          }),
-        ];
-
-      // ── LESSON_PLAN: 5E / UbD / Madeline Hunter generation
-      // Needs: Creative depth, pedagogical knowledge, structured output
-      // Primary: Gemini 2.5 Pro → DeepSeek Reasoner → Groq 70B
-      case 'LESSON_PLAN':
-        return [
-          () => callGemini(prompt, 'gemini-2.5-pro-preview-06-05', {
-            ...config, temperature: 0.3, maxTokens: 8192
-          }),
-          () => callDeepSeek(prompt, 'deepseek-reasoner', {
-            ...config, temperature: 0.2, maxTokens: 6144
-          }),
-          () => callGroq(prompt, 'llama-3.3-70b-versatile', {
-            ...config, temperature: 0.3, maxTokens: 4096
-          }),
-          () => callOpenRouter(prompt, 'anthropic/claude-3-haiku-20240307-20240307', {
-            ...config, temperature: 0.3
-          }),
-        ];
-
-      // ── QUIZ_GENERATE: MCQ, CRQ, Bloom-scaled assessments
-      // Needs: Fast, reliable, structured JSON output for question banks
-      // Primary: Sambanova 70B → Groq → Gemini Flash
-      case 'QUIZ_GENERATE':
-        return [
-          () => callSambanova(prompt, 'Meta-Llama-3.3-70B-Instruct', {
-            ...config, temperature: 0.2, maxTokens: 4096
-          }),
-          () => callGroq(prompt, 'llama-3.3-70b-versatile', {
-            ...config, temperature: 0.2, maxTokens: 4096
-          }),
-          () => callGemini(prompt, 'gemini-2.5-flash-preview-05-20', {
-            ...config, temperature: 0.2
-          }),
-          () => callOpenRouter(prompt, 'meta-llama/llama-3.3-70b-instruct', config),
-        ];
-
-      // ── RUBRIC_GENERATE: Fidelity rubrics, assessment criteria
-      // Needs: Fast, structured, South Asian curriculum aligned
-      // Primary: Groq 70B → Sambanova → Gemini Flash
-      case 'RUBRIC_GENERATE':
-        return [
-          () => callGroq(prompt, 'llama-3.3-70b-versatile', {
-            ...config, temperature: 0.1, maxTokens: 3072
-          }),
-          () => callSambanova(prompt, 'Meta-Llama-3.3-70B-Instruct', {
-            ...config, temperature: 0.1
-          }),
-          () => callGemini(prompt, 'gemini-2.5-flash-preview-05-20', {
-            ...config, temperature: 0.1
-          }),
-        ];
-
-      // ── BLOOM_TAG: Classify SLOs against Bloom's taxonomy
-      // Needs: Precise reasoning, JSON output, taxonomy expertise
-      // Primary: DeepSeek Chat (V3, fast) → DeepSeek Reasoner → Groq
-      case 'BLOOM_TAG':
-        return [
-          () => callDeepSeek(prompt, 'deepseek-chat', {
-            ...config, temperature: 0.0, maxTokens: 2048
-          }),
-          () => callDeepSeek(prompt, 'deepseek-reasoner', {
-            ...config, temperature: 0.0, maxTokens: 2048
-          }),
-          () => callGroq(prompt, 'llama-3.3-70b-versatile', {
-            ...config, temperature: 0.0, maxTokens: 2048
-          }),
-        ];
-
-      // ── AUDIT_TAG: Curriculum audit, gap analysis
-      // Needs: Analytical reasoning, comparison, structured report
-      // Primary: DeepSeek Reasoner → Gemini 2.5 Flash → Groq
-      case 'AUDIT_TAG':
-        return [
-          () => callDeepSeek(prompt, 'deepseek-reasoner', {
-            ...config, temperature: 0.1, maxTokens: 4096
-          }),
-          () => callGemini(prompt, 'gemini-2.5-flash-preview-05-20', {
-            ...config, temperature: 0.1
-          }),
-          () => callGroq(prompt, 'llama-3.3-70b-versatile', {
-            ...config, temperature: 0.1
-          }),
-        ];
-
-      // ── SLO_PARSE: Extract and structure SLOs into JSON
-      // Needs: Precise JSON output, structured extraction
-      // Primary: DeepSeek Chat → Groq → Gemini Flash
-      case 'SLO_PARSE':
-        return [
-          () => callDeepSeek(prompt, 'deepseek-chat', {
-            ...config, temperature: 0.0, maxTokens: 4096
-          }),
-          () => callGroq(prompt, 'llama-3.3-70b-versatile', {
-            ...config, temperature: 0.0, maxTokens: 4096
-          }),
-          () => callGemini(prompt, 'gemini-2.5-flash-preview-05-20', {
-            ...config, temperature: 0.0
-          }),
-        ];
-
-      // ── CHAT_LOOKUP: Real-time SLO lookup, instant Q&A
-      // Needs: FASTEST possible response, simple queries
-      // Primary: Cerebras (wafer-scale) → Groq 8B → Groq 70B
-      case 'CHAT_LOOKUP':
-        return [
-          () => callCerebras(prompt, 'llama3.1-70b', {
-            ...config, temperature: 0.1, maxTokens: 1024
-          }),
-          () => callGroq(prompt, 'llama-3.1-8b-instant', {
-            ...config, temperature: 0.1, maxTokens: 1024
-          }),
-          () => callGroq(prompt, 'llama-3.3-70b-versatile', {
-            ...config, temperature: 0.1, maxTokens: 2048
-          }),
-        ];
-
-      // ── VERTICAL_ALIGN: Grade-to-grade prerequisite mapping
-      // Needs: Deep reasoning across multiple grade contexts
-      // Primary: DeepSeek Reasoner → Gemini 2.5 Pro → OpenRouter
-      case 'VERTICAL_ALIGN':
-        return [
-          () => callDeepSeek(prompt, 'deepseek-reasoner', {
-            ...config, temperature: 0.1, maxTokens: 6144
-          }),
-          () => callGemini(prompt, 'gemini-2.5-pro-preview-06-05', {
-            ...config, temperature: 0.1
-          }),
-          () => callOpenRouter(prompt, 'anthropic/claude-3-haiku-20240307-20240307', config),
-        ];
-
-      default:
-        // Generic fallback
-        return [
-          () => callGemini(prompt, 'gemini-2.5-flash-preview-05-20', config),
-          () => callGroq(prompt, 'llama-3.3-70b-versatile', config),
-          () => callOpenRouter(prompt, 'google/gemini-2.0-flash-001', config),
-        ];
+  ): Promise<GridRoute[]> {
+
+    // Offline mode: the local engine answers every task, with the task as its "model"
+    if (isLocalModeEnabled()) {
+      return [route('local', taskType, config)];
+    }
+
+    const { table } = await routingStore.getActive();
+    const chain = table[taskType] || DEFAULT_ROUTING_TABLE[taskType];
+    const active = await Promise.all(chain.map(entry => providerRegistry.isActive(entry.engine)));
+    const available = chain.filter((_, i) => active[i]);
+    if (available.length === 0) {
+      throw new Error(`No enabled synthesis engine for task ${taskType}. Check the routing table and provider switches.`);
     }
+
+    return available.map(entry => route(entry.engine, entry.model, {
+      ...config,
+      ...(entry.temperature !== undefined ? { temperature: entry.temperature } : {}),
+      ...(entry.maxTokens !== undefined ? { maxTokens: entry.maxTokens } : {}),
+      ...(entry.timeoutMs !== undefined ? { timeoutMs: entry.timeoutMs } : {}),
+    }));
   }
 
   // ─── UI GRID STATUS ────────────────────────────────────────────
-  // Called by your status bar component to show real engine names
+  // Called by your status bar component to show real engine names. Admin
+  // switches are the last ones this instance loaded (see getGridHealth).
   getGridStatus() {
-    return [
-      {
-        id: 'gemini-pro',
-        displayName: 'GEMINI 2.5 PRO',
-        provider: 'Google',
-        model: 'gemini-2.5-pro-preview-06-05',
-        tasks: ['LESSON_PLAN', 'INGEST_LINEARIZE'],
-        status: 'ONLINE',
-        envKey: 'API_KEY',
-      },
-      {
-        id: 'deepseek',
-        displayName: 'DEEPSEEK R1',
-        provider: 'DeepSeek',
-        model: 'deepseek-reasoner',
-        tasks: ['BLOOM_TAG', 'AUDIT_TAG', 'VERTICAL_ALIGN'],
-        status: process.env.DEEPSEEK_API_KEY ? 'ONLINE' : 'DISABLED',
-        envKey: 'DEEPSEEK_API_KEY',
-      },
-      {
-        id: 'groq',
-        displayName: 'GROQ 3 (LLAMA)',
-        provider: 'Groq',
-        model: 'llama-3.3-70b-versatile',
-        tasks: ['RUBRIC_GENERATE', 'CHAT_LOOKUP'],
-        status: process.env.GROQ_API_KEY ? 'ONLINE' : 'DISABLED',
-        envKey: 'GROQ_API_KEY',
-      },
-      {
-        id: 'cerebras',
-        displayName: 'CEREBRAS WS',
-        provider: 'Cerebras',
-        model: 'llama3.1-70b',
-        tasks: ['CHAT_LOOKUP'],
-        status: process.env.CEREBRAS_API_KEY ? 'ONLINE' : 'DISABLED',
-        envKey: 'CEREBRAS_API_KEY',
-      },
-      {
-        id: 'sambanova',
-        displayName: 'SAMBANOVA SN40L',
-        provider: 'Sambanova',
-        model: 'Meta-Llama-3.3-70B-Instruct',
-        tasks: ['QUIZ_GENERATE'],
-        status: process.env.SAMBANOVA_API_KEY ? 'ONLINE' : 'DISABLED',
-        envKey: 'SAMBANOVA_API_KEY',
-      },
-      {
-        id: 'openrouter',
-        displayName: 'OPENROUTER GW',
-        provider: 'OpenRouter',
-        model: 'multi-provider',
-        tasks: ['FALLBACK'],
-        status: process.env.OPENROUTER_API_KEY ? 'STANDBY' : 'DISABLED',
-        envKey: 'OPENROUTER_API_KEY',
-      },
-    ];
+    return providerRegistry.list().map(p => {
+      const online = p.kind === 'local'
+        ? isLocalModeEnabled()
+        : p.configured() && providerRegistry.isSwitchedOn(p.id);
+      return {
+        id: p.id,
+        engine: p.id as GridEngine,
+        displayName: p.displayName,
+        provider: p.vendor,
+        model: p.defaultModel,
+        tasks: p.roles,
+        status: !online ? 'DISABLED' : p.standby ? 'STANDBY' : 'ONLINE',
+        envKey: p.keyEnv,
+        source: p.source,
+        capabilities: p.capabilities,
+      };
+    });
+  }
+
+  // ─── BREAKER HEALTH ────────────────────────────────────────────
+  // Grid status merged with the persisted circuit breaker + rolling scores
+  async getGridHealth(): Promise<Array<ReturnType<NeuralOrchestrator['getGridStatus']>[number] & { health: ProviderHealth }>> {
+    await providerRegistry.describe();
+    return Promise.all(this.getGridStatus().map(async entry => ({
+      ...entry,
+      health: await circuitBreaker.getHealth(entry.engine)
+    })));
+  }
+
+  async resetBreakers(): Promise<void> {
+    await circuitBreaker.reset(providerRegistry.list().map(p => p.id));
   }
 }
 
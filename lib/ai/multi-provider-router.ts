@@ -1,144 +1,586 @@
 import { SupabaseClient } from '@supabase/supabase-js';
-import { neuralGrid } from './model-orchestrator';
-import type { TaskType } from './model-orchestrator';
+import { neuralGrid, hedgePolicyFor } from './model-orchestrator';
+import type { TaskType, HedgeReport, HedgedResponse, GridCallContext } from './model-orchestrator';
+import type { AIRequestConfig } from './providers/providers';
 import { retrieveRelevantChunks } from '../rag/retriever';
+import { retrieveFromLibrary, resolveLibrary, LibraryDocument } from '../rag/library-retriever';
+import type { RetrievalFilters } from '../rag/retrieval';
 import { extractSLOCodes, normalizeSLO } from '../rag/slo-extractor';
-import { classifyIntent } from './intent-classifier';
-import { kv } from '../kv';
-import { Buffer } from 'buffer';
+import { classifyIntent, IntentResult } from './intent-classifier';
+import { responseCache, CacheScope, CacheHit } from './response-cache';
+import { runAgenticRetrieval, agentRoundBudget } from './agentic-retrieval';
+import { AgentStep, formatAgentStepMarker } from './agent-steps';
+import { SloCitationReport, formatSloCheckMarker, markUnverifiedSlos, parseSloCheck } from './slo-citations';
+import { ChunkSource, toChunkSource, sourceTag, formatSourcesMarker } from './chunk-citations';
+import { verifySloCitations, sloReaskEnabled, sloCorrectionPrompt, GuardScope } from './slo-guard';
+import { routingStore } from './routing-store';
+import { DEFAULT_ROUTING_TABLE } from './routing-table';
+import { chainBudget, estimateTokens } from './token-budget';
+import { providerRegistry } from './providers/registry';
+import { StructuredSchema, RUBRIC_SCHEMA, BLOOM_TAG_SCHEMA, renderRubric, renderBloomTags } from './structured-output';
+import {
+  ConversationMemory, ConversationTurn, conversationKey, fitConversation, formatConversation,
+  summaryPrompt, toTurn, SUMMARY_MAX_TOKENS
+} from '../chat/chat-memory';
+
+interface SynthesisPlan {
+  start: number;
+  cacheScope: CacheScope;
+  cached: CacheHit | null;
+  intentData: IntentResult;
+  finalPrompt: string;
+  gridTask: TaskType;
+  gridConfig: AIRequestConfig;
+  isGrounded: boolean;
+  topChunkIds: string[];
+  sourceDocName: string;
+  agentSteps: AgentStep[];
+  sources: ChunkSource[];            // What the [Sn] tags in the vault point to (chat only)
+  memoryUpdate?: MemoryUpdate;
+  libraryDocuments?: LibraryDocument[];   // Library mode: every document searched
+  evaluation: boolean;               // Golden-set replay: left out of retrieval_logs
+}
+
+interface VaultChunk {
+  id: string;
+  text: string;
+  sloCodes: string[];
+  heading?: string;
+  documentId?: string;               // Set in library mode, where chunks span documents
+}
+
+function formatVault(chunks: VaultChunk[], tagged: boolean): string {
+  return chunks.map((c, i) => {
+    const tag = tagged ? sourceTag(i + 1) : '';
+    return c.heading ? `### ${c.heading}${tag ? ` ${tag}` : ''}\n${c.text}` : `${tag ? `${tag} ` : ''}${c.text}`;
+  }).join('\n---\n');
+}
+
+// New rolling summary for a thread, covering `folded` more of its turns
+interface MemoryUpdate {
+  summary: string;
+  folded: number;
+}
+
+// Conversation share of what the answering chain has left after the prompt
+const HISTORY_SHARE = 0.5;
+const HISTORY_MIN_TOKENS = 500;
+const HISTORY_MAX_TOKENS = 4000;
+
+function toMemory(history?: ConversationMemory | ConversationTurn[]): ConversationMemory {
+  if (!history) return { turns: [] };
+  if (!Array.isArray(history)) return history;
+  return { turns: history.filter(h => h?.content).map(h => toTurn(h.role === 'assistant' ? 'assistant' : 'user', h.content)) };
+}
+
+async function historyBudget(gridTask: TaskType, overheadTokens: number): Promise<number> {
+  try {
+    const { table } = await routingStore.getActive();
+    const chain = table[gridTask]?.length ? table[gridTask] : DEFAULT_ROUTING_TABLE[gridTask];
+    const available = chainBudget(chain, overheadTokens, 0, providerRegistry.contextTokens).inputTokens;
+    return Math.min(HISTORY_MAX_TOKENS, Math.max(HISTORY_MIN_TOKENS, Math.floor(available * HISTORY_SHARE)));
+  } catch {
+    return HISTORY_MIN_TOKENS;
+  }
+}
+
+const LIBRARY_MATCHES = 8;
+const LIBRARY_SURGICAL_MATCHES = 4;
+
+/**
+ * LIBRARY VAULT: retrieval across the library scope instead of one document.
+ * An SLO named in the prompt is looked up across the library first; failing
+ * that, a diversified search fills the vault. An SLO set in the filters is
+ * enforced on every stage.
+ */
+async function libraryVault(
+  userPrompt: string,
+  supabase: SupabaseClient,
+  library: RetrievalFilters,
+  pinnedSlo?: string | null
+): Promise<{ chunks: VaultChunk[]; documents: LibraryDocument[] }> {
+  const codes = extractSLOCodes(userPrompt);
+  const namedSlo = codes[0] ? normalizeSLO(codes[0].code) : undefined;
+  const toVault = (r: { chunks: { chunk_id: string; chunk_text: string; slo_codes: string[]; document_id: string }[] }, label?: string) =>
+    r.chunks.map(c => ({ id: c.chunk_id, text: c.chunk_text, sloCodes: c.slo_codes, documentId: c.document_id, heading: label }));
+
+  if (namedSlo && !library.sloCode) {
+    const surgical = await retrieveFromLibrary(userPrompt, supabase, { ...library, sloCode: namedSlo }, LIBRARY_SURGICAL_MATCHES);
+    if (surgical.chunks.length > 0) return { chunks: toVault(surgical, 'SURGICAL_VAULT_EXTRACT'), documents: surgical.documents };
+  }
+
+  const result = await retrieveFromLibrary(userPrompt, supabase, library, LIBRARY_MATCHES);
+  let chunks: VaultChunk[] = toVault(result);
+
+  // The thread's pinned SLO stays in view on turns that name none
+  if (!namedSlo && !library.sloCode && pinnedSlo) {
+    const pinned = await retrieveFromLibrary(userPrompt, supabase, { ...library, sloCode: pinnedSlo }, 1);
+    const extract = toVault(pinned, `PINNED_SLO_EXTRACT (${pinnedSlo})`).filter(p => !chunks.some(c => c.id === p.id));
+    chunks = [...extract, ...chunks];
+  }
+  return { chunks, documents: result.documents };
+}
+
+const taskMap: Record<string, TaskType> = {
+  'master_plan':     'LESSON_PLAN',
+  'neural_quiz':     'QUIZ_GENERATE',
+  'fidelity_rubric': 'RUBRIC_GENERATE',
+  'audit_tagger':    'AUDIT_TAG',
+  'chat_tutor':      'CHAT_LOOKUP',
+  'bloom_tag':       'BLOOM_TAG',
+};
+
+// Tools whose answer is data: the engine's JSON is validated against the
+// grid contract (see structured-output) and rendered as markdown for the page
+interface StructuredTool {
+  contract: StructuredSchema<any>;
+  render: (value: any) => string;
+}
+
+const structuredTool = <T>(contract: StructuredSchema<T>, render: (value: T) => string): StructuredTool => ({ contract, render });
+
+const STRUCTURED_TOOLS: Record<string, StructuredTool> = {
+  'fidelity_rubric': structuredTool(RUBRIC_SCHEMA, renderRubric),
+  'bloom_tag':       structuredTool(BLOOM_TAG_SCHEMA, renderBloomTags),
+};
 
 /**
  * MULTI-STAGE RETRIEVAL CASCADE (v126.1)
- * T1: Redis Cache | T2: Intent Routing | T3: Surgical Match | T4: Semantic Hybrid | T5: Self-Eval Log
+ * T1: Response Cache | T2: Intent Routing | T3: Surgical Match | T4: Semantic Hybrid | T5: Agentic Tools | T6: Self-Eval Log
  */
-export async function generateAIResponse(
+async function planSynthesis(
   userPrompt: string,
-  history: any[],
   userId: string,
   supabase: SupabaseClient,
   adaptiveContext?: string,
-  overrideDocPart?: any, 
   toolType?: string,
   customSystem?: string,
-  priorityDocumentId?: string
-): Promise<{ text: string; provider: string; metadata?: any }> {
+  priorityDocumentId?: string,
+  signal?: AbortSignal,
+  memory: ConversationMemory = { turns: [] },
+  library?: RetrievalFilters
+): Promise<SynthesisPlan> {
   
   const start = Date.now();
   
-  // 1. INTENT CLASSIFICATION (Gemini 3 Flash)
+  // 1. INTENT CLASSIFICATION (in-process rules + trained model)
   const intentData = await classifyIntent(userPrompt);
 
-  // 2. CACHE LOOKUP (Upstash Redis)
-  const cacheKey = `synth:${Buffer.from(userPrompt).toString('base64').substring(0, 40)}`;
-  const cached = await kv.get<string>(cacheKey);
-  if (cached) return { text: cached, provider: 'Neural Cache', metadata: { cached: true } };
+  // 2. CACHE LOOKUP (exact hash, then semantic when enabled; see response-cache)
+  const cacheScope = await responseCache.scopeFor({
+    userId,
+    documentId: priorityDocumentId,
+    tool: toolType,
+    systemPrompt: customSystem,
+    adaptiveContext,
+    conversation: conversationKey(memory),
+    library: library ? JSON.stringify({ ...library, userId: undefined }) : undefined
+  });
+  const cached = await responseCache.get(userPrompt, cacheScope);
 
   // 3. RETRIEVAL CASCADE
   let vaultContent = "";
   let isGrounded = false;
   let topChunkIds: string[] = [];
   let sourceDocName = "";
+  let sources: ChunkSource[] = [];
+  let libraryDocuments: LibraryDocument[] | undefined;
   
-  const { data: activeDocs } = await supabase.from('documents')
-    .select('id, name, authority, subject, grade_level, master_md_dialect')
-    .eq('id', priorityDocumentId || 'dummy_fail');
-
-  const activeDoc = activeDocs?.[0];
-
-  if (activeDoc) {
-    sourceDocName = activeDoc.name;
-    // Stage A: Surgical Code Match (Regex precision)
-    const codes = extractSLOCodes(userPrompt);
-    if (codes.length > 0) {
-      const { data: sloMatch } = await supabase.from('document_chunks')
-        .select('id, chunk_text')
-        .contains('slo_codes', [normalizeSLO(codes[0].code)])
-        .eq('document_id', activeDoc.id)
-        .limit(1);
-      
-      if (sloMatch?.[0]) {
-        vaultContent = `### SURGICAL_VAULT_EXTRACT\n${sloMatch[0].chunk_text}`;
-        topChunkIds = [sloMatch[0].id];
-        isGrounded = true;
+  if (!cached && library) {
+    const vault = await libraryVault(userPrompt, supabase, library, memory.pinnedSlo);
+    const byId = new Map(vault.documents.map(d => [d.id, d]));
+    const used = Array.from(new Set(vault.chunks.map(c => c.documentId!)));
+    libraryDocuments = vault.documents;
+    sourceDocName = used.map(id => byId.get(id)?.name).filter(Boolean).join(', ');
+    isGrounded = vault.chunks.length > 0;
+
+    // Library chunks are headed with their document so the model can tell sources apart
+    const vaultChunks = vault.chunks.map(c => ({ ...c, heading: c.heading || byId.get(c.documentId!)?.name }));
+    const citing = toolType === 'chat_tutor';
+    vaultContent = formatVault(vaultChunks, citing);
+    topChunkIds = vaultChunks.map(c => c.id);
+    if (citing) sources = vaultChunks.map((c, i) => toChunkSource(i + 1, c, byId.get(c.documentId!)!));
+  } else if (!cached) {
+    const { data: activeDocs } = await supabase.from('documents')
+      .select('id, name, authority, subject, grade_level, master_md_dialect')
+      .eq('id', priorityDocumentId || 'dummy_fail');
+
+    const activeDoc = activeDocs?.[0];
+
+    if (activeDoc) {
+      sourceDocName = activeDoc.name;
+      let vaultChunks: VaultChunk[] = [];
+      // Stage A: Surgical Code Match (Regex precision)
+      const codes = extractSLOCodes(userPrompt);
+      if (codes.length > 0) {
+        const { data: sloMatch } = await supabase.from('document_chunks')
+          .select('id, chunk_text, slo_codes')
+          .contains('slo_codes', [normalizeSLO(codes[0].code)])
+          .eq('document_id', activeDoc.id)
+          .limit(1);
+        
+        if (sloMatch?.[0]) {
+          vaultChunks = [{ id: sloMatch[0].id, text: sloMatch[0].chunk_text, sloCodes: sloMatch[0].slo_codes || [], heading: 'SURGICAL_VAULT_EXTRACT' }];
+          isGrounded = true;
+        }
       }
-    }
 
-    // Stage B: Hybrid Semantic (Vector + FTS fallback)
-    if (!isGrounded) {
-      const chunks = await retrieveRelevantChunks({
-        query: userPrompt,
-        documentIds: [activeDoc.id],
-        supabase,
-        matchCount: 8,
-        dialect: activeDoc.master_md_dialect
-      });
-      vaultContent = chunks.map(c => c.chunk_text).join('\n---\n');
-      topChunkIds = chunks.map(c => c.chunk_id);
-      isGrounded = chunks.length > 0;
+      // Stage B: Hybrid Semantic (Vector + FTS fallback)
+      if (!isGrounded) {
+        const chunks = await retrieveRelevantChunks({
+          query: userPrompt,
+          documentIds: [activeDoc.id],
+          supabase,
+          matchCount: 8,
+          dialect: activeDoc.master_md_dialect
+        });
+        vaultChunks = chunks.map(c => ({ id: c.chunk_id, text: c.chunk_text, sloCodes: c.slo_codes }));
+        isGrounded = chunks.length > 0;
+
+        // The thread's pinned SLO stays in view on turns that name none
+        if (codes.length === 0 && memory.pinnedSlo) {
+          const { data: pinned } = await supabase.from('document_chunks')
+            .select('id, chunk_text, slo_codes')
+            .contains('slo_codes', [memory.pinnedSlo])
+            .eq('document_id', activeDoc.id)
+            .limit(1);
+          if (pinned?.[0] && !vaultChunks.some(c => c.id === pinned[0].id)) {
+            vaultChunks = [{ id: pinned[0].id, text: pinned[0].chunk_text, sloCodes: pinned[0].slo_codes || [], heading: `PINNED_SLO_EXTRACT (${memory.pinnedSlo})` }, ...vaultChunks];
+            isGrounded = true;
+          }
+        }
+      }
+
+      // Chat answers cite vault chunks by tag; other tools get the vault untagged
+      const citing = toolType === 'chat_tutor';
+      vaultContent = formatVault(vaultChunks, citing);
+      topChunkIds = vaultChunks.map(c => c.id);
+      if (citing) sources = vaultChunks.map((c, i) => toChunkSource(i + 1, c, activeDoc));
     }
   }
 
+  // Stage C: Agentic tools (chat only) — the planner may pull more evidence
+  let agentSteps: AgentStep[] = [];
+  let toolEvidence = "";
+  if (!cached && toolType === 'chat_tutor' && agentRoundBudget() > 0) {
+    const agent = await runAgenticRetrieval(userPrompt, vaultContent, {
+      supabase,
+      userId,
+      priorityDocumentId,
+      // Public documents are not readable with the teacher's client; library searches reach them
+      documentIds: libraryDocuments?.filter(d => !d.isPublic).map(d => d.id),
+      library,
+      signal,
+      grid: gridContext(userId, toolType, memory)
+    });
+    agentSteps = agent.steps;
+    toolEvidence = agent.evidence;
+    topChunkIds = Array.from(new Set([...topChunkIds, ...agent.chunkIds]));
+    isGrounded = isGrounded || agent.chunkIds.length > 0;
+  }
+
   // 4. NEURAL SYNTHESIS (Complexity-Aware Routing)
   const systemInstruction = customSystem || "You are the Pedagogy Master AI.";
-  const finalPrompt = `
+  const gridTask: TaskType = taskMap[toolType || ''] ||
+    (intentData.complexity >= 3 ? 'LESSON_PLAN' : 'CHAT_LOOKUP');
+
+  const buildPrompt = (conversation: string) => `
 <CONTEXT>
-INTENT: ${intentData.intent} | COMPLEXITY: ${intentData.complexity}
+INTENT: ${intentData.intent} | COMPLEXITY: ${intentData.complexity}${memory.pinnedSlo ? ` | PINNED_SLO: ${memory.pinnedSlo}` : ''}
 ${adaptiveContext || ''}
 </CONTEXT>
-
+${conversation ? `\n${conversation}\n` : ''}
 <AUTHORITATIVE_VAULT>
 ${vaultContent || '[VAULT_EMPTY: Use General Pedagogical Knowledge]'}
 </AUTHORITATIVE_VAULT>
-
+${sources.length ? `CITATIONS: After each claim drawn from the vault, cite its source tag, e.g. ${sourceTag(1)}. Never invent tags.\n` : ''}${toolEvidence ? `\n<TOOL_EVIDENCE>\n${toolEvidence}\n</TOOL_EVIDENCE>\n` : ''}
 USER_QUERY: "${userPrompt}"`;
 
-  // Add comment above each fix
-  // Fix: Wrapped positional arguments into an options object to resolve the "Expected 1-2 arguments, but got 7" error
-  // REPLACE WITH:
-const taskMap: Record<string, TaskType> = {
-  'master_plan':     'LESSON_PLAN',
-  'neural_quiz':     'QUIZ_GENERATE',
-  'fidelity_rubric': 'RUBRIC_GENERATE',
-  'audit_tagger':    'AUDIT_TAG',
-  'chat_tutor':      'CHAT_LOOKUP',
-  'bloom_tag':       'BLOOM_TAG',
-};
+  // 5. CONVERSATION MEMORY: recent turns that fit, older ones folded into the summary
+  let summary = memory.summary || null;
+  let memoryUpdate: MemoryUpdate | undefined;
+  let conversation = '';
+  if (!cached && (memory.turns.length > 0 || summary)) {
+    const overhead = estimateTokens(systemInstruction) + estimateTokens(buildPrompt(''));
+    const fitted = fitConversation(memory, await historyBudget(gridTask, overhead));
 
-const gridTask: TaskType = taskMap[toolType || ''] ||
-  (intentData.complexity >= 3 ? 'LESSON_PLAN' : 'CHAT_LOOKUP');
+    if (fitted.overflow.length > 0 && memory.rolling) {
+      try {
+        const result = await neuralGrid.execute(
+          summaryPrompt(summary, fitted.overflow),
+          'CHAT_LOOKUP',
+          { temperature: 0.1, maxTokens: SUMMARY_MAX_TOKENS, signal },
+          gridContext(userId, toolType, memory)
+        );
+        summary = result.text.trim() || summary;
+        memoryUpdate = { summary: summary || '', folded: fitted.overflow.length };
+      } catch (e: any) {
+        if (signal?.aborted) throw e;
+        // Overflow is only left out of this turn; the next one retries the fold
+        console.warn(`⚠️ [Conversation Memory] Summary failed: ${e.message}`);
+      }
+    }
+    conversation = formatConversation(summary, fitted.recent);
+  }
 
-const gridResult = await neuralGrid.execute(finalPrompt, gridTask, {
-  systemPrompt: systemInstruction,
-  temperature: intentData.complexity >= 3 ? 0.3 : 0.1,
-  maxTokens: intentData.complexity >= 3 ? 6144 : 2048,
-});
+  const finalPrompt = buildPrompt(conversation);
 
-const result = {
-  text: gridResult.text,
-  provider: `${gridResult.provider}/${gridResult.modelUsed}`,
-};
+  const gridConfig: AIRequestConfig = {
+    systemPrompt: systemInstruction,
+    temperature: intentData.complexity >= 3 ? 0.3 : 0.1,
+    maxTokens: intentData.complexity >= 3 ? 6144 : 2048,
+  };
 
-  // 5. OBSERVABILITY & CACHING
-  const latency = Date.now() - start;
+  return {
+    start, cacheScope, cached, intentData, finalPrompt, gridTask, gridConfig, isGrounded, topChunkIds,
+    sourceDocName, agentSteps, sources, memoryUpdate, libraryDocuments, evaluation: !!memory.evaluation
+  };
+}
+
+/**
+ * OBSERVABILITY & CACHING
+ * Shared tail of the blocking and streaming paths.
+ */
+async function recordSynthesis(
+  plan: SynthesisPlan,
+  userPrompt: string,
+  userId: string,
+  supabase: SupabaseClient,
+  text: string,
+  provider: string,
+  hedge?: HedgeReport
+) {
+  const latency = Date.now() - plan.start;
   
-  // Async log to retrieval_logs for analytics
-  supabase.from('retrieval_logs').insert({
+  // Async log to retrieval_logs for analytics; evaluation replays would
+  // otherwise count as the owner's traffic and feed intent training
+  if (!plan.evaluation) supabase.from('retrieval_logs').insert({
     user_id: userId,
     query_text: userPrompt,
-    top_chunk_ids: topChunkIds,
-    confidence_score: isGrounded ? 0.95 : 0.4,
+    top_chunk_ids: plan.topChunkIds,
+    confidence_score: plan.isGrounded ? 0.95 : 0.4,
     latency_ms: latency,
-    provider_used: result.provider
+    provider_used: provider,
+    intent: plan.intentData.intent,
+    complexity: plan.intentData.complexity,
+    intent_source: plan.intentData.source,
+    intent_confidence: plan.intentData.confidence,
+    ...(hedge ? { hedge_winner: hedge.winner, hedge_engines: hedge.contenders, hedge_fired: hedge.hedged } : {})
   }).then();
 
-  // Only cache stable, non-creative lookups
-  if (intentData.complexity < 3 && !userPrompt.includes('create')) {
-    await kv.set(cacheKey, result.text, 3600);
+  // Only cache stable, non-creative lookups; tool results (progress, live
+  // search) can change under the same prompt
+  if (plan.intentData.complexity < 3 && !userPrompt.includes('create') && plan.agentSteps.length === 0) {
+    await responseCache.set(userPrompt, plan.cacheScope, text);
+  }
+
+  return latency;
+}
+
+// A failed check leaves the answer unflagged rather than failing it
+async function guardCitations(text: string, scope: GuardScope): Promise<SloCitationReport | null> {
+  try {
+    return await verifySloCitations(text, scope);
+  } catch (e: any) {
+    console.warn(`⚠️ [SLO Guard] Verification skipped: ${e.message}`);
+    return null;
+  }
+}
+
+// Chat stays in the interactive lane even when a complex turn is routed to a
+// heavier task
+function gridContext(userId: string, toolType: string | undefined, memory: ConversationMemory): GridCallContext {
+  return {
+    userId,
+    tool: toolType || 'chat',
+    lane: toolType === 'chat_tutor' ? 'interactive' : undefined,
+    traceId: memory.threadId,
+    evaluation: memory.evaluation
+  };
+}
+
+function cacheMetadata(hit: CacheHit) {
+  return { cached: true, cacheTier: hit.tier, ...(hit.similarity ? { cacheSimilarity: hit.similarity } : {}) };
+}
+
+// Library answers are checked against the documents they were drawn from;
+// a cache hit resolved no library, so it is resolved here
+async function guardScopeFor(
+  plan: SynthesisPlan,
+  supabase: SupabaseClient,
+  userId: string,
+  priorityDocumentId?: string,
+  library?: RetrievalFilters
+): Promise<GuardScope> {
+  if (!library) return { supabase, userId, documentId: priorityDocumentId };
+  let documents = plan.libraryDocuments;
+  if (!documents) {
+    try {
+      documents = await resolveLibrary(supabase, library);
+    } catch (e: any) {
+      console.warn(`⚠️ [SLO Guard] Library unresolved, checking the whole vault: ${e.message}`);
+      return { supabase, userId };
+    }
+  }
+  return {
+    supabase,
+    userId,
+    documentIds: documents.filter(d => !d.isPublic).map(d => d.id),
+    publicDocumentIds: documents.filter(d => d.isPublic).map(d => d.id)
+  };
+}
+
+// A cached answer replays the SLO report it was cached with; entries from
+// before the report was cached are checked again
+async function replayGrounding(hit: CacheHit, scope: () => Promise<GuardScope>): Promise<{ body: string; grounding: SloCitationReport | null }> {
+  const { body, report } = parseSloCheck(hit.text);
+  return { body, grounding: report ?? await guardCitations(body, await scope()) };
+}
+
+function planMetadata(plan: SynthesisPlan, latency: number) {
+  return {
+    isGrounded: plan.isGrounded,
+    sourceDocument: plan.sourceDocName,
+    intent: plan.intentData.intent,
+    latency,
+    chunkCount: plan.topChunkIds.length,
+    ...(plan.agentSteps.length ? { agentSteps: plan.agentSteps } : {}),
+    ...(plan.sources.length ? { citations: plan.sources } : {}),
+    ...(plan.memoryUpdate ? { memoryUpdate: plan.memoryUpdate } : {})
+  };
+}
+
+export async function generateAIResponse(
+  userPrompt: string,
+  history: ConversationMemory | ConversationTurn[],
+  userId: string,
+  supabase: SupabaseClient,
+  adaptiveContext?: string,
+  overrideDocPart?: any, 
+  toolType?: string,
+  customSystem?: string,
+  priorityDocumentId?: string,
+  signal?: AbortSignal,
+  library?: RetrievalFilters
+): Promise<{ text: string; provider: string; metadata?: any }> {
+  const memory = toMemory(history);
+  const plan = await planSynthesis(userPrompt, userId, supabase, adaptiveContext, toolType, customSystem, priorityDocumentId, signal, memory, library);
+  const guardScope = () => guardScopeFor(plan, supabase, userId, priorityDocumentId, library);
+  if (plan.cached) {
+    const { body, grounding } = await replayGrounding(plan.cached, guardScope);
+    return {
+      text: grounding ? markUnverifiedSlos(body, grounding.unverified) : body,
+      provider: 'Neural Cache',
+      metadata: { ...cacheMetadata(plan.cached), ...(grounding ? { grounding } : {}) }
+    };
+  }
+
+  // Quick lookups may hedge across two engines (opt-in, see hedgePolicyFor)
+  const hedge = hedgePolicyFor(plan.gridTask);
+  const context = gridContext(userId, toolType, memory);
+  const config = { ...plan.gridConfig, signal };
+  const structured = toolType ? STRUCTURED_TOOLS[toolType] : undefined;
+  const gridResult: HedgedResponse = structured
+    ? await neuralGrid.executeStructured(plan.finalPrompt, plan.gridTask, structured.contract, config, context)
+        .then(result => ({ ...result, text: structured.render(result.data) }))
+    : hedge
+    ? await neuralGrid.executeHedged(plan.finalPrompt, plan.gridTask, hedge, config, context)
+    : await neuralGrid.execute(plan.finalPrompt, plan.gridTask, config, context);
+  const provider = `${gridResult.provider}/${gridResult.modelUsed}`;
+
+  // SLO GUARD: unverified codes are re-asked once (opt-in; free-text answers
+  // only), then flagged inline
+  let text = gridResult.text;
+  let grounding = await guardCitations(text, await guardScope());
+  if (grounding?.unverified.length && sloReaskEnabled() && !structured) {
+    try {
+      const retry = await neuralGrid.execute(sloCorrectionPrompt(plan.finalPrompt, text, grounding), plan.gridTask, config, context);
+      const recheck = await guardCitations(retry.text, await guardScope());
+      if (recheck && recheck.unverified.length < grounding.unverified.length) {
+        text = retry.text;
+        grounding = { ...recheck, reasked: true };
+      }
+    } catch (e: any) {
+      if (signal?.aborted) throw e;
+      console.warn(`⚠️ [SLO Guard] Re-ask failed: ${e.message}`);
+    }
   }
+  if (grounding) text = markUnverifiedSlos(text, grounding.unverified);
+
+  const latency = await recordSynthesis(plan, userPrompt, userId, supabase, text, provider, gridResult.hedge);
 
   return {
-    text: result.text,
-    provider: result.provider,
-    metadata: { isGrounded, sourceDocument: sourceDocName, intent: intentData.intent, latency, chunkCount: topChunkIds.length }
+    text,
+    provider,
+    metadata: { ...planMetadata(plan, latency), ...(grounding ? { grounding } : {}) }
   };
 }
+
+/**
+ * STREAMING SYNTHESIS
+ * Same cascade as generateAIResponse, but resolves as soon as an engine has
+ * emitted its first token. Logging and caching run once `tokens` is drained.
+ */
+export async function streamAIResponse(
+  userPrompt: string,
+  history: ConversationMemory | ConversationTurn[],
+  userId: string,
+  supabase: SupabaseClient,
+  adaptiveContext?: string,
+  toolType?: string,
+  customSystem?: string,
+  priorityDocumentId?: string,
+  signal?: AbortSignal,
+  library?: RetrievalFilters
+): Promise<{ tokens: AsyncIterable<string>; provider: string; metadata: any }> {
+  const memory = toMemory(history);
+  const plan = await planSynthesis(userPrompt, userId, supabase, adaptiveContext, toolType, customSystem, priorityDocumentId, signal, memory, library);
+  const guardScope = () => guardScopeFor(plan, supabase, userId, priorityDocumentId, library);
+  if (plan.cached) {
+    const { body, grounding } = await replayGrounding(plan.cached, guardScope);
+    async function* replay() {
+      yield body;
+      if (grounding) yield formatSloCheckMarker(grounding);
+    }
+    return {
+      tokens: replay(),
+      provider: 'Neural Cache',
+      metadata: { ...cacheMetadata(plan.cached), ...(grounding ? { grounding } : {}) }
+    };
+  }
+
+  const hedge = hedgePolicyFor(plan.gridTask);
+  const context = gridContext(userId, toolType, memory);
+  const config = { ...plan.gridConfig, signal };
+  const handle = hedge
+    ? await neuralGrid.executeStreamHedged(plan.finalPrompt, plan.gridTask, hedge, config, context)
+    : await neuralGrid.executeStream(plan.finalPrompt, plan.gridTask, config, context);
+  const provider = `${handle.provider}/${handle.modelUsed}`;
+  const metadata: ReturnType<typeof planMetadata> & { grounding?: SloCitationReport } = planMetadata(plan, Date.now() - plan.start);
+
+  // Chunk sources and tool steps lead the stream so MessageItem can show them
+  // above the answer; the SLO check trails it, since it needs the whole text
+  const sourcesMarker = formatSourcesMarker(plan.sources);
+  async function* relay() {
+    try {
+      if (sourcesMarker) yield sourcesMarker;
+      for (const step of plan.agentSteps) yield formatAgentStepMarker(step);
+      yield* handle.tokens;
+      const gridResult = await handle.result;
+      const grounding = await guardCitations(gridResult.text, await guardScope());
+      const checkMarker = grounding ? formatSloCheckMarker(grounding) : '';
+      if (grounding) {
+        metadata.grounding = grounding;
+        yield checkMarker;
+      }
+      // Cached with its sources and SLO report, so a replay keeps working footnotes and flags
+      metadata.latency = await recordSynthesis(plan, userPrompt, userId, supabase, sourcesMarker + gridResult.text + checkMarker, provider, handle.hedge);
+    } finally {
+      // A client that leaves during the leading markers never reached the
+      // engine stream; closing it here releases its queue slot
+      await handle.tokens.return(undefined);
+    }
+  }
+
+  return { tokens: relay(), provider, metadata };
+}
@@ -0,0 +1,239 @@
+/**
+ * STUDENT PII REDACTOR
+ * Pure half of the redaction layer in front of the grid (see pii-shield.ts).
+ * Student names, CNIC/B-form numbers, phone numbers and roster entries are
+ * swapped for placeholders such as [STUDENT_1] before a prompt leaves the
+ * server, and swapped back in the answer. Detection is pattern- and
+ * cue-based, tuned to miss curriculum text rather than catch every name.
+ */
+
+export type PiiKind = 'name' | 'nationalId' | 'phone' | 'roster';
+
+export const PII_KINDS: PiiKind[] = ['name', 'nationalId', 'phone', 'roster'];
+
+export const ANY_WORKSPACE = '*';
+
+export interface PiiPolicy {
+  workspace: string;                 // ANY_WORKSPACE = default for every workspace
+  enabled: boolean;
+  kinds: Record<PiiKind, boolean>;
+  knownNames: string[];              // Roster names always redacted, whatever the context
+  updatedAt?: string;
+}
+
+export const DEFAULT_PII_POLICY: PiiPolicy = {
+  workspace: ANY_WORKSPACE,
+  enabled: true,
+  kinds: { name: true, nationalId: true, phone: true, roster: true },
+  knownNames: []
+};
+
+export type PiiCounts = Record<PiiKind, number>;
+
+const MAX_KNOWN_NAMES = 500;
+
+const PLACEHOLDER_LABEL: Record<string, string> = {
+  name: 'STUDENT',
+  nationalId: 'ID',
+  phone: 'PHONE',
+  roll: 'ROLL'
+};
+
+const PLACEHOLDER_PATTERN = /\[(STUDENT|ID|PHONE|ROLL)_(\d+)\]/g;
+const PARTIAL_PLACEHOLDER = /\[[A-Z]{0,7}(?:_\d{0,4})?$/;
+
+// CNIC and B-form share the 5-7-1 layout; 13 bare digits are accepted too
+const NATIONAL_ID = /\b\d{5}-\d{7}-\d\b|\b\d{13}\b/g;
+const PHONE = /(?:\+92|\b0092|\b0)[\s-]?3\d{2}[\s-]?\d{7}\b|\+\d{1,3}[\s-]\d{2,4}[\s-]\d{3,4}[\s-]?\d{3,4}\b/g;
+const ROLL_NUMBER = /\b((?:roll|reg(?:istration)?|admission|gr)\s*(?:no\.?|number|#)\s*[:\-]?\s*)([A-Z0-9][A-Z0-9\-\/]{0,15})\b/gi;
+
+const NAME_WORD = "[A-Z][a-z]+(?:[-'][A-Za-z][a-z]+)?";
+const NAME_RUN = `${NAME_WORD}(?: ${NAME_WORD}){0,2}`;
+// Cue words are matched in either case, the name itself must be capitalised
+const NAME_CUE = new RegExp(
+  `\\b((?:[Ss]tudent|[Ll]earner|[Pp]upil|[Cc]hild|[Ss]on|[Dd]aughter)s?(?:'s)?(?: [Nn]ame)?(?: is| named| called)?[:\\-,]?\\s+|(?:Mr|Mrs|Ms|Miss)\\.?\\s+|\\b[Nn]ame\\s*[:\\-]\\s*)(${NAME_RUN})`,
+  'g'
+);
+// A roster line carries a score, a letter grade or a roll number; the word
+// "marks" alone is rubric vocabulary, not a score
+const ROSTER_SCORE = /\b\d{1,3}(?:\.\d+)?\s*\/\s*\d{1,3}\b|\b[Gg]rade\s*[A-F][+-]?(?![A-Za-z])|\[ROLL_\d+\]|,\s*\d{1,3}(?:\.\d+)?\s*(?:,|$)/;
+const ROSTER_LINE_START = /^\s*(?:\d{1,3}[.)]|[-*•])/;
+// The name opens the entry, after an optional list marker and roll number
+const ROSTER_ENTRY = new RegExp(
+  `^(\\s*(?:\\d{1,3}[.)]|[-*•])?\\s*(?:(?:\\d{1,4}|\\[ROLL_\\d+\\])\\s*[,\\t:.)-]\\s*)?)(${NAME_RUN})(?=\\s*(?:[,\\t:—–-]|\\s{2,}|\\d|$))`
+);
+const TABLE_ROW = /^\s*\|/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}/;
+const ROSTER_HEADER = /\b(?:name|student|learner|pupil)s?\b/i;
+const NAME_CELL = new RegExp(`^${NAME_RUN}$`);
+
+// Capitalised words a cue or a roster line can be followed by that are not names
+const NOT_NAMES = new Set([
+  'learning', 'outcome', 'outcomes', 'activity', 'activities', 'assessment', 'engagement', 'voice',
+  'centered', 'centred', 'led', 'profile', 'profiles', 'group', 'groups', 'work', 'worksheet', 'the',
+  'grade', 'class', 'section', 'total', 'average', 'name', 'names', 'roll', 'marks', 'score', 'result',
+  'results', 'term', 'unit', 'chapter', 'topic', 'quiz', 'test', 'exam', 'lesson', 'plan', 'objective',
+  'objectives', 'teacher', 'teachers', 'science', 'mathematics', 'math', 'english', 'urdu', 'biology',
+  'chemistry', 'physics', 'islamiyat', 'pakistan', 'studies', 'computer', 'general', 'knowledge', 'social',
+  'part', 'question', 'answer', 'answers', 'introduction', 'conclusion', 'summary', 'task', 'tasks'
+]);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isName = (run: string) => !run.split(/\s+/).some(word => NOT_NAMES.has(word.toLowerCase()));
+
+export function validatePiiPolicy(policy: Partial<PiiPolicy>): string[] {
+  const issues: string[] = [];
+  if (!policy.workspace?.trim()) issues.push('Workspace is required (use * for the default policy).');
+  if (typeof policy.enabled !== 'boolean') issues.push('enabled must be true or false.');
+  for (const kind of PII_KINDS) {
+    if (typeof policy.kinds?.[kind] !== 'boolean') issues.push(`kinds.${kind} must be true or false.`);
+  }
+  if (!Array.isArray(policy.knownNames)) {
+    issues.push('knownNames must be a list of names.');
+  } else {
+    if (policy.knownNames.length > MAX_KNOWN_NAMES) issues.push(`At most ${MAX_KNOWN_NAMES} known names per workspace.`);
+    if (policy.knownNames.some(n => typeof n !== 'string' || n.trim().length < 2)) {
+      issues.push('Known names must be at least two characters.');
+    }
+  }
+  return issues;
+}
+
+/**
+ * One prompt's worth of placeholders. The same value always gets the same
+ * placeholder, so a name in the prompt and the system prompt line up and the
+ * model can refer back to it.
+ */
+export class Redaction {
+  private byValue = new Map<string, string>();
+  private byPlaceholder = new Map<string, string>();
+  private next: Record<string, number> = {};
+  readonly counts: PiiCounts = { name: 0, nationalId: 0, phone: 0, roster: 0 };
+
+  constructor(private policy: PiiPolicy) {}
+
+  get redacted(): boolean {
+    return this.byPlaceholder.size > 0;
+  }
+
+  get placeholders(): number {
+    return this.byPlaceholder.size;
+  }
+
+  private placeholder(label: string, value: string, kind: PiiKind): string {
+    const key = `${label}:${value.toLowerCase().replace(/\s+/g, ' ')}`;
+    let placeholder = this.byValue.get(key);
+    if (!placeholder) {
+      this.next[label] = (this.next[label] || 0) + 1;
+      placeholder = `[${label}_${this.next[label]}]`;
+      this.byValue.set(key, placeholder);
+      this.byPlaceholder.set(placeholder, value);
+    }
+    this.counts[kind]++;
+    return placeholder;
+  }
+
+  redact(text: string): string {
+    const { enabled, kinds, knownNames } = this.policy;
+    if (!enabled || !text) return text;
+    let out = text;
+
+    if (kinds.nationalId) {
+      out = out.replace(NATIONAL_ID, id => this.placeholder(PLACEHOLDER_LABEL.nationalId, id, 'nationalId'));
+    }
+    if (kinds.phone) {
+      out = out.replace(PHONE, phone => this.placeholder(PLACEHOLDER_LABEL.phone, phone, 'phone'));
+    }
+    if (kinds.roster) {
+      out = out.replace(ROLL_NUMBER, (_, cue, roll) => cue + this.placeholder(PLACEHOLDER_LABEL.roll, roll, 'roster'));
+      out = this.redactRoster(out);
+    }
+    if (kinds.name) {
+      for (const known of knownNames) {
+        const pattern = new RegExp(`(?<![A-Za-z])${escapeRegExp(known.trim())}(?![A-Za-z])`, 'gi');
+        out = out.replace(pattern, name => this.placeholder(PLACEHOLDER_LABEL.name, name, 'name'));
+      }
+      out = out.replace(NAME_CUE, (match, cue, run) =>
+        isName(run) ? cue + this.placeholder(PLACEHOLDER_LABEL.name, run, 'name') : match);
+    }
+    return out;
+  }
+
+  /**
+   * Rosters arrive as Markdown tables with a name column, or as numbered,
+   * bulleted or comma-separated lines that open with the student's name.
+   * Other tables (rubrics, progression grids) are left alone.
+   */
+  private redactRoster(text: string): string {
+    const lines = text.split('\n');
+    let nameColumn = -1;
+    return lines.map((line, i) => {
+      if (!TABLE_ROW.test(line)) {
+        nameColumn = -1;
+        return this.redactRosterLine(line);
+      }
+      if (TABLE_SEPARATOR.test(line)) return line;
+      if (TABLE_SEPARATOR.test(lines[i + 1] || '')) {
+        nameColumn = line.trim().replace(/^\|/, '').split('|').findIndex(cell => ROSTER_HEADER.test(cell));
+        return line;
+      }
+      return nameColumn >= 0 ? this.redactRosterCell(line, nameColumn) : line;
+    }).join('\n');
+  }
+
+  // e.g. "3. Ayesha Khan — 18/25" or "Ayesha Khan, 18, B+"
+  private redactRosterLine(line: string): string {
+    if (!ROSTER_SCORE.test(line)) return line;
+    if (!ROSTER_LINE_START.test(line) && (line.match(/[,\t]/g) || []).length < 2) return line;
+    return line.replace(ROSTER_ENTRY, (match, lead, run) =>
+      isName(run) ? lead + this.placeholder(PLACEHOLDER_LABEL.name, run, 'roster') : match);
+  }
+
+  private redactRosterCell(line: string, column: number): string {
+    const parts = line.split('|');        // parts[0] is the indent before the leading pipe
+    const cell = parts[column + 1];
+    const name = cell?.trim();
+    if (!name || !NAME_CELL.test(name) || !isName(name)) return line;
+    parts[column + 1] = cell.replace(name, this.placeholder(PLACEHOLDER_LABEL.name, name, 'roster'));
+    return parts.join('|');
+  }
+
+  restore(text: string): string {
+    if (!this.redacted || !text) return text;
+    return text.replace(PLACEHOLDER_PATTERN, placeholder => this.byPlaceholder.get(placeholder) ?? placeholder);
+  }
+
+  // Structured answers: every string in the parsed value
+  restoreValue<T>(value: T): T {
+    if (!this.redacted) return value;
+    if (typeof value === 'string') return this.restore(value) as unknown as T;
+    if (Array.isArray(value)) return value.map(v => this.restoreValue(v)) as unknown as T;
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.restoreValue(v)])) as T;
+    }
+    return value;
+  }
+
+  /**
+   * Token deltas can split a placeholder ("[STU" + "DENT_1]"), so a trailing
+   * partial placeholder is held back until the next delta or the end.
+   */
+  restoreTokens(tokens: AsyncIterable<string>): AsyncGenerator<string> {
+    const restore = (text: string) => this.restore(text);
+    return (async function* () {
+      let pending = '';
+      for await (const delta of tokens) {
+        const text = pending + delta;
+        const partial = text.match(PARTIAL_PLACEHOLDER);
+        pending = partial ? partial[0] : '';
+        const ready = partial ? text.slice(0, partial.index) : text;
+        if (ready) yield restore(ready);
+      }
+      if (pending) yield restore(pending);
+    })();
+  }
+}
+
+export const PLACEHOLDER_INSTRUCTION =
+  'PRIVACY: Bracketed placeholders such as [STUDENT_1], [ROLL_1], [ID_1] and [PHONE_1] stand in for redacted student details. Keep them exactly as written wherever you refer to that student; never guess the real value.';
@@ -0,0 +1,186 @@
+import { getSupabaseAdminClient } from '../supabase';
+import { workspaceResolver } from '../auth/workspace';
+import { AIRequestConfig } from './providers/providers';
+import {
+  PiiPolicy, PiiCounts, Redaction, ANY_WORKSPACE, DEFAULT_PII_POLICY,
+  PLACEHOLDER_INSTRUCTION, validatePiiPolicy
+} from './pii-redactor';
+
+/**
+ * STUDENT PII SHIELD (v1.0)
+ * Runs in front of every grid entry point (NeuralOrchestrator and the
+ * SynthesizerCore chain): the prompt and system prompt are redacted under the
+ * caller's workspace policy before routing, recording or metering, and the
+ * answer is restored on the way out. Embedding inputs are redacted one way. Policies live in
+ * `pii_policies` (workspace '*' = default) and are cached per instance; every
+ * call that redacted something leaves a row in `pii_redaction_audit` with
+ * counts only, never the values.
+ */
+
+const POLICY_CACHE_MS = 30_000;
+
+export interface ShieldContext {
+  userId?: string;
+  tool?: string;
+  workspace?: string;
+}
+
+export interface RedactionAuditEntry {
+  id: string;
+  userId?: string;
+  workspace?: string;
+  tool?: string;
+  taskType: string;
+  counts: PiiCounts;
+  placeholders: number;
+  createdAt: string;
+}
+
+export interface ShieldedCall {
+  prompt: string;
+  config: AIRequestConfig;
+  redaction: Redaction;
+}
+
+const toPolicy = (row: any): PiiPolicy => ({
+  workspace: row.workspace,
+  enabled: row.enabled,
+  kinds: { ...DEFAULT_PII_POLICY.kinds, ...(row.kinds || {}) },
+  knownNames: row.known_names || [],
+  updatedAt: row.updated_at
+});
+
+const toAuditEntry = (row: any): RedactionAuditEntry => ({
+  id: row.id,
+  userId: row.user_id || undefined,
+  workspace: row.workspace || undefined,
+  tool: row.tool || undefined,
+  taskType: row.task_type,
+  counts: row.counts,
+  placeholders: row.placeholders,
+  createdAt: row.created_at
+});
+
+class PiiShield {
+  private policies: PiiPolicy[] = [];
+  private loadedAt = 0;
+
+  private async loadPolicies(): Promise<PiiPolicy[]> {
+    if (Date.now() - this.loadedAt < POLICY_CACHE_MS) return this.policies;
+    try {
+      const { data, error } = await getSupabaseAdminClient()
+        .from('pii_policies')
+        .select('workspace, enabled, kinds, known_names, updated_at');
+      if (error) throw error;
+      this.policies = (data || []).map(toPolicy);
+    } catch (e: any) {
+      // Table missing or unreachable: the built-in default (redact everything) applies
+      console.warn(`⚠️ [PII] Policy load failed, using defaults: ${e.message}`);
+    }
+    this.loadedAt = Date.now();
+    return this.policies;
+  }
+
+  async policyFor(workspace?: string): Promise<PiiPolicy> {
+    const policies = await this.loadPolicies();
+    return (workspace && policies.find(p => p.workspace === workspace))
+      || policies.find(p => p.workspace === ANY_WORKSPACE)
+      || DEFAULT_PII_POLICY;
+  }
+
+  /**
+   * Redacts one grid call. A policy lookup failure falls back to the default
+   * policy rather than letting the prompt through unredacted.
+   */
+  async open(prompt: string, config: AIRequestConfig, taskType: string, context: ShieldContext): Promise<ShieldedCall> {
+    let workspace = context.workspace;
+    try {
+      if (!workspace && context.userId) workspace = await workspaceResolver.of(context.userId);
+    } catch (e: any) {
+      console.warn(`⚠️ [PII] Workspace lookup failed: ${e.message}`);
+    }
+
+    const redaction = new Redaction(await this.policyFor(workspace));
+    const redactedPrompt = redaction.redact(prompt);
+    const systemPrompt = config.systemPrompt ? redaction.redact(config.systemPrompt) : config.systemPrompt;
+    if (!redaction.redacted) return { prompt, config, redaction };
+
+    this.audit(redaction, taskType, { ...context, workspace });
+    return {
+      prompt: redactedPrompt,
+      config: { ...config, systemPrompt: systemPrompt ? `${systemPrompt}\n\n${PLACEHOLDER_INSTRUCTION}` : PLACEHOLDER_INSTRUCTION },
+      redaction
+    };
+  }
+
+  /**
+   * One-way redaction for text that never comes back as prose, such as
+   * embedding inputs. One Redaction covers the batch.
+   */
+  async redactTexts(texts: string[], taskType: string, context: ShieldContext = {}): Promise<string[]> {
+    let workspace = context.workspace;
+    try {
+      if (!workspace && context.userId) workspace = await workspaceResolver.of(context.userId);
+    } catch (e: any) {
+      console.warn(`⚠️ [PII] Workspace lookup failed: ${e.message}`);
+    }
+
+    const redaction = new Redaction(await this.policyFor(workspace));
+    const redacted = texts.map(text => redaction.redact(text));
+    if (redaction.redacted) this.audit(redaction, taskType, { ...context, workspace });
+    return redacted;
+  }
+
+  // Fire-and-forget, like usage metering: an audit failure never fails the call
+  private audit(redaction: Redaction, taskType: string, context: ShieldContext) {
+    getSupabaseAdminClient().from('pii_redaction_audit').insert({
+      user_id: context.userId || null,
+      workspace: context.workspace || null,
+      tool: context.tool || null,
+      task_type: taskType,
+      counts: redaction.counts,
+      placeholders: redaction.placeholders
+    }).then(({ error }) => {
+      if (error) console.warn(`⚠️ [PII] Audit write failed: ${error.message}`);
+    });
+  }
+
+  async listPolicies(): Promise<PiiPolicy[]> {
+    this.loadedAt = 0;
+    return this.loadPolicies();
+  }
+
+  async upsertPolicy(policy: PiiPolicy): Promise<void> {
+    const issues = validatePiiPolicy(policy);
+    if (issues.length > 0) {
+      throw Object.assign(new Error('PII policy failed validation.'), { issues });
+    }
+    const { error } = await getSupabaseAdminClient().from('pii_policies').upsert({
+      workspace: policy.workspace.trim(),
+      enabled: policy.enabled,
+      kinds: policy.kinds,
+      known_names: Array.from(new Set(policy.knownNames.map(n => n.trim()))),
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'workspace' });
+    if (error) throw new Error(error.message);
+    this.loadedAt = 0;
+  }
+
+  async deletePolicy(workspace: string): Promise<void> {
+    const { error } = await getSupabaseAdminClient().from('pii_policies').delete().eq('workspace', workspace);
+    if (error) throw new Error(error.message);
+    this.loadedAt = 0;
+  }
+
+  async listAudit(limit: number = 50): Promise<RedactionAuditEntry[]> {
+    const { data, error } = await getSupabaseAdminClient()
+      .from('pii_redaction_audit')
+      .select('id, user_id, workspace, tool, task_type, counts, placeholders, created_at')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    if (error) throw new Error(error.message);
+    return (data || []).map(toAuditEntry);
+  }
+}
+
+export const piiShield = new PiiShield();
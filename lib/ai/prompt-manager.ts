@@ -5,7 +5,7 @@ import { ToolType } from './tool-router';
  * Mission: Architecture of Instruction - Research-Backed, Globally-Informed.
  */
 
-const TOOL_EXPERT_PROMPTS: Record<ToolType, string> = {
+export const TOOL_EXPERT_PROMPTS: Record<ToolType, string> = {
   master_plan: `
 ### 🔵 TOOL 1: MASTER PLAN (Architecture of Instruction)
 **EXPERT ROLE**: INSTRUCTIONAL ARCHITECT
@@ -72,11 +72,12 @@ If the user asks for a feature belonging to a different tool, mention it:
 - Quiz/Test? Suggest "NEURAL QUIZ".
 `;
 
-export async function getFullPrompt(tool: ToolType, customInstructions: string, basePrompt: string): Promise<string> {
+// `expertOverride` is an A/B variant body (see prompt-variants.ts) replacing the tool's expert prompt
+export async function getFullPrompt(tool: ToolType, customInstructions: string, basePrompt: string, expertOverride?: string): Promise<string> {
   return `
 ${basePrompt}
 
-${TOOL_EXPERT_PROMPTS[tool] || 'EXPERT: PEDAGOGY MASTER'}
+${expertOverride || TOOL_EXPERT_PROMPTS[tool] || 'EXPERT: PEDAGOGY MASTER'}
 
 ${NAVIGATION_PROTOCOL}
 
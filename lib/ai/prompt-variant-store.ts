@@ -0,0 +1,148 @@
+import { getSupabaseAdminClient } from '../supabase';
+import type { ToolType } from './tool-router';
+import {
+  PromptVariant, PromptScope, PromptAssignment, VariantStats, VariantTags,
+  assignVariant, validateTraffic, summarizeVariants
+} from './prompt-variants';
+
+/**
+ * PROMPT VARIANT STORE (v1.0)
+ * Variant bodies in `prompt_variants` are immutable: editing a prompt means
+ * creating the next version. Only traffic and status change in place.
+ * Active variants are cached per instance for CACHE_MS.
+ */
+
+const CACHE_MS = 30_000;
+const REPORT_ARTIFACT_LIMIT = 5000;
+const EVENT_BATCH = 200;
+
+const toVariant = (row: any): PromptVariant => ({
+  id: row.id,
+  scope: row.scope,
+  version: row.version,
+  label: row.label,
+  body: row.body,
+  traffic: row.traffic,
+  status: row.status,
+  createdAt: row.created_at
+});
+
+const rejected = (issues: string[]) =>
+  Object.assign(new Error('Prompt variants failed validation.'), { issues });
+
+class PromptVariantStore {
+  private cached: PromptVariant[] = [];
+  private loadedAt = 0;
+
+  private async active(): Promise<PromptVariant[]> {
+    if (Date.now() - this.loadedAt < CACHE_MS) return this.cached;
+    try {
+      const { data, error } = await getSupabaseAdminClient()
+        .from('prompt_variants')
+        .select('*')
+        .eq('status', 'active')
+        .gt('traffic', 0);
+      if (error) throw error;
+      this.cached = (data || []).map(toVariant);
+    } catch (e: any) {
+      // Table missing or unreachable: everyone stays on the live prompts
+      console.warn(`⚠️ [Prompt Variants] Load failed, serving control: ${e.message}`);
+    }
+    this.loadedAt = Date.now();
+    return this.cached;
+  }
+
+  /** Master + expert assignment for one generation. Never throws. */
+  async assign(userId: string, tool: ToolType): Promise<{ master: PromptAssignment; expert: PromptAssignment }> {
+    const variants = await this.active();
+    return {
+      master: assignVariant(userId, 'master', variants),
+      expert: assignVariant(userId, tool, variants)
+    };
+  }
+
+  async list(): Promise<PromptVariant[]> {
+    const { data, error } = await getSupabaseAdminClient()
+      .from('prompt_variants')
+      .select('*')
+      .order('scope')
+      .order('version', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(toVariant);
+  }
+
+  async create(scope: PromptScope, label: string, body: string, traffic: number, userId: string): Promise<PromptVariant> {
+    if (!body?.trim()) throw rejected(['Prompt body is empty.']);
+
+    const existing = await this.list();
+    const version = Math.max(0, ...existing.filter(v => v.scope === scope).map(v => v.version)) + 1;
+    const draft: PromptVariant = { id: 'new', scope, version, label: label || `v${version}`, body, traffic, status: 'active' };
+
+    const issues = validateTraffic([...existing, draft]);
+    if (issues.length > 0) throw rejected(issues);
+
+    const { data, error } = await getSupabaseAdminClient()
+      .from('prompt_variants')
+      .insert({ scope, version, label: draft.label, body, traffic, status: 'active', created_by: userId })
+      .select('*')
+      .single();
+    if (error) throw error;
+
+    this.loadedAt = 0;
+    return toVariant(data);
+  }
+
+  async update(id: string, patch: { traffic?: number; status?: PromptVariant['status'] }): Promise<PromptVariant> {
+    const existing = await this.list();
+    const target = existing.find(v => v.id === id);
+    if (!target) throw new Error(`Prompt variant ${id} not found.`);
+
+    const next = { ...target, ...patch };
+    const issues = validateTraffic(existing.map(v => v.id === id ? next : v));
+    if (issues.length > 0) throw rejected(issues);
+
+    const { data, error } = await getSupabaseAdminClient()
+      .from('prompt_variants')
+      .update({ traffic: next.traffic, status: next.status })
+      .eq('id', id)
+      .select('*')
+      .single();
+    if (error) throw error;
+
+    this.loadedAt = 0;
+    return toVariant(data);
+  }
+
+  /**
+   * Outcome report: artifacts tagged with variants since `since`, joined with
+   * the feedback events captured for them.
+   */
+  async report(since: Date): Promise<VariantStats[]> {
+    const admin = getSupabaseAdminClient();
+    const { data: artifacts, error } = await admin
+      .from('output_artifacts')
+      .select('id, metadata')
+      .gte('created_at', since.toISOString())
+      .not('metadata->promptVariants', 'is', null)
+      .limit(REPORT_ARTIFACT_LIMIT);
+    if (error) throw error;
+
+    const tagged = (artifacts || []).map(a => ({ id: a.id as string, tags: (a.metadata?.promptVariants || {}) as VariantTags }));
+    if (tagged.length === 0) return [];
+
+    // Batched: artifact ids travel in the query string
+    const events: any[] = [];
+    for (let i = 0; i < tagged.length; i += EVENT_BATCH) {
+      const { data, error: eventError } = await admin
+        .from('feedback_events')
+        .select('artifact_id, event_type')
+        .in('artifact_id', tagged.slice(i, i + EVENT_BATCH).map(a => a.id));
+      if (eventError) throw eventError;
+      events.push(...(data || []));
+    }
+
+    return summarizeVariants(tagged, events);
+  }
+}
+
+export const promptVariantStore = new PromptVariantStore();
@@ -0,0 +1,151 @@
+// lib/ai/prompt-variants.ts
+// PROMPT VARIANTS — versioned alternatives to the live master/expert prompts,
+// sticky per-user traffic splitting and outcome scoring.
+// Pure logic: safe to import from the admin UI and the client.
+
+import type { ToolType } from './tool-router';
+
+// 'master' replaces neural_brain.master_prompt; a ToolType replaces its TOOL_EXPERT_PROMPTS entry
+export type PromptScope = 'master' | ToolType;
+
+export const PROMPT_SCOPES: PromptScope[] = ['master', 'master_plan', 'neural_quiz', 'fidelity_rubric', 'audit_tagger'];
+
+// The live prompt every scope falls back to; it receives the traffic no variant claims
+export const CONTROL_VARIANT = 'control';
+
+export interface PromptVariant {
+  id: string;
+  scope: PromptScope;
+  version: number;
+  label: string;
+  body: string;
+  traffic: number;          // Percent of users, 0-100
+  status: 'active' | 'retired';
+  createdAt?: string;
+}
+
+export interface PromptAssignment {
+  scope: PromptScope;
+  variantId: string;        // CONTROL_VARIANT or a prompt_variants id
+  version: number;          // 0 for control
+  body?: string;            // Absent for control
+}
+
+// Stored in output_artifacts.metadata.promptVariants so outcomes can be joined back
+export type VariantTags = Partial<Record<PromptScope, string>>;
+
+export type OutcomeEvent = 'export' | 'accept' | 'abandon' | 'edit';
+
+export interface VariantStats {
+  scope: PromptScope;
+  variantId: string;
+  generations: number;
+  export: number;
+  accept: number;
+  edit: number;
+  abandon: number;
+  keepRate: number;         // Share of generations that were exported or accepted
+}
+
+const BUCKETS = 100;
+
+// FNV-1a: stable across instances, so a teacher always sees the same variant
+function bucketOf(userId: string, scope: PromptScope): number {
+  let hash = 0x811c9dc5;
+  const input = `${scope}:${userId}`;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % BUCKETS;
+}
+
+/**
+ * Walks the scope's active variants in version order; each claims `traffic`
+ * buckets. Users beyond the claimed buckets stay on control.
+ */
+export function assignVariant(userId: string, scope: PromptScope, variants: PromptVariant[]): PromptAssignment {
+  const bucket = bucketOf(userId, scope);
+  const candidates = variants
+    .filter(v => v.scope === scope && v.status === 'active' && v.traffic > 0)
+    .sort((a, b) => a.version - b.version);
+
+  let ceiling = 0;
+  for (const variant of candidates) {
+    ceiling += variant.traffic;
+    if (bucket < ceiling) {
+      return { scope, variantId: variant.id, version: variant.version, body: variant.body };
+    }
+  }
+  return { scope, variantId: CONTROL_VARIANT, version: 0 };
+}
+
+export function validateTraffic(variants: PromptVariant[]): string[] {
+  const issues: string[] = [];
+  for (const scope of PROMPT_SCOPES) {
+    const claimed = variants
+      .filter(v => v.scope === scope && v.status === 'active')
+      .reduce((sum, v) => sum + v.traffic, 0);
+    if (claimed > BUCKETS) issues.push(`${scope}: variants claim ${claimed}% of traffic (max ${BUCKETS}%)`);
+  }
+  for (const v of variants) {
+    if (!Number.isInteger(v.traffic) || v.traffic < 0 || v.traffic > BUCKETS) {
+      issues.push(`${v.scope} v${v.version}: traffic must be an integer 0-${BUCKETS}`);
+    }
+  }
+  return issues;
+}
+
+// ─── TRANSPORT ────────────────────────────────────────────────────
+// Assignments travel to the browser in a response header: "master=control,neural_quiz=<id>"
+
+export const VARIANT_HEADER = 'X-Prompt-Variants';
+
+export function formatVariantHeader(assignments: PromptAssignment[]): string {
+  return assignments.map(a => `${a.scope}=${a.variantId}`).join(',');
+}
+
+export function parseVariantHeader(header: string | null): VariantTags {
+  const tags: VariantTags = {};
+  for (const pair of (header || '').split(',')) {
+    const [scope, variantId] = pair.split('=').map(s => s.trim());
+    if (scope && variantId && (PROMPT_SCOPES as string[]).includes(scope)) {
+      tags[scope as PromptScope] = variantId;
+    }
+  }
+  return tags;
+}
+
+// ─── OUTCOMES ─────────────────────────────────────────────────────
+// `artifacts` carry their variant tags; `events` are feedback_events rows
+// written by adaptiveService.captureEvent. Each artifact counts an event type once.
+
+export function summarizeVariants(
+  artifacts: Array<{ id: string; tags: VariantTags }>,
+  events: Array<{ artifact_id: string; event_type: OutcomeEvent }>
+): VariantStats[] {
+  const eventsByArtifact = new Map<string, Set<OutcomeEvent>>();
+  for (const e of events) {
+    if (!eventsByArtifact.has(e.artifact_id)) eventsByArtifact.set(e.artifact_id, new Set());
+    eventsByArtifact.get(e.artifact_id)!.add(e.event_type);
+  }
+
+  const stats = new Map<string, VariantStats>();
+  for (const artifact of artifacts) {
+    const seen = eventsByArtifact.get(artifact.id) || new Set<OutcomeEvent>();
+    for (const [scope, variantId] of Object.entries(artifact.tags) as Array<[PromptScope, string]>) {
+      const key = `${scope}:${variantId}`;
+      if (!stats.has(key)) {
+        stats.set(key, { scope, variantId, generations: 0, export: 0, accept: 0, edit: 0, abandon: 0, keepRate: 0 });
+      }
+      const row = stats.get(key)!;
+      row.generations++;
+      seen.forEach(type => { row[type]++; });
+      if (seen.has('export') || seen.has('accept')) row.keepRate++;
+    }
+  }
+
+  return Array.from(stats.values())
+    .map(row => ({ ...row, keepRate: row.generations ? row.keepRate / row.generations : 0 }))
+    .sort((a, b) => a.scope.localeCompare(b.scope) || b.generations - a.generations);
+}
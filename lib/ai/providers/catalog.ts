@@ -0,0 +1,190 @@
+// lib/ai/providers/catalog.ts
+// PROVIDER CATALOG — every engine the grid can route to, as plain data.
+// Pure: safe to import from the admin UI and from budgeting code. The
+// registry (registry.ts) turns these specs into callable plugins.
+
+export type BuiltInEngine = 'gemini' | 'deepseek' | 'groq' | 'cerebras' | 'sambanova' | 'openrouter' | 'xai' | 'local';
+
+// Config-defined engines (GRID_PROVIDERS) add their own ids at runtime
+export type GridEngine = BuiltInEngine | (string & {});
+
+export type ProviderKind = 'gemini' | 'openai-compatible' | 'local';
+
+export interface ProviderCapabilities {
+  contextTokens: number;             // Advertised context window
+  jsonMode: boolean;                 // Accepts a JSON output mode (schema still enforced by the grid)
+  streaming: boolean;                // Token streaming; otherwise streams are one blocking call
+  thinkingBudget: number | null;     // Reasoning tokens per call, where the API takes one
+}
+
+// Per-model exceptions, matched as a substring of the model id
+export interface ModelOverride {
+  match: string;
+  capabilities: Partial<ProviderCapabilities>;
+}
+
+export interface ProviderSpec {
+  id: GridEngine;
+  displayName: string;
+  vendor: string;                    // AIResponse.provider and usage-ledger label
+  kind: ProviderKind;
+  baseUrl?: string;                  // OpenAI-compatible base, e.g. http://10.0.0.5:8080/v1
+  keyEnv?: string;                   // Env var with the API key; absent = keyless (self-hosted)
+  headers?: Record<string, string>;  // Extra request headers
+  defaultModel: string;
+  maxTokens: number;                 // Output cap when the route sets none
+  capabilities: ProviderCapabilities;
+  models?: ModelOverride[];
+  roles: string[];                   // What the engine is for, shown in the status bar
+  rateLimited: boolean;              // Shares a vendor quota (checked by the rate limiter)
+  standby?: boolean;                 // Reported as STANDBY rather than ONLINE when configured
+  source: 'built-in' | 'config';
+}
+
+export const DEFAULT_CONTEXT_TOKENS = 8_192;
+
+const OPENROUTER_HEADERS = {
+  'HTTP-Referer': process.env.NEXT_PUBLIC_VERCEL_URL || 'https://pedagogy-master.vercel.app',
+  'X-Title': 'Pedagogy Master',
+};
+
+export const BUILT_IN_PROVIDERS: ProviderSpec[] = [
+  {
+    id: 'gemini', displayName: 'GEMINI 2.5 PRO', vendor: 'google', kind: 'gemini', keyEnv: 'API_KEY',
+    defaultModel: 'gemini-2.5-pro-preview-06-05', maxTokens: 8192,
+    capabilities: { contextTokens: 1_000_000, jsonMode: true, streaming: true, thinkingBudget: 512 },
+    models: [{ match: 'pro', capabilities: { thinkingBudget: 4096 } }],
+    roles: ['LESSON_PLAN', 'INGEST_LINEARIZE'], rateLimited: true, source: 'built-in'
+  },
+  {
+    id: 'deepseek', displayName: 'DEEPSEEK R1', vendor: 'deepseek', kind: 'openai-compatible',
+    baseUrl: 'https://api.deepseek.com', keyEnv: 'DEEPSEEK_API_KEY',
+    defaultModel: 'deepseek-chat', maxTokens: 4096,
+    capabilities: { contextTokens: 64_000, jsonMode: true, streaming: true, thinkingBudget: null },
+    models: [{ match: 'reasoner', capabilities: { jsonMode: false } }],
+    roles: ['BLOOM_TAG', 'AUDIT_TAG', 'VERTICAL_ALIGN'], rateLimited: true, source: 'built-in'
+  },
+  {
+    id: 'groq', displayName: 'GROQ 3 (LLAMA)', vendor: 'groq', kind: 'openai-compatible',
+    baseUrl: 'https://api.groq.com/openai/v1', keyEnv: 'GROQ_API_KEY',
+    defaultModel: 'llama-3.3-70b-versatile', maxTokens: 4096,
+    capabilities: { contextTokens: 128_000, jsonMode: true, streaming: true, thinkingBudget: null },
+    roles: ['RUBRIC_GENERATE', 'CHAT_LOOKUP'], rateLimited: true, source: 'built-in'
+  },
+  {
+    id: 'cerebras', displayName: 'CEREBRAS WS', vendor: 'cerebras', kind: 'openai-compatible',
+    baseUrl: 'https://api.cerebras.ai/v1', keyEnv: 'CEREBRAS_API_KEY',
+    defaultModel: 'llama3.1-70b', maxTokens: 2048,
+    capabilities: { contextTokens: 8_192, jsonMode: true, streaming: true, thinkingBudget: null },
+    roles: ['CHAT_LOOKUP'], rateLimited: true, source: 'built-in'
+  },
+  {
+    id: 'sambanova', displayName: 'SAMBANOVA SN40L', vendor: 'sambanova', kind: 'openai-compatible',
+    baseUrl: 'https://api.sambanova.ai/v1', keyEnv: 'SAMBANOVA_API_KEY',
+    defaultModel: 'Meta-Llama-3.3-70B-Instruct', maxTokens: 4096,
+    capabilities: { contextTokens: 16_384, jsonMode: true, streaming: true, thinkingBudget: null },
+    roles: ['QUIZ_GENERATE'], rateLimited: true, source: 'built-in'
+  },
+  {
+    id: 'openrouter', displayName: 'OPENROUTER GW', vendor: 'openrouter', kind: 'openai-compatible',
+    baseUrl: 'https://openrouter.ai/api/v1', keyEnv: 'OPENROUTER_API_KEY', headers: OPENROUTER_HEADERS,
+    defaultModel: 'google/gemini-2.0-flash-001', maxTokens: 4096,
+    capabilities: { contextTokens: 128_000, jsonMode: true, streaming: true, thinkingBudget: null },
+    roles: ['FALLBACK'], rateLimited: true, standby: true, source: 'built-in'
+  },
+  {
+    id: 'xai', displayName: 'GROK 2 (XAI)', vendor: 'xai', kind: 'openai-compatible',
+    baseUrl: 'https://api.x.ai/v1', keyEnv: 'GROK_API_KEY',
+    defaultModel: 'grok-2-1212', maxTokens: 8192,
+    capabilities: { contextTokens: 32_768, jsonMode: true, streaming: true, thinkingBudget: null },
+    roles: ['SYNTHESIS'], rateLimited: true, source: 'built-in'
+  },
+  {
+    id: 'local', displayName: 'LOCAL STUB', vendor: 'local', kind: 'local', keyEnv: 'LOCAL_AI_MODE',
+    defaultModel: 'deterministic-fixtures', maxTokens: 8192,
+    capabilities: { contextTokens: 32_000, jsonMode: true, streaming: true, thinkingBudget: null },
+    roles: ['ALL'], rateLimited: false, source: 'built-in'
+  },
+];
+
+export const BUILT_IN_ENGINES = BUILT_IN_PROVIDERS.map(p => p.id) as BuiltInEngine[];
+
+export function capabilitiesOf(spec: ProviderSpec, model?: string): ProviderCapabilities {
+  const overrides = (spec.models || []).filter(o => model?.includes(o.match));
+  return Object.assign({ ...spec.capabilities }, ...overrides.map(o => o.capabilities));
+}
+
+// Context window for budgeting when only built-in data is at hand
+export function builtInContextTokens(engine: GridEngine): number {
+  return BUILT_IN_PROVIDERS.find(p => p.id === engine)?.capabilities.contextTokens ?? DEFAULT_CONTEXT_TOKENS;
+}
+
+/**
+ * One self-hosted or extra OpenAI-compatible engine from GRID_PROVIDERS.
+ * Only id, baseUrl and model are required; capabilities default to a small
+ * streaming model without JSON mode.
+ */
+export interface ConfiguredProvider {
+  id: string;
+  baseUrl: string;
+  model: string;
+  displayName?: string;
+  apiKeyEnv?: string;
+  headers?: Record<string, string>;
+  maxTokens?: number;
+  contextTokens?: number;
+  jsonMode?: boolean;
+  streaming?: boolean;
+  rateLimited?: boolean;
+  models?: ModelOverride[];
+}
+
+const ENGINE_ID = /^[a-z][a-z0-9-]{1,31}$/;
+
+export function validateConfiguredProvider(entry: any): string[] {
+  const issues: string[] = [];
+  const at = `provider "${entry?.id ?? '?'}"`;
+  if (!entry || typeof entry !== 'object') return ['Each provider must be an object.'];
+  if (typeof entry.id !== 'string' || !ENGINE_ID.test(entry.id)) {
+    issues.push(`${at}: id must be lowercase letters, digits or dashes (2-32 chars).`);
+  } else if (BUILT_IN_ENGINES.includes(entry.id)) {
+    issues.push(`${at}: id clashes with the built-in ${entry.id} engine.`);
+  }
+  if (typeof entry.baseUrl !== 'string' || !/^https?:\/\/\S+$/.test(entry.baseUrl)) {
+    issues.push(`${at}: baseUrl must be an http(s) URL.`);
+  }
+  if (typeof entry.model !== 'string' || !entry.model.trim()) issues.push(`${at}: model is required.`);
+  for (const field of ['maxTokens', 'contextTokens'] as const) {
+    if (entry[field] !== undefined && (!Number.isInteger(entry[field]) || entry[field] < 256)) {
+      issues.push(`${at}: ${field} must be an integer of at least 256.`);
+    }
+  }
+  for (const field of ['jsonMode', 'streaming', 'rateLimited'] as const) {
+    if (entry[field] !== undefined && typeof entry[field] !== 'boolean') issues.push(`${at}: ${field} must be true or false.`);
+  }
+  return issues;
+}
+
+export function toProviderSpec(entry: ConfiguredProvider): ProviderSpec {
+  return {
+    id: entry.id,
+    displayName: entry.displayName || entry.id.toUpperCase(),
+    vendor: entry.id,
+    kind: 'openai-compatible',
+    baseUrl: entry.baseUrl.replace(/\/+$/, ''),
+    keyEnv: entry.apiKeyEnv,
+    headers: entry.headers,
+    defaultModel: entry.model,
+    maxTokens: entry.maxTokens ?? 4096,
+    capabilities: {
+      contextTokens: entry.contextTokens ?? DEFAULT_CONTEXT_TOKENS,
+      jsonMode: entry.jsonMode ?? false,
+      streaming: entry.streaming ?? true,
+      thinkingBudget: null
+    },
+    models: entry.models,
+    roles: ['SELF_HOSTED'],
+    rateLimited: entry.rateLimited ?? false,
+    source: 'config'
+  };
+}
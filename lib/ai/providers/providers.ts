@@ -1,5 +1,8 @@
-// lib/ai/providers.ts
-// Unified provider interface — all models speak the same language
+// lib/ai/providers/providers.ts
+// Unified provider interface — all models speak the same language.
+// Two transports cover every engine: Gemini's native SDK and the OpenAI
+// `/chat/completions` wire format. Which engine uses which, and with what
+// capabilities, is declared in catalog.ts and wired up in registry.ts.
 
 export interface AIMessage {
   role: 'user' | 'assistant' | 'system';
@@ -12,181 +15,156 @@ export interface AIResponse {
   provider: string;
   latencyMs: number;
   tokensUsed?: number;
+  promptTokens?: number;
+  completionTokens?: number;
 }
 
 export interface AIRequestConfig {
   temperature?: number;
   maxTokens?: number;
   systemPrompt?: string;
+  responseSchema?: Record<string, any>; // JSON Schema; switches engines into JSON output mode
+  timeoutMs?: number;                    // Per-route deadline for blocking calls
+  signal?: AbortSignal;                  // Caller cancellation, e.g. the losing side of a hedged request
 }
 
-// ─────────────────────────────────────────────
-// PROVIDER 1: Google Gemini (via @google/genai)
-// Used for: Master MD, Lesson Plans (long context)
-// ─────────────────────────────────────────────
-export async function callGemini(
-  prompt: string,
-  model: 'gemini-2.5-pro-preview-06-05' | 'gemini-2.5-flash-preview-05-20' | 'gemini-2.0-flash',
-  config: AIRequestConfig = {}
-): Promise<AIResponse> {
-  const { GoogleGenAI } = await import('@google/genai');
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-  const start = Date.now();
-
-  const response = await ai.models.generateContent({
-    model,
-    contents: prompt,
-    config: {
-      systemInstruction: config.systemPrompt,
-      temperature: config.temperature ?? 0.1,
-      maxOutputTokens: config.maxTokens ?? 8192,
-      thinkingConfig: model.includes('2.5-pro')
-        ? { thinkingBudget: 4096 }
-        : { thinkingBudget: 512 }
-    }
-  });
-
-  return {
-    text: response.text || '',
-    modelUsed: model,
-    provider: 'google',
-    latencyMs: Date.now() - start,
-  };
+// Streaming mode: every engine yields raw text deltas and returns its usage
+// summary (when the vendor reports one) once the stream is exhausted.
+export interface AIStreamSummary {
+  tokensUsed?: number;
+  promptTokens?: number;
+  completionTokens?: number;
 }
 
-// ─────────────────────────────────────────────
-// PROVIDER 2: DeepSeek (OpenAI-compatible API)
-// Used for: Bloom taxonomy, structured JSON, reasoning
-// Models: deepseek-reasoner (R1), deepseek-chat (V3)
-// ─────────────────────────────────────────────
-export async function callDeepSeek(
-  prompt: string,
-  model: 'deepseek-reasoner' | 'deepseek-chat' = 'deepseek-chat',
-  config: AIRequestConfig = {}
-): Promise<AIResponse> {
-  const start = Date.now();
+export type AITokenStream = AsyncGenerator<string, AIStreamSummary, void>;
 
+function buildMessages(prompt: string, config: AIRequestConfig): AIMessage[] {
   const messages: AIMessage[] = [];
   if (config.systemPrompt) {
     messages.push({ role: 'system', content: config.systemPrompt });
   }
   messages.push({ role: 'user', content: prompt });
+  return messages;
+}
 
-  const response = await fetch('https://api.deepseek.com/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${process.env.DEEPSEEK_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model,
-      messages,
-      temperature: config.temperature ?? 0.1,
-      max_tokens: config.maxTokens ?? 4096,
-    })
-  });
-
-  if (!response.ok) {
-    const err = await response.text();
-    throw new Error(`DeepSeek API error ${response.status}: ${err}`);
-  }
-
-  const data = await response.json();
-  const text = data.choices?.[0]?.message?.content || '';
+// Aborts the HTTP request itself once the route's deadline passes or the caller cancels
+function deadline(config: AIRequestConfig): AbortSignal | undefined {
+  const signals = [config.signal, config.timeoutMs ? AbortSignal.timeout(config.timeoutMs) : undefined]
+    .filter((s): s is AbortSignal => !!s);
+  return signals.length > 1 ? AbortSignal.any(signals) : signals[0];
+}
 
-  return {
-    text,
-    modelUsed: model,
-    provider: 'deepseek',
-    latencyMs: Date.now() - start,
-    tokensUsed: data.usage?.total_tokens,
-  };
+// OpenAI-compatible engines only guarantee syntactic JSON; the schema itself
+// is enforced by the orchestrator's structured-output validator.
+function jsonMode(config: AIRequestConfig, supported: boolean): Record<string, any> {
+  return supported && config.responseSchema ? { response_format: { type: 'json_object' } } : {};
 }
 
-// ─────────────────────────────────────────────
-// PROVIDER 3: Groq (OpenAI-compatible — fastest)
-// Used for: Rubrics, quick gen, real-time feedback
-// Models: llama-3.3-70b-versatile, mixtral-8x7b-32768
-// ─────────────────────────────────────────────
-export async function callGroq(
-  prompt: string,
-  model: 'llama-3.3-70b-versatile' | 'llama-3.1-8b-instant' | 'mixtral-8x7b-32768' = 'llama-3.3-70b-versatile',
-  config: AIRequestConfig = {}
-): Promise<AIResponse> {
-  const start = Date.now();
+export interface ChatCompletionsEndpoint {
+  label: string;                     // Error messages, e.g. "Groq"
+  provider: string;                  // AIResponse.provider
+  url: string;                       // Full `/chat/completions` URL
+  headers: Record<string, string>;   // Auth and vendor headers
+}
 
-  const messages: AIMessage[] = [];
-  if (config.systemPrompt) {
-    messages.push({ role: 'system', content: config.systemPrompt });
-  }
-  messages.push({ role: 'user', content: prompt });
+// Per-call settings the registry derives from the engine's capabilities
+export interface TransportOptions {
+  maxTokens: number;                 // Output cap when the route sets none
+  jsonMode?: boolean;
+  thinkingBudget?: number | null;
+}
 
-  const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
+/**
+ * Shared SSE reader for every OpenAI-compatible `/chat/completions` endpoint.
+ * Parses `data:` frames, yields `choices[0].delta.content` and stops on `[DONE]`.
+ */
+async function* streamChatCompletions(
+  label: string,
+  endpoint: string,
+  headers: Record<string, string>,
+  body: Record<string, any>,
+  signal?: AbortSignal
+): AITokenStream {
+  const response = await fetch(endpoint, {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${process.env.GROQ_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model,
-      messages,
-      temperature: config.temperature ?? 0.1,
-      max_tokens: config.maxTokens ?? 4096,
-    })
+    signal,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify({ ...body, stream: true, stream_options: { include_usage: true } })
   });
 
-  if (!response.ok) {
+  if (!response.ok || !response.body) {
     const err = await response.text();
-    throw new Error(`Groq API error ${response.status}: ${err}`);
+    throw new Error(`${label} API error ${response.status}: ${err}`);
   }
 
-  const data = await response.json();
-  const text = data.choices?.[0]?.message?.content || '';
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let summary: AIStreamSummary = {};
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const raw of lines) {
+        const line = raw.trim();
+        if (!line.startsWith('data:')) continue;
+        const payload = line.slice(5).trim();
+        if (payload === '[DONE]') return summary;
+
+        let data: any;
+        try { data = JSON.parse(payload); } catch { continue; }
+
+        const usage = data.usage || data.x_groq?.usage;
+        if (usage?.total_tokens) {
+          summary = {
+            tokensUsed: usage.total_tokens,
+            promptTokens: usage.prompt_tokens,
+            completionTokens: usage.completion_tokens,
+          };
+        }
+
+        const delta = data.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
 
-  return {
-    text,
-    modelUsed: model,
-    provider: 'groq',
-    latencyMs: Date.now() - start,
-    tokensUsed: data.usage?.total_tokens,
-  };
+  return summary;
 }
 
-// ─────────────────────────────────────────────
-// PROVIDER 4: Cerebras (Wafer-scale — FASTEST)
-// Used for: Instant SLO lookups, real-time chat
-// Models: llama3.1-8b, llama3.1-70b
-// ─────────────────────────────────────────────
-export async function callCerebras(
+export async function callChatCompletions(
+  endpoint: ChatCompletionsEndpoint,
   prompt: string,
-  model: 'llama3.1-8b' | 'llama3.1-70b' = 'llama3.1-70b',
-  config: AIRequestConfig = {}
+  model: string,
+  config: AIRequestConfig,
+  options: TransportOptions
 ): Promise<AIResponse> {
   const start = Date.now();
 
-  const messages: AIMessage[] = [];
-  if (config.systemPrompt) {
-    messages.push({ role: 'system', content: config.systemPrompt });
-  }
-  messages.push({ role: 'user', content: prompt });
-
-  const response = await fetch('https://api.cerebras.ai/v1/chat/completions', {
+  const response = await fetch(endpoint.url, {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${process.env.CEREBRAS_API_KEY}`,
-    },
+    signal: deadline(config),
+    headers: { 'Content-Type': 'application/json', ...endpoint.headers },
     body: JSON.stringify({
       model,
-      messages,
+      messages: buildMessages(prompt, config),
       temperature: config.temperature ?? 0.1,
-      max_tokens: config.maxTokens ?? 2048,
+      max_tokens: config.maxTokens ?? options.maxTokens,
+      ...jsonMode(config, !!options.jsonMode),
     })
   });
 
   if (!response.ok) {
     const err = await response.text();
-    throw new Error(`Cerebras API error ${response.status}: ${err}`);
+    throw new Error(`${endpoint.label} API error ${response.status}: ${err}`);
   }
 
   const data = await response.json();
@@ -195,108 +173,98 @@ export async function callCerebras(
   return {
     text,
     modelUsed: model,
-    provider: 'cerebras',
+    provider: endpoint.provider,
     latencyMs: Date.now() - start,
     tokensUsed: data.usage?.total_tokens,
+    promptTokens: data.usage?.prompt_tokens,
+    completionTokens: data.usage?.completion_tokens,
   };
 }
 
-// ─────────────────────────────────────────────
-// PROVIDER 5: Sambanova (Fast large model hosting)
-// Used for: Quiz banks, assessment generation
-// Models: Meta-Llama-3.1-405B-Instruct, Meta-Llama-3.3-70B-Instruct
-// ─────────────────────────────────────────────
-export async function callSambanova(
+export function streamChatCompletionsFor(
+  endpoint: ChatCompletionsEndpoint,
+  prompt: string,
+  model: string,
+  config: AIRequestConfig,
+  options: TransportOptions
+): AITokenStream {
+  return streamChatCompletions(endpoint.label, endpoint.url, endpoint.headers, {
+    model,
+    messages: buildMessages(prompt, config),
+    temperature: config.temperature ?? 0.1,
+    max_tokens: config.maxTokens ?? options.maxTokens,
+  }, config.signal);
+}
+
+// Google Gemini (via @google/genai): long context, native JSON schema mode
+export async function callGemini(
   prompt: string,
-  model: 'Meta-Llama-3.3-70B-Instruct' | 'Meta-Llama-3.1-405B-Instruct' = 'Meta-Llama-3.3-70B-Instruct',
-  config: AIRequestConfig = {}
+  model: string,
+  config: AIRequestConfig,
+  options: TransportOptions
 ): Promise<AIResponse> {
+  const { GoogleGenAI } = await import('@google/genai');
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
   const start = Date.now();
 
-  const messages: AIMessage[] = [];
-  if (config.systemPrompt) {
-    messages.push({ role: 'system', content: config.systemPrompt });
-  }
-  messages.push({ role: 'user', content: prompt });
-
-  const response = await fetch('https://api.sambanova.ai/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${process.env.SAMBANOVA_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model,
-      messages,
+  const response = await ai.models.generateContent({
+    model,
+    contents: prompt,
+    config: {
+      abortSignal: deadline(config),
+      systemInstruction: config.systemPrompt,
       temperature: config.temperature ?? 0.1,
-      max_tokens: config.maxTokens ?? 4096,
-    })
+      maxOutputTokens: config.maxTokens ?? options.maxTokens,
+      ...(options.thinkingBudget ? { thinkingConfig: { thinkingBudget: options.thinkingBudget } } : {}),
+      ...(config.responseSchema && options.jsonMode
+        ? { responseMimeType: 'application/json', responseJsonSchema: config.responseSchema }
+        : {})
+    }
   });
 
-  if (!response.ok) {
-    const err = await response.text();
-    throw new Error(`Sambanova API error ${response.status}: ${err}`);
-  }
-
-  const data = await response.json();
-  const text = data.choices?.[0]?.message?.content || '';
-
   return {
-    text,
+    text: response.text || '',
     modelUsed: model,
-    provider: 'sambanova',
+    provider: 'google',
     latencyMs: Date.now() - start,
-    tokensUsed: data.usage?.total_tokens,
+    tokensUsed: response.usageMetadata?.totalTokenCount,
+    promptTokens: response.usageMetadata?.promptTokenCount,
+    completionTokens: response.usageMetadata?.candidatesTokenCount,
   };
 }
 
-// ─────────────────────────────────────────────
-// PROVIDER 6: OpenRouter (Universal fallback gateway)
-// Used for: When all else fails — routes to best available
-// Can also use specific models: anthropic/claude, openai/gpt-4o etc
-// ─────────────────────────────────────────────
-export async function callOpenRouter(
+export async function* streamGemini(
   prompt: string,
-  model: string = 'google/gemini-2.0-flash-001',
-  config: AIRequestConfig = {}
-): Promise<AIResponse> {
-  const start = Date.now();
-
-  const messages: AIMessage[] = [];
-  if (config.systemPrompt) {
-    messages.push({ role: 'system', content: config.systemPrompt });
-  }
-  messages.push({ role: 'user', content: prompt });
+  model: string,
+  config: AIRequestConfig,
+  options: TransportOptions
+): AITokenStream {
+  const { GoogleGenAI } = await import('@google/genai');
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
 
-  const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
-      'HTTP-Referer': process.env.NEXT_PUBLIC_VERCEL_URL || 'https://pedagogy-master.vercel.app',
-      'X-Title': 'Pedagogy Master',
-    },
-    body: JSON.stringify({
-      model,
-      messages,
+  const stream = await ai.models.generateContentStream({
+    model,
+    contents: prompt,
+    config: {
+      abortSignal: config.signal,
+      systemInstruction: config.systemPrompt,
       temperature: config.temperature ?? 0.1,
-      max_tokens: config.maxTokens ?? 4096,
-    })
+      maxOutputTokens: config.maxTokens ?? options.maxTokens,
+      ...(options.thinkingBudget ? { thinkingConfig: { thinkingBudget: options.thinkingBudget } } : {})
+    }
   });
 
-  if (!response.ok) {
-    const err = await response.text();
-    throw new Error(`OpenRouter API error ${response.status}: ${err}`);
+  let summary: AIStreamSummary = {};
+  for await (const chunk of stream) {
+    if (chunk.usageMetadata?.totalTokenCount) {
+      summary = {
+        tokensUsed: chunk.usageMetadata.totalTokenCount,
+        promptTokens: chunk.usageMetadata.promptTokenCount,
+        completionTokens: chunk.usageMetadata.candidatesTokenCount,
+      };
+    }
+    if (chunk.text) yield chunk.text;
   }
 
-  const data = await response.json();
-  const text = data.choices?.[0]?.message?.content || '';
-
-  return {
-    text,
-    modelUsed: model,
-    provider: 'openrouter',
-    latencyMs: Date.now() - start,
-    tokensUsed: data.usage?.total_tokens,
-  };
+  return summary;
 }
@@ -0,0 +1,273 @@
+// lib/ai/providers/registry.ts
+// PROVIDER REGISTRY — one plugin per engine, built from the catalog plus any
+// OpenAI-compatible endpoints configured for this deployment.
+
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { getSupabaseAdminClient } from '../../supabase';
+import { isGeminiEnabled } from '../../env-server';
+import {
+  AIResponse, AIRequestConfig, AITokenStream, ChatCompletionsEndpoint, TransportOptions,
+  callChatCompletions, streamChatCompletionsFor, callGemini, streamGemini
+} from './providers';
+import { callLocal, streamLocal, isLocalModeEnabled } from './local';
+import {
+  GridEngine, ProviderSpec, ProviderCapabilities, ConfiguredProvider, BUILT_IN_PROVIDERS, DEFAULT_CONTEXT_TOKENS,
+  capabilitiesOf, validateConfiguredProvider, toProviderSpec
+} from './catalog';
+import type { TaskType } from '../model-orchestrator';
+
+/**
+ * PROVIDER REGISTRY (v1.0)
+ * Extra engines come from GRID_PROVIDERS (a JSON array) or the file named by
+ * GRID_PROVIDERS_FILE (default config/grid-providers.json), so a school on a
+ * restricted network can point the grid at a self-hosted llama.cpp/Ollama
+ * server without a code change:
+ *
+ *   [{ "id": "school-llm", "baseUrl": "http://10.0.0.5:8080/v1", "model": "llama-3.1-8b",
+ *      "contextTokens": 8192, "jsonMode": false }]
+ *
+ * Admins switch engines on and off at runtime through /api/admin/providers;
+ * the switches live in `grid_provider_settings` and are cached per instance
+ * for SETTINGS_CACHE_MS. A switched-off or unconfigured engine is dropped
+ * from every routing chain.
+ */
+
+const SETTINGS_CACHE_MS = 15_000;
+
+export interface ProviderPlugin extends ProviderSpec {
+  configured(): boolean;             // Key present (or keyless), or local mode on for the stub
+  call(prompt: string, model: string, config: AIRequestConfig): Promise<AIResponse>;
+  stream(prompt: string, model: string, config: AIRequestConfig): AITokenStream;
+}
+
+export interface ProviderSetting {
+  engine: string;
+  enabled: boolean;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+export interface ProviderState {
+  id: GridEngine;
+  displayName: string;
+  source: ProviderSpec['source'];
+  baseUrl?: string;
+  defaultModel: string;
+  capabilities: ProviderCapabilities;
+  configured: boolean;
+  enabled: boolean;                  // Admin switch
+  active: boolean;                   // Configured and switched on
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+const transport = (spec: ProviderSpec, model: string): TransportOptions => {
+  const capabilities = capabilitiesOf(spec, model);
+  return { maxTokens: spec.maxTokens, jsonMode: capabilities.jsonMode, thinkingBudget: capabilities.thinkingBudget };
+};
+
+// Engines without streaming still serve streamed tasks: one delta, the whole answer
+async function* asSingleDelta(response: Promise<AIResponse>): AITokenStream {
+  const { text, tokensUsed, promptTokens, completionTokens } = await response;
+  if (text) yield text;
+  return { tokensUsed, promptTokens, completionTokens };
+}
+
+function toPlugin(spec: ProviderSpec): ProviderPlugin {
+  switch (spec.kind) {
+    case 'gemini':
+      return {
+        ...spec,
+        configured: isGeminiEnabled,
+        call: (prompt, model, config) => callGemini(prompt, model, config, transport(spec, model)),
+        stream: (prompt, model, config) => streamGemini(prompt, model, config, transport(spec, model))
+      };
+    case 'local':
+      // The stub's "model" is the task it should answer as
+      return {
+        ...spec,
+        configured: isLocalModeEnabled,
+        call: (prompt, model, config) => callLocal(prompt, model as TaskType, config),
+        stream: (prompt, model, config) => streamLocal(prompt, model as TaskType, config)
+      };
+    default: {
+      // Resolved per call so rotated keys are picked up without a restart
+      const endpoint = (): ChatCompletionsEndpoint => ({
+        label: spec.displayName,
+        provider: spec.vendor,
+        url: `${spec.baseUrl}/chat/completions`,
+        headers: {
+          ...(spec.headers || {}),
+          ...(spec.keyEnv && process.env[spec.keyEnv] ? { 'Authorization': `Bearer ${process.env[spec.keyEnv]}` } : {})
+        }
+      });
+      const call = (prompt: string, model: string, config: AIRequestConfig) =>
+        callChatCompletions(endpoint(), prompt, model, config, transport(spec, model));
+      return {
+        ...spec,
+        configured: () => !spec.keyEnv || !!process.env[spec.keyEnv],
+        call,
+        stream: (prompt, model, config) => capabilitiesOf(spec, model).streaming
+          ? streamChatCompletionsFor(endpoint(), prompt, model, config, transport(spec, model))
+          : asSingleDelta(call(prompt, model, config))
+      };
+    }
+  }
+}
+
+function readConfiguredProviders(): { entries: any[]; origin: string } {
+  if (process.env.GRID_PROVIDERS?.trim()) {
+    return { entries: JSON.parse(process.env.GRID_PROVIDERS), origin: 'GRID_PROVIDERS' };
+  }
+  const path = process.env.GRID_PROVIDERS_FILE || join(process.cwd(), 'config', 'grid-providers.json');
+  if (!existsSync(path)) return { entries: [], origin: path };
+  return { entries: JSON.parse(readFileSync(path, 'utf8')), origin: path };
+}
+
+class ProviderRegistry {
+  private plugins: Map<string, ProviderPlugin> | null = null;
+  private configIssues: string[] = [];
+  private settings = new Map<string, ProviderSetting>();
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+
+  // Built once per instance: configuration is read at boot, not per call
+  private load(): Map<string, ProviderPlugin> {
+    if (this.plugins) return this.plugins;
+    const plugins = new Map<string, ProviderPlugin>();
+    BUILT_IN_PROVIDERS.forEach(spec => plugins.set(spec.id, toPlugin(spec)));
+
+    try {
+      const { entries, origin } = readConfiguredProviders();
+      if (!Array.isArray(entries)) throw new Error(`${origin} must hold a JSON array of providers.`);
+      for (const entry of entries) {
+        const issues = validateConfiguredProvider(entry);
+        if (issues.length === 0 && plugins.has(entry.id)) issues.push(`provider "${entry.id}" is defined twice.`);
+        if (issues.length > 0) {
+          console.error(`❌ [Providers] Skipping configured provider: ${issues[0]}`);
+          this.configIssues.push(...issues);
+          continue;
+        }
+        plugins.set(entry.id, toPlugin(toProviderSpec(entry as ConfiguredProvider)));
+        console.log(`🔌 [Providers] Registered ${entry.id} → ${entry.baseUrl}`);
+      }
+    } catch (e: any) {
+      console.error(`❌ [Providers] Provider configuration unreadable: ${e.message}`);
+      this.configIssues.push(e.message);
+    }
+
+    this.plugins = plugins;
+    return plugins;
+  }
+
+  get(engine: GridEngine): ProviderPlugin {
+    const plugin = this.load().get(engine);
+    if (!plugin) throw new Error(`Unknown grid engine "${engine}".`);
+    return plugin;
+  }
+
+  has(engine: string): boolean {
+    return this.load().has(engine);
+  }
+
+  list(): ProviderPlugin[] {
+    return Array.from(this.load().values());
+  }
+
+  // The local stub is switched on by LOCAL_AI_MODE, never through the table
+  routableIds(): GridEngine[] {
+    return this.list().filter(p => p.kind !== 'local').map(p => p.id);
+  }
+
+  rateLimitedIds(): GridEngine[] {
+    return this.list().filter(p => p.rateLimited).map(p => p.id);
+  }
+
+  capabilitiesFor(engine: GridEngine, model?: string): ProviderCapabilities {
+    return capabilitiesOf(this.get(engine), model);
+  }
+
+  /** Context window for budgeting; unknown engines get the smallest default. */
+  contextTokens = (engine: GridEngine): number =>
+    this.has(engine) ? this.get(engine).capabilities.contextTokens : DEFAULT_CONTEXT_TOKENS;
+
+  issues(): string[] {
+    this.load();
+    return [...this.configIssues];
+  }
+
+  private async refreshSettings(): Promise<void> {
+    if (Date.now() - this.loadedAt < SETTINGS_CACHE_MS) return;
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const { data, error } = await getSupabaseAdminClient()
+            .from('grid_provider_settings')
+            .select('engine, enabled, updated_by, updated_at');
+          if (error) throw error;
+          this.settings = new Map((data || []).map(row => [row.engine, {
+            engine: row.engine,
+            enabled: row.enabled,
+            updatedBy: row.updated_by || undefined,
+            updatedAt: row.updated_at
+          }]));
+        } catch (e: any) {
+          // Table missing or unreachable: keep the last switches (all on at boot)
+          console.warn(`⚠️ [Providers] Settings load failed, keeping current switches: ${e.message}`);
+        }
+        this.loadedAt = Date.now();
+      })().finally(() => { this.loading = null; });
+    }
+    return this.loading;
+  }
+
+  // Last known switch position; refreshed by every async check
+  isSwitchedOn(engine: GridEngine): boolean {
+    return this.settings.get(engine)?.enabled ?? true;
+  }
+
+  async isActive(engine: GridEngine): Promise<boolean> {
+    if (!this.has(engine)) return false;
+    await this.refreshSettings();
+    return this.isSwitchedOn(engine) && this.get(engine).configured();
+  }
+
+  async setEnabled(engine: GridEngine, enabled: boolean, userId?: string): Promise<void> {
+    if (!this.has(engine)) {
+      throw Object.assign(new Error('Provider switch failed validation.'), { issues: [`Unknown grid engine "${engine}".`] });
+    }
+    const { error } = await getSupabaseAdminClient().from('grid_provider_settings').upsert({
+      engine,
+      enabled,
+      updated_by: userId || null,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'engine' });
+    if (error) throw new Error(error.message);
+    this.settings.set(engine, { engine, enabled, updatedBy: userId, updatedAt: new Date().toISOString() });
+  }
+
+  async describe(): Promise<ProviderState[]> {
+    await this.refreshSettings();
+    return this.list().map(p => {
+      const setting = this.settings.get(p.id);
+      const configured = p.configured();
+      const enabled = setting?.enabled ?? true;
+      return {
+        id: p.id,
+        displayName: p.displayName,
+        source: p.source,
+        baseUrl: p.baseUrl,
+        defaultModel: p.defaultModel,
+        capabilities: p.capabilities,
+        configured,
+        enabled,
+        active: configured && enabled,
+        updatedBy: setting?.updatedBy,
+        updatedAt: setting?.updatedAt
+      };
+    });
+  }
+}
+
+export const providerRegistry = new ProviderRegistry();
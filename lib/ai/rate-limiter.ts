@@ -1,46 +1,245 @@
-import { kv } from '../kv';
+import { createHash } from 'crypto';
+import { kv, BucketSpec } from '../kv';
+import { getSupabaseAdminClient } from '../supabase';
 
 export interface ProviderConfig {
   name: string;
-  rpm: number; 
-  rpd: number; 
+  rpm: number;
+  rpd: number;
   enabled: boolean;
 }
 
-interface RateLimitState {
-  minuteCount: number;
-  dayCount: number;
-  minuteReset: number;
-  dayReset: number;
+// ─── SCOPES ───────────────────────────────────────────────────────
+// Every request can be charged against several buckets at once. A policy is
+// a token bucket: `capacity` is the burst, `refillPerMinute` the sustained rate.
+
+export type LimitScope = 'provider' | 'apiKey' | 'user' | 'workspace';
+
+export const LIMIT_SCOPES: LimitScope[] = ['provider', 'apiKey', 'user', 'workspace'];
+
+export const ANY_SUBJECT = '*';
+
+export interface LimitPolicy {
+  scope: LimitScope;
+  subject: string;          // ANY_SUBJECT = scope default
+  capacity: number;
+  refillPerMinute: number;
+  updatedAt?: string;
+}
+
+export interface LimitSubjects {
+  provider?: string;
+  apiKey?: string;          // Partner key fingerprint from apiKeyFingerprint(), never the raw key
+  user?: string;
+  workspace?: string;
+}
+
+export interface LimitDecision {
+  allowed: boolean;
+  retryAfterSeconds: number;
+  limitedBy?: { scope: LimitScope; subject: string };
+  remaining: Partial<Record<LimitScope, number>>;
+}
+
+export interface BucketSnapshot {
+  scope: LimitScope;
+  subject: string;
+  remaining: number;
+  capacity: number;
+  refillPerMinute: number;
+}
+
+export const DEFAULT_LIMIT_POLICIES: Record<LimitScope, Omit<LimitPolicy, 'scope' | 'subject'>> = {
+  provider:  { capacity: 60,  refillPerMinute: 60 },
+  apiKey:    { capacity: 30,  refillPerMinute: 30 },
+  user:      { capacity: 20,  refillPerMinute: 10 },
+  workspace: { capacity: 200, refillPerMinute: 120 },
+};
+
+const POLICY_CACHE_MS = 30_000;
+const MAX_CAPACITY = 100_000;
+
+export class RateLimitError extends Error {
+  constructor(message: string, public retryAfterSeconds: number, public limitedBy?: LimitDecision['limitedBy']) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * Stable, non-reversible label for a partner X-API-Key, so its bucket (and
+ * any override) can be named without the key reaching KV or the admin UI.
+ */
+export function apiKeyFingerprint(key: string): string {
+  return `key_${createHash('sha256').update(key).digest('hex').slice(0, 12)}`;
+}
+
+export function validatePolicy(policy: Partial<LimitPolicy>): string[] {
+  const issues: string[] = [];
+  if (!policy.scope || !LIMIT_SCOPES.includes(policy.scope)) issues.push(`Unknown scope "${policy.scope}".`);
+  if (!policy.subject?.trim()) issues.push('Subject is required (use * for the scope default).');
+  for (const field of ['capacity', 'refillPerMinute'] as const) {
+    const value = policy[field];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0 || value > MAX_CAPACITY) {
+      issues.push(`${field} must be a number between 1 and ${MAX_CAPACITY}.`);
+    }
+  }
+  return issues;
 }
 
+const rejected = (issues: string[]) =>
+  Object.assign(new Error('Rate limit policy failed validation.'), { issues });
+
 /**
- * PERSISTENT RATE LIMITER (v2.0)
- * Uses KV store for cross-instance enforcement.
+ * DISTRIBUTED RATE LIMITER (v3.0)
+ * Token buckets in KV, checked and consumed atomically across instances (one
+ * Lua script in Redis). Per-subject overrides live in `rate_limit_policies`
+ * and are cached per instance for POLICY_CACHE_MS.
  */
 class RateLimiter {
-  async canMakeRequest(provider: string, config: ProviderConfig): Promise<boolean> {
-    if (!config.enabled) return false;
-    
-    const now = Date.now();
-    const key = `ratelimit:${provider}`;
-    let state = await kv.get<RateLimitState>(key);
-
-    if (!state || now > state.dayReset) {
-      state = { minuteCount: 0, dayCount: 0, minuteReset: now + 60000, dayReset: now + 86400000 };
-    } else if (now > state.minuteReset) {
-      state.minuteCount = 0;
-      state.minuteReset = now + 60000;
+  private policies: LimitPolicy[] = [];
+  private loadedAt = 0;
+
+  private async loadPolicies(): Promise<LimitPolicy[]> {
+    if (Date.now() - this.loadedAt < POLICY_CACHE_MS) return this.policies;
+    try {
+      const { data, error } = await getSupabaseAdminClient()
+        .from('rate_limit_policies')
+        .select('scope, subject, capacity, refill_per_minute, updated_at');
+      if (error) throw error;
+      this.policies = (data || []).map(row => ({
+        scope: row.scope,
+        subject: row.subject,
+        capacity: row.capacity,
+        refillPerMinute: Number(row.refill_per_minute),
+        updatedAt: row.updated_at
+      }));
+    } catch (e: any) {
+      // Table missing or unreachable: built-in defaults still apply
+      console.warn(`⚠️ [Rate Limit] Policy load failed, using defaults: ${e.message}`);
     }
+    this.loadedAt = Date.now();
+    return this.policies;
+  }
 
-    const allowed = state.minuteCount < config.rpm && state.dayCount < config.rpd;
-    
-    if (allowed) {
-      state.minuteCount++;
-      state.dayCount++;
-      await kv.set(key, state, 86400); // 1 day TTL
+  private policyFor(policies: LimitPolicy[], scope: LimitScope, subject: string): LimitPolicy {
+    return policies.find(p => p.scope === scope && p.subject === subject)
+      || policies.find(p => p.scope === scope && p.subject === ANY_SUBJECT)
+      || { scope, subject: ANY_SUBJECT, ...DEFAULT_LIMIT_POLICIES[scope] };
+  }
+
+  private async buckets(subjects: LimitSubjects) {
+    const policies = await this.loadPolicies();
+    return LIMIT_SCOPES
+      .filter(scope => subjects[scope])
+      .map(scope => {
+        const subject = subjects[scope]!;
+        const policy = this.policyFor(policies, scope, subject);
+        const spec: BucketSpec = {
+          key: `ratelimit:${scope}:${subject}`,
+          capacity: policy.capacity,
+          refillPerMs: policy.refillPerMinute / 60_000
+        };
+        return { scope, subject, policy, spec };
+      });
+  }
+
+  /**
+   * Charges `cost` to every named bucket, or to none of them. The refusal
+   * reports the bucket that needs the longest wait.
+   */
+  async check(subjects: LimitSubjects, cost: number = 1): Promise<LimitDecision> {
+    const buckets = await this.buckets(subjects);
+    const decision = await kv.takeTokens(buckets.map(b => b.spec), cost);
+
+    const remaining: LimitDecision['remaining'] = {};
+    buckets.forEach((b, i) => { remaining[b.scope] = decision.remaining[i]; });
+
+    if (decision.allowed) return { allowed: true, retryAfterSeconds: 0, remaining };
+
+    const limited = buckets[decision.limitedIndex];
+    return {
+      allowed: false,
+      retryAfterSeconds: Math.max(1, Math.ceil(decision.retryAfterMs / 1000)),
+      limitedBy: limited && { scope: limited.scope, subject: limited.subject },
+      remaining
+    };
+  }
+
+  /** Throwing form of check() for callers that surface 429s. */
+  async enforce(subjects: LimitSubjects, cost: number = 1): Promise<LimitDecision> {
+    const decision = await this.check(subjects, cost);
+    if (!decision.allowed) {
+      const by = decision.limitedBy;
+      throw new RateLimitError(
+        `Rate limit reached${by ? ` for ${by.scope} ${by.subject}` : ''}. Retry in ${decision.retryAfterSeconds}s.`,
+        decision.retryAfterSeconds,
+        by
+      );
     }
+    return decision;
+  }
+
+  /** Current fill of each bucket without consuming from it. */
+  async snapshot(subjects: Array<{ scope: LimitScope; subject: string }>): Promise<BucketSnapshot[]> {
+    return Promise.all(subjects.map(async ({ scope, subject }) => {
+      const [bucket] = await this.buckets({ [scope]: subject });
+      const { remaining } = await kv.takeTokens([bucket.spec], 0);
+      return {
+        scope,
+        subject,
+        remaining: remaining[0],
+        capacity: bucket.policy.capacity,
+        refillPerMinute: bucket.policy.refillPerMinute
+      };
+    }));
+  }
 
+  async listPolicies(): Promise<LimitPolicy[]> {
+    this.loadedAt = 0;
+    return this.loadPolicies();
+  }
+
+  async upsertPolicy(policy: LimitPolicy): Promise<void> {
+    const issues = validatePolicy(policy);
+    if (issues.length > 0) throw rejected(issues);
+
+    const { error } = await getSupabaseAdminClient()
+      .from('rate_limit_policies')
+      .upsert({
+        scope: policy.scope,
+        subject: policy.subject.trim(),
+        capacity: policy.capacity,
+        refill_per_minute: policy.refillPerMinute,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'scope,subject' });
+    if (error) throw error;
+    this.loadedAt = 0;
+  }
+
+  async deletePolicy(scope: LimitScope, subject: string): Promise<void> {
+    const { error } = await getSupabaseAdminClient()
+      .from('rate_limit_policies')
+      .delete()
+      .eq('scope', scope)
+      .eq('subject', subject);
+    if (error) throw error;
+    this.loadedAt = 0;
+  }
+
+  // ─── LEGACY RPM/RPD INTERFACE ───────────────────────────────────
+  // Fixed per-call configs map onto a minute bucket and a day bucket.
+
+  private legacyBuckets(provider: string, config: ProviderConfig): BucketSpec[] {
+    return [
+      { key: `ratelimit:legacy:${provider}:minute`, capacity: config.rpm, refillPerMs: config.rpm / 60_000 },
+      { key: `ratelimit:legacy:${provider}:day`, capacity: config.rpd, refillPerMs: config.rpd / 86_400_000 }
+    ];
+  }
+
+  async canMakeRequest(provider: string, config: ProviderConfig): Promise<boolean> {
+    if (!config.enabled) return false;
+    const { allowed } = await kv.takeTokens(this.legacyBuckets(provider, config), 1);
     return allowed;
   }
 
@@ -52,15 +251,9 @@ class RateLimiter {
   }
 
   async getRemainingRequests(provider: string, config: ProviderConfig) {
-    const key = `ratelimit:${provider}`;
-    const state = await kv.get<RateLimitState>(key);
-    if (!state) return { minute: config.rpm, day: config.rpd };
-    
-    return {
-      minute: Math.max(0, config.rpm - state.minuteCount),
-      day: Math.max(0, config.rpd - state.dayCount)
-    };
+    const { remaining } = await kv.takeTokens(this.legacyBuckets(provider, config), 0);
+    return { minute: remaining[0], day: remaining[1] };
   }
 }
 
-export const rateLimiter = new RateLimiter();
\ No newline at end of file
+export const rateLimiter = new RateLimiter();
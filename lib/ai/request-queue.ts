@@ -1,57 +1,203 @@
-
 /**
- * CONCURRENT REQUEST ORCHESTRATOR
+ * CONCURRENT REQUEST ORCHESTRATOR (v2.0)
  * Manages outgoing AI synthesis requests with concurrency control
  * to prevent gateway bottlenecks while respecting provider limits.
+ *
+ * Requests wait in priority lanes: interactive chat always starts before tool
+ * generation, which starts before background ingestion. Tool and background
+ * work never take the last slots, which stay free for chat. Each
+ * provider has its own cap, and a request that cannot start before its
+ * deadline, or whose signal aborts while it waits, leaves the queue.
  */
+
+export type QueueLane = 'interactive' | 'tool' | 'background';
+
+export const QUEUE_LANES: QueueLane[] = ['interactive', 'tool', 'background'];
+
+export interface QueueOptions {
+  lane?: QueueLane;
+  provider?: string;
+  signal?: AbortSignal;
+  deadlineAt?: number;     // Epoch ms by which the request must have started
+}
+
+export interface QueueSlot {
+  release: () => void;     // Idempotent
+}
+
+export class QueueTimeoutError extends Error {
+  constructor(public lane: QueueLane, public waitedMs: number, public provider?: string) {
+    super(`Queue deadline exceeded: ${lane} request${provider ? ` for ${provider}` : ''} waited ${waitedMs}ms without a slot`);
+    this.name = 'QueueTimeoutError';
+  }
+}
+
+// How long each lane may wait for a slot before giving up
+export const LANE_DEADLINE_MS: Record<QueueLane, number> = {
+  interactive: 15_000,
+  tool: 45_000,
+  background: 10 * 60_000,
+};
+
+// Most slots a lane may hold at once; interactive may use them all
+const LANE_CONCURRENCY: Record<QueueLane, number> = {
+  interactive: 8,
+  tool: 6,
+  background: 2,
+};
+
+const PROVIDER_CONCURRENCY: Record<string, number> = {
+  gemini: 6,
+  deepseek: 3,
+  groq: 4,
+  cerebras: 4,
+  sambanova: 2,
+  openrouter: 4,
+  local: 8,
+};
+const DEFAULT_PROVIDER_CONCURRENCY = 4;
+
+// Slots only the interactive lane may fill, so tool and ingestion work
+// together can never starve chat
+const INTERACTIVE_RESERVE = 2;
+
+interface Waiter {
+  lane: QueueLane;
+  provider?: string;
+  enqueuedAt: number;
+  grant: (slot: QueueSlot) => void;
+  fail: (error: any) => void;
+}
+
 class RequestQueue {
-  private queue: Array<{
-    fn: () => Promise<any>;
-    resolve: (value: any) => void;
-    reject: (error: any) => void;
-  }> = [];
+  private lanes: Record<QueueLane, Waiter[]> = { interactive: [], tool: [], background: [] };
   private activeCount = 0;
-  private readonly MAX_CONCURRENT = 5;
+  private activeByLane: Record<QueueLane, number> = { interactive: 0, tool: 0, background: 0 };
+  private activeByProvider = new Map<string, number>();
+  private lastStartAt = 0;
+  private staggerTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly MAX_CONCURRENT = 8;
   private readonly MIN_START_DELAY = 150;
 
-  async add<T>(fn: () => Promise<T>): Promise<T> {
+  /**
+   * Waits for a slot. The caller must release it when the provider call (or
+   * stream) has finished.
+   */
+  acquire(options: QueueOptions = {}): Promise<QueueSlot> {
+    const lane = options.lane || 'tool';
+    const { provider, signal } = options;
+    const enqueuedAt = Date.now();
+    const deadlineAt = options.deadlineAt ?? enqueuedAt + LANE_DEADLINE_MS[lane];
+
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
     return new Promise((resolve, reject) => {
-      this.queue.push({ fn, resolve, reject });
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const leave = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        const queue = this.lanes[lane];
+        const index = queue.indexOf(waiter);
+        if (index === -1) return false;
+        queue.splice(index, 1);
+        return true;
+      };
+      const onAbort = () => { if (leave()) reject(signal!.reason); };
+
+      const waiter: Waiter = {
+        lane,
+        provider,
+        enqueuedAt,
+        grant: slot => { leave(); resolve(slot); },
+        fail: error => { if (leave()) reject(error); }
+      };
+
+      this.lanes[lane].push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      timer = setTimeout(() => waiter.fail(new QueueTimeoutError(lane, Date.now() - enqueuedAt, provider)),
+        Math.max(0, deadlineAt - enqueuedAt));
       this.process();
     });
   }
 
-  private async process(): Promise<void> {
-    if (this.activeCount >= this.MAX_CONCURRENT || this.queue.length === 0) {
-      return;
+  async add<T>(fn: () => Promise<T>, options: QueueOptions = {}): Promise<T> {
+    const slot = await this.acquire(options);
+    try {
+      return await fn();
+    } finally {
+      slot.release();
     }
+  }
 
-    this.activeCount++;
-    const { fn, resolve, reject } = this.queue.shift()!;
+  private hasRoom(waiter: Waiter): boolean {
+    if (this.activeByLane[waiter.lane] >= LANE_CONCURRENCY[waiter.lane]) return false;
+    if (waiter.lane !== 'interactive' && this.activeCount >= this.MAX_CONCURRENT - INTERACTIVE_RESERVE) return false;
+    if (!waiter.provider) return true;
+    const cap = PROVIDER_CONCURRENCY[waiter.provider] ?? DEFAULT_PROVIDER_CONCURRENCY;
+    return (this.activeByProvider.get(waiter.provider) || 0) < cap;
+  }
+
+  // Highest lane first, FIFO within a lane; a waiter blocked on its provider
+  // cap does not hold up others behind it
+  private next(): Waiter | undefined {
+    for (const lane of QUEUE_LANES) {
+      const waiter = this.lanes[lane].find(w => this.hasRoom(w));
+      if (waiter) return waiter;
+    }
+    return undefined;
+  }
+
+  private process(): void {
+    if (this.staggerTimer || this.activeCount >= this.MAX_CONCURRENT) return;
+
+    const waiter = this.next();
+    if (!waiter) return;
 
     // Stagger starts slightly to prevent burst errors on edge
-    setTimeout(() => this.process(), this.MIN_START_DELAY);
+    const wait = this.lastStartAt + this.MIN_START_DELAY - Date.now();
+    if (wait > 0) {
+      this.staggerTimer = setTimeout(() => { this.staggerTimer = null; this.process(); }, wait);
+      return;
+    }
 
-    try {
-      const result = await fn();
-      resolve(result);
-    } catch (error) {
-      reject(error);
-    } finally {
-      this.activeCount--;
-      this.process();
+    this.lastStartAt = Date.now();
+    this.activeCount++;
+    this.activeByLane[waiter.lane]++;
+    if (waiter.provider) {
+      this.activeByProvider.set(waiter.provider, (this.activeByProvider.get(waiter.provider) || 0) + 1);
     }
+
+    let released = false;
+    waiter.grant({
+      release: () => {
+        if (released) return;
+        released = true;
+        this.activeCount--;
+        this.activeByLane[waiter.lane]--;
+        if (waiter.provider) this.activeByProvider.set(waiter.provider, this.activeByProvider.get(waiter.provider)! - 1);
+        this.process();
+      }
+    });
+
+    this.process();
   }
 
   getQueueLength(): number {
-    return this.queue.length;
+    return QUEUE_LANES.reduce((sum, lane) => sum + this.lanes[lane].length, 0);
   }
 
   getStats() {
     return {
-      queued: this.queue.length,
+      queued: this.getQueueLength(),
       active: this.activeCount,
-      capacity: this.MAX_CONCURRENT
+      capacity: this.MAX_CONCURRENT,
+      lanes: Object.fromEntries(QUEUE_LANES.map(lane => [lane, {
+        queued: this.lanes[lane].length,
+        active: this.activeByLane[lane],
+        capacity: LANE_CONCURRENCY[lane]
+      }])) as Record<QueueLane, { queued: number; active: number; capacity: number }>,
+      providers: Object.fromEntries(this.activeByProvider)
     };
   }
 }
@@ -1,47 +1,175 @@
+import { createHash } from 'crypto';
+import { kv } from '../kv';
+import { generateEmbedding } from '../rag/embeddings';
 
-interface CacheEntry {
-  response: string;
-  timestamp: number;
-  provider: string;
+/**
+ * RESPONSE CACHE (v2.0)
+ * Exact tier: SHA-256 over the normalised prompt and everything that shapes
+ * the answer (user, document, tool, assembled system prompt, adaptive
+ * context, conversation so far) plus the brain and document generations;
+ * library answers also carry the teacher's library generation and the public
+ * library's. Bumping a generation (brain saved, document re-indexed, shared
+ * or removed) orphans every entry built on it.
+ *
+ * Semantic tier (opt-in via SEMANTIC_CACHE_THRESHOLD, e.g. 0.96): within the
+ * same scope, a query whose embedding is at least that similar to a cached
+ * one reuses its answer.
+ */
+
+const TTL_SECONDS = 3600;
+const SEMANTIC_ENTRIES = 20;          // Most recent queries kept per scope
+const VECTOR_PRECISION = 1e4;         // Rounded so a scope's index stays small
+
+const BRAIN_GENERATION = 'rcache:gen:brain';
+const PUBLIC_LIBRARY_GENERATION = 'rcache:gen:lib:public';
+const documentGeneration = (documentId: string) => `rcache:gen:doc:${documentId}`;
+const libraryGeneration = (userId: string) => `rcache:gen:lib:${userId}`;
+
+export interface CacheContext {
+  userId: string;
+  documentId?: string;
+  tool?: string;
+  systemPrompt?: string;
+  adaptiveContext?: string;
+  conversation?: string;              // Summary + turns the prompt is answered against
+  library?: string;                   // Library-wide retrieval scope (documents and filters)
+}
+
+export interface CacheScope {
+  hash: string;                       // Everything except the prompt
+}
+
+export interface CacheHit {
+  text: string;
+  tier: 'exact' | 'semantic';
+  similarity?: number;
+}
+
+interface SemanticEntry {
+  key: string;
+  vector: number[];
+}
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+const normalizePrompt = (prompt: string) => prompt.toLowerCase().replace(/\s+/g, ' ').trim();
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+export function semanticThreshold(): number | null {
+  const raw = process.env.SEMANTIC_CACHE_THRESHOLD;
+  if (raw === undefined || raw.trim() === '') return null;
+  const threshold = Number(raw);
+  return Number.isFinite(threshold) && threshold > 0 && threshold <= 1 ? threshold : null;
 }
 
 class ResponseCache {
-  private cache = new Map<string, CacheEntry>();
-  private readonly TTL = 10 * 60 * 1000; // 10 minutes
-  private readonly MAX_ENTRIES = 200;
+  async scopeFor(context: CacheContext): Promise<CacheScope> {
+    const [brainGen, docGen, libraryGens] = await Promise.all([
+      kv.get<number>(BRAIN_GENERATION),
+      context.documentId ? kv.get<number>(documentGeneration(context.documentId)) : Promise.resolve(0),
+      context.library
+        ? Promise.all([kv.get<number>(libraryGeneration(context.userId)), kv.get<number>(PUBLIC_LIBRARY_GENERATION)])
+        : Promise.resolve(null)
+    ]);
+    return {
+      hash: sha256(JSON.stringify([
+        context.userId,
+        context.documentId || null,
+        context.tool || null,
+        sha256(context.systemPrompt || ''),
+        sha256(context.adaptiveContext || ''),
+        sha256(context.conversation || ''),
+        brainGen || 0,
+        docGen || 0,
+        ...(context.library && libraryGens ? [sha256(context.library), libraryGens[0] || 0, libraryGens[1] || 0] : [])
+      ]))
+    };
+  }
 
-  private normalizeKey(prompt: string, history: any[]): string {
-    const recentHistory = history.slice(-2).map(m => m.content).join('|');
-    return `${prompt.toLowerCase().trim()}::${recentHistory}`;
+  private entryKey(prompt: string, scope: CacheScope) {
+    return `rcache:${sha256(`${scope.hash}:${normalizePrompt(prompt)}`)}`;
   }
 
-  get(prompt: string, history: any[]): string | null {
-    const key = this.normalizeKey(prompt, history);
-    const entry = this.cache.get(key);
+  private indexKey(scope: CacheScope) {
+    return `rcache:sem:${scope.hash}`;
+  }
+
+  async get(prompt: string, scope: CacheScope): Promise<CacheHit | null> {
+    const exact = await kv.get<string>(this.entryKey(prompt, scope));
+    if (exact) return { text: exact, tier: 'exact' };
+
+    const threshold = semanticThreshold();
+    if (threshold === null) return null;
+
+    try {
+      const index = await kv.get<SemanticEntry[]>(this.indexKey(scope));
+      if (!index?.length) return null;
 
-    if (!entry) return null;
-    if (Date.now() - entry.timestamp > this.TTL) {
-      this.cache.delete(key);
+      const vector = await generateEmbedding(normalizePrompt(prompt));
+      let best: { entry: SemanticEntry; similarity: number } | null = null;
+      for (const entry of index) {
+        const similarity = cosine(vector, entry.vector);
+        if (similarity >= threshold && (!best || similarity > best.similarity)) best = { entry, similarity };
+      }
+      if (!best) return null;
+
+      const text = await kv.get<string>(best.entry.key);
+      return text ? { text, tier: 'semantic', similarity: best.similarity } : null;
+    } catch (e: any) {
+      // Embedding or KV trouble only costs a miss
+      console.warn(`⚠️ [Response Cache] Semantic lookup skipped: ${e.message}`);
       return null;
     }
-
-    console.log(`✅ AI Cache hit: ${entry.provider}`);
-    return entry.response;
   }
 
-  set(prompt: string, history: any[], response: string, provider: string): void {
-    const key = this.normalizeKey(prompt, history);
-    this.cache.set(key, { response, timestamp: Date.now(), provider });
+  async set(prompt: string, scope: CacheScope, text: string): Promise<void> {
+    const key = this.entryKey(prompt, scope);
+    await kv.set(key, text, TTL_SECONDS);
 
-    if (this.cache.size > this.MAX_ENTRIES) {
-      const oldestKey = Array.from(this.cache.entries())
-        .sort((a, b) => a[1].timestamp - b[1].timestamp)[0][0];
-      this.cache.delete(oldestKey);
+    if (semanticThreshold() === null) return;
+    try {
+      const vector = (await generateEmbedding(normalizePrompt(prompt)))
+        .map(v => Math.round(v * VECTOR_PRECISION) / VECTOR_PRECISION);
+      if (!vector.some(v => v !== 0)) return;
+
+      const index = (await kv.get<SemanticEntry[]>(this.indexKey(scope))) || [];
+      const next = [{ key, vector }, ...index.filter(e => e.key !== key)].slice(0, SEMANTIC_ENTRIES);
+      await kv.set(this.indexKey(scope), next, TTL_SECONDS);
+    } catch (e: any) {
+      console.warn(`⚠️ [Response Cache] Semantic index not updated: ${e.message}`);
     }
   }
 
-  getStats() {
-    return { size: this.cache.size, maxSize: this.MAX_ENTRIES };
+  /** Brain saved: every cached answer was shaped by the old master prompt. */
+  async invalidateBrain(): Promise<void> {
+    await kv.incr(BRAIN_GENERATION);
+  }
+
+  /**
+   * Document re-indexed or deleted: answers grounded in its old chunks are
+   * stale, and so are library answers that searched it (its owner's, and
+   * everyone's when it is shared).
+   */
+  async invalidateDocument(documentId: string, ownerId?: string | null, isPublic = false): Promise<void> {
+    await Promise.all([
+      kv.incr(documentGeneration(documentId)),
+      ownerId ? kv.incr(libraryGeneration(ownerId)) : Promise.resolve(),
+      isPublic ? this.invalidatePublicLibrary() : Promise.resolve()
+    ]);
+  }
+
+  /** A document joined or left the public library. */
+  async invalidatePublicLibrary(): Promise<void> {
+    await kv.incr(PUBLIC_LIBRARY_GENERATION);
   }
 }
 
@@ -0,0 +1,156 @@
+import { kv } from '../kv';
+import { getSupabaseAdminClient } from '../supabase';
+import {
+  RoutingConfig, RoutingTable, DEFAULT_ROUTING_TABLE,
+  validateRoutingTable, normalizeRoutingTable
+} from './routing-table';
+import { providerRegistry } from './providers/registry';
+
+/**
+ * ROUTING TABLE STORE (v1.0)
+ * Versions live in `grid_routing_tables`; the active version number is
+ * published through KV so every instance hot-reloads within RECHECK_MS of a
+ * save without a deploy. Any load failure keeps serving the last good table.
+ */
+
+const VERSION_KEY = 'grid:routing:version';
+const VERSION_TTL_SECONDS = 30 * 86400;
+const RECHECK_MS = 15_000;
+
+export interface RoutingVersionSummary {
+  version: number;
+  notes?: string;
+  isActive: boolean;
+  createdBy?: string;
+  createdAt: string;
+}
+
+const toConfig = (row: any): RoutingConfig => ({
+  version: row.version,
+  table: row.routing,
+  notes: row.notes || undefined,
+  updatedBy: row.created_by || undefined,
+  updatedAt: row.created_at
+});
+
+class RoutingStore {
+  private cached: RoutingConfig = { version: 0, table: DEFAULT_ROUTING_TABLE };
+  private checkedAt = 0;
+  private loading: Promise<RoutingConfig> | null = null;
+
+  async getActive(): Promise<RoutingConfig> {
+    if (Date.now() - this.checkedAt < RECHECK_MS) return this.cached;
+    if (!this.loading) {
+      this.loading = this.refresh().finally(() => { this.loading = null; });
+    }
+    return this.loading;
+  }
+
+  private async refresh(): Promise<RoutingConfig> {
+    this.checkedAt = Date.now();
+    try {
+      const published = await kv.get<number>(VERSION_KEY);
+      if (published !== null && published === this.cached.version) return this.cached;
+
+      const { data, error } = await getSupabaseAdminClient()
+        .from('grid_routing_tables')
+        .select('version, routing, notes, created_by, created_at')
+        .eq('is_active', true)
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+
+      const next = data ? toConfig(data) : { version: 0, table: DEFAULT_ROUTING_TABLE };
+      const issues = validateRoutingTable(next.table, providerRegistry.routableIds());
+      if (issues.length > 0) {
+        console.error(`❌ [Routing] Stored table v${next.version} rejected: ${issues[0]}`);
+        return this.cached;
+      }
+
+      if (next.version !== this.cached.version) {
+        console.log(`🧭 [Routing] Hot-reloaded routing table v${next.version}.`);
+      }
+      this.cached = next;
+      if (published === null) await kv.set(VERSION_KEY, next.version, VERSION_TTL_SECONDS);
+    } catch (e: any) {
+      console.warn(`⚠️ [Routing] Reload failed, keeping v${this.cached.version}: ${e.message}`);
+    }
+    return this.cached;
+  }
+
+  private async publish(config: RoutingConfig) {
+    this.cached = config;
+    this.checkedAt = Date.now();
+    await kv.set(VERSION_KEY, config.version, VERSION_TTL_SECONDS);
+  }
+
+  async listVersions(limit: number = 20): Promise<RoutingVersionSummary[]> {
+    const { data, error } = await getSupabaseAdminClient()
+      .from('grid_routing_tables')
+      .select('version, notes, is_active, created_by, created_at')
+      .order('version', { ascending: false })
+      .limit(limit);
+    if (error) throw error;
+    return (data || []).map(row => ({
+      version: row.version,
+      notes: row.notes || undefined,
+      isActive: row.is_active,
+      createdBy: row.created_by || undefined,
+      createdAt: row.created_at
+    }));
+  }
+
+  /**
+   * Validates, stores as a new version and activates it. Throws with the
+   * validation issues attached when the table is rejected.
+   */
+  async save(table: RoutingTable, notes: string, userId: string): Promise<RoutingConfig> {
+    const issues = validateRoutingTable(table, providerRegistry.routableIds());
+    if (issues.length > 0) {
+      throw Object.assign(new Error('Routing table failed validation.'), { issues });
+    }
+
+    const admin = getSupabaseAdminClient();
+    const { data: latest } = await admin
+      .from('grid_routing_tables')
+      .select('version')
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const version = (latest?.version || 0) + 1;
+    const { data, error } = await admin
+      .from('grid_routing_tables')
+      .insert({ version, routing: normalizeRoutingTable(table), notes: notes || null, is_active: false, created_by: userId })
+      .select('version, routing, notes, created_by, created_at')
+      .single();
+    if (error) throw error;
+
+    return this.activate(data.version);
+  }
+
+  async activate(version: number): Promise<RoutingConfig> {
+    const admin = getSupabaseAdminClient();
+    const { data, error } = await admin
+      .from('grid_routing_tables')
+      .select('version, routing, notes, created_by, created_at')
+      .eq('version', version)
+      .single();
+    if (error || !data) throw new Error(`Routing version ${version} not found.`);
+
+    const issues = validateRoutingTable(data.routing, providerRegistry.routableIds());
+    if (issues.length > 0) {
+      throw Object.assign(new Error(`Routing version ${version} is invalid.`), { issues });
+    }
+
+    await admin.from('grid_routing_tables').update({ is_active: false }).neq('version', version);
+    await admin.from('grid_routing_tables').update({ is_active: true }).eq('version', version);
+
+    const config = toConfig(data);
+    await this.publish(config);
+    return config;
+  }
+}
+
+export const routingStore = new RoutingStore();
@@ -0,0 +1,168 @@
+// lib/ai/routing-table.ts
+// DECLARATIVE ROUTING TABLE — primary + ordered fallback chain per TaskType.
+// Pure data and validation: safe to import from the admin UI.
+
+import type { TaskType } from './model-orchestrator';
+import { GridEngine, BUILT_IN_ENGINES } from './providers/catalog';
+
+export interface RoutingEntry {
+  engine: GridEngine;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+}
+
+export type RoutingTable = Record<TaskType, RoutingEntry[]>;
+
+export interface RoutingConfig {
+  version: number;
+  table: RoutingTable;
+  notes?: string;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+export const TASK_TYPES: TaskType[] = [
+  'INGEST_LINEARIZE', 'LESSON_PLAN', 'QUIZ_GENERATE', 'RUBRIC_GENERATE',
+  'BLOOM_TAG', 'AUDIT_TAG', 'CHAT_LOOKUP', 'SLO_PARSE', 'VERTICAL_ALIGN'
+];
+
+// Built-in engines only; the registry adds configured ones server-side.
+// The local stub is switched on by LOCAL_AI_MODE, never through the table.
+export const ROUTABLE_ENGINES: GridEngine[] = BUILT_IN_ENGINES.filter(engine => engine !== 'local');
+
+const MAX_CHAIN_LENGTH = 8;
+const MAX_TOKENS_LIMIT = 65536;
+const TIMEOUT_RANGE_MS: [number, number] = [1000, 300000];
+
+// Version 0: the table that shipped hard-coded in NeuralOrchestrator.buildRoutes.
+// Served whenever no saved version exists or the saved one cannot be loaded.
+export const DEFAULT_ROUTING_TABLE: RoutingTable = {
+  // PDF → Structured Master MD. Needs 100k+ context and best instruction following.
+  INGEST_LINEARIZE: [
+    { engine: 'gemini', model: 'gemini-2.5-pro-preview-06-05', temperature: 0.1, maxTokens: 8192 },
+    { engine: 'gemini', model: 'gemini-2.5-flash-preview-05-20', temperature: 0.1, maxTokens: 8192 },
+    { engine: 'openrouter', model: 'google/gemini-2.0-flash-001', temperature: 0.1 },
+  ],
+  // 5E / UbD / Madeline Hunter. Needs creative depth and structured output.
+  LESSON_PLAN: [
+    { engine: 'gemini', model: 'gemini-2.5-pro-preview-06-05', temperature: 0.3, maxTokens: 8192 },
+    { engine: 'deepseek', model: 'deepseek-reasoner', temperature: 0.2, maxTokens: 6144 },
+    { engine: 'groq', model: 'llama-3.3-70b-versatile', temperature: 0.3, maxTokens: 4096 },
+    { engine: 'openrouter', model: 'anthropic/claude-3-haiku-20240307-20240307', temperature: 0.3 },
+  ],
+  // MCQ, CRQ, Bloom-scaled assessments. Needs fast, reliable JSON.
+  QUIZ_GENERATE: [
+    { engine: 'sambanova', model: 'Meta-Llama-3.3-70B-Instruct', temperature: 0.2, maxTokens: 4096 },
+    { engine: 'groq', model: 'llama-3.3-70b-versatile', temperature: 0.2, maxTokens: 4096 },
+    { engine: 'gemini', model: 'gemini-2.5-flash-preview-05-20', temperature: 0.2 },
+    { engine: 'openrouter', model: 'meta-llama/llama-3.3-70b-instruct' },
+  ],
+  // Fidelity rubrics. Needs fast, structured, South Asian curriculum aligned.
+  RUBRIC_GENERATE: [
+    { engine: 'groq', model: 'llama-3.3-70b-versatile', temperature: 0.1, maxTokens: 3072 },
+    { engine: 'sambanova', model: 'Meta-Llama-3.3-70B-Instruct', temperature: 0.1 },
+    { engine: 'gemini', model: 'gemini-2.5-flash-preview-05-20', temperature: 0.1 },
+  ],
+  // Bloom's taxonomy classification. Needs precise reasoning and JSON.
+  BLOOM_TAG: [
+    { engine: 'deepseek', model: 'deepseek-chat', temperature: 0.0, maxTokens: 2048 },
+    { engine: 'deepseek', model: 'deepseek-reasoner', temperature: 0.0, maxTokens: 2048 },
+    { engine: 'groq', model: 'llama-3.3-70b-versatile', temperature: 0.0, maxTokens: 2048 },
+  ],
+  // Curriculum audit, gap analysis. Needs analytical reasoning.
+  AUDIT_TAG: [
+    { engine: 'deepseek', model: 'deepseek-reasoner', temperature: 0.1, maxTokens: 4096 },
+    { engine: 'gemini', model: 'gemini-2.5-flash-preview-05-20', temperature: 0.1 },
+    { engine: 'groq', model: 'llama-3.3-70b-versatile', temperature: 0.1 },
+  ],
+  // SLO extraction into JSON. Needs precise structured output.
+  SLO_PARSE: [
+    { engine: 'deepseek', model: 'deepseek-chat', temperature: 0.0, maxTokens: 4096 },
+    { engine: 'groq', model: 'llama-3.3-70b-versatile', temperature: 0.0, maxTokens: 4096 },
+    { engine: 'gemini', model: 'gemini-2.5-flash-preview-05-20', temperature: 0.0 },
+  ],
+  // Real-time SLO lookup. Needs the fastest possible response.
+  CHAT_LOOKUP: [
+    { engine: 'cerebras', model: 'llama3.1-70b', temperature: 0.1, maxTokens: 1024 },
+    { engine: 'groq', model: 'llama-3.1-8b-instant', temperature: 0.1, maxTokens: 1024 },
+    { engine: 'groq', model: 'llama-3.3-70b-versatile', temperature: 0.1, maxTokens: 2048 },
+  ],
+  // Grade-to-grade prerequisite mapping. Needs deep reasoning across grades.
+  VERTICAL_ALIGN: [
+    { engine: 'deepseek', model: 'deepseek-reasoner', temperature: 0.1, maxTokens: 6144 },
+    { engine: 'gemini', model: 'gemini-2.5-pro-preview-06-05', temperature: 0.1 },
+    { engine: 'openrouter', model: 'anthropic/claude-3-haiku-20240307-20240307' },
+  ],
+};
+
+/**
+ * Structural validation for an edited table. Returns human-readable issues;
+ * an empty list means the table is safe to activate. `engines` is every id a
+ * route may name (the registry's list on the server).
+ */
+export function validateRoutingTable(table: any, engines: GridEngine[] = ROUTABLE_ENGINES): string[] {
+  const issues: string[] = [];
+  if (!table || typeof table !== 'object' || Array.isArray(table)) {
+    return ['Routing table must be an object keyed by task type.'];
+  }
+
+  Object.keys(table)
+    .filter(key => !TASK_TYPES.includes(key as TaskType))
+    .forEach(key => issues.push(`Unknown task type "${key}".`));
+
+  TASK_TYPES.forEach(task => {
+    const chain = table[task];
+    if (!Array.isArray(chain) || chain.length === 0) {
+      issues.push(`${task}: at least one route is required.`);
+      return;
+    }
+    if (chain.length > MAX_CHAIN_LENGTH) {
+      issues.push(`${task}: at most ${MAX_CHAIN_LENGTH} routes are allowed.`);
+    }
+
+    const seen = new Set<string>();
+    chain.forEach((entry: any, i: number) => {
+      const at = `${task}[${i + 1}]`;
+      if (!entry || typeof entry !== 'object') {
+        issues.push(`${at}: route must be an object.`);
+        return;
+      }
+      if (!engines.includes(entry.engine)) {
+        issues.push(`${at}: engine must be one of ${engines.join(', ')}.`);
+      }
+      if (typeof entry.model !== 'string' || !entry.model.trim()) {
+        issues.push(`${at}: model is required.`);
+      }
+      const key = `${entry.engine}:${entry.model}`;
+      if (seen.has(key)) issues.push(`${at}: duplicate route ${key}.`);
+      seen.add(key);
+
+      if (entry.temperature !== undefined && (typeof entry.temperature !== 'number' || entry.temperature < 0 || entry.temperature > 2)) {
+        issues.push(`${at}: temperature must be between 0 and 2.`);
+      }
+      if (entry.maxTokens !== undefined && (!Number.isInteger(entry.maxTokens) || entry.maxTokens < 1 || entry.maxTokens > MAX_TOKENS_LIMIT)) {
+        issues.push(`${at}: maxTokens must be an integer between 1 and ${MAX_TOKENS_LIMIT}.`);
+      }
+      if (entry.timeoutMs !== undefined && (!Number.isInteger(entry.timeoutMs) || entry.timeoutMs < TIMEOUT_RANGE_MS[0] || entry.timeoutMs > TIMEOUT_RANGE_MS[1])) {
+        issues.push(`${at}: timeoutMs must be between ${TIMEOUT_RANGE_MS[0]} and ${TIMEOUT_RANGE_MS[1]}.`);
+      }
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Drops unknown fields and empty optionals so stored versions diff cleanly.
+ */
+export function normalizeRoutingTable(table: RoutingTable): RoutingTable {
+  return Object.fromEntries(TASK_TYPES.map(task => [task, table[task].map(entry => {
+    const clean: RoutingEntry = { engine: entry.engine, model: entry.model.trim() };
+    if (entry.temperature !== undefined) clean.temperature = entry.temperature;
+    if (entry.maxTokens !== undefined) clean.maxTokens = entry.maxTokens;
+    if (entry.timeoutMs !== undefined) clean.timeoutMs = entry.timeoutMs;
+    return clean;
+  })])) as RoutingTable;
+}
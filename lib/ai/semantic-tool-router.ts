@@ -0,0 +1,168 @@
+import { generateEmbeddingsBatch, generateEmbedding } from '../rag/embeddings';
+import { ToolType, TOOL_TYPES, scoreToolSignals, getToolDisplayName } from './tool-router';
+
+/**
+ * SEMANTIC TOOL ROUTER (v1.0)
+ * Blends the keyword signals from tool-router with embedding similarity to
+ * labeled example queries. Returns ranked alternatives and flags low-confidence
+ * artifact requests so the chat can ask the teacher instead of guessing.
+ */
+
+export interface ToolAlternative {
+  tool: ToolType;
+  score: number;
+}
+
+export interface SemanticToolRoute {
+  tool: ToolType;
+  confidence: number;
+  alternatives: ToolAlternative[];      // All tools, best first
+  needsClarification: boolean;
+  clarifyingQuestion?: string;
+  reasoning: string;
+}
+
+// Labeled example queries per tool. Add real teacher phrasings here as they show up in retrieval_logs.
+const TOOL_EXAMPLES: Record<ToolType, string[]> = {
+  master_plan: [
+    'Create a 5E lesson plan on photosynthesis for grade 7',
+    'How should I teach fractions to struggling grade 4 students?',
+    'Design a 40 minute lesson on the water cycle with group activities',
+    'Plan a week of instruction for persuasive writing',
+    'Give me a Madeline Hunter lesson for simple machines',
+    'Activities to introduce electricity to my class',
+  ],
+  neural_quiz: [
+    'Make a 10 question MCQ quiz on cell structure',
+    'Generate a formative assessment for SLO S-08-A-03',
+    'Write exam questions with an answer key for chapter 4',
+    'Create a test on Newton\'s laws with short and long response items',
+    'Check for understanding questions after a fractions lesson',
+    'Give me constructed response questions on climate change',
+  ],
+  fidelity_rubric: [
+    'Build a 4 point rubric for a science fair project',
+    'How do I grade this essay? Give me criteria',
+    'Create success criteria and scoring descriptors for a group presentation',
+    'Analytic rubric for a persuasive writing task',
+    'Marking scheme for a lab report',
+    'Performance task rubric for designing a water filter',
+  ],
+  audit_tagger: [
+    'Tag these SLOs with Bloom\'s levels',
+    'Analyze the cognitive demand of my grade 6 curriculum',
+    'Find gaps between grade 5 and grade 6 science outcomes',
+    'Which learning outcomes use weak action verbs?',
+    'Map these objectives to Webb\'s depth of knowledge',
+    'Audit this unit for alignment with the national standards',
+  ],
+};
+
+// Below this top-example similarity (and with no keyword hits) the message is
+// ordinary conversation, not a tool request, so there is nothing to clarify.
+const RELEVANCE_FLOOR = 0.5;
+const CLARIFY_CONFIDENCE = 0.45;
+const CLARIFY_MARGIN = 0.08;
+const KEYWORD_WEIGHT = 0.4;
+const SOFTMAX_TEMPERATURE = 0.05;
+
+let exampleVectors: Promise<Record<ToolType, number[][]>> | null = null;
+
+function loadExampleVectors(): Promise<Record<ToolType, number[][]>> {
+  if (!exampleVectors) {
+    exampleVectors = (async () => {
+      const vectors = await generateEmbeddingsBatch(TOOL_TYPES.flatMap(t => TOOL_EXAMPLES[t]));
+      const byTool = {} as Record<ToolType, number[][]>;
+      let offset = 0;
+      for (const tool of TOOL_TYPES) {
+        byTool[tool] = vectors.slice(offset, offset + TOOL_EXAMPLES[tool].length);
+        offset += TOOL_EXAMPLES[tool].length;
+      }
+      return byTool;
+    })().catch(err => {
+      exampleVectors = null; // Retry on the next request
+      throw err;
+    });
+  }
+  return exampleVectors;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+function softmax(values: number[], temperature: number): number[] {
+  const max = Math.max(...values);
+  const exps = values.map(v => Math.exp((v - max) / temperature));
+  const sum = exps.reduce((a, b) => a + b, 0);
+  return exps.map(e => e / sum);
+}
+
+// Mean of the two closest examples: one lucky match should not decide a route
+async function semanticSimilarities(query: string): Promise<number[] | null> {
+  try {
+    const [queryVector, examples] = await Promise.all([generateEmbedding(query), loadExampleVectors()]);
+    const sims = TOOL_TYPES.map(tool => {
+      const ranked = examples[tool].map(v => cosine(queryVector, v)).sort((a, b) => b - a);
+      return (ranked[0] + (ranked[1] ?? ranked[0])) / 2;
+    });
+    // Zero vectors come back when the embedding API is down
+    return sims.every(s => s === 0) ? null : sims;
+  } catch (e: any) {
+    console.warn(`⚠️ [Tool Router] Semantic signal unavailable: ${e.message}`);
+    return null;
+  }
+}
+
+function clarifyingQuestion(alternatives: ToolAlternative[]): string {
+  const [a, b] = alternatives.map(alt => getToolDisplayName(alt.tool));
+  return `Quick check before I build this: would you like a **${a}** or a **${b}**?`;
+}
+
+export async function routeTool(query: string): Promise<SemanticToolRoute> {
+  const keywordScores = scoreToolSignals(query);
+  const keywordTotal = TOOL_TYPES.reduce((sum, t) => sum + keywordScores[t], 0);
+  const sims = await semanticSimilarities(query);
+
+  const keywordDist = TOOL_TYPES.map(t => keywordTotal > 0 ? keywordScores[t] / keywordTotal : 1 / TOOL_TYPES.length);
+  const semanticDist = sims ? softmax(sims, SOFTMAX_TEMPERATURE) : null;
+
+  const blended = TOOL_TYPES.map((_, i) => {
+    if (!semanticDist) return keywordDist[i];
+    if (keywordTotal === 0) return semanticDist[i];
+    return KEYWORD_WEIGHT * keywordDist[i] + (1 - KEYWORD_WEIGHT) * semanticDist[i];
+  });
+
+  const alternatives = TOOL_TYPES
+    .map((tool, i) => ({ tool, score: Number(blended[i].toFixed(3)) }))
+    .sort((a, b) => b.score - a.score);
+
+  const isToolRequest = keywordTotal > 0 || (sims !== null && Math.max(...sims) >= RELEVANCE_FLOOR);
+  if (!isToolRequest) {
+    return {
+      tool: 'master_plan',
+      confidence: 0.5,
+      alternatives,
+      needsClarification: false,
+      reasoning: 'No tool signal; general consultation via master_plan.'
+    };
+  }
+
+  const [best, second] = alternatives;
+  const needsClarification = best.score < CLARIFY_CONFIDENCE || best.score - second.score < CLARIFY_MARGIN;
+
+  return {
+    tool: best.tool,
+    confidence: best.score,
+    alternatives,
+    needsClarification,
+    clarifyingQuestion: needsClarification ? clarifyingQuestion(alternatives) : undefined,
+    reasoning: `Routed to ${best.tool} (keyword ${keywordTotal > 0 ? 'hit' : 'miss'}, semantic ${sims ? 'on' : 'off'}).`
+  };
+}
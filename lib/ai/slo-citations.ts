@@ -0,0 +1,68 @@
+import { extractSLOCodes, normalizeSLO } from '../rag/slo-extractor';
+
+/**
+ * SLO CITATION REPORT
+ * Client-safe half of the hallucination guard. Every answer's SLO codes are
+ * checked against `slo_database` for the teacher's documents; codes that are
+ * not there are flagged inline. Streamed answers carry the report as a
+ * trailing marker, blocking answers are flagged before they are returned.
+ */
+
+export interface SloCitationReport {
+  cited: string[];                   // Distinct, normalized
+  verified: string[];
+  unverified: string[];
+  score: number | null;              // verified / cited; null when nothing was cited
+  reasked?: boolean;                 // The model was asked to correct its codes
+}
+
+export const UNVERIFIED_SLO_TAG = '[⚠️ unverified SLO]';
+
+const CHECK_OPEN = '<!--slo-check';
+const CHECK_PATTERN = /<!--slo-check (.*?)-->\n?/;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Every distinct code in `text`, as written and normalized. */
+export function citedCodes(text: string): Array<{ raw: string; code: string }> {
+  return extractSLOCodes(text).map(s => ({ raw: s.code, code: normalizeSLO(s.code) }));
+}
+
+export function buildCitationReport(cited: string[], known: Set<string>): SloCitationReport {
+  const verified = cited.filter(code => known.has(code));
+  const unverified = cited.filter(code => !known.has(code));
+  return { cited, verified, unverified, score: cited.length ? verified.length / cited.length : null };
+}
+
+// Idempotent: a code already followed by the tag is left alone
+export function markUnverifiedSlos(text: string, unverified: string[]): string {
+  if (unverified.length === 0) return text;
+  const flagged = new Set(unverified);
+  let marked = text;
+  for (const { raw, code } of citedCodes(text)) {
+    if (!flagged.has(code)) continue;
+    const pattern = new RegExp(`${escapeRegExp(raw)}(?!\\w)(?! ${escapeRegExp(UNVERIFIED_SLO_TAG)})`, 'g');
+    marked = marked.replace(pattern, `${raw} ${UNVERIFIED_SLO_TAG}`);
+  }
+  return marked;
+}
+
+export function formatSloCheckMarker(report: SloCitationReport): string {
+  return `\n${CHECK_OPEN} ${JSON.stringify(report)}-->\n`;
+}
+
+export function parseSloCheck(content: string): { body: string; report: SloCitationReport | null } {
+  const start = content.indexOf(CHECK_OPEN);
+  if (start === -1) return { body: content, report: null };
+
+  const match = content.match(CHECK_PATTERN);
+  let report: SloCitationReport | null = null;
+  try {
+    report = match ? JSON.parse(match[1]) : null;
+  } catch {
+    // Malformed marker: show the answer unflagged
+  }
+  // The marker trails the answer; anything after it (the footer) stays
+  const after = match ? content.slice(start + match[0].length) : '';
+  return { body: content.slice(0, start).replace(/\n$/, '') + after, report };
+}
@@ -0,0 +1,77 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from '../supabase';
+import { normalizeSLO } from '../rag/slo-extractor';
+import { SloCitationReport, citedCodes, buildCitationReport } from './slo-citations';
+
+/**
+ * SLO HALLUCINATION GUARD (v1.0)
+ * Checks the SLO codes an answer cites against `slo_database`, scoped to the
+ * library the answer was drawn from, else the focused document, else all of
+ * the teacher's documents.
+ * SLO_GUARD_REASK=1 lets blocking answers with unverified codes be re-asked
+ * once (see sloCorrectionPrompt); streamed answers are only flagged.
+ */
+
+const SCOPE_LIMIT = 100;             // Documents checked when none is focused
+
+export function sloReaskEnabled(): boolean {
+  return process.env.SLO_GUARD_REASK === '1' || process.env.SLO_GUARD_REASK === 'true';
+}
+
+export interface GuardScope {
+  supabase: SupabaseClient;
+  userId: string;
+  documentId?: string;
+  documentIds?: string[];            // Library scope: the teacher's documents it searched
+  publicDocumentIds?: string[];      // Approved public documents in it, read with the service client
+}
+
+async function ledgerCodes(client: SupabaseClient, documentIds: string[], spellings: string[]): Promise<string[]> {
+  if (documentIds.length === 0) return [];
+  const { data, error } = await client
+    .from('slo_database')
+    .select('slo_code')
+    .in('document_id', documentIds)
+    .in('slo_code', spellings);
+  if (error) throw new Error(error.message);
+  return (data || []).map(row => normalizeSLO(row.slo_code));
+}
+
+export async function verifySloCitations(text: string, scope: GuardScope): Promise<SloCitationReport> {
+  const codes = citedCodes(text);
+  const cited = Array.from(new Set(codes.map(c => c.code)));
+  if (cited.length === 0) return buildCitationReport([], new Set());
+
+  let documentIds: string[];
+  if (scope.documentIds || scope.publicDocumentIds) {
+    documentIds = scope.documentIds || [];
+  } else if (scope.documentId) {
+    documentIds = [scope.documentId];
+  } else {
+    const { data } = await scope.supabase.from('documents').select('id').eq('user_id', scope.userId).limit(SCOPE_LIMIT);
+    documentIds = (data || []).map(d => d.id);
+  }
+  const publicIds = scope.publicDocumentIds || [];
+  if (documentIds.length === 0 && publicIds.length === 0) return buildCitationReport(cited, new Set());
+
+  // The ledger may store codes as written (B-09-A-01) or normalized (B09A01)
+  const spellings = Array.from(new Set([...cited, ...codes.map(c => c.raw)]));
+  const [own, shared] = await Promise.all([
+    ledgerCodes(scope.supabase, documentIds, spellings),
+    ledgerCodes(publicIds.length ? getSupabaseAdminClient() : scope.supabase, publicIds, spellings)
+  ]);
+
+  return buildCitationReport(cited, new Set([...own, ...shared]));
+}
+
+export function sloCorrectionPrompt(originalPrompt: string, answer: string, report: SloCitationReport): string {
+  return `${originalPrompt}
+
+[SLO_CITATION_CORRECTION]
+Your previous answer cited SLO codes that do not exist in this teacher's curriculum documents: ${report.unverified.join(', ')}.
+${report.verified.length ? `Codes confirmed in the documents: ${report.verified.join(', ')}.` : 'No cited code could be confirmed.'}
+Rewrite the answer. Cite only SLO codes that appear in the AUTHORITATIVE_VAULT or the confirmed list; where no code applies, describe the outcome without a code.
+
+PREVIOUS ANSWER:
+${answer}`;
+}
@@ -0,0 +1,450 @@
+/**
+ * STRUCTURED OUTPUT CONTRACTS (v1.0)
+ * Schema-first parsing for grid tasks that must return data, not prose.
+ * Engines are asked for JSON, then every answer is extracted, repaired
+ * (fences, trailing commas, bare keys, truncation) and validated here,
+ * regardless of which vendor produced it.
+ */
+
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: Array<string | number>;
+  minItems?: number;
+}
+
+/**
+ * A named schema bound to the TypeScript type it produces. `normalize` runs
+ * after validation and is where aliases or derived fields are resolved.
+ */
+export interface StructuredSchema<T> {
+  name: string;
+  schema: JsonSchema;
+  normalize?: (value: any) => T;
+}
+
+export function defineSchema<T>(name: string, schema: JsonSchema, normalize?: (value: any) => T): StructuredSchema<T> {
+  return { name, schema, normalize };
+}
+
+export class StructuredOutputError extends Error {
+  constructor(message: string, public issues: string[], public raw: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+const MAX_REPORTED_ISSUES = 8;
+
+// ─── EXTRACTION ───────────────────────────────────────────────────
+
+/**
+ * Pulls the first JSON object/array out of a model answer, skipping reasoning
+ * traces, markdown fences and any chatter before or after the payload.
+ * An unterminated payload (truncated output) is returned as-is for repair.
+ */
+export function extractJson(text: string): string {
+  const cleaned = (text || '')
+    .replace(/<think>[\s\S]*?<\/think>/gi, '')
+    .replace(/```(?:json)?/gi, '')
+    .trim();
+
+  const start = cleaned.search(/[\[{]/);
+  if (start === -1) return cleaned;
+
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < cleaned.length; i++) {
+    const ch = cleaned[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{' || ch === '[') stack.push(ch === '{' ? '}' : ']');
+    else if (ch === '}' || ch === ']') {
+      stack.pop();
+      if (stack.length === 0) return cleaned.substring(start, i + 1);
+    }
+  }
+
+  return cleaned.substring(start);
+}
+
+/**
+ * Best-effort syntactic repair for the usual LLM faults. Works on a single
+ * scan so string contents are never rewritten.
+ */
+export function repairJson(source: string): string {
+  const input = source.replace(/[“”]/g, '"').replace(/[‘’]/g, "'");
+  const stack: string[] = [];
+  let out = '';
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (inString) {
+      if (escaped) { escaped = false; out += ch; continue; }
+      if (ch === '\\') { escaped = true; out += ch; continue; }
+      if (ch === '"') { inString = false; out += ch; continue; }
+      // Raw control characters are illegal inside JSON strings
+      if (ch === '\n') { out += '\\n'; continue; }
+      if (ch === '\r') continue;
+      if (ch === '\t') { out += '\\t'; continue; }
+      out += ch;
+      continue;
+    }
+
+    if (ch === '"') { inString = true; out += ch; continue; }
+    if (ch === '{' || ch === '[') { stack.push(ch === '{' ? '}' : ']'); out += ch; continue; }
+    if (ch === '}' || ch === ']') {
+      out = out.replace(/,\s*$/, '');
+      stack.pop();
+      out += ch;
+      continue;
+    }
+
+    // Bare object keys: { title: "..." } → { "title": "..." }
+    if (/[A-Za-z_]/.test(ch) && /[{,]\s*$/.test(out) && stack[stack.length - 1] === '}') {
+      const match = input.substring(i).match(/^([A-Za-z_][\w-]*)\s*:/);
+      if (match) {
+        out += `"${match[1]}":`;
+        i += match[0].length - 1;
+        continue;
+      }
+    }
+
+    out += ch;
+  }
+
+  // Truncated output: close the open string, drop a dangling separator, close brackets
+  if (inString) out += '"';
+  out = out.replace(/,\s*$/, '').replace(/,?\s*"[^"]*"\s*:\s*$/, '');
+  while (stack.length) out += stack.pop();
+
+  return out;
+}
+
+/**
+ * Lenient parse for embedded JSON blocks (e.g. <STRUCTURED_INDEX>).
+ * Throws when neither the raw nor the repaired payload parses.
+ */
+export function parseLooseJson(text: string): { value: any; repaired: boolean } {
+  const extracted = extractJson(text);
+  try {
+    return { value: JSON.parse(extracted), repaired: false };
+  } catch {
+    return { value: JSON.parse(repairJson(extracted)), repaired: true };
+  }
+}
+
+// ─── VALIDATION ───────────────────────────────────────────────────
+
+/**
+ * Validates `value` against `schema`, applying safe coercions in place of
+ * rejection where intent is unambiguous ("3" → 3, enum case, scalar → [scalar]).
+ */
+function conform(value: any, schema: JsonSchema, path: string, issues: string[], fixes: { count: number }): any {
+  if (value === undefined || value === null) {
+    issues.push(`${path} is missing`);
+    return value;
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        issues.push(`${path} must be an object`);
+        return value;
+      }
+      const result: Record<string, any> = { ...value };
+      for (const key of schema.required || []) {
+        if (result[key] === undefined || result[key] === null) issues.push(`${path}.${key} is required`);
+      }
+      for (const [key, child] of Object.entries(schema.properties || {})) {
+        if (result[key] !== undefined && result[key] !== null) {
+          result[key] = conform(result[key], child, `${path}.${key}`, issues, fixes);
+        }
+      }
+      return result;
+    }
+
+    case 'array': {
+      let list = value;
+      if (!Array.isArray(list)) {
+        list = [list];
+        fixes.count++;
+      }
+      if (schema.minItems !== undefined && list.length < schema.minItems) {
+        issues.push(`${path} needs at least ${schema.minItems} item(s), got ${list.length}`);
+      }
+      return schema.items
+        ? list.map((item: any, i: number) => conform(item, schema.items!, `${path}[${i}]`, issues, fixes))
+        : list;
+    }
+
+    case 'number':
+    case 'integer': {
+      let num = value;
+      if (typeof num === 'string' && num.trim() !== '' && !isNaN(Number(num))) {
+        num = Number(num);
+        fixes.count++;
+      }
+      if (typeof num !== 'number' || isNaN(num)) {
+        issues.push(`${path} must be a number`);
+        return value;
+      }
+      if (schema.type === 'integer' && !Number.isInteger(num)) {
+        num = Math.round(num);
+        fixes.count++;
+      }
+      return checkEnum(num, schema, path, issues, fixes);
+    }
+
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') {
+        fixes.count++;
+        return value === 'true';
+      }
+      issues.push(`${path} must be a boolean`);
+      return value;
+    }
+
+    case 'string': {
+      let str = value;
+      if (typeof str === 'number' || typeof str === 'boolean') {
+        str = String(str);
+        fixes.count++;
+      }
+      if (typeof str !== 'string') {
+        issues.push(`${path} must be a string`);
+        return value;
+      }
+      return checkEnum(str, schema, path, issues, fixes);
+    }
+
+    default:
+      return value;
+  }
+}
+
+function checkEnum(value: string | number, schema: JsonSchema, path: string, issues: string[], fixes: { count: number }) {
+  if (!schema.enum || schema.enum.includes(value)) return value;
+  const folded = schema.enum.find(opt => String(opt).toLowerCase() === String(value).toLowerCase().trim());
+  if (folded !== undefined) {
+    fixes.count++;
+    return folded;
+  }
+  issues.push(`${path} must be one of ${schema.enum.join(', ')} (got "${value}")`);
+  return value;
+}
+
+/**
+ * Full pipeline for one engine answer: extract → parse (repairing if needed)
+ * → validate/coerce → normalize. Throws StructuredOutputError with the list
+ * of violations so the orchestrator can re-ask the next engine.
+ */
+export function parseStructured<T>(text: string, contract: StructuredSchema<T>): { value: T; repaired: boolean } {
+  let parsed: { value: any; repaired: boolean };
+  try {
+    parsed = parseLooseJson(text);
+  } catch (e: any) {
+    throw new StructuredOutputError(
+      `${contract.name}: output is not valid JSON`,
+      [`Output could not be parsed as JSON (${e.message})`],
+      text
+    );
+  }
+
+  const issues: string[] = [];
+  const fixes = { count: 0 };
+  const conformed = conform(parsed.value, contract.schema, '$', issues, fixes);
+
+  if (issues.length > 0) {
+    throw new StructuredOutputError(
+      `${contract.name}: ${issues.length} schema violation(s)`,
+      issues.slice(0, MAX_REPORTED_ISSUES),
+      text
+    );
+  }
+
+  const value = contract.normalize ? contract.normalize(conformed) : conformed;
+  return { value, repaired: parsed.repaired || fixes.count > 0 };
+}
+
+// ─── PROMPT CONTRACTS ─────────────────────────────────────────────
+
+export function schemaInstruction(contract: StructuredSchema<any>): string {
+  return `=== OUTPUT CONTRACT: ${contract.name} ===
+Respond with ONE JSON value and nothing else: no markdown fences, no commentary.
+It MUST validate against this JSON Schema:
+${JSON.stringify(contract.schema)}`;
+}
+
+export function reaskPrompt(prompt: string, error: StructuredOutputError): string {
+  return `${prompt}
+
+=== PREVIOUS ATTEMPT REJECTED ===
+An earlier answer to this task failed validation:
+${error.issues.map(issue => `- ${issue}`).join('\n')}
+Return corrected JSON only.`;
+}
+
+// ─── GRID CONTRACTS ───────────────────────────────────────────────
+// Shared schemas for the data-producing task types. Assessment lives with
+// its types in lib/pedagogy/assessment-generator.ts.
+
+// Table cells: pipes escaped, line breaks folded
+const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+export const BLOOM_LEVELS = ['Remember', 'Understand', 'Apply', 'Analyze', 'Evaluate', 'Create'];
+
+export interface BloomTag {
+  text: string;
+  bloomLevel: string;
+  verbs: string[];
+  confidence: number;
+}
+
+export const BLOOM_TAG_SCHEMA = defineSchema<{ tags: BloomTag[] }>('BLOOM_TAG', {
+  type: 'object',
+  properties: {
+    tags: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string' },
+          bloomLevel: { type: 'string', enum: BLOOM_LEVELS },
+          verbs: { type: 'array', items: { type: 'string' } },
+          confidence: { type: 'number', description: '0 to 1' }
+        },
+        required: ['text', 'bloomLevel']
+      }
+    }
+  },
+  required: ['tags']
+}, value => ({
+  tags: value.tags.map((t: any) => ({ ...t, verbs: t.verbs || [], confidence: t.confidence ?? 0.5 }))
+}));
+
+/** Markdown table for the tool page: one row per tagged statement. */
+export function renderBloomTags({ tags }: { tags: BloomTag[] }): string {
+  const rows = tags.map(t => `| ${cell(t.text)} | ${t.bloomLevel} | ${cell(t.verbs.join(', '))} | ${Math.round(t.confidence * 100)}% |`);
+  return ['| Statement | Bloom Level | Verbs | Confidence |', '|---|---|---|---|', ...rows].join('\n');
+}
+
+export interface RubricCriterion {
+  criterion: string;
+  levels: Array<{ label: string; score: number; descriptor: string }>;
+}
+
+export interface Rubric {
+  title: string;
+  sloCodes: string[];
+  criteria: RubricCriterion[];
+}
+
+export const RUBRIC_SCHEMA = defineSchema<Rubric>('RUBRIC_GENERATE', {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    sloCodes: { type: 'array', items: { type: 'string' } },
+    criteria: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          criterion: { type: 'string' },
+          levels: {
+            type: 'array',
+            minItems: 2,
+            items: {
+              type: 'object',
+              properties: {
+                label: { type: 'string' },
+                score: { type: 'number' },
+                descriptor: { type: 'string' }
+              },
+              required: ['label', 'score', 'descriptor']
+            }
+          }
+        },
+        required: ['criterion', 'levels']
+      }
+    }
+  },
+  required: ['title', 'criteria']
+}, value => ({ ...value, sloCodes: value.sloCodes || [] }));
+
+/** Markdown table for the tool page; level columns follow the first criterion. */
+export function renderRubric(rubric: Rubric): string {
+  const levels = rubric.criteria[0].levels;
+  const header = `| Criterion | ${levels.map(l => `${cell(l.label)} (${l.score})`).join(' | ')} |`;
+  const rows = rubric.criteria.map(c =>
+    `| ${cell(c.criterion)} | ${levels.map((_, i) => cell(c.levels[i]?.descriptor || '')).join(' | ')} |`
+  );
+  return [
+    `## ${rubric.title}`,
+    rubric.sloCodes.length ? `**SLOs:** ${rubric.sloCodes.join(', ')}\n` : '',
+    header,
+    `|---|${levels.map(() => '---').join('|')}|`,
+    ...rows
+  ].filter(Boolean).join('\n');
+}
+
+export interface ParsedSLO {
+  slo_code: string;
+  slo_full_text: string;
+  bloom_level: string;
+  domain: string;
+  domain_name: string;
+  grade: string;
+  subject: string;
+}
+
+const SLO_ITEM_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    slo_code: { type: 'string' },
+    code: { type: 'string' },
+    slo_full_text: { type: 'string' },
+    text: { type: 'string' },
+    bloomLevel: { type: 'string' },
+    bloom_level: { type: 'string' },
+    domain: { type: 'string' },
+    domain_name: { type: 'string' },
+    grade: { type: 'string' },
+    subject: { type: 'string' }
+  }
+};
+
+/**
+ * SLO_PARSE / <STRUCTURED_INDEX>. Linearizers emit both `slo_code` and the
+ * legacy `code`/`text` keys, so the schema accepts either and normalizes.
+ */
+export const SLO_INDEX_SCHEMA = defineSchema<ParsedSLO[]>('SLO_PARSE', {
+  type: 'array',
+  items: SLO_ITEM_SCHEMA
+}, (items: any[]) => items
+  .filter(s => s.slo_code || s.code)
+  .map(s => ({
+    slo_code: (s.slo_code || s.code || '').toUpperCase().trim(),
+    slo_full_text: s.slo_full_text || s.text || '',
+    bloom_level: s.bloomLevel || s.bloom_level || 'Understand',
+    domain: s.domain || '',
+    domain_name: s.domain_name || '',
+    grade: s.grade || '',
+    subject: s.subject || ''
+  })));
+
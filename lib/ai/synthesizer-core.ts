@@ -1,157 +1,149 @@
-import { GoogleGenAI } from "@google/genai";
-import { isGeminiEnabled } from '../env-server';
-
-export interface AIProvider {
+import { circuitBreaker } from './circuit-breaker';
+import { inferLocalTask, isLocalModeEnabled } from './providers/local';
+import { providerRegistry } from './providers/registry';
+import type { GridEngine } from './providers/catalog';
+import { piiShield } from './pii-shield';
+
+// A synthesis node is one (engine, model) pair from the provider registry,
+// ranked by tier; the engine's plugin does the actual call.
+export interface SynthesisNode {
   id: string;
   name: string;
-  endpoint: string;
+  engine: GridEngine;
   model: string;
-  apiKeyEnv: string;
   maxTokens: number;
-  thinkingBudget?: number;
-  rpm: number;
-  rpd: number;
   tier: 1 | 2 | 3; 
-  enabled: boolean;
 }
 
 export class SynthesizerCore {
-  private providers: Map<string, AIProvider>;
-  private failedProviders: Map<string, number>;
+  private nodes: Map<string, SynthesisNode>;
 
   constructor() {
-    this.providers = this.initializeProviders();
-    this.failedProviders = new Map();
+    this.nodes = this.initializeNodes();
   }
 
-  private initializeProviders(): Map<string, AIProvider> {
-    const providers = new Map<string, AIProvider>();
+  private initializeNodes(): Map<string, SynthesisNode> {
+    const nodes = new Map<string, SynthesisNode>();
+    const add = (node: SynthesisNode) => nodes.set(node.id, node);
 
     // TIER 1: THE REASONERS
-    providers.set('gemini-pro', {
-      id: 'gemini-pro',
-      name: 'Gemini 3 Pro',
-      endpoint: 'native',
-      model: 'gemini-3-pro-preview',
-      apiKeyEnv: 'API_KEY',
-      maxTokens: 16384,
-      thinkingBudget: 4096, 
-      rpm: 10,
-      rpd: 2000,
-      tier: 1,
-      enabled: isGeminiEnabled()
-    });
+    add({ id: 'gemini-pro', name: 'Gemini 3 Pro', engine: 'gemini', model: 'gemini-3-pro-preview', maxTokens: 16384, tier: 1 });
+    add({ id: 'grok-2', name: 'Grok 2 (xAI)', engine: 'xai', model: 'grok-2-1212', maxTokens: 32768, tier: 1 });
 
-    providers.set('grok-2', {
-      id: 'grok-2',
-      name: 'Grok 2 (xAI)',
-      endpoint: 'https://api.x.ai/v1/chat/completions',
-      model: 'grok-2-1212',
-      apiKeyEnv: 'GROK_API_KEY',
-      maxTokens: 32768,
-      rpm: 20,
-      rpd: 5000,
-      tier: 1,
-      enabled: !!process.env.GROK_API_KEY
-    });
+    // TIER 2: THE ENGINES (Flash Fallback, then any configured endpoints)
+    add({ id: 'gemini-flash', name: 'Gemini 3 Flash', engine: 'gemini', model: 'gemini-3-flash-preview', maxTokens: 8192, tier: 2 });
+    providerRegistry.list()
+      .filter(p => p.source === 'config')
+      .forEach(p => add({ id: p.id, name: p.displayName, engine: p.id, model: p.defaultModel, maxTokens: p.maxTokens, tier: 2 }));
 
-    // TIER 2: THE ENGINES (Flash Fallback)
-    providers.set('gemini-flash', {
-      id: 'gemini-flash',
-      name: 'Gemini 3 Flash',
-      endpoint: 'native',
-      model: 'gemini-3-flash-preview',
-      apiKeyEnv: 'API_KEY',
-      maxTokens: 8192,
-      rpm: 100,
-      rpd: 10000,
-      tier: 2,
-      enabled: isGeminiEnabled()
-    });
+    // OFFLINE: deterministic stub (LOCAL_AI_MODE), sole node when enabled
+    add({ id: 'local-synth', name: 'Local Stub', engine: 'local', model: 'deterministic-fixtures', maxTokens: 8192, tier: 2 });
+
+    return nodes;
+  }
 
-    return providers;
+  // Offline mode pins synthesis to the stub; otherwise the registry switch decides
+  private async isEnabled(node: SynthesisNode): Promise<boolean> {
+    const offline = isLocalModeEnabled();
+    if ((node.engine === 'local') !== offline) return false;
+    return providerRegistry.isActive(node.engine);
   }
 
   /**
-   * RECOVERY PROTOCOL: Clears all blacklisted nodes.
+   * RECOVERY PROTOCOL: Closes every breaker (shared across instances via KV).
    */
-  public realignGrid() {
-    this.failedProviders.clear();
+  public async realignGrid() {
+    await circuitBreaker.reset(Array.from(this.nodes.keys()));
     console.log("⚡ [Grid] All nodes re-initialized for synthesis.");
   }
 
   public async synthesize(prompt: string, options: any = {}): Promise<any> {
-    const now = Date.now();
-    const history = options.history || [];
-    const systemPrompt = options.systemPrompt || "You are a world-class pedagogy master.";
     const complexity = options.complexity || 2; 
 
+    // Same PII shield as the orchestrator: engines only see placeholders
+    const shielded = await piiShield.open(
+      prompt,
+      { systemPrompt: options.systemPrompt || "You are a world-class pedagogy master." },
+      'SYNTHESIS',
+      { userId: options.userId, tool: options.tool }
+    );
+    const { redaction } = shielded;
+    const history = (options.history || []).map((h: any) => ({ ...h, content: redaction.redact(h.content) }));
+    const systemPrompt = shielded.config.systemPrompt!;
+    const result = await this.synthesizeShielded(shielded.prompt, history, systemPrompt, complexity);
+    return { ...result, text: redaction.restore(result.text) };
+  }
+
+  private async synthesizeShielded(prompt: string, history: any[], systemPrompt: string, complexity: number): Promise<any> {
+
     // filter and sort candidates by tier
-    let candidates = Array.from(this.providers.values())
-      .filter(p => p.enabled && (!this.failedProviders.has(p.id) || now > (this.failedProviders.get(p.id) || 0)));
+    const all = Array.from(this.nodes.values());
+    const enabled = await Promise.all(all.map(n => this.isEnabled(n)));
+    const candidates = all.filter((_, i) => enabled[i]);
 
     candidates.sort((a, b) => {
       const targetTier = complexity >= 3 ? 1 : 2;
       return Math.abs(a.tier - targetTier) - Math.abs(b.tier - targetTier);
     });
 
-    if (candidates.length === 0) {
-      this.realignGrid();
-      candidates = Array.from(this.providers.values()).filter(p => p.enabled);
+    let attempted = 0;
+    for (const node of candidates) {
+      if (!(await circuitBreaker.canAttempt(node.id))) continue;
+      attempted++;
+      const result = await this.tryNode(node, prompt, history, systemPrompt);
+      if (result) return result;
     }
 
-    for (const provider of candidates) {
-      try {
-        const apiKey = process.env[provider.apiKeyEnv];
-        if (!apiKey) continue;
-
-        if (provider.endpoint === 'native') {
-          const ai = new GoogleGenAI({ apiKey });
-          const res = await ai.models.generateContent({
-            model: provider.model,
-            contents: [
-              ...history.map((h: any) => ({ role: h.role === 'user' ? 'user' : 'model', parts: [{ text: h.content }] })),
-              { role: 'user', parts: [{ text: prompt }] }
-            ],
-            config: { 
-              systemInstruction: systemPrompt,
-              temperature: 0.1,
-              thinkingConfig: provider.thinkingBudget ? { thinkingBudget: provider.thinkingBudget } : undefined
-            }
-          });
-          return { text: res.text, provider: provider.name };
-        } else {
-          // REST Fallback (OpenAI compatible)
-          const res = await fetch(provider.endpoint, {
-            method: 'POST',
-            headers: { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              model: provider.model,
-              messages: [{ role: 'system', content: systemPrompt }, { role: 'user', content: prompt }],
-              temperature: 0.1
-            })
-          });
-          if (!res.ok) throw new Error(`Node_Error_${res.status}`);
-          const data = await res.json();
-          return { text: data.choices[0].message.content, provider: provider.name };
-        }
-      } catch (e: any) {
-        // Blacklist node for 10 mins if it's a 429
-        const cooldown = e.message.includes('429') ? 600000 : 60000;
-        this.failedProviders.set(provider.id, Date.now() + cooldown);
-        console.warn(`🔴 [Grid] Node ${provider.name} saturated. Failover initiated.`);
+    // Every breaker open: realign and walk the chain once more ungated
+    if (attempted === 0 && candidates.length > 0) {
+      await this.realignGrid();
+      for (const node of candidates) {
+        const result = await this.tryNode(node, prompt, history, systemPrompt);
+        if (result) return result;
       }
     }
     throw new Error("AI Alert: Global Synthesis Failure. All engines saturated.");
   }
 
-  public getProviderStatus() {
-    const now = Date.now();
-    return Array.from(this.providers.values()).map(p => ({
-      id: p.id,
-      name: p.name,
-      status: !p.enabled ? 'disabled' : (this.failedProviders.has(p.id) && now < (this.failedProviders.get(p.id) || 0)) ? 'saturated' : 'active',
-      tier: p.tier
+  private async tryNode(node: SynthesisNode, prompt: string, history: any[], systemPrompt: string): Promise<any | null> {
+    const start = Date.now();
+    try {
+      // Plugins take a single prompt, so prior turns are folded in ahead of it
+      const transcript = history.length > 0
+        ? `${history.map((h: any) => `${h.role === 'user' ? 'USER' : 'ASSISTANT'}: ${h.content}`).join('\n')}\n\nUSER: ${prompt}`
+        : prompt;
+      // The local stub's "model" is the task it answers as
+      const model = node.engine === 'local' ? inferLocalTask(prompt, systemPrompt) : node.model;
+
+      const res = await providerRegistry.get(node.engine).call(transcript, model, {
+        systemPrompt,
+        temperature: 0.1,
+        maxTokens: node.maxTokens
+      });
+
+      await circuitBreaker.recordSuccess(node.id, Date.now() - start);
+      return { text: res.text, provider: node.name };
+    } catch (e: any) {
+      await circuitBreaker.recordFailure(node.id, e);
+      console.warn(`🔴 [Grid] Node ${node.name} saturated. Failover initiated.`);
+      return null;
+    }
+  }
+
+  public async getProviderStatus() {
+    return Promise.all(Array.from(this.nodes.values()).map(async n => {
+      const [enabled, health] = await Promise.all([this.isEnabled(n), circuitBreaker.getHealth(n.id)]);
+      return {
+        id: n.id,
+        name: n.name,
+        engine: n.engine,
+        status: !enabled ? 'disabled' : health.state === 'open' ? 'saturated' : health.state === 'half-open' ? 'recovering' : 'active',
+        tier: n.tier,
+        breaker: health.state,
+        errorRate: health.errorRate,
+        latencyMs: Math.round(health.latencyMs),
+        retryAt: health.retryAt
+      };
     }));
   }
 }
@@ -0,0 +1,163 @@
+// lib/ai/token-budget.ts
+// CONTEXT-WINDOW BUDGETING — how much source text one grid call can take.
+// Pure: sized from the routing chain, so any engine a task may fall back to
+// can hold the prompt and still has room for the answer.
+
+import type { RoutingEntry } from './routing-table';
+import { GridEngine, builtInContextTokens } from './providers/catalog';
+
+const CHARS_PER_TOKEN = 4;           // Same heuristic the indexer uses for chunk.tokens
+const DEFAULT_OUTPUT_TOKENS = 8192;
+const SAFETY_MARGIN = 0.9;           // Heuristic counts drift on dense tables and Urdu text
+
+export interface SegmentBudget {
+  inputTokens: number;               // Source text one call may carry
+  limitedBy: GridEngine;             // Engine whose window or output cap set the limit
+}
+
+export function estimateTokens(text: string): number {
+  return Math.max(1, Math.ceil(text.length / CHARS_PER_TOKEN));
+}
+
+export function tokensToChars(tokens: number): number {
+  return tokens * CHARS_PER_TOKEN;
+}
+
+/**
+ * Input budget for one call over `chain`. Each engine must fit the fixed
+ * prompt, the source and its own output cap in its window. `outputRatio` is
+ * output tokens per input token (about 1 for linearization, which rewrites
+ * rather than summarises), so the source is also capped by what the engine
+ * is allowed to write back; 0 sizes against the context windows alone.
+ * `contextOf` reads each engine's window (the registry's, on the server).
+ */
+export function chainBudget(
+  chain: Array<Pick<RoutingEntry, 'engine' | 'maxTokens'>>,
+  overheadTokens: number,
+  outputRatio: number = 1,
+  contextOf: (engine: GridEngine) => number = builtInContextTokens
+): SegmentBudget {
+  let best: SegmentBudget | null = null;
+  for (const { engine, maxTokens } of chain) {
+    const output = maxTokens || DEFAULT_OUTPUT_TOKENS;
+    const window = contextOf(engine) * SAFETY_MARGIN - overheadTokens - output;
+    const inputTokens = Math.floor(Math.min(window, output / outputRatio));
+    if (!best || inputTokens < best.inputTokens) best = { inputTokens, limitedBy: engine };
+  }
+  if (!best || best.inputTokens <= 0) {
+    throw new Error(`Routing chain leaves no room for source text (${overheadTokens} prompt tokens).`);
+  }
+  return best;
+}
+
+// ─── STRUCTURAL SPLITTING ─────────────────────────────────────────
+// Curriculum PDFs are cut at grade boundaries first, then domains, then
+// paragraphs, and only as a last resort mid-paragraph.
+
+const GRADE_BOUNDARY = /^\s*(#{1,2}\s*)?(grade|class)\s*[-:]?\s*([ivx]+|\d{1,2})\b/i;
+const DOMAIN_BOUNDARY = /^\s*(#{2,4}\s*)?(domain|strand|unit|theme|chapter)\s*[-:]?\s*([a-z]|\d{1,2}|[ivx]+)\b/i;
+
+export interface TextSegment {
+  text: string;
+  grade?: string;                    // Heading in force but not repeated in the text
+  domain?: string;
+}
+
+interface Block {
+  text: string;
+  grade?: string;
+  domain?: string;
+}
+
+function cutAt(lines: string[], isBoundary: (line: string) => boolean): string[][] {
+  const parts: string[][] = [];
+  let current: string[] = [];
+  for (const line of lines) {
+    if (isBoundary(line) && current.some(l => l.trim())) {
+      parts.push(current);
+      current = [];
+    }
+    current.push(line);
+  }
+  if (current.length) parts.push(current);
+  return parts;
+}
+
+// Breaks text into blocks no larger than maxChars, preferring the coarsest
+// boundary that works, and records the headings in force for each block.
+function toBlocks(text: string, maxChars: number): Block[] {
+  const blocks: Block[] = [];
+  let grade: string | undefined;
+  let domain: string | undefined;
+
+  const emit = (lines: string[]) => {
+    // Headings a reader of this block alone would be missing
+    const first = lines.find(l => l.trim()) || '';
+    const opensGrade = GRADE_BOUNDARY.test(first);
+    const blockGrade = opensGrade ? undefined : grade;
+    const blockDomain = opensGrade || DOMAIN_BOUNDARY.test(first) ? undefined : domain;
+    for (const line of lines) {
+      if (GRADE_BOUNDARY.test(line)) { grade = line.trim(); domain = undefined; }
+      else if (DOMAIN_BOUNDARY.test(line)) domain = line.trim();
+    }
+    blocks.push({ text: lines.join('\n'), grade: blockGrade, domain: blockDomain });
+  };
+
+  const fits = (lines: string[]) => lines.join('\n').length <= maxChars;
+
+  // Fills up to maxChars, closing early at a blank line once half full
+  const splitParagraphs = (lines: string[]) => {
+    let current: string[] = [];
+    let size = 0;
+    const flush = () => { if (current.length) emit(current); current = []; size = 0; };
+    for (const line of lines) {
+      if (line.length > maxChars) {
+        flush();
+        for (let i = 0; i < line.length; i += maxChars) emit([line.slice(i, i + maxChars)]);
+        continue;
+      }
+      if (size + line.length + 1 > maxChars) flush();
+      current.push(line);
+      size += line.length + 1;
+      if (!line.trim() && size > maxChars / 2) flush();
+    }
+    flush();
+  };
+
+  for (const gradePart of cutAt(text.split('\n'), l => GRADE_BOUNDARY.test(l))) {
+    if (fits(gradePart)) { emit(gradePart); continue; }
+    for (const domainPart of cutAt(gradePart, l => DOMAIN_BOUNDARY.test(l))) {
+      if (fits(domainPart)) emit(domainPart);
+      else splitParagraphs(domainPart);
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Packs structural blocks into segments of at most `budgetTokens`. Small
+ * grades and domains share a segment; a segment never starts mid-block.
+ */
+export function splitForBudget(text: string, budgetTokens: number): TextSegment[] {
+  const maxChars = tokensToChars(budgetTokens);
+  if (text.length <= maxChars) return [{ text }];
+
+  const segments: TextSegment[] = [];
+  let current: Block[] = [];
+  let size = 0;
+
+  const flush = () => {
+    if (!current.length) return;
+    segments.push({ text: current.map(b => b.text).join('\n'), grade: current[0].grade, domain: current[0].domain });
+    current = [];
+    size = 0;
+  };
+
+  for (const block of toBlocks(text, maxChars)) {
+    if (size + block.text.length + 1 > maxChars) flush();
+    current.push(block);
+    size += block.text.length + 1;
+  }
+  flush();
+  return segments;
+}
@@ -11,7 +11,13 @@ interface ToolRoute {
   reasoning: string;
 }
 
-export function detectToolIntent(userQuery: string): ToolRoute {
+export const TOOL_TYPES: ToolType[] = ['master_plan', 'neural_quiz', 'fidelity_rubric', 'audit_tagger'];
+
+/**
+ * Raw keyword/phrase signal per tool (keyword +2, phrase +5).
+ * Shared by detectToolIntent and the semantic router.
+ */
+export function scoreToolSignals(userQuery: string): Record<ToolType, number> {
   const query = userQuery.toLowerCase();
   
   const toolSignatures = {
@@ -37,16 +43,27 @@ export function detectToolIntent(userQuery: string): ToolRoute {
     }
   };
 
-  Object.entries(toolSignatures).forEach(([tool, sig]) => {
+  Object.values(toolSignatures).forEach(sig => {
     sig.keywords.forEach(kw => { if (query.includes(kw)) sig.score += 2; });
     sig.phrases.forEach(ph => { if (query.includes(ph)) sig.score += 5; });
   });
 
-  const sorted = Object.entries(toolSignatures).sort((a, b) => b[1].score - a[1].score);
-  const bestTool = (sorted[0][1].score > 0 ? sorted[0][0] : 'master_plan') as ToolType;
-  const bestScore = sorted[0][1].score;
+  return {
+    master_plan: toolSignatures.master_plan.score,
+    neural_quiz: toolSignatures.neural_quiz.score,
+    fidelity_rubric: toolSignatures.fidelity_rubric.score,
+    audit_tagger: toolSignatures.audit_tagger.score
+  };
+}
+
+export function detectToolIntent(userQuery: string): ToolRoute {
+  const scores = scoreToolSignals(userQuery);
+
+  const sorted = Object.entries(scores).sort((a, b) => b[1] - a[1]);
+  const bestTool = (sorted[0][1] > 0 ? sorted[0][0] : 'master_plan') as ToolType;
+  const bestScore = sorted[0][1];
   
-  const totalScore = Object.values(toolSignatures).reduce((acc, s) => acc + s.score, 0);
+  const totalScore = Object.values(scores).reduce((acc, s) => acc + s, 0);
   const confidence = totalScore > 0 ? bestScore / totalScore : 0.5;
 
   return {
@@ -66,3 +83,21 @@ export function getToolDisplayName(toolId: ToolType | string | null): string {
   };
   return names[toolId as string] || 'Expert Node';
 }
+
+/**
+ * CLARIFICATION MARKER
+ * Appended by /api/chat when routing is unsure; MessageItem strips it and
+ * renders one quick-reply button per tool.
+ */
+const CLARIFY_PATTERN = /\n*--- Tool Clarification:\s*([\w,\s]+?)\s*---\s*$/;
+
+export function formatClarificationMarker(tools: ToolType[]): string {
+  return `\n\n--- Tool Clarification: ${tools.join(', ')} ---`;
+}
+
+export function parseClarification(content: string): { body: string; tools: ToolType[] } | null {
+  const match = content.match(CLARIFY_PATTERN);
+  if (!match) return null;
+  const tools = match[1].split(',').map(t => t.trim()).filter((t): t is ToolType => (TOOL_TYPES as string[]).includes(t));
+  return tools.length > 0 ? { body: content.slice(0, match.index).trim(), tools } : null;
+}
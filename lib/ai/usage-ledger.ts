@@ -0,0 +1,160 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from '../supabase';
+import type { AIResponse } from './providers/providers';
+
+/**
+ * NEURAL USAGE LEDGER (v1.0)
+ * Meters every grid call into `ai_model_usage` with token counts and an
+ * estimated USD cost, and rolls the ledger up for Mission Control.
+ */
+
+export interface UsageRecord {
+  userId?: string;
+  tool?: string;
+  taskType: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  estimated: boolean; // true when the vendor did not report usage
+}
+
+// USD per 1M tokens [input, output]. First matching prefix wins.
+const PRICE_TABLE: Array<[string, number, number]> = [
+  ['gemini-2.5-pro',                      1.25, 10.00],
+  ['gemini-2.5-flash',                    0.30,  2.50],
+  ['gemini-2.0-flash',                    0.10,  0.40],
+  ['gemini-3-pro',                        2.00, 12.00],
+  ['gemini-3-flash',                      0.50,  3.00],
+  ['deepseek-reasoner',                   0.55,  2.19],
+  ['deepseek-chat',                       0.27,  1.10],
+  ['llama-3.3-70b-versatile',             0.59,  0.79],
+  ['llama-3.1-8b-instant',                0.05,  0.08],
+  ['mixtral-8x7b',                        0.24,  0.24],
+  ['llama3.1-70b',                        0.60,  0.60],
+  ['llama3.1-8b',                         0.10,  0.10],
+  ['Meta-Llama-3.3-70B-Instruct',         0.60,  1.20],
+  ['Meta-Llama-3.1-405B-Instruct',        5.00, 10.00],
+  ['google/gemini-2.0-flash',             0.10,  0.40],
+  ['anthropic/claude-3-haiku',            0.25,  1.25],
+  ['meta-llama/llama-3.3-70b-instruct',   0.13,  0.40],
+  ['local/',                              0.00,  0.00],
+];
+const DEFAULT_PRICE: [number, number] = [0.50, 1.50];
+
+export function getModelPrice(model: string): [number, number] {
+  const hit = PRICE_TABLE.find(([prefix]) => model.startsWith(prefix));
+  return hit ? [hit[1], hit[2]] : DEFAULT_PRICE;
+}
+
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+  const [input, output] = getModelPrice(model);
+  return (promptTokens * input + completionTokens * output) / 1_000_000;
+}
+
+// Same heuristic the indexer uses for chunk token counts
+export const estimateTokens = (text: string) => Math.max(1, Math.ceil((text || '').length / 4));
+
+export function buildUsageRecord(
+  result: AIResponse,
+  taskType: string,
+  prompt: string,
+  systemPrompt: string | undefined,
+  context: { userId?: string; tool?: string }
+): UsageRecord {
+  const estimated = result.promptTokens === undefined || result.completionTokens === undefined;
+  return {
+    userId: context.userId,
+    tool: context.tool,
+    taskType,
+    provider: result.provider,
+    model: result.modelUsed,
+    promptTokens: result.promptTokens ?? estimateTokens(prompt + (systemPrompt || '')),
+    completionTokens: result.completionTokens ?? estimateTokens(result.text),
+    latencyMs: result.latencyMs,
+    estimated,
+  };
+}
+
+/**
+ * Fire-and-forget insert. Metering must never fail a synthesis.
+ */
+export function recordUsage(record: UsageRecord, supabase: SupabaseClient = getSupabaseAdminClient()): void {
+  supabase.from('ai_model_usage').insert({
+    user_id: record.userId || null,
+    provider: record.provider,
+    model_name: record.model,
+    task_type: record.taskType,
+    tool: record.tool || null,
+    tokens_prompt: record.promptTokens,
+    tokens_completion: record.completionTokens,
+    cost_usd: estimateCost(record.model, record.promptTokens, record.completionTokens),
+    tokens_estimated: record.estimated,
+    execution_time_ms: record.latencyMs,
+  }).then(({ error }) => {
+    if (error) console.warn('⚠️ [Ledger] Usage write failed:', error.message);
+  });
+}
+
+// ─── REPORTING ────────────────────────────────────────────────────
+
+export interface SpendBucket {
+  key: string;
+  costUsd: number;
+  tokens: number;
+  calls: number;
+}
+
+export interface UsageReport {
+  since: string;
+  totals: { costUsd: number; tokens: number; calls: number };
+  byWorkspace: SpendBucket[];
+  byTool: SpendBucket[];
+  byProvider: SpendBucket[];
+  daily: Array<{ date: string; costUsd: number; byProvider: Record<string, number> }>;
+}
+
+function bucketize(rows: any[], keyOf: (row: any) => string): SpendBucket[] {
+  const buckets = new Map<string, SpendBucket>();
+  rows.forEach(row => {
+    const key = keyOf(row);
+    const b = buckets.get(key) || { key, costUsd: 0, tokens: 0, calls: 0 };
+    b.costUsd += Number(row.cost_usd) || 0;
+    b.tokens += (row.tokens_prompt || 0) + (row.tokens_completion || 0);
+    b.calls += 1;
+    buckets.set(key, b);
+  });
+  return Array.from(buckets.values()).sort((a, b) => b.costUsd - a.costUsd);
+}
+
+/**
+ * Workspace is resolved at report time from the caller's profile, so ledger
+ * rows stay valid when a workspace is renamed or a teacher changes workspace.
+ */
+export function summarizeUsage(rows: any[], workspaceByUser: Record<string, string>, since: string): UsageReport {
+  const dailyMap = new Map<string, { date: string; costUsd: number; byProvider: Record<string, number> }>();
+  rows.forEach(row => {
+    const date = String(row.created_at).substring(0, 10);
+    const day = dailyMap.get(date) || { date, costUsd: 0, byProvider: {} };
+    const cost = Number(row.cost_usd) || 0;
+    day.costUsd += cost;
+    day.byProvider[row.provider || 'unknown'] = (day.byProvider[row.provider || 'unknown'] || 0) + cost;
+    dailyMap.set(date, day);
+  });
+
+  const totals = rows.reduce((acc, row) => ({
+    costUsd: acc.costUsd + (Number(row.cost_usd) || 0),
+    tokens: acc.tokens + (row.tokens_prompt || 0) + (row.tokens_completion || 0),
+    calls: acc.calls + 1
+  }), { costUsd: 0, tokens: 0, calls: 0 });
+
+  return {
+    since,
+    totals,
+    byWorkspace: bucketize(rows, r => (r.user_id && workspaceByUser[r.user_id]) || 'System / Unattributed'),
+    byTool: bucketize(rows, r => r.tool || r.task_type || 'unknown'),
+    byProvider: bucketize(rows, r => r.provider || 'unknown'),
+    daily: Array.from(dailyMap.values()).sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
@@ -1,6 +1,8 @@
 
-import { NextRequest } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '../supabase';
+import { rateLimiter, apiKeyFingerprint } from '../ai/rate-limiter';
+import { QueueTimeoutError } from '../ai/request-queue';
 
 /**
  * B2B API GUARD (v1.0)
@@ -34,3 +36,37 @@ export async function validateApiKey(req: NextRequest) {
 
   return { authorized: true, user: profile };
 }
+
+/**
+ * 429 with a Retry-After header, for user, workspace, key or grid limits.
+ */
+export function rateLimitedResponse(retryAfterSeconds: number, message: string) {
+  return NextResponse.json(
+    { error: message, retryAfterSeconds },
+    { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } }
+  );
+}
+
+// How soon a request that found every grid slot busy should try again
+const QUEUE_RETRY_AFTER_SECONDS = 10;
+
+/**
+ * 503 with a Retry-After header, for requests that never got a grid slot.
+ */
+export function queueTimeoutResponse(error: QueueTimeoutError) {
+  return NextResponse.json(
+    { error: 'AI Alert: Synthesis grid saturated. Please retry shortly.', retryAfterSeconds: QUEUE_RETRY_AFTER_SECONDS, lane: error.lane },
+    { status: 503, headers: { 'Retry-After': String(QUEUE_RETRY_AFTER_SECONDS) } }
+  );
+}
+
+/**
+ * Charges one request to the partner key's bucket (and its owner's).
+ * Returns a 429 response when either is exhausted, otherwise null.
+ */
+export async function enforcePartnerLimit(req: NextRequest, userId: string) {
+  const apiKey = req.headers.get('X-API-Key')!;
+  const decision = await rateLimiter.check({ apiKey: apiKeyFingerprint(apiKey), user: userId });
+  if (decision.allowed) return null;
+  return rateLimitedResponse(decision.retryAfterSeconds, `API rate limit reached. Retry in ${decision.retryAfterSeconds}s.`);
+}
@@ -0,0 +1,25 @@
+import { getSupabaseAdminClient } from '../supabase';
+
+/**
+ * WORKSPACE RESOLVER
+ * The workspace that picks a teacher's PII policy and workspace rate limit is
+ * `profiles.workspace_id`, which only admins (service role) can set. The
+ * teacher-editable `workspace_name` is branding and never selects a policy.
+ */
+const WORKSPACE_CACHE_MS = 5 * 60_000;
+
+class WorkspaceResolver {
+  private cache = new Map<string, { workspace?: string; at: number }>();
+
+  async of(userId: string): Promise<string | undefined> {
+    const cached = this.cache.get(userId);
+    if (cached && Date.now() - cached.at < WORKSPACE_CACHE_MS) return cached.workspace;
+    const { data, error } = await getSupabaseAdminClient().from('profiles').select('workspace_id').eq('id', userId).maybeSingle();
+    if (error) throw new Error(error.message);
+    const workspace = data?.workspace_id || undefined;
+    this.cache.set(userId, { workspace, at: Date.now() });
+    return workspace;
+  }
+}
+
+export const workspaceResolver = new WorkspaceResolver();
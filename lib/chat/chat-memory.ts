@@ -0,0 +1,137 @@
+import { parseAgentSteps } from '../ai/agent-steps';
+import { parseSloCheck } from '../ai/slo-citations';
+import { parseChunkSources } from '../ai/chunk-citations';
+import { parseClarification } from '../ai/tool-router';
+import { estimateTokens, tokensToChars } from '../ai/token-budget';
+
+/**
+ * CONVERSATION MEMORY (v1.0)
+ * Pure half of chat threads, shared by the router, the thread store and the
+ * chat view. The model sees a rolling summary of older turns plus as many
+ * recent turns as the context budget allows; turns that no longer fit are
+ * folded into the summary (threads persist it, stateless callers drop them).
+ */
+
+export const SUMMARY_MAX_TOKENS = 400;
+const MIN_RECENT_TURNS = 2;                 // Always keep the last exchange verbatim
+const TITLE_CHARS = 60;
+
+// Set by /api/chat on every threaded answer, including the first one
+export const THREAD_HEADER = 'X-Chat-Thread';
+
+// Start of the institutional footer /api/chat appends to every answer
+export const WATERMARK_RULE = '\n\n---\n### 🏛️';
+
+export interface ChatThread {
+  id: string;
+  userId: string;
+  title: string;
+  documentId: string | null;              // Pinned document, reused when a turn names none
+  pinnedSlo: string | null;               // Last SLO the teacher named
+  summary: string | null;
+  summarizedCount: number;                // Leading messages already folded into `summary`
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ThreadMessage {
+  id: string;
+  threadId: string;
+  role: 'user' | 'assistant';
+  content: string;                        // As the teacher saw it (markers, footer)
+  metadata: any;
+  createdAt: string;
+}
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ConversationMemory {
+  summary?: string | null;
+  turns: ConversationTurn[];
+  pinnedSlo?: string | null;
+  rolling?: boolean;                      // Fold overflow into the summary instead of dropping it
+  threadId?: string;                      // Traces the turn's grid calls (see grid-recorder)
+  evaluation?: boolean;                   // Golden-set replay: not logged or metered (see rag-evaluator)
+}
+
+export interface FittedConversation {
+  recent: ConversationTurn[];
+  overflow: ConversationTurn[];           // Oldest turns that did not fit, in order
+}
+
+/** An answer without its display markers (sources, tool steps, SLO check). */
+export function answerBody(content: string): string {
+  return parseSloCheck(parseAgentSteps(parseChunkSources(content).body).body).body;
+}
+
+/** What the model should remember of a message: the answer, not its chrome. */
+export function toTurn(role: 'user' | 'assistant', content: string): ConversationTurn {
+  if (role === 'user') return { role, content: content.trim() };
+  let body = answerBody(content);
+  body = parseClarification(body)?.body ?? body;
+  const footer = body.indexOf(WATERMARK_RULE);
+  return { role, content: (footer === -1 ? body : body.slice(0, footer)).trim() };
+}
+
+const turnTokens = (turn: ConversationTurn) => estimateTokens(turn.content) + 4;
+
+/**
+ * Keeps the newest turns that fit `budgetTokens` next to the summary. The
+ * last MIN_RECENT_TURNS always stay, clipped if a single turn is huge.
+ */
+export function fitConversation(memory: ConversationMemory, budgetTokens: number): FittedConversation {
+  const turns = memory.turns;
+  let remaining = budgetTokens - (memory.summary ? estimateTokens(memory.summary) : 0);
+  let cut = turns.length;
+
+  while (cut > 0) {
+    const turn = turns[cut - 1];
+    const cost = turnTokens(turn);
+    const mustKeep = turns.length - cut < MIN_RECENT_TURNS;
+    if (cost > remaining && !mustKeep) break;
+    remaining -= cost;
+    cut--;
+  }
+
+  const share = Math.max(1, Math.floor(budgetTokens / MIN_RECENT_TURNS));
+  const recent = turns.slice(cut).map(t =>
+    turnTokens(t) > share ? { ...t, content: `${t.content.slice(0, tokensToChars(share))}…` } : t
+  );
+  return { recent, overflow: turns.slice(0, cut) };
+}
+
+export function formatConversation(summary: string | null | undefined, recent: ConversationTurn[]): string {
+  if (!summary && recent.length === 0) return '';
+  const lines = recent.map(t => `${t.role === 'user' ? 'TEACHER' : 'ASSISTANT'}: ${t.content}`);
+  return `<CONVERSATION>
+${summary ? `EARLIER IN THIS THREAD (summary): ${summary}\n` : ''}${lines.join('\n\n')}
+</CONVERSATION>`;
+}
+
+export function summaryPrompt(previous: string | null | undefined, overflow: ConversationTurn[]): string {
+  return `[CONVERSATION_SUMMARY_TASK]
+Update the running summary of a teacher's conversation with a curriculum assistant.
+Keep: SLO codes, grades, subjects, documents, decisions, the teacher's preferences and open requests.
+Drop: greetings, formatting, content that can be regenerated.
+Write at most ${SUMMARY_MAX_TOKENS * 3 / 4} words of plain prose. Return ONLY the summary.
+
+CURRENT SUMMARY:
+${previous || '[NONE]'}
+
+TURNS TO FOLD IN:
+${overflow.map(t => `${t.role === 'user' ? 'TEACHER' : 'ASSISTANT'}: ${t.content}`).join('\n\n')}`;
+}
+
+/** Cache scopes must differ when the conversation behind a prompt does. */
+export function conversationKey(memory: ConversationMemory | undefined): string {
+  if (!memory) return '';
+  return JSON.stringify([memory.summary || '', memory.pinnedSlo || '', memory.turns.map(t => [t.role, t.content])]);
+}
+
+export function threadTitle(message: string): string {
+  const line = message.replace(/\s+/g, ' ').trim();
+  return line.length > TITLE_CHARS ? `${line.slice(0, TITLE_CHARS - 1)}…` : line || 'New conversation';
+}
@@ -0,0 +1,164 @@
+import { getSupabaseAdminClient } from '../supabase';
+import { ChatThread, ThreadMessage, threadTitle } from './chat-memory';
+
+/**
+ * CHAT THREAD STORE (v1.0)
+ * Server-side conversations in `chat_threads` / `chat_messages`. Every call
+ * is scoped to the owning user; a thread that belongs to someone else is
+ * reported as missing.
+ */
+
+const THREAD_LIST_LIMIT = 50;
+const MESSAGE_LIMIT = 500;
+
+const toThread = (row: any): ChatThread => ({
+  id: row.id,
+  userId: row.user_id,
+  title: row.title,
+  documentId: row.document_id,
+  pinnedSlo: row.pinned_slo,
+  summary: row.summary,
+  summarizedCount: row.summarized_count || 0,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const toMessage = (row: any): ThreadMessage => ({
+  id: row.id,
+  threadId: row.thread_id,
+  role: row.role,
+  content: row.content,
+  metadata: row.metadata || {},
+  createdAt: row.created_at
+});
+
+const rejected = (issues: string[]) =>
+  Object.assign(new Error('Chat thread update failed validation.'), { issues });
+
+export interface ThreadPatch {
+  title?: string;
+  documentId?: string | null;
+  pinnedSlo?: string | null;
+}
+
+class ThreadStore {
+  async list(userId: string): Promise<ChatThread[]> {
+    const { data, error } = await getSupabaseAdminClient()
+      .from('chat_threads')
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false })
+      .limit(THREAD_LIST_LIMIT);
+    if (error) throw error;
+    return (data || []).map(toThread);
+  }
+
+  async get(userId: string, threadId: string): Promise<ChatThread | null> {
+    const { data, error } = await getSupabaseAdminClient()
+      .from('chat_threads')
+      .select('*')
+      .eq('id', threadId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? toThread(data) : null;
+  }
+
+  async create(userId: string, firstMessage: string, documentId?: string | null): Promise<ChatThread> {
+    const { data, error } = await getSupabaseAdminClient()
+      .from('chat_threads')
+      .insert({ user_id: userId, title: threadTitle(firstMessage), document_id: documentId || null })
+      .select()
+      .single();
+    if (error) throw error;
+    return toThread(data);
+  }
+
+  async update(userId: string, threadId: string, patch: ThreadPatch): Promise<ChatThread | null> {
+    const row: Record<string, any> = { updated_at: new Date().toISOString() };
+    if (patch.title !== undefined) {
+      const title = patch.title.trim();
+      if (!title) throw rejected(['Title is empty.']);
+      row.title = title.slice(0, 120);
+    }
+    if (patch.documentId !== undefined) row.document_id = patch.documentId;
+    if (patch.pinnedSlo !== undefined) row.pinned_slo = patch.pinnedSlo;
+
+    const { data, error } = await getSupabaseAdminClient()
+      .from('chat_threads')
+      .update(row)
+      .eq('id', threadId)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+    if (error) throw error;
+    return data ? toThread(data) : null;
+  }
+
+  /** Messages go with the thread (on delete cascade). */
+  async remove(userId: string, threadId: string): Promise<boolean> {
+    const { data, error } = await getSupabaseAdminClient()
+      .from('chat_threads')
+      .delete()
+      .eq('id', threadId)
+      .eq('user_id', userId)
+      .select('id');
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+
+  /** The newest MESSAGE_LIMIT messages, oldest first. */
+  async messages(thread: ChatThread): Promise<ThreadMessage[]> {
+    return (await this.newest(thread)).messages;
+  }
+
+  /**
+   * Messages the rolling summary does not cover yet, within the newest
+   * MESSAGE_LIMIT, and the thread position of the first one.
+   */
+  async unsummarized(thread: ChatThread): Promise<{ messages: ThreadMessage[]; from: number }> {
+    const { messages, offset } = await this.newest(thread);
+    const from = Math.max(thread.summarizedCount, offset);
+    return { messages: messages.slice(from - offset), from };
+  }
+
+  // `offset` is the first message's position in the whole thread, which
+  // summarizedCount is measured against
+  private async newest(thread: ChatThread): Promise<{ messages: ThreadMessage[]; offset: number }> {
+    const { data, count, error } = await getSupabaseAdminClient()
+      .from('chat_messages')
+      .select('*', { count: 'exact' })
+      .eq('thread_id', thread.id)
+      .order('created_at', { ascending: false })
+      .limit(MESSAGE_LIMIT);
+    if (error) throw error;
+    const messages = (data || []).reverse().map(toMessage);
+    return { messages, offset: (count ?? messages.length) - messages.length };
+  }
+
+  /**
+   * Stores a question with its answer in one insert, once the answer is
+   * complete, so a failed or abandoned synthesis leaves no unanswered turn.
+   */
+  async appendExchange(thread: ChatThread, question: string, answer: string, metadata: any = {}): Promise<void> {
+    const supabase = getSupabaseAdminClient();
+    const answeredAt = Date.now();
+    const { error } = await supabase.from('chat_messages').insert([
+      { thread_id: thread.id, role: 'user', content: question, metadata: {}, created_at: new Date(answeredAt - 1).toISOString() },
+      { thread_id: thread.id, role: 'assistant', content: answer, metadata, created_at: new Date(answeredAt).toISOString() }
+    ]);
+    if (error) throw error;
+    await supabase.from('chat_threads').update({ updated_at: new Date().toISOString() }).eq('id', thread.id);
+  }
+
+  /** Rolling summary now covers the first `summarizedCount` messages. */
+  async saveSummary(thread: ChatThread, summary: string, summarizedCount: number): Promise<void> {
+    const { error } = await getSupabaseAdminClient()
+      .from('chat_threads')
+      .update({ summary, summarized_count: summarizedCount })
+      .eq('id', thread.id);
+    if (error) throw error;
+  }
+}
+
+export const threadStore = new ThreadStore();
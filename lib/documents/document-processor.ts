@@ -1,5 +1,6 @@
 import { Buffer } from 'buffer';
 import * as pdfjs from 'pdfjs-dist';
+import { fromPdfItem, layoutPageText } from '../rag/table-detector';
 
 /**
  * DOCUMENT PROCESSOR ENGINE (v2.0)
@@ -37,7 +38,7 @@ export async function processDocument(file: File): Promise<{
         const page = await pdf.getPage(i);
         const textContent = await page.getTextContent();
         // @ts-ignore
-        const pageText = textContent.items.map((item: any) => item.str).join(" ");
+        const pageText = layoutPageText(textContent.items.filter((item: any) => typeof item.str === 'string').map(fromPdfItem));
         fullText += pageText + "\n";
       }
       text = fullText.trim();
@@ -0,0 +1,84 @@
+import { getSupabaseAdminClient } from '../supabase';
+import { normalizeSLO } from '../rag/slo-extractor';
+import { GoldenQuestion } from './rag-metrics';
+
+/**
+ * GOLDEN SET STORE (v1.0)
+ * Per-document evaluation questions in `rag_golden_questions`: what a teacher
+ * would ask, the SLO codes a correct answer rests on and, optionally, the
+ * chunk that should come back first.
+ */
+
+const toQuestion = (row: any): GoldenQuestion => ({
+  id: row.id,
+  documentId: row.document_id,
+  question: row.question,
+  expectedSlos: row.expected_slos || [],
+  expectedChunkId: row.expected_chunk_id,
+  expectedExcerpt: row.expected_excerpt,
+  createdAt: row.created_at
+});
+
+export interface GoldenQuestionInput {
+  documentId: string;
+  question: string;
+  expectedSlos?: string[];
+  expectedChunkId?: string | null;
+  expectedExcerpt?: string | null;
+}
+
+class GoldenSetStore {
+  async list(documentIds?: string[]): Promise<GoldenQuestion[]> {
+    let query = getSupabaseAdminClient()
+      .from('rag_golden_questions')
+      .select('*')
+      .order('created_at', { ascending: true });
+    if (documentIds?.length) query = query.in('document_id', documentIds);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(toQuestion);
+  }
+
+  async byIds(ids: string[]): Promise<GoldenQuestion[]> {
+    if (ids.length === 0) return [];
+    const { data, error } = await getSupabaseAdminClient().from('rag_golden_questions').select('*').in('id', ids);
+    if (error) throw error;
+    return (data || []).map(toQuestion);
+  }
+
+  async create(input: GoldenQuestionInput): Promise<GoldenQuestion> {
+    const expectedSlos = Array.from(new Set((input.expectedSlos || []).map(normalizeSLO).filter(Boolean)));
+    const expectedExcerpt = input.expectedExcerpt?.trim() || null;
+    const expectedChunkId = input.expectedChunkId?.trim() || null;
+
+    const issues: string[] = [];
+    if (!input.documentId) issues.push('documentId is required.');
+    if (!input.question?.trim()) issues.push('Question is empty.');
+    if (expectedSlos.length === 0 && !expectedExcerpt && !expectedChunkId) {
+      issues.push('Give at least one expected SLO code, chunk id or excerpt.');
+    }
+    if (issues.length) throw Object.assign(new Error('Golden question failed validation.'), { issues });
+
+    const { data, error } = await getSupabaseAdminClient()
+      .from('rag_golden_questions')
+      .insert({
+        document_id: input.documentId,
+        question: input.question.trim(),
+        expected_slos: expectedSlos,
+        expected_chunk_id: expectedChunkId,
+        expected_excerpt: expectedExcerpt
+      })
+      .select()
+      .single();
+    if (error) throw error;
+    return toQuestion(data);
+  }
+
+  async remove(id: string): Promise<void> {
+    const { error } = await getSupabaseAdminClient().from('rag_golden_questions').delete().eq('id', id);
+    if (error) throw error;
+  }
+}
+
+export const goldenSetStore = new GoldenSetStore();
@@ -0,0 +1,213 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from '../supabase';
+import { retrieveRelevantChunks } from '../rag/retriever';
+import { normalizeSLO } from '../rag/slo-extractor';
+import { generateAIResponse } from '../ai/multi-provider-router';
+import { goldenSetStore } from './golden-set-store';
+import {
+  GoldenQuestion, QuestionResult, EvalRun, RankedChunk, DEFAULT_EVAL_K,
+  recallAtK, reciprocalRank, citedSlos, aggregateMetrics, metricsByDocument
+} from './rag-metrics';
+
+/**
+ * RAG EVALUATOR (v1.0)
+ * Replays every golden question through the chat retriever (top k) and the
+ * full synthesis pipeline, scores both, and stores the run in
+ * `rag_eval_runs` so the audit dashboard can chart trends. Grid calls are
+ * traced as `eval-<runId>`, so GRID_RECORD captures a run for replay, and
+ * flagged as evaluation traffic: no retrieval log and no usage charge to the
+ * document owner. A run fixes its question set at start and is advanced one
+ * batch per request; results are saved after each batch.
+ */
+
+const MAX_QUESTIONS = 50;              // Per run; synthesis is the slow part
+const BATCH_QUESTIONS = 6;             // Per advance() call, well inside a request's duration
+const CONCURRENCY = 2;
+const STALE_RUN_MS = 15 * 60_000;      // A running run not advanced this long is abandoned
+const HISTORY_LIMIT = 30;
+
+export interface EvalOptions {
+  k?: number;
+  documentIds?: string[];
+  triggeredBy?: string;
+}
+
+const toRun = (row: any): EvalRun => ({
+  id: row.id,
+  k: row.k,
+  status: row.status,
+  metrics: row.metrics,
+  byDocument: row.by_document || {},
+  results: row.results || [],
+  questionIds: row.question_ids || [],
+  triggeredBy: row.triggered_by,
+  createdAt: row.created_at,
+  finishedAt: row.finished_at
+});
+
+async function evaluateQuestion(
+  question: GoldenQuestion,
+  runId: string,
+  k: number,
+  userId: string,
+  supabase: SupabaseClient,
+  dialects: Map<string, string | undefined>
+): Promise<QuestionResult> {
+  const base = { questionId: question.id, documentId: question.documentId, question: question.question };
+  const start = Date.now();
+  try {
+    const chunks = await retrieveRelevantChunks({
+      query: question.question,
+      documentIds: [question.documentId],
+      supabase,
+      matchCount: k,
+      dialect: dialects.get(question.documentId)
+    });
+    const ranked: RankedChunk[] = chunks.map(c => ({ id: c.chunk_id, text: c.chunk_text, sloCodes: c.slo_codes }));
+
+    const answer = await generateAIResponse(
+      question.question,
+      { turns: [], threadId: `eval-${runId}`, evaluation: true },
+      userId,
+      supabase,
+      // Scopes the response cache to this run, so answers are never stale
+      `[EVALUATION_RUN: ${runId}]`,
+      undefined,
+      'chat_tutor',
+      undefined,
+      question.documentId
+    );
+
+    const cited = citedSlos(answer.text);
+    const supported = new Set([...question.expectedSlos, ...ranked.flatMap(c => c.sloCodes.map(normalizeSLO))]);
+    const known = new Set<string>();
+    if (cited.length > 0) {
+      const [{ data: ledger }, { data: carriers }] = await Promise.all([
+        supabase.from('slo_database').select('slo_code').in('slo_code', cited),
+        supabase.from('document_chunks').select('slo_codes').eq('document_id', question.documentId).overlaps('slo_codes', cited)
+      ]);
+      (ledger || []).forEach(row => known.add(normalizeSLO(row.slo_code)));
+      (carriers || []).forEach(row => (row.slo_codes || []).forEach((code: string) => known.add(normalizeSLO(code))));
+    }
+
+    return {
+      ...base,
+      recall: recallAtK(ranked, question, k),
+      reciprocalRank: reciprocalRank(ranked, question, k),
+      citedSlos: cited,
+      correctCitations: cited.filter(code => supported.has(code)),
+      hallucinatedSlos: cited.filter(code => !known.has(code)),
+      provider: answer.provider,
+      latencyMs: Date.now() - start
+    };
+  } catch (e: any) {
+    return {
+      ...base, recall: 0, reciprocalRank: 0, citedSlos: [], correctCitations: [], hallucinatedSlos: [],
+      provider: 'none', latencyMs: Date.now() - start, error: e.message || 'Evaluation failed'
+    };
+  }
+}
+
+class RagEvaluator {
+  /** Fixes the question set and creates the run; advance() does the work. */
+  async start(options: EvalOptions = {}): Promise<EvalRun> {
+    const k = Math.max(1, Math.min(20, Math.floor(options.k || DEFAULT_EVAL_K)));
+    const supabase = getSupabaseAdminClient();
+    const questions = (await goldenSetStore.list(options.documentIds)).slice(0, MAX_QUESTIONS);
+    if (questions.length === 0) {
+      throw Object.assign(new Error('No golden questions to evaluate.'), { issues: ['Add golden questions for at least one document.'] });
+    }
+
+    await supabase
+      .from('rag_eval_runs')
+      .update({ status: 'failed', finished_at: new Date().toISOString() })
+      .eq('status', 'running')
+      .lt('updated_at', new Date(Date.now() - STALE_RUN_MS).toISOString());
+
+    const { data: created, error } = await supabase
+      .from('rag_eval_runs')
+      .insert({ k, status: 'running', question_ids: questions.map(q => q.id), triggered_by: options.triggeredBy || null })
+      .select()
+      .single();
+    if (error) throw error;
+    return toRun(created);
+  }
+
+  /**
+   * Evaluates the next batch of unanswered questions and saves the results;
+   * the batch that answers the last question completes the run. Finished runs
+   * are returned unchanged.
+   */
+  async advance(runId: string): Promise<EvalRun> {
+    const supabase = getSupabaseAdminClient();
+    const run = await this.get(runId);
+    if (!run) throw new Error('Evaluation run not found.');
+    if (run.status !== 'running') return run;
+
+    try {
+      const answered = new Set(run.results.map(r => r.questionId));
+      const batchIds = run.questionIds.filter(id => !answered.has(id)).slice(0, BATCH_QUESTIONS);
+      const questions = new Map((await goldenSetStore.byIds(batchIds)).map(q => [q.id, q]));
+      // Questions deleted since the run started leave the set
+      const questionIds = run.questionIds.filter(id => !batchIds.includes(id) || questions.has(id));
+      const batch = Array.from(questions.values());
+
+      // Synthesis runs as the document owner, so retrieval sees what they see
+      const documentIds = Array.from(new Set(batch.map(q => q.documentId)));
+      const { data: docs } = documentIds.length
+        ? await supabase.from('documents').select('id, user_id, master_md_dialect').in('id', documentIds)
+        : { data: [] };
+      const owners = new Map((docs || []).map(d => [d.id, d.user_id as string]));
+      const dialects = new Map((docs || []).map(d => [d.id, d.master_md_dialect || undefined]));
+
+      const results: QuestionResult[] = [];
+      for (let i = 0; i < batch.length; i += CONCURRENCY) {
+        results.push(...await Promise.all(batch.slice(i, i + CONCURRENCY).map(q =>
+          owners.has(q.documentId)
+            ? evaluateQuestion(q, runId, run.k, owners.get(q.documentId)!, supabase, dialects)
+            : Promise.resolve<QuestionResult>({
+                questionId: q.id, documentId: q.documentId, question: q.question, recall: 0, reciprocalRank: 0,
+                citedSlos: [], correctCitations: [], hallucinatedSlos: [], provider: 'none', latencyMs: 0,
+                error: 'Document no longer exists.'
+              })
+        )));
+      }
+
+      const all = [...run.results, ...results];
+      const finished = questionIds.every(id => all.some(r => r.questionId === id));
+      const now = new Date().toISOString();
+      const { data: saved, error: saveError } = await supabase
+        .from('rag_eval_runs')
+        .update(finished
+          ? { status: 'completed', metrics: aggregateMetrics(all), by_document: metricsByDocument(all), results: all, question_ids: questionIds, updated_at: now, finished_at: now }
+          : { results: all, question_ids: questionIds, updated_at: now })
+        .eq('id', runId)
+        .select()
+        .single();
+      if (saveError) throw saveError;
+      return toRun(saved);
+    } catch (e) {
+      await supabase.from('rag_eval_runs').update({ status: 'failed', finished_at: new Date().toISOString() }).eq('id', runId);
+      throw e;
+    }
+  }
+
+  /** Newest first; per-question results are left out to keep the payload small. */
+  async history(limit = HISTORY_LIMIT): Promise<EvalRun[]> {
+    const { data, error } = await getSupabaseAdminClient()
+      .from('rag_eval_runs')
+      .select('id, k, status, metrics, by_document, question_ids, triggered_by, created_at, finished_at')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    if (error) throw error;
+    return (data || []).map(toRun);
+  }
+
+  async get(runId: string): Promise<EvalRun | null> {
+    const { data, error } = await getSupabaseAdminClient().from('rag_eval_runs').select('*').eq('id', runId).maybeSingle();
+    if (error) throw error;
+    return data ? toRun(data) : null;
+  }
+}
+
+export const ragEvaluator = new RagEvaluator();
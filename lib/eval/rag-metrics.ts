@@ -0,0 +1,117 @@
+import { extractSLOCodes, normalizeSLO } from '../rag/slo-extractor';
+
+/**
+ * RAG EVALUATION METRICS (v1.0)
+ * Pure scoring for golden-set runs, shared by the evaluator and the audit
+ * dashboard. A retrieved chunk is relevant when it is the expected chunk
+ * (by id, or by containing the expected excerpt after re-indexing) or, when
+ * the question names no chunk, when it carries an expected SLO code.
+ */
+
+export const DEFAULT_EVAL_K = 5;
+
+export interface GoldenQuestion {
+  id: string;
+  documentId: string;
+  question: string;
+  expectedSlos: string[];                 // Normalized codes
+  expectedChunkId: string | null;
+  expectedExcerpt: string | null;         // Survives re-chunking, unlike the id
+  createdAt: string;
+}
+
+export interface RankedChunk {
+  id: string;
+  text: string;
+  sloCodes: string[];
+}
+
+export interface QuestionResult {
+  questionId: string;
+  documentId: string;
+  question: string;
+  recall: number;                         // Share of expected targets in the top k
+  reciprocalRank: number;                 // 1 / rank of the first relevant chunk, 0 if none
+  citedSlos: string[];
+  correctCitations: string[];             // Expected, or carried by a retrieved chunk
+  hallucinatedSlos: string[];             // Neither in slo_database nor in the document
+  provider: string;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface EvalMetrics {
+  questions: number;
+  recallAtK: number;
+  mrr: number;
+  citationAccuracy: number | null;        // Null when no answer cited an SLO
+  sloHallucinationRate: number | null;
+  averageLatencyMs: number;
+  failed: number;
+}
+
+export interface EvalRun {
+  id: string;
+  k: number;
+  status: 'running' | 'completed' | 'failed';
+  metrics: EvalMetrics | null;
+  byDocument: Record<string, EvalMetrics>;
+  results: QuestionResult[];
+  questionIds: string[];                  // Fixed when the run starts; results fill in batch by batch
+  triggeredBy: string | null;
+  createdAt: string;
+  finishedAt: string | null;
+}
+
+const squash = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+export function isRelevant(chunk: RankedChunk, question: GoldenQuestion): boolean {
+  if (question.expectedChunkId && chunk.id === question.expectedChunkId) return true;
+  if (question.expectedExcerpt && squash(chunk.text).includes(squash(question.expectedExcerpt))) return true;
+  if (question.expectedChunkId || question.expectedExcerpt) return false;
+  return chunk.sloCodes.some(code => question.expectedSlos.includes(normalizeSLO(code)));
+}
+
+/** Expected chunk counts as one target; otherwise each expected SLO does. */
+export function recallAtK(ranked: RankedChunk[], question: GoldenQuestion, k: number): number {
+  const top = ranked.slice(0, k);
+  if (question.expectedChunkId || question.expectedExcerpt) {
+    return top.some(c => isRelevant(c, question)) ? 1 : 0;
+  }
+  if (question.expectedSlos.length === 0) return 0;
+  const found = question.expectedSlos.filter(code => top.some(c => c.sloCodes.map(normalizeSLO).includes(code)));
+  return found.length / question.expectedSlos.length;
+}
+
+export function reciprocalRank(ranked: RankedChunk[], question: GoldenQuestion, k: number): number {
+  const rank = ranked.slice(0, k).findIndex(c => isRelevant(c, question));
+  return rank === -1 ? 0 : 1 / (rank + 1);
+}
+
+export function citedSlos(answer: string): string[] {
+  return Array.from(new Set(extractSLOCodes(answer).map(s => normalizeSLO(s.code))));
+}
+
+const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+// Citation figures are pooled over every cited code, so one answer that cites
+// ten codes weighs more than one that cites a single code
+export function aggregateMetrics(results: QuestionResult[]): EvalMetrics {
+  const scored = results.filter(r => !r.error);
+  const cited = scored.reduce((n, r) => n + r.citedSlos.length, 0);
+  return {
+    questions: results.length,
+    recallAtK: mean(scored.map(r => r.recall)),
+    mrr: mean(scored.map(r => r.reciprocalRank)),
+    citationAccuracy: cited ? scored.reduce((n, r) => n + r.correctCitations.length, 0) / cited : null,
+    sloHallucinationRate: cited ? scored.reduce((n, r) => n + r.hallucinatedSlos.length, 0) / cited : null,
+    averageLatencyMs: Math.round(mean(scored.map(r => r.latencyMs))),
+    failed: results.length - scored.length
+  };
+}
+
+export function metricsByDocument(results: QuestionResult[]): Record<string, EvalMetrics> {
+  const groups = new Map<string, QuestionResult[]>();
+  for (const r of results) groups.set(r.documentId, [...(groups.get(r.documentId) || []), r]);
+  return Object.fromEntries(Array.from(groups, ([documentId, group]) => [documentId, aggregateMetrics(group)]));
+}
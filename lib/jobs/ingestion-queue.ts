@@ -1,5 +1,6 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import { IngestionStep, JobStatus } from '../../types';
+import type { SegmentCheckpoint } from '../rag/curriculum-linearizer';
 
 interface JobProgress {
   step: IngestionStep;
@@ -49,6 +50,18 @@ export class IngestionQueue {
       .eq('id', jobId);
   }
 
+  /**
+   * Saves linearized segments so the next invocation resumes from them.
+   */
+  async saveSegments(jobId: string, checkpoint: SegmentCheckpoint) {
+    const { error } = await this.supabase
+      .from('ingestion_jobs')
+      .update({ segment_outputs: checkpoint, updated_at: new Date().toISOString() })
+      .eq('id', jobId);
+
+    if (error) throw error;
+  }
+
   /**
    * Finalizes the job.
    */
@@ -1,11 +1,68 @@
 /**
- * NEURAL KV INTERFACE (v2.0)
+ * NEURAL KV INTERFACE (v2.1)
  * Unified storage for Rate Limits and Vector Caching.
  * AUDIT IMPLEMENTATION: Cache Leasing to prevent thundering herds.
+ * v2.1: Owner-token leases and token buckets are atomic across instances.
  */
+export interface BucketSpec {
+  key: string;
+  capacity: number;          // Burst size
+  refillPerMs: number;       // Sustained rate
+}
+
+export interface BucketDecision {
+  allowed: boolean;
+  remaining: number[];       // Tokens left per bucket, in request order
+  retryAfterMs: number;      // 0 when allowed
+  limitedIndex: number;      // Bucket that refused, -1 when allowed
+}
+
+// Atomic multi-bucket take: refill every bucket from Redis TIME, consume from
+// all of them only if all have `cost` tokens, otherwise consume nothing.
+// ARGV: cost, ttlMs, then capacity/refillPerMs pairs in KEYS order.
+const TAKE_TOKENS_SCRIPT = `
+local t = redis.call('TIME')
+local now = tonumber(t[1]) * 1000 + math.floor(tonumber(t[2]) / 1000)
+local cost = tonumber(ARGV[1])
+local ttl = tonumber(ARGV[2])
+local levels = {}
+local limited = -1
+local retry = 0
+for i, key in ipairs(KEYS) do
+  local capacity = tonumber(ARGV[1 + i * 2])
+  local rate = tonumber(ARGV[2 + i * 2])
+  local state = redis.call('HMGET', key, 'tokens', 'ts')
+  local tokens = tonumber(state[1]) or capacity
+  local ts = tonumber(state[2]) or now
+  tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate)
+  levels[i] = tokens
+  if tokens < cost then
+    local wait = math.ceil((cost - tokens) / rate)
+    if wait > retry then retry = wait; limited = i - 1 end
+  end
+end
+local remaining = {}
+for i, key in ipairs(KEYS) do
+  local tokens = levels[i]
+  if limited == -1 then tokens = tokens - cost end
+  redis.call('HSET', key, 'tokens', tostring(tokens), 'ts', now)
+  redis.call('PEXPIRE', key, ttl)
+  remaining[i] = tostring(tokens)
+end
+return { limited, retry, remaining }
+`;
+
+// Compare-and-delete so a lease can only be released by the instance that holds it
+const RELEASE_LEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) end
+return 0
+`;
+
+const BUCKET_TTL_MS = 2 * 86400_000;
+
 class KVStore {
   private memory = new Map<string, { value: any; expiry: number }>();
-  private leases = new Set<string>(); // Active fetch locks
+  private leaseTokens = new Map<string, string>(); // Leases held by this instance → owner token
   private redisUrl = process.env.UPSTASH_REDIS_REST_URL;
   private redisToken = process.env.UPSTASH_REDIS_REST_TOKEN;
 
@@ -13,18 +70,115 @@ class KVStore {
     return !!(this.redisUrl && this.redisToken);
   }
 
+  /**
+   * Raw Redis command through the Upstash REST body form, which (unlike the
+   * path form) is safe for arbitrary argument values.
+   */
+  private async command<T = any>(args: Array<string | number>): Promise<T> {
+    const res = await fetch(this.redisUrl!, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.redisToken}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(args.map(String))
+    });
+    const data = await res.json();
+    if (data.error) throw new Error(data.error);
+    return data.result as T;
+  }
+
   /**
    * Acquire a temporary lease (lock) on a key to prevent redundant AI calls.
+   * Distributed when Redis is configured (SET NX PX), process-local otherwise.
    */
   async acquireLease(key: string, timeoutMs: number = 5000): Promise<boolean> {
-    if (this.leases.has(key)) return false;
-    this.leases.add(key);
-    setTimeout(() => this.leases.delete(key), timeoutMs);
+    const leaseKey = `lease:${key}`;
+    const token = crypto.randomUUID();
+
+    if (this.isRedisActive()) {
+      try {
+        const result = await this.command<string | null>(['SET', leaseKey, token, 'NX', 'PX', timeoutMs]);
+        if (result !== 'OK') return false;
+        this.leaseTokens.set(key, token);
+        return true;
+      } catch (e) {
+        console.warn('⚠️ [KV] Redis Lease Error, falling back to memory.');
+      }
+    }
+
+    const held = this.memory.get(leaseKey);
+    if (held && Date.now() <= held.expiry) return false;
+    this.memory.set(leaseKey, { value: token, expiry: Date.now() + timeoutMs });
+    this.leaseTokens.set(key, token);
     return true;
   }
 
-  async releaseLease(key: string): Promise<void> {
-    this.leases.delete(key);
+  /**
+   * Releases a lease this instance holds. `force` drops it regardless of
+   * owner (admin resets).
+   */
+  async releaseLease(key: string, force: boolean = false): Promise<void> {
+    const leaseKey = `lease:${key}`;
+    const token = this.leaseTokens.get(key);
+    this.leaseTokens.delete(key);
+    if (!token && !force) return;
+
+    if (this.isRedisActive()) {
+      try {
+        if (force) await this.command(['DEL', leaseKey]);
+        else await this.command(['EVAL', RELEASE_LEASE_SCRIPT, 1, leaseKey, token!]);
+      } catch (e) {
+        console.warn('⚠️ [KV] Redis Lease Release Error.');
+      }
+    }
+    if (force || this.memory.get(leaseKey)?.value === token) this.memory.delete(leaseKey);
+  }
+
+  /**
+   * Token-bucket admission across several buckets at once. Atomic in Redis
+   * (one Lua script); the memory fallback is atomic within this process.
+   */
+  async takeTokens(buckets: BucketSpec[], cost: number = 1): Promise<BucketDecision> {
+    if (buckets.length === 0) return { allowed: true, remaining: [], retryAfterMs: 0, limitedIndex: -1 };
+
+    if (this.isRedisActive()) {
+      try {
+        const args = buckets.flatMap(b => [b.capacity, b.refillPerMs]);
+        const [limited, retry, remaining] = await this.command<[number, number, string[]]>([
+          'EVAL', TAKE_TOKENS_SCRIPT, buckets.length, ...buckets.map(b => `bucket:${b.key}`),
+          cost, BUCKET_TTL_MS, ...args
+        ]);
+        return {
+          allowed: limited === -1,
+          remaining: remaining.map(r => Math.max(0, Math.floor(Number(r)))),
+          retryAfterMs: limited === -1 ? 0 : retry,
+          limitedIndex: limited
+        };
+      } catch (e) {
+        console.warn('⚠️ [KV] Redis Bucket Error, falling back to memory.');
+      }
+    }
+
+    const now = Date.now();
+    const levels = buckets.map(b => {
+      const state = this.memory.get(`bucket:${b.key}`)?.value as { tokens: number; ts: number } | undefined;
+      const tokens = state ? state.tokens + Math.max(0, now - state.ts) * b.refillPerMs : b.capacity;
+      return Math.min(b.capacity, tokens);
+    });
+
+    let limitedIndex = -1;
+    let retryAfterMs = 0;
+    levels.forEach((tokens, i) => {
+      if (tokens >= cost) return;
+      const wait = Math.ceil((cost - tokens) / buckets[i].refillPerMs);
+      if (wait > retryAfterMs) { retryAfterMs = wait; limitedIndex = i; }
+    });
+
+    const remaining = levels.map((tokens, i) => {
+      const next = limitedIndex === -1 ? tokens - cost : tokens;
+      this.memory.set(`bucket:${buckets[i].key}`, { value: { tokens: next, ts: now }, expiry: now + BUCKET_TTL_MS });
+      return Math.max(0, Math.floor(next));
+    });
+
+    return { allowed: limitedIndex === -1, remaining, retryAfterMs, limitedIndex };
   }
 
   async get<T>(key: string): Promise<T | null> {
@@ -52,9 +206,8 @@ class KVStore {
   async set(key: string, value: any, ttlSeconds: number = 3600): Promise<void> {
     if (this.isRedisActive()) {
       try {
-        await fetch(`${this.redisUrl}/set/${key}/${JSON.stringify(value)}/EX/${ttlSeconds}`, {
-          headers: { Authorization: `Bearer ${this.redisToken}` }
-        });
+        // Body form: values may be large or contain '/'
+        await this.command(['SET', key, JSON.stringify(value), 'EX', ttlSeconds]);
         return;
       } catch (e) {
         console.warn('⚠️ [KV] Redis Set Error.');
@@ -73,6 +226,24 @@ class KVStore {
     }
   }
 
+  /**
+   * Atomic counter (generation numbers for cache invalidation). Keys never
+   * expire, so a counter only ever moves forward.
+   */
+  async incr(key: string): Promise<number> {
+    if (this.isRedisActive()) {
+      try {
+        return await this.command<number>(['INCR', key]);
+      } catch (e) {
+        console.warn('⚠️ [KV] Redis Incr Error, falling back to memory.');
+      }
+    }
+
+    const next = (Number(this.memory.get(key)?.value) || 0) + 1;
+    this.memory.set(key, { value: next, expiry: Number.MAX_SAFE_INTEGER });
+    return next;
+  }
+
   async delete(key: string): Promise<void> {
     if (this.isRedisActive()) {
       await fetch(`${this.redisUrl}/del/${key}`, {
@@ -1,3 +1,5 @@
+import { defineSchema } from '../ai/structured-output';
+
 
 export interface AssessmentOptions {
   type: 'formative' | 'summative';
@@ -29,9 +31,60 @@ export interface Assessment {
   estimatedTime: number;
 }
 
+/**
+ * Structured-output contract for the assessment generator. Totals are
+ * derived from the questions rather than trusted from the model.
+ */
+export const ASSESSMENT_SCHEMA = defineSchema<Assessment>('ASSESSMENT', {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    instructions: { type: 'string' },
+    questions: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          type: { type: 'string' },
+          question: { type: 'string' },
+          options: { type: 'array', items: { type: 'string' } },
+          correctAnswer: { type: 'string' },
+          explanation: { type: 'string' },
+          points: { type: 'number' },
+          bloomLevel: { type: 'string' },
+          difficulty: { type: 'string' },
+          rubricCriteria: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['question', 'correctAnswer', 'bloomLevel']
+      }
+    },
+    estimatedTime: { type: 'number', description: 'Minutes' }
+  },
+  required: ['title', 'questions']
+}, (value): Assessment => {
+  const questions: Question[] = value.questions.map((q: any, i: number) => ({
+    ...q,
+    id: q.id || `q${i + 1}`,
+    type: q.type || 'MCQ',
+    explanation: q.explanation || '',
+    points: q.points ?? 1,
+    difficulty: q.difficulty || 'Medium'
+  }));
+  return {
+    title: value.title,
+    instructions: value.instructions || '',
+    questions,
+    totalPoints: questions.reduce((sum, q) => sum + q.points, 0),
+    estimatedTime: value.estimatedTime ?? questions.length * 2
+  };
+});
+
 export function buildAssessmentPrompt(
   lessonContent: string,
-  options: AssessmentOptions
+  options: AssessmentOptions,
+  curriculumExtracts: string[] = []
 ): string {
   
   const crqInstruction = options.format === 'CRQ' ? 
@@ -49,7 +102,10 @@ REQUIREMENTS:
 - Difficulty: ${options.difficulty}
 ${options.standards ? `- Must align with standards: ${options.standards.join(', ')}` : ''}
 ${crqInstruction}
-
+${curriculumExtracts.length ? `
+CURRICULUM EXTRACTS (from the focused document; align questions and SLO codes with these):
+${curriculumExtracts.map(extract => `---\n${extract}`).join('\n')}
+` : ''}
 For each question, provide:
 1. Question text
 2. Answer options (only for MCQ)
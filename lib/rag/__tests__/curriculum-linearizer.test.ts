@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { resumeLinearization, LinearizeOptions, SegmentCheckpoint } from '../curriculum-linearizer';
+
+// Three grades, each larger than the 200-token budget allows together
+const SOURCE = [1, 2, 3].map(g => `Grade ${g}\n${`Students describe topic ${g}. `.repeat(20)}`).join('\n\n');
+
+function options(calls: number[]): LinearizeOptions {
+  return {
+    chain: [{ engine: 'gemini', maxTokens: 200 }],
+    buildPrompt: (source) => source,
+    call: async (_prompt, index) => {
+      calls.push(index);
+      return `# GRADE ${index + 1}\n${'Linearized content. '.repeat(10)}`;
+    }
+  };
+}
+
+describe('resumeLinearization', () => {
+  it('runs one batch per invocation and resumes from the saved outputs', async () => {
+    const calls: number[] = [];
+    let checkpoint: SegmentCheckpoint | null = null;
+    const resume = () => ({ checkpoint, save: async (c: SegmentCheckpoint) => { checkpoint = c; }, batchSize: 2 });
+
+    const first = await resumeLinearization(SOURCE, options(calls), resume());
+    expect(first).toMatchObject({ pending: 1, done: 2, total: 3 });
+    expect(Object.keys(checkpoint!.outputs)).toEqual(['0', '1']);
+
+    const second = await resumeLinearization(SOURCE, options(calls), resume());
+    expect(calls).toEqual([0, 1, 2]);
+    if ('pending' in second) throw new Error('still pending');
+    expect(second.segments).toBe(3);
+    expect(second.markdown).toContain('# GRADE 3');
+  });
+
+  it('discards outputs saved for a different segmentation', async () => {
+    const calls: number[] = [];
+    const stale: SegmentCheckpoint = { plan: 'other', outputs: { 0: 'old output' } };
+    await resumeLinearization(SOURCE, options(calls), { checkpoint: stale, save: async () => {}, batchSize: 1 });
+    expect(calls).toEqual([0]);
+  });
+
+  it('saves finished segments before surfacing a failed one', async () => {
+    let checkpoint: SegmentCheckpoint | null = null;
+    const failing: LinearizeOptions = {
+      ...options([]),
+      call: async (_prompt, index) => index === 0 ? 'too short' : 'x'.repeat(200)
+    };
+    await expect(resumeLinearization(SOURCE, failing, {
+      save: async c => { checkpoint = c; },
+      batchSize: 2
+    })).rejects.toThrow('Segment 1/3');
+    expect(Object.keys(checkpoint!.outputs)).toEqual(['1']);
+  });
+});
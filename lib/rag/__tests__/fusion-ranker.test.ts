@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { Bm25Index, LocalRetriever, RankCandidate, cosineSimilarity, parseEmbedding, rankCandidates } from '../fusion-ranker';
+
+const chunk = (id: string, text: string, extra: Partial<RankCandidate> = {}): RankCandidate => ({
+  id, documentId: 'doc-1', text, sloCodes: [], ...extra
+});
+
+const CHUNKS: RankCandidate[] = [
+  chunk('photo', 'Photosynthesis converts light energy into chemical energy in plants', { embedding: [1, 0] }),
+  chunk('cells', 'Cells are the basic unit of life; plants have cell walls', { embedding: [0, 1] }),
+  chunk('slo', 'Learners describe the structure of a leaf', { sloCodes: ['B07A01'], embedding: [0.6, 0.8] })
+];
+
+describe('Bm25Index', () => {
+  it('scores documents sharing query terms and leaves the rest at zero', () => {
+    const scores = new Bm25Index(CHUNKS.map(c => c.text)).score('photosynthesis in plants');
+    expect(scores[0]).toBeGreaterThan(scores[1]);
+    expect(scores[1]).toBeGreaterThan(0);
+    expect(scores[2]).toBe(0);
+  });
+});
+
+describe('vector helpers', () => {
+  it('computes cosine similarity and parses pgvector strings', () => {
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([1, 1], [2, 2])).toBeCloseTo(1);
+    expect(parseEmbedding('[0.5,0.25]')).toEqual([0.5, 0.25]);
+    expect(parseEmbedding('not a vector')).toBeNull();
+  });
+});
+
+describe('rankCandidates', () => {
+  it('puts the chunk that leads every list first with a normalized score of 1', () => {
+    const [top] = rankCandidates('photosynthesis', CHUNKS, [1, 0]);
+    expect(top.candidate.id).toBe('photo');
+    expect(top.score).toBeCloseTo(1);
+    expect(top.ranks).toEqual({ bm25: 1, vector: 1, slo: undefined });
+  });
+
+  it('lifts chunks carrying an SLO code named in the query', () => {
+    const ranked = rankCandidates('What does B07A01 ask for?', CHUNKS, null);
+    expect(ranked[0].candidate.id).toBe('slo');
+    expect(ranked[0].sloMatches).toBe(1);
+  });
+
+  it('leaves the vector list out without a query embedding', () => {
+    const ranked = rankCandidates('plants', CHUNKS);
+    expect(ranked.every(r => r.ranks.vector === undefined)).toBe(true);
+    expect(ranked.map(r => r.candidate.id)).not.toContain('slo');
+  });
+
+  it('applies weight overrides and the score floor', () => {
+    const vectorOnly = rankCandidates('plants', CHUNKS, [0, 1], { weights: { bm25: 0, slo: 0 } });
+    expect(vectorOnly[0].candidate.id).toBe('cells');
+    expect(rankCandidates('plants', CHUNKS, [0, 1], { minScore: 0.99 }).length).toBeLessThan(CHUNKS.length);
+  });
+});
+
+describe('LocalRetriever', () => {
+  it('searches only the requested documents', () => {
+    const retriever = new LocalRetriever([...CHUNKS, chunk('other', 'Photosynthesis in algae', { documentId: 'doc-2' })]);
+    expect(retriever.search('photosynthesis', { documentIds: ['doc-2'] }).map(r => r.candidate.id)).toEqual(['other']);
+    expect(retriever.search('photosynthesis', { topK: 1 })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { layoutPageText, splitMarkdownTables, tableRowChunks, PositionedText } from '../table-detector';
+
+const at = (str: string, x: number, y: number): PositionedText => ({ str, x, y, width: str.length * 5 });
+
+// Progression grid: grade columns × domain rows, one SLO cell wrapping onto a second line
+const GRID_PAGE: PositionedText[] = [
+  at('Progression Grid', 50, 800),
+  at('Domain', 50, 760), at('Grade 6', 200, 760), at('Grade 7', 350, 760),
+  at('Cells', 50, 740), at('B06A01 describe cell', 200, 740), at('B07A01 compare cells', 350, 740),
+  at('and organelles', 200, 728),
+  at('Energy', 50, 710), at('B06B01 food chains', 200, 710), at('B07B01 photosynthesis', 350, 710),
+  at('Footer text here', 50, 600)
+];
+
+// Ordinary prose set in two columns: aligned, but not a grid
+const TWO_COLUMN_PROSE: PositionedText[] = [
+  at('Science helps learners explain the natural', 50, 760), at('Teachers should connect each new concept to', 320, 760),
+  at('world through careful observation and the', 50, 746), at('the everyday experience of the learners in', 320, 746),
+  at('testing of ideas against evidence gathered', 50, 732), at('their classroom and build on what they have', 320, 732),
+  at('in the classroom and in the field trips.', 50, 718), at('already understood in the earlier grades.', 320, 718)
+];
+
+describe('layoutPageText', () => {
+  it('renders a progression grid as a Markdown table', () => {
+    const text = layoutPageText(GRID_PAGE);
+    expect(text).toContain('| Domain | Grade 6 | Grade 7 |');
+    expect(text).toContain('| Cells | B06A01 describe cell and organelles | B07A01 compare cells |');
+    expect(text).toContain('| Energy | B06B01 food chains | B07B01 photosynthesis |');
+  });
+
+  it('reads two-column prose column by column instead of as a table', () => {
+    const text = layoutPageText(TWO_COLUMN_PROSE);
+    expect(text).not.toContain('|');
+    expect(text.indexOf('in the classroom and in the field trips.'))
+      .toBeLessThan(text.indexOf('Teachers should connect each new concept to'));
+    expect(splitMarkdownTables(text).every(s => s.kind === 'text')).toBe(true);
+  });
+});
+
+describe('tableRowChunks', () => {
+  it('keeps every row with its header row', () => {
+    const [segment] = splitMarkdownTables(layoutPageText(GRID_PAGE)).filter(s => s.kind === 'table');
+    if (segment.kind !== 'table') throw new Error('no table');
+    const chunks = tableRowChunks(segment.table);
+    expect(chunks.map(c => c.row[0])).toEqual(['Cells', 'Energy']);
+    chunks.forEach(c => expect(c.markdown.startsWith('| Domain | Grade 6 | Grade 7 |')).toBe(true));
+  });
+
+  it('splits over-long rows into column groups that keep the label column', () => {
+    const chunks = tableRowChunks({
+      headers: ['Domain', 'G6', 'G7', 'G8'],
+      rows: [['Cells', 'a'.repeat(50), 'b'.repeat(50), 'c'.repeat(50)]]
+    }, 150);
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(c => expect(c.row[0]).toBe('Cells'));
+    expect(chunks.flatMap(c => c.headers.slice(1))).toEqual(['G6', 'G7', 'G8']);
+  });
+});
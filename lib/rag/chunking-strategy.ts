@@ -1,8 +1,12 @@
 /**
  * PEDAGOGICAL CHUNKING ENGINE
  * Splits documents into overlapping, meaningful units focused on curriculum standards.
+ * Markdown tables are chunked row by row (see table-detector.ts); only the
+ * prose around them goes through the regex and sliding-window strategies.
  */
 
+import { splitMarkdownTables, tableRowChunks } from './table-detector';
+
 export interface DocumentChunk {
   text: string;
   index: number;
@@ -11,6 +15,7 @@ export interface DocumentChunk {
   keywords: string[];
   pageNumber?: number;
   sectionTitle?: string;
+  table?: string;                    // Markdown of the header row and this table row
 }
 
 /**
@@ -21,31 +26,53 @@ export function chunkDocument(documentText: string): DocumentChunk[] {
   
   const chunks: DocumentChunk[] = [];
   let chunkIndex = 0;
+  const prose: string[] = [];
+
+  // STRATEGY 0: Table rows, each with its header row, so grade columns never mix
+  for (const segment of splitMarkdownTables(documentText)) {
+    if (segment.kind === 'text') {
+      prose.push(segment.text);
+      continue;
+    }
+    for (const row of tableRowChunks(segment.table)) {
+      const mentionedSLOs = extractSLOCodes(row.markdown);
+      chunks.push({
+        text: row.markdown,
+        index: chunkIndex++,
+        type: mentionedSLOs.length ? 'slo' : determineChunkType(row.markdown),
+        sloMentioned: mentionedSLOs,
+        keywords: extractKeywords(row.markdown),
+        sectionTitle: row.row[0] || undefined,
+        table: row.markdown,
+      });
+    }
+  }
+  const proseText = prose.join('\n');
   
   // STRATEGY 1: Extract SLO-specific chunks (PRIORITY)
   // Matches patterns like S8a5, 8.1.2, G-IV-A, etc.
   const sloPattern = /\b([A-Z])?(\d{1,2})([a-z])?(\d{1,2})[:\s-]+([^.]+\.)/gi;
   let match;
   
-  while ((match = sloPattern.exec(documentText)) !== null) {
+  while ((match = sloPattern.exec(proseText)) !== null) {
     const rawMatch = match[0];
     const sloCode = rawMatch.split(/[:\s-]/)[0].toUpperCase();
     
     // Provide 200 chars prefix and 800 chars suffix for context
     const startPos = Math.max(0, match.index - 200);
-    const endPos = Math.min(documentText.length, match.index + 800);
+    const endPos = Math.min(proseText.length, match.index + 800);
     
     chunks.push({
-      text: documentText.substring(startPos, endPos).trim(),
+      text: proseText.substring(startPos, endPos).trim(),
       index: chunkIndex++,
       type: 'slo',
       sloMentioned: [sloCode],
-      keywords: extractKeywords(documentText.substring(startPos, endPos)),
+      keywords: extractKeywords(proseText.substring(startPos, endPos)),
     });
   }
   
   // STRATEGY 2: Sliding Window for conceptual coverage
-  const words = documentText.split(/\s+/);
+  const words = proseText.split(/\s+/);
   const wordsPerChunk = 400;
   const overlap = 100;
   
@@ -0,0 +1,223 @@
+import { parseStructured, SLO_INDEX_SCHEMA, ParsedSLO } from '../ai/structured-output';
+import { chainBudget, estimateTokens, splitForBudget, TextSegment } from '../ai/token-budget';
+import type { RoutingEntry } from '../ai/routing-table';
+import { providerRegistry } from '../ai/providers/registry';
+
+/**
+ * MAP-REDUCE LINEARIZER (v1.0)
+ * Documents that fit the routing chain's budget go out in one call. Larger
+ * ones are split at grade/domain boundaries (see token-budget), linearized in
+ * parallel (the request queue paces the calls) and merged: repeated headings
+ * at segment seams are dropped and the per-segment <STRUCTURED_INDEX> blocks
+ * become one index, de-duplicated by SLO code.
+ * resumeLinearization runs the same plan a bounded batch at a time, saving
+ * each segment's output so a request-bound caller can pick up where the
+ * previous invocation stopped.
+ */
+
+const INDEX_BLOCK = /<STRUCTURED_INDEX>([\s\S]*?)<\/STRUCTURED_INDEX>/g;
+const METADATA_HEADER = /^#\s*Curriculum Metadata\b/i;
+const MIN_SEGMENT_OUTPUT = 100;
+
+export interface LinearizeOptions {
+  chain: Array<Pick<RoutingEntry, 'engine' | 'maxTokens'>>;
+  buildPrompt: (source: string, segment?: SegmentNote) => string;
+  call: (prompt: string, index: number) => Promise<string>;
+  onSegment?: (done: number, total: number) => void | Promise<void>;
+}
+
+export interface SegmentNote {
+  index: number;
+  total: number;
+  grade?: string;
+  domain?: string;
+}
+
+export interface SegmentCheckpoint {
+  plan: string;                      // Segmentation the outputs belong to
+  outputs: Record<number, string>;   // Segment index → linearized output
+}
+
+export interface ResumeOptions {
+  checkpoint?: SegmentCheckpoint | null;
+  save: (checkpoint: SegmentCheckpoint) => Promise<void>;
+  batchSize: number;                 // Segments run per invocation
+}
+
+export interface PendingLinearization {
+  pending: number;                   // Segments left for the next invocation
+  done: number;
+  total: number;
+}
+
+export interface LinearizeResult {
+  markdown: string;                  // Master markdown with one merged <STRUCTURED_INDEX>
+  index: ParsedSLO[];
+  segments: number;
+}
+
+/**
+ * Instruction appended to a segment prompt so the engine knows it is seeing
+ * part of a document and where that part sits.
+ */
+export function segmentInstruction(note: SegmentNote): string {
+  const position = [note.grade, note.domain].filter(Boolean).join(' > ');
+  return [
+    `[SEGMENT ${note.index + 1} OF ${note.total}]`,
+    'This is one part of a larger curriculum document. Linearize ONLY this part.',
+    note.index > 0 ? 'Do NOT repeat the Curriculum Metadata section.' : '',
+    position ? `The text continues inside: ${position}. Repeat those headings before the first SLO.` : '',
+    'End with a <STRUCTURED_INDEX> block listing only the SLOs in this part.'
+  ].filter(Boolean).join('\n');
+}
+
+function planSegments(text: string, options: LinearizeOptions) {
+  const overhead = estimateTokens(options.buildPrompt('', { index: 0, total: 2 }));
+  // Context windows come from the registry, so configured providers are sized too
+  const budget = chainBudget(options.chain, overhead, 1, providerRegistry.contextTokens);
+  const segments: TextSegment[] = splitForBudget(text, budget.inputTokens);
+  if (segments.length > 1) {
+    console.log(`[Linearizer] ${estimateTokens(text)} tokens split into ${segments.length} segments (budget ${budget.inputTokens}, limited by ${budget.limitedBy})`);
+  }
+  return { segments, plan: `${segments.length}:${budget.inputTokens}:${text.length}` };
+}
+
+async function linearizeSegment(segments: TextSegment[], index: number, options: LinearizeOptions): Promise<string> {
+  const segment = segments[index];
+  const note: SegmentNote = { index, total: segments.length, grade: segment.grade, domain: segment.domain };
+  const output = await options.call(options.buildPrompt(segment.text, note), index);
+  if (!output || output.length < MIN_SEGMENT_OUTPUT) {
+    throw new Error(`Segment ${index + 1}/${segments.length} returned insufficient content (${output?.length || 0} chars)`);
+  }
+  return output;
+}
+
+async function linearizeWhole(text: string, options: LinearizeOptions): Promise<LinearizeResult> {
+  const markdown = await options.call(options.buildPrompt(text), 0);
+  return { markdown, index: mergeLinearizedSegments([markdown]).index, segments: 1 };
+}
+
+export async function linearizeCurriculum(text: string, options: LinearizeOptions): Promise<LinearizeResult> {
+  const { segments } = planSegments(text, options);
+  if (segments.length === 1) return linearizeWhole(text, options);
+
+  let done = 0;
+  const outputs = await Promise.all(segments.map(async (_, index) => {
+    const output = await linearizeSegment(segments, index, options);
+    await options.onSegment?.(++done, segments.length);
+    return output;
+  }));
+
+  return { ...mergeLinearizedSegments(outputs), segments: segments.length };
+}
+
+/**
+ * Linearizes at most `batchSize` segments not already in the checkpoint and
+ * saves each output as it lands. Returns the merged result once every
+ * segment has an output, otherwise how many remain. Outputs saved under a
+ * different plan (the routing chain or the source text changed) are dropped.
+ */
+export async function resumeLinearization(
+  text: string,
+  options: LinearizeOptions,
+  resume: ResumeOptions
+): Promise<LinearizeResult | PendingLinearization> {
+  const { segments, plan } = planSegments(text, options);
+  if (segments.length === 1) return linearizeWhole(text, options);
+
+  const outputs: Record<number, string> = resume.checkpoint?.plan === plan ? { ...resume.checkpoint.outputs } : {};
+  const missing = segments.map((_, i) => i).filter(i => !outputs[i]);
+  const batch = missing.slice(0, Math.max(1, resume.batchSize));
+  let done = segments.length - missing.length;
+
+  // Saves are chained so a slow write never lands after a fuller checkpoint
+  let saving = Promise.resolve();
+  const settled = await Promise.allSettled(batch.map(async index => {
+    outputs[index] = await linearizeSegment(segments, index, options);
+    saving = saving.then(() => resume.save({ plan, outputs: { ...outputs } }));
+    await saving;
+    done++;
+    await options.onSegment?.(done, segments.length);
+  }));
+  const failure = settled.find((s): s is PromiseRejectedResult => s.status === 'rejected');
+  if (failure) throw failure.reason;
+
+  if (missing.length > batch.length) {
+    return { pending: missing.length - batch.length, done, total: segments.length };
+  }
+  return { ...mergeLinearizedSegments(segments.map((_, i) => outputs[i])), segments: segments.length };
+}
+
+// Last heading of each level seen so far, for dropping repeats at a seam
+interface HeadingState {
+  grade?: string;
+  domain?: string;
+}
+
+const headingKey = (line: string) => line.trim().replace(/\s+/g, ' ').toUpperCase();
+
+function stitch(markdown: string, seen: HeadingState, isFirst: boolean): string {
+  const out: string[] = [];
+  let inMetadata = false;
+  let opening = true;                // Still in the segment's leading headings
+
+  for (const line of markdown.split('\n')) {
+    const trimmed = line.trim();
+
+    if (METADATA_HEADER.test(trimmed)) {
+      inMetadata = !isFirst;
+      if (inMetadata) continue;
+    } else if (inMetadata) {
+      if (/^#{1,2}\s/.test(trimmed)) inMetadata = false;
+      else continue;
+    }
+
+    if (/^#\s*GRADE\b/i.test(trimmed)) {
+      const key = headingKey(trimmed);
+      if (opening && key === seen.grade) continue;
+      if (key !== seen.grade) seen.domain = undefined;
+      seen.grade = key;
+    } else if (/^###\s*DOMAIN\b/i.test(trimmed)) {
+      const key = headingKey(trimmed);
+      if (opening && key === seen.domain) continue;
+      seen.domain = key;
+    } else if (trimmed) {
+      opening = false;
+    }
+    out.push(line);
+  }
+  return out.join('\n').trim();
+}
+
+/**
+ * Joins per-segment outputs into one master markdown. Index entries are
+ * merged by SLO code: the first occurrence wins and later ones only fill
+ * fields it left empty.
+ */
+export function mergeLinearizedSegments(outputs: string[]): Omit<LinearizeResult, 'segments'> {
+  const seen: HeadingState = {};
+  const byCode = new Map<string, ParsedSLO>();
+  const bodies: string[] = [];
+
+  outputs.forEach((output, i) => {
+    for (const match of output.matchAll(INDEX_BLOCK)) {
+      try {
+        const { value } = parseStructured(match[1], SLO_INDEX_SCHEMA);
+        for (const slo of value) {
+          const existing = byCode.get(slo.slo_code);
+          if (!existing) { byCode.set(slo.slo_code, slo); continue; }
+          for (const key of Object.keys(slo) as Array<keyof ParsedSLO>) {
+            if (!existing[key] && slo[key]) existing[key] = slo[key];
+          }
+        }
+      } catch (e: any) {
+        console.warn(`[Linearizer] Segment ${i + 1} index unreadable: ${e.message}`);
+      }
+    }
+    bodies.push(stitch(output.replace(INDEX_BLOCK, ''), seen, i === 0));
+  });
+
+  const index = Array.from(byCode.values());
+  const markdown = `${bodies.filter(Boolean).join('\n\n')}\n\n<STRUCTURED_INDEX>\n${JSON.stringify(index, null, 2)}\n</STRUCTURED_INDEX>`;
+  return { markdown, index };
+}
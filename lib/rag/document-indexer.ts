@@ -2,10 +2,14 @@ import { SupabaseClient } from '@supabase/supabase-js';
 import { generateEmbeddingsBatch } from './embeddings';
 import { extractSLOCodes, normalizeSLO } from './slo-extractor';
 import { Buffer } from 'buffer';
+import { responseCache } from '../ai/response-cache';
+import { splitMarkdownTables, tableRowChunks } from './table-detector';
 
 /**
  * ADVANCED STRUCTURE-AWARE INDEXER (v7.0)
  * Logic: Tree-based chunk graph with Explicit Performance Metrics.
+ * Markdown tables (progression grids) are indexed row by row; each row node
+ * carries its table markdown in metadata.table.
  */
 export async function indexDocumentForRAG(
   documentId: string,
@@ -14,7 +18,6 @@ export async function indexDocumentForRAG(
   jobId?: string
 ) {
   try {
-    const lines = content.split('\n');
     const dialect = content.match(/<!-- MASTER_MD_DIALECT: (.+?) -->/)?.[1] || 'Standard';
 
     let currentSubject = "N/A";
@@ -25,48 +28,71 @@ export async function indexDocumentForRAG(
     let buffer = "";
     let codesInChunk = new Set<string>();
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
+    const pushNode = (body: string, codes: Iterable<string>, extra: Record<string, any> = {}) => {
+      const fingerprint = Buffer.from(body.trim()).toString('base64').substring(0, 50);
+      const contextPath = `[NODE_PATH: ${currentSubject} > ${currentGrade} > ${currentDomain}]`;
+      const enrichedText = `${contextPath}\n${body.trim()}`;
 
-      if (line.match(/^Board:|^Subject:/i)) {
-        currentSubject = line.split(':')[1]?.trim() || currentSubject;
-      } else if (line.startsWith('# GRADE')) {
-        currentGrade = line.replace('# GRADE', '').trim();
-      } else if (line.startsWith('### DOMAIN')) {
-        currentDomain = line.replace('### DOMAIN', '').trim();
+      nodes.push({
+        text: enrichedText,
+        fingerprint,
+        metadata: {
+          subject: currentSubject,
+          grade: currentGrade,
+          domain: currentDomain,
+          slo_codes: Array.from(codes),
+          dialect,
+          tokens: Math.max(1, Math.ceil(enrichedText.length / 4)),
+          ...extra
+        }
+      });
+    };
+
+    const flush = () => {
+      if (buffer.trim()) pushNode(buffer, codesInChunk);
+      buffer = "";
+      codesInChunk.clear();
+    };
+
+    for (const segment of splitMarkdownTables(content)) {
+      // Progression grids: one node per row, header row repeated, so grade columns never mix
+      if (segment.kind === 'table') {
+        flush();
+        for (const chunk of tableRowChunks(segment.table)) {
+          const codes = new Set(extractSLOCodes(chunk.markdown).map(c => normalizeSLO(c.code)).filter(Boolean));
+          pushNode(chunk.markdown, codes, {
+            chunk_kind: 'table_row',
+            table: { markdown: chunk.markdown, headers: chunk.headers, row_index: chunk.rowIndex }
+          });
+        }
+        continue;
       }
 
-      const foundCodes = extractSLOCodes(line);
-      foundCodes.forEach(c => { 
-        const normalized = normalizeSLO(c.code);
-        if (normalized) codesInChunk.add(normalized);
-      });
+      const lines = segment.text.split('\n');
+      for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (!line) continue;
 
-      buffer += (buffer ? '\n' : '') + line;
-
-      if (buffer.length >= 1000 || i === lines.length - 1) {
-        const fingerprint = Buffer.from(buffer.trim()).toString('base64').substring(0, 50);
-        const contextPath = `[NODE_PATH: ${currentSubject} > ${currentGrade} > ${currentDomain}]`;
-        const enrichedText = `${contextPath}\n${buffer.trim()}`;
-
-        nodes.push({
-          text: enrichedText,
-          fingerprint,
-          metadata: {
-            subject: currentSubject,
-            grade: currentGrade,
-            domain: currentDomain,
-            slo_codes: Array.from(codesInChunk),
-            dialect,
-            tokens: Math.max(1, Math.ceil(enrichedText.length / 4))
-          }
+        if (line.match(/^Board:|^Subject:/i)) {
+          currentSubject = line.split(':')[1]?.trim() || currentSubject;
+        } else if (line.startsWith('# GRADE')) {
+          currentGrade = line.replace('# GRADE', '').trim();
+        } else if (line.startsWith('### DOMAIN')) {
+          currentDomain = line.replace('### DOMAIN', '').trim();
+        }
+
+        const foundCodes = extractSLOCodes(line);
+        foundCodes.forEach(c => { 
+          const normalized = normalizeSLO(c.code);
+          if (normalized) codesInChunk.add(normalized);
         });
 
-        buffer = "";
-        codesInChunk.clear();
+        buffer += (buffer ? '\n' : '') + line;
+
+        if (buffer.length >= 1000) flush();
       }
     }
+    flush();
 
     const BATCH_SIZE = 5; 
     for (let i = 0; i < nodes.length; i += BATCH_SIZE) {
@@ -95,6 +121,10 @@ export async function indexDocumentForRAG(
       if (insertError) throw insertError;
     }
 
+    // Answers grounded in the previous chunks must not be served again
+    const { data: owner } = await supabase.from('documents').select('user_id, is_public').eq('id', documentId).maybeSingle();
+    await responseCache.invalidateDocument(documentId, owner?.user_id, !!owner?.is_public);
+
     return { success: true, count: nodes.length };
   } catch (error: any) {
     console.error("❌ [Indexer Fault]:", error.message);
@@ -1,6 +1,8 @@
 import { GoogleGenAI } from "@google/genai";
 import { embeddingCache } from "./embedding-cache";
 import { performanceMonitor } from "../monitoring/performance";
+import { isLocalModeEnabled, localEmbedding } from "../ai/providers/local";
+import { piiShield } from "../ai/pii-shield";
 
 function sanitizeText(text: string): string {
   if (!text) return " ";
@@ -14,7 +16,10 @@ export async function generateEmbedding(text: string): Promise<number[]> {
 
 export async function generateEmbeddingsBatch(texts: string[]): Promise<number[][]> {
   const start = performance.now();
-  const sanitizedTexts = texts.map(t => sanitizeText(t));
+  if (isLocalModeEnabled()) return texts.map(t => localEmbedding(sanitizeText(t)));
+  // Queries and chunks go to the embedding API, so student PII is redacted first
+  const sanitizedTexts = (await piiShield.redactTexts(texts, 'EMBEDDING')).map(t => sanitizeText(t));
+
   const finalResults: number[][] = new Array(texts.length).fill(null);
   const uncachedIndices: number[] = [];
   const uncachedTexts: string[] = [];
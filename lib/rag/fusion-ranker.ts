@@ -0,0 +1,213 @@
+/**
+ * FUSION RANKER
+ * In-process retrieval core: BM25 over chunk text, cosine over stored
+ * embeddings and an SLO-code list, merged with weighted reciprocal-rank
+ * fusion. Pure (no I/O), so it ranks candidate sets fetched from the DB
+ * (fusion-retriever.ts) and powers LocalRetriever over in-memory chunks.
+ */
+
+import { extractSLOCodes, normalizeSLO } from './slo-extractor';
+
+export interface RankCandidate {
+  id: string;
+  documentId: string;
+  text: string;
+  sloCodes: string[];
+  embedding?: number[] | null;
+  metadata?: any;
+}
+
+export interface FusionWeights {
+  bm25: number;
+  vector: number;
+  slo: number;                       // Chunks carrying an SLO code named in the query
+}
+
+export interface FusionOptions {
+  weights: FusionWeights;
+  rrfK: number;                      // Damping constant; higher flattens rank differences
+  k1: number;                        // BM25 term-frequency saturation
+  b: number;                         // BM25 length normalization
+  minScore: number;                  // Drop results below this normalized score
+}
+
+// Any subset of the options; weights merge key by key over the defaults
+export type FusionOverrides = Partial<Omit<FusionOptions, 'weights'>> & { weights?: Partial<FusionWeights> };
+
+export interface RankedCandidate<T extends RankCandidate = RankCandidate> {
+  candidate: T;
+  score: number;                     // Fused score normalized to 0..1
+  bm25: number;
+  cosine: number | null;
+  sloMatches: number;
+  ranks: { bm25?: number; vector?: number; slo?: number };   // 1-based, per list
+}
+
+export const DEFAULT_FUSION_OPTIONS: FusionOptions = {
+  weights: { bm25: 1, vector: 1, slo: 1.5 },
+  rrfK: 60,
+  k1: 1.2,
+  b: 0.75,
+  minScore: 0
+};
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it', 'of', 'on', 'or',
+  'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'about',
+  'can', 'do', 'does', 'me', 'my', 'please', 'give', 'show', 'tell', 'explain'
+]);
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(t => t.length > 1 && !STOPWORDS.has(t));
+}
+
+/**
+ * Okapi BM25 over a fixed corpus. Built once per candidate set; queries are cheap.
+ */
+export class Bm25Index {
+  private postings = new Map<string, Map<number, number>>();
+  private lengths: number[] = [];
+  private avgLength = 0;
+
+  constructor(texts: string[], private k1 = DEFAULT_FUSION_OPTIONS.k1, private b = DEFAULT_FUSION_OPTIONS.b) {
+    texts.forEach((text, doc) => {
+      const tokens = tokenize(text);
+      this.lengths.push(tokens.length);
+      for (const token of tokens) {
+        const docs = this.postings.get(token) || new Map<number, number>();
+        docs.set(doc, (docs.get(doc) || 0) + 1);
+        this.postings.set(token, docs);
+      }
+    });
+    this.avgLength = this.lengths.reduce((sum, n) => sum + n, 0) / Math.max(1, this.lengths.length);
+  }
+
+  get size(): number {
+    return this.lengths.length;
+  }
+
+  /** Score per document index; documents sharing no query term score 0. */
+  score(query: string): number[] {
+    const scores = new Array(this.size).fill(0);
+    for (const term of new Set(tokenize(query))) {
+      const docs = this.postings.get(term);
+      if (!docs) continue;
+      const idf = Math.log(1 + (this.size - docs.size + 0.5) / (docs.size + 0.5));
+      docs.forEach((tf, doc) => {
+        const norm = 1 - this.b + this.b * (this.lengths[doc] / (this.avgLength || 1));
+        scores[doc] += idf * (tf * (this.k1 + 1)) / (tf + this.k1 * norm);
+      });
+    }
+    return scores;
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  const n = Math.min(a.length, b.length);
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < n; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// pgvector columns arrive over PostgREST as '[0.1,0.2,…]' strings
+export function parseEmbedding(value: unknown): number[] | null {
+  if (Array.isArray(value)) return value as number[];
+  if (typeof value !== 'string' || !value.startsWith('[')) return null;
+  try { return JSON.parse(value); } catch { return null; }
+}
+
+// Positions (1-based) of the indices with a positive score, best first
+function rankOf(scores: number[]): Map<number, number> {
+  const order = scores
+    .map((score, i) => ({ score, i }))
+    .filter(s => s.score > 0)
+    .sort((x, y) => y.score - x.score);
+  return new Map(order.map((s, pos) => [s.i, pos + 1]));
+}
+
+/**
+ * Ranks candidates for a query. Each signal produces its own ranked list and
+ * a candidate earns weight / (rrfK + rank) from every list it appears in.
+ * Without a query embedding the vector list is simply absent.
+ */
+export function rankCandidates<T extends RankCandidate>(
+  query: string,
+  candidates: T[],
+  queryEmbedding?: number[] | null,
+  overrides: FusionOverrides = {}
+): RankedCandidate<T>[] {
+  const options = { ...DEFAULT_FUSION_OPTIONS, ...overrides, weights: { ...DEFAULT_FUSION_OPTIONS.weights, ...overrides.weights } };
+  if (candidates.length === 0) return [];
+
+  const bm25 = new Bm25Index(candidates.map(c => c.text), options.k1, options.b).score(query);
+  const cosine = candidates.map(c => queryEmbedding && c.embedding?.length ? cosineSimilarity(queryEmbedding, c.embedding) : null);
+
+  const querySlos = new Set(extractSLOCodes(query).map(s => normalizeSLO(s.code)));
+  const sloMatches = candidates.map(c => {
+    if (querySlos.size === 0) return 0;
+    const carried = new Set(c.sloCodes.map(normalizeSLO));
+    // Chunks indexed before SLO tagging still mention the code in their text
+    extractSLOCodes(c.text).forEach(s => carried.add(normalizeSLO(s.code)));
+    return Array.from(querySlos).filter(code => carried.has(code)).length;
+  });
+
+  const ranks = {
+    bm25: rankOf(bm25),
+    vector: rankOf(cosine.map(c => c ?? 0)),
+    slo: rankOf(sloMatches)
+  };
+  const { weights, rrfK } = options;
+  const ceiling = (weights.bm25 + (queryEmbedding ? weights.vector : 0) + (querySlos.size ? weights.slo : 0)) / (rrfK + 1);
+
+  return candidates
+    .map((candidate, i) => {
+      const r = { bm25: ranks.bm25.get(i), vector: ranks.vector.get(i), slo: ranks.slo.get(i) };
+      const fused =
+        (r.bm25 ? weights.bm25 / (rrfK + r.bm25) : 0) +
+        (r.vector ? weights.vector / (rrfK + r.vector) : 0) +
+        (r.slo ? weights.slo / (rrfK + r.slo) : 0);
+      return {
+        candidate,
+        score: ceiling > 0 ? fused / ceiling : 0,
+        bm25: bm25[i],
+        cosine: cosine[i],
+        sloMatches: sloMatches[i],
+        ranks: r
+      };
+    })
+    .filter(r => r.score > 0 && r.score >= options.minScore)
+    .sort((x, y) => y.score - x.score);
+}
+
+/**
+ * Fully local retriever: chunks held in memory, no database round trip, e.g.
+ * for ranking fixtures or tuning fusion weights without Supabase.
+ */
+export class LocalRetriever<T extends RankCandidate = RankCandidate> {
+  private chunks: T[] = [];
+
+  constructor(chunks: T[] = [], private options: FusionOverrides = {}) {
+    this.add(chunks);
+  }
+
+  add(chunks: T[]): void {
+    this.chunks.push(...chunks);
+  }
+
+  get size(): number {
+    return this.chunks.length;
+  }
+
+  search(
+    query: string,
+    { topK = 5, documentIds, queryEmbedding }: { topK?: number; documentIds?: string[]; queryEmbedding?: number[] | null } = {}
+  ): RankedCandidate<T>[] {
+    const scope = documentIds?.length ? this.chunks.filter(c => documentIds.includes(c.documentId)) : this.chunks;
+    return rankCandidates(query, scope, queryEmbedding, this.options).slice(0, topK);
+  }
+}
@@ -0,0 +1,104 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { generateEmbedding } from './embeddings';
+import { extractSLOCodes, normalizeSLO } from './slo-extractor';
+import {
+  RankCandidate, RankedCandidate, FusionOverrides, FusionWeights, DEFAULT_FUSION_OPTIONS,
+  rankCandidates, parseEmbedding
+} from './fusion-ranker';
+
+/**
+ * FUSION RETRIEVER
+ * The `fusion_candidates` RPC picks the top full-text, top vector and
+ * SLO-carrying chunks in SQL; fusion-ranker fuses them in-process. Primary
+ * ranker when RAG_RANKER=fusion; otherwise the fallback when the search
+ * RPCs fail. RAG_FUSION_WEIGHTS tunes the fusion, e.g.
+ * {"bm25":1,"vector":1.5,"slo":2}.
+ */
+
+const PER_LIST = 100;                // Candidates per signal; at most 3x this are ranked
+// Installs without the RPC read chunks directly, up to PostgREST's max-rows
+const MAX_DIRECT_CANDIDATES = 1000;
+
+export function isFusionRankerEnabled(): boolean {
+  return process.env.RAG_RANKER === 'fusion';
+}
+
+function configuredWeights(): Partial<FusionWeights> {
+  const raw = process.env.RAG_FUSION_WEIGHTS;
+  if (!raw?.trim()) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return Object.fromEntries(
+      Object.keys(DEFAULT_FUSION_OPTIONS.weights)
+        .filter(key => typeof parsed[key] === 'number' && parsed[key] >= 0)
+        .map(key => [key, parsed[key]])
+    );
+  } catch {
+    console.warn('⚠️ [Fusion] RAG_FUSION_WEIGHTS is not valid JSON, using defaults.');
+    return {};
+  }
+}
+
+const toCandidate = (row: any): RankCandidate => ({
+  id: row.id,
+  documentId: row.document_id,
+  text: row.chunk_text || '',
+  sloCodes: row.slo_codes || [],
+  embedding: parseEmbedding(row.embedding),
+  metadata: row.metadata || {}
+});
+
+export async function fetchCandidates(
+  supabase: SupabaseClient,
+  documentIds: string[],
+  query: string,
+  queryEmbedding: number[] | null,
+  perList: number = PER_LIST
+): Promise<RankCandidate[]> {
+  if (documentIds.length === 0) return [];
+
+  const { data, error } = await supabase.rpc('fusion_candidates', {
+    query_text: query,
+    query_embedding: queryEmbedding,
+    filter_document_ids: documentIds,
+    per_list: perList,
+    slo_filter: extractSLOCodes(query).map(s => normalizeSLO(s.code))
+  });
+  if (!error) return (data || []).map(toCandidate);
+
+  console.warn(`⚠️ [Fusion] fusion_candidates RPC unavailable (${error.message}); reading chunks directly. Run the latest SQL blueprint.`);
+  const { data: rows, error: readError } = await supabase
+    .from('document_chunks')
+    .select('id, document_id, chunk_text, slo_codes, metadata, embedding')
+    .in('document_id', documentIds)
+    .order('chunk_index', { ascending: true })
+    .limit(MAX_DIRECT_CANDIDATES);
+
+  if (readError) throw readError;
+  if ((rows || []).length >= MAX_DIRECT_CANDIDATES) {
+    console.warn(`⚠️ [Fusion] Candidate set capped at ${MAX_DIRECT_CANDIDATES} chunks; later chunks are not ranked.`);
+  }
+  return (rows || []).map(toCandidate);
+}
+
+export async function fusionSearch(
+  query: string,
+  supabase: SupabaseClient,
+  {
+    documentIds,
+    topK = 8,
+    queryEmbedding,
+    options = {}
+  }: {
+    documentIds: string[];
+    topK?: number;
+    queryEmbedding?: number[];
+    options?: FusionOverrides;
+  }
+): Promise<RankedCandidate[]> {
+  const embedding = queryEmbedding || await generateEmbedding(query);
+  const candidates = await fetchCandidates(supabase, documentIds, query, embedding);
+
+  const weights = { ...configuredWeights(), ...options.weights };
+  return rankCandidates(query, candidates, embedding, { ...options, weights }).slice(0, topK);
+}
@@ -0,0 +1,89 @@
+/**
+ * LIBRARY RANKING
+ * Pure half of library-wide retrieval: per-document weighting and diversity
+ * across documents in the top-k, so one long textbook cannot crowd out the
+ * rest of the teacher's vault. See library-retriever.ts for the I/O.
+ */
+
+import { normalizeSLO } from './slo-extractor';
+
+// What the chat's DocumentSelector sends alongside the selected documents
+export interface LibraryFilters {
+  subject?: string;
+  gradeLevel?: string;
+  sloCode?: string;
+  includePublic?: boolean;
+}
+
+export interface LibraryHit {
+  chunkId: string;
+  documentId: string;
+  text: string;
+  sloCodes: string[];
+  metadata: any;
+  score: number;                     // Retriever score, 0..1
+}
+
+export interface DiversityOptions {
+  topK: number;
+  maxPerDocument: number;            // Hard cap per document in the top-k
+  decay: number;                     // Score multiplier per chunk already taken from the same document
+}
+
+export const DEFAULT_DIVERSITY: Omit<DiversityOptions, 'topK'> = {
+  maxPerDocument: 3,
+  decay: 0.7
+};
+
+// Public documents rank a little below the teacher's own unless weighted otherwise;
+// the focused document a little above the rest of the selection
+export const PUBLIC_DOCUMENT_WEIGHT = 0.8;
+export const FOCUSED_DOCUMENT_WEIGHT = 1.25;
+
+export function carriesSlo(hit: Pick<LibraryHit, 'sloCodes' | 'text'>, code: string): boolean {
+  const target = normalizeSLO(code);
+  return hit.sloCodes.some(c => normalizeSLO(c) === target) || normalizeSLO(hit.text).includes(target);
+}
+
+/**
+ * Greedy top-k: each pick takes the best weighted score, where every chunk
+ * already chosen from a document multiplies that document's remaining scores
+ * by `decay`. Documents at `maxPerDocument` are skipped.
+ */
+export function selectDiverse(
+  hits: LibraryHit[],
+  weights: Record<string, number> = {},
+  overrides: Partial<DiversityOptions> & { topK: number }
+): LibraryHit[] {
+  const options = { ...DEFAULT_DIVERSITY, ...overrides };
+  const unique = new Map<string, LibraryHit>();
+  for (const hit of hits) {
+    const known = unique.get(hit.chunkId);
+    if (!known || known.score < hit.score) unique.set(hit.chunkId, hit);
+  }
+
+  const pool = Array.from(unique.values()).map(hit => ({ hit, weighted: hit.score * (weights[hit.documentId] ?? 1) }));
+  const taken = new Map<string, number>();
+  const selected: LibraryHit[] = [];
+
+  while (selected.length < options.topK && pool.length > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+    pool.forEach((entry, i) => {
+      const count = taken.get(entry.hit.documentId) || 0;
+      if (count >= options.maxPerDocument) return;
+      const adjusted = entry.weighted * Math.pow(options.decay, count);
+      if (adjusted > bestScore) {
+        best = i;
+        bestScore = adjusted;
+      }
+    });
+    if (best < 0) break;
+
+    const [{ hit }] = pool.splice(best, 1);
+    taken.set(hit.documentId, (taken.get(hit.documentId) || 0) + 1);
+    selected.push(hit);
+  }
+
+  return selected;
+}
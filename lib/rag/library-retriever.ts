@@ -0,0 +1,140 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from '../supabase';
+import { retrieveRelevantChunks, RetrievedChunk } from './retriever';
+import { normalizeSLO } from './slo-extractor';
+import { LibraryHit, PUBLIC_DOCUMENT_WEIGHT, carriesSlo, selectDiverse } from './library-ranking';
+import type { RetrievalFilters } from './retrieval';
+
+/**
+ * LIBRARY RETRIEVER
+ * Retrieval across the teacher's whole vault (or an explicit selection),
+ * optionally widened to approved public documents, with the subject, grade
+ * and SLO filters of RetrievalFilters enforced. Each side is searched with
+ * retrieveRelevantChunks; the merged candidates are weighted per document
+ * and diversified (library-ranking.ts).
+ */
+
+export interface LibraryDocument {
+  id: string;
+  name: string;
+  subject: string;
+  gradeLevel: string;
+  isPublic: boolean;                 // Someone else's approved public document
+  dialect?: string;
+}
+
+export interface LibraryResult {
+  documents: LibraryDocument[];
+  chunks: RetrievedChunk[];
+}
+
+const LIBRARY_LIMIT = 100;           // Documents searched per call
+const CANDIDATE_FACTOR = 4;          // Candidates fetched per top-k slot, before diversity
+const DOCUMENT_FIELDS = 'id, name, subject, grade_level, master_md_dialect';
+
+const toDocument = (row: any, isPublic: boolean): LibraryDocument => ({
+  id: row.id,
+  name: row.name,
+  subject: row.subject || 'General',
+  gradeLevel: row.grade_level || 'Auto',
+  isPublic,
+  dialect: row.master_md_dialect || undefined
+});
+
+// Subject and grade are free text on documents ("Biology", "9, 10"), so they match as substrings
+function narrow(query: any, filters: RetrievalFilters) {
+  let q = query;
+  if (filters.documentIds?.length) q = q.in('id', filters.documentIds);
+  if (filters.subject) q = q.ilike('subject', `%${filters.subject}%`);
+  if (filters.gradeLevel) q = q.ilike('grade_level', `%${filters.gradeLevel}%`);
+  return q.limit(LIBRARY_LIMIT);
+}
+
+export async function resolveLibrary(supabase: SupabaseClient, filters: RetrievalFilters): Promise<LibraryDocument[]> {
+  if (!filters.userId && !filters.documentIds?.length) return [];
+
+  const ownQuery = supabase.from('documents').select(DOCUMENT_FIELDS);
+  const [{ data: own, error }, { data: shared }] = await Promise.all([
+    narrow(filters.userId ? ownQuery.eq('user_id', filters.userId) : ownQuery, filters),
+    // Public documents are read with the service client, approved ones only
+    filters.includePublic
+      ? narrow(getSupabaseAdminClient().from('documents').select(DOCUMENT_FIELDS).eq('is_public', true).eq('is_approved', true), filters)
+      : Promise.resolve({ data: [] })
+  ]);
+  if (error) throw error;
+
+  const ownIds = new Set((own || []).map((d: any) => d.id));
+  return [
+    ...(own || []).map((d: any) => toDocument(d, false)),
+    ...(shared || []).filter((d: any) => !ownIds.has(d.id)).map((d: any) => toDocument(d, true))
+  ];
+}
+
+// Chunks tagged with the code, which a ranked search may not surface
+async function sloCarriers(client: SupabaseClient, documentIds: string[], code: string, limit: number): Promise<RetrievedChunk[]> {
+  if (documentIds.length === 0) return [];
+  const { data } = await client.from('document_chunks')
+    .select('id, document_id, chunk_text, slo_codes, metadata')
+    .in('document_id', documentIds)
+    .contains('slo_codes', [normalizeSLO(code)])
+    .limit(limit);
+  return (data || []).map((m: any) => ({
+    chunk_id: m.id,
+    document_id: m.document_id,
+    chunk_text: m.chunk_text,
+    slo_codes: m.slo_codes || [],
+    metadata: m.metadata || {},
+    combined_score: 0.5
+  }));
+}
+
+const toHit = (c: RetrievedChunk): LibraryHit => ({
+  chunkId: c.chunk_id,
+  documentId: c.document_id,
+  text: c.chunk_text,
+  sloCodes: c.slo_codes,
+  metadata: c.metadata,
+  score: c.combined_score
+});
+
+export async function retrieveFromLibrary(
+  query: string,
+  supabase: SupabaseClient,
+  filters: RetrievalFilters,
+  topK: number = 8
+): Promise<LibraryResult> {
+  const documents = await resolveLibrary(supabase, filters);
+  if (documents.length === 0) return { documents, chunks: [] };
+
+  const own = documents.filter(d => !d.isPublic).map(d => d.id);
+  const shared = documents.filter(d => d.isPublic).map(d => d.id);
+  const admin = shared.length > 0 ? getSupabaseAdminClient() : null;
+  const matchCount = topK * CANDIDATE_FACTOR;
+
+  const searches: Promise<RetrievedChunk[]>[] = [
+    own.length ? retrieveRelevantChunks({ query, documentIds: own, supabase, matchCount }) : Promise.resolve([]),
+    admin ? retrieveRelevantChunks({ query, documentIds: shared, supabase: admin, matchCount }) : Promise.resolve([])
+  ];
+  if (filters.sloCode) {
+    searches.push(sloCarriers(supabase, own, filters.sloCode, matchCount));
+    if (admin) searches.push(sloCarriers(admin, shared, filters.sloCode, matchCount));
+  }
+
+  let hits = (await Promise.all(searches)).flat().map(toHit);
+  if (filters.sloCode) hits = hits.filter(h => carriesSlo(h, filters.sloCode!));
+
+  const weights: Record<string, number> = {
+    ...Object.fromEntries(shared.map(id => [id, PUBLIC_DOCUMENT_WEIGHT])),
+    ...(filters.documentWeights || {})
+  };
+
+  const chunks = selectDiverse(hits, weights, { topK }).map(h => ({
+    chunk_id: h.chunkId,
+    document_id: h.documentId,
+    chunk_text: h.text,
+    slo_codes: h.sloCodes,
+    metadata: h.metadata,
+    combined_score: h.score
+  }));
+  return { documents, chunks };
+}
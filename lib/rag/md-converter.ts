@@ -1,8 +1,16 @@
 import { getSynthesizer } from "../ai/synthesizer-core";
+import { linearizeCurriculum, segmentInstruction } from "./curriculum-linearizer";
+
+// Tier-2 synthesis lands on Flash or Llama 3.3; budget for the smaller window
+const TIER2_CHAIN = [
+  { engine: 'groq' as const, maxTokens: 8192 },
+  { engine: 'gemini' as const, maxTokens: 8192 },
+];
 
 /**
  * MASTER CURRICULUM ARCHITECT (v162.0 - ORCHESTRATED)
  * Mission: 1:1 High-fidelity transformation with Grid Failover.
+ * Long documents are segmented to the context budget instead of truncated.
  */
 export async function convertToPedagogicalMarkdown(rawText: string): Promise<string> {
   const synth = getSynthesizer();
@@ -20,22 +28,32 @@ You are a world-class curriculum ingestor. Your mission is to linearize curricul
 You MUST tag every learning outcome using this exact format:
 - [SLO:S-GG-D-NN] | [BLOOM_LEVEL] : [Full Exact Text]
 
+### 🧮 PROGRESSION GRIDS
+Keep multi-column progression grids (grade columns × domain rows) as Markdown tables, one row per domain/strand, with the header row intact. Never flatten a grid into prose.
+
 ### 📊 DATA VAULT INDEX
 At the VERY END, provide a JSON block of ALL found SLOs wrapped in <STRUCTURED_INDEX> tags.`;
 
-  const prompt = `[SYNTHESIS_REQUEST] Convert the following raw curriculum text into a Master Markdown Ledger. 
+  const buildPrompt = (source: string, note?: Parameters<typeof segmentInstruction>[0]) => `[SYNTHESIS_REQUEST] Convert the following raw curriculum text into a Master Markdown Ledger. 
   Linearize EVERY domain and EVERY SLO without exception.
-  
+  ${note ? segmentInstruction(note) : ''}
   DOCUMENT BUFFER:
-  ${rawText.substring(0, 100000)}`;
+  ${source}`;
 
   try {
-    const result = await synth.synthesize(prompt, {
-      systemPrompt: systemInstruction,
-      complexity: 2 // Uses Tier-2 Flash or Llama 3.3 for high-speed transformation
+    const { markdown } = await linearizeCurriculum(rawText, {
+      chain: TIER2_CHAIN,
+      buildPrompt,
+      call: async (prompt) => {
+        const result = await synth.synthesize(prompt, {
+          systemPrompt: systemInstruction,
+          complexity: 2 // Uses Tier-2 Flash or Llama 3.3 for high-speed transformation
+        });
+        return result.text || "";
+      }
     });
 
-    return result.text || "<!-- INGESTION_FAILURE -->";
+    return markdown || "<!-- INGESTION_FAILURE -->";
   } catch (err) {
     console.error("❌ [Architect Node Error]:", err);
     return `<!-- ERROR: NEURAL GATEWAY TIMEOUT -->\n${rawText}`;
@@ -3,6 +3,8 @@ import { SupabaseClient } from '@supabase/supabase-js';
 import { GoogleGenAI, Type } from "@google/genai";
 import { generateEmbedding } from './embeddings';
 import { extractSLOCodes } from './slo-extractor';
+import { fusionSearch, isFusionRankerEnabled } from './fusion-retriever';
+import { retrieveFromLibrary } from './library-retriever';
 
 export interface RetrievalFilters {
   userId?: string;
@@ -10,6 +12,8 @@ export interface RetrievalFilters {
   subject?: string;
   gradeLevel?: string;
   sloCode?: string;
+  includePublic?: boolean;                    // Also search approved public documents
+  documentWeights?: Record<string, number>;   // Score multiplier per document (default 1)
 }
 
 export interface RetrievedChunk {
@@ -22,7 +26,9 @@ export interface RetrievedChunk {
 }
 
 /**
- * HYBRID SEARCH: Combines keyword + semantic search using the DB's native capabilities.
+ * HYBRID SEARCH: Combines keyword + semantic search using the DB's native capabilities,
+ * or the in-process fusion ranker (RAG_RANKER=fusion, or when the RPC fails).
+ * Library filters (owner, subject, grade, SLO, public) go through the library retriever.
  */
 export async function hybridSearch(
   query: string,
@@ -31,8 +37,33 @@ export async function hybridSearch(
   topK: number = 5
 ): Promise<RetrievedChunk[]> {
   try {
+    if (filters.userId || filters.subject || filters.gradeLevel || filters.sloCode || filters.includePublic) {
+      const { chunks } = await retrieveFromLibrary(query, supabase, filters, topK);
+      return chunks.map(c => ({
+        id: c.chunk_id,
+        documentId: c.document_id,
+        content: c.chunk_text,
+        metadata: c.metadata,
+        rank: c.combined_score
+      }));
+    }
+
     const queryEmbedding = await generateEmbedding(query);
 
+    const inProcess = async (): Promise<RetrievedChunk[]> => {
+      const ranked = await fusionSearch(query, supabase, { documentIds: filters.documentIds || [], topK, queryEmbedding });
+      return ranked.map(r => ({
+        id: r.candidate.id,
+        documentId: r.candidate.documentId,
+        content: r.candidate.text,
+        metadata: r.candidate.metadata,
+        similarity: r.cosine ?? undefined,
+        rank: r.score
+      }));
+    };
+
+    if (isFusionRankerEnabled()) return inProcess();
+
     const { data, error } = await supabase.rpc('hybrid_search_chunks_v3', {
       query_text: query,
       query_embedding: queryEmbedding,
@@ -41,8 +72,8 @@ export async function hybridSearch(
     });
 
     if (error) {
-      console.error('Hybrid search error:', error);
-      return [];
+      console.error('Hybrid search error, ranking in-process:', error);
+      return inProcess();
     }
 
     return (data || []).map((item: any) => ({
@@ -2,6 +2,8 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import { generateEmbedding } from './embeddings';
 import { extractSLOCodes, normalizeSLO } from './slo-extractor';
+import { fusionSearch, isFusionRankerEnabled } from './fusion-retriever';
+import { RankedCandidate } from './fusion-ranker';
 
 export interface RetrievedChunk {
   chunk_id: string;
@@ -13,9 +15,20 @@ export interface RetrievedChunk {
   is_verbatim_definition?: boolean;
 }
 
+const fromFusion = (r: RankedCandidate): RetrievedChunk => ({
+  chunk_id: r.candidate.id,
+  document_id: r.candidate.documentId,
+  chunk_text: r.candidate.text,
+  slo_codes: r.candidate.sloCodes,
+  metadata: r.candidate.metadata || {},
+  combined_score: r.score
+});
+
 /**
- * TIERED NEURAL RETRIEVER (v38.1 - RESILIENT)
- * Optimized for Dialect-Aware Hybrid Search with Auto-Fallback.
+ * TIERED NEURAL RETRIEVER (v38.2 - RESILIENT)
+ * Optimized for Dialect-Aware Hybrid Search with Auto-Fallback. With
+ * RAG_RANKER=fusion the in-process fusion ranker replaces the RPCs; it is
+ * also the last tier when both RPCs fail.
  */
 export async function retrieveRelevantChunks({
   query,
@@ -34,6 +47,11 @@ export async function retrieveRelevantChunks({
     if (!documentIds || documentIds.length === 0) return [];
 
     const queryEmbedding = await generateEmbedding(query);
+
+    if (isFusionRankerEnabled()) {
+      const ranked = await fusionSearch(query, supabase, { documentIds, topK: matchCount, queryEmbedding });
+      return ranked.map(fromFusion);
+    }
     
     // TIER 1: SEMANTIC SEARCH (v6 Dialect Aware)
     const { data: hybridChunks, error: rpcError } = await supabase.rpc('hybrid_search_chunks_v6', {
@@ -56,7 +74,11 @@ export async function retrieveRelevantChunks({
         filter_document_ids: documentIds
       });
       
-      if (fallbackError) throw fallbackError;
+      if (fallbackError) {
+        console.warn('⚠️ hybrid_search_chunks_v4 RPC error, ranking in-process.');
+        const ranked = await fusionSearch(query, supabase, { documentIds, topK: matchCount, queryEmbedding });
+        return ranked.map(fromFusion);
+      }
       
       return (fallback || []).map((m: any) => ({
         chunk_id: m.id,
@@ -0,0 +1,279 @@
+/**
+ * TABLE DETECTOR
+ * Sindh and Federal curricula lay SLOs out in progression grids (grade
+ * columns × domain rows, SLOs in the cells). Flattened to plain text, their
+ * columns interleave. Here grids survive PDF extraction as Markdown tables,
+ * and the markdown stage chunks them one row at a time with the header row
+ * repeated, so a chunk never mixes columns. Pure: no I/O.
+ */
+
+export interface PositionedText {
+  str: string;
+  x: number;
+  y: number;                         // PDF space: grows upwards
+  width: number;
+}
+
+export interface MarkdownTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export type MarkdownSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'table'; table: MarkdownTable; markdown: string };
+
+export interface TableRowChunk {
+  markdown: string;                  // Header row, separator and this row
+  headers: string[];
+  row: string[];
+  rowIndex: number;                  // 0-based, within the table body
+}
+
+// ─── PDF LAYOUT ───────────────────────────────────────────────────
+// Positions are in PDF points (1/72 inch)
+
+const LINE_TOLERANCE = 3;            // Items this close vertically share a line
+const CELL_GAP = 12;                 // A horizontal gap this wide starts a new cell
+const COLUMN_TOLERANCE = 18;         // Cell starts this close belong to one column
+const MIN_TABLE_LINES = 3;
+const MIN_COLUMNS = 2;
+const SHORT_CELL_CHARS = 32;         // Median cell width of a grid; prose columns run longer
+const MAX_HEADER_CELL_CHARS = 40;
+const GRID_HEADER = /\b(grades?|class|years?|levels?|slos?|domains?|strands?|standards?|competenc(y|ies)|benchmarks?|outcomes?|units?|topics?|themes?)\b/i;
+
+interface LayoutCell {
+  x: number;
+  end: number;
+  text: string;
+}
+
+interface LayoutLine {
+  y: number;
+  cells: LayoutCell[];
+}
+
+function toLines(items: PositionedText[]): LayoutLine[] {
+  const sorted = items
+    .filter(item => item.str.trim())
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const lines: { y: number; items: PositionedText[] }[] = [];
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.y - item.y) <= LINE_TOLERANCE) line.items.push(item);
+    else lines.push({ y: item.y, items: [item] });
+  }
+
+  return lines.map(line => {
+    const cells: LayoutCell[] = [];
+    for (const item of line.items.sort((a, b) => a.x - b.x)) {
+      const last = cells[cells.length - 1];
+      if (last && item.x - last.end < CELL_GAP) {
+        last.text += (item.x - last.end > 1 && !last.text.endsWith(' ') ? ' ' : '') + item.str;
+        last.end = Math.max(last.end, item.x + item.width);
+      } else {
+        cells.push({ x: item.x, end: item.x + item.width, text: item.str });
+      }
+    }
+    cells.forEach(c => { c.text = c.text.replace(/\s+/g, ' ').trim(); });
+    return { y: line.y, cells };
+  });
+}
+
+const columnOf = (columns: number[], x: number) =>
+  columns.findIndex(c => Math.abs(c - x) <= COLUMN_TOLERANCE);
+
+/**
+ * Folds a run of aligned lines into a table. The first line is the header;
+ * a line with text in the first column starts a new row, any other line is
+ * a wrapped continuation of the row above.
+ */
+function toTable(lines: LayoutLine[], columns: number[]): MarkdownTable {
+  const grid: string[][] = [];
+  for (const line of lines) {
+    const slots = new Array(columns.length).fill('');
+    line.cells.forEach(cell => {
+      const col = columnOf(columns, cell.x);
+      slots[col] = slots[col] ? `${slots[col]} ${cell.text}` : cell.text;
+    });
+    const previous = grid[grid.length - 1];
+    if (grid.length > 1 && !slots[0] && previous) {
+      slots.forEach((text, col) => { if (text) previous[col] = previous[col] ? `${previous[col]} ${text}` : text; });
+    } else {
+      grid.push(slots);
+    }
+  }
+  return { headers: grid[0], rows: grid.slice(1) };
+}
+
+/**
+ * Aligned columns alone are not a grid: two-column prose aligns too. A run is
+ * a table only when its header row reads like grid headings (short cells,
+ * one naming a grade, domain, SLO, …) or its cells are short throughout.
+ */
+function hasGridEvidence(lines: LayoutLine[]): boolean {
+  const header = lines[0].cells;
+  if (header.every(c => c.text.length <= MAX_HEADER_CELL_CHARS) && header.some(c => GRID_HEADER.test(c.text))) return true;
+
+  const widths = lines.slice(1).flatMap(line => line.cells.map(c => c.text.length)).sort((a, b) => a - b);
+  return widths.length > 0 && widths[Math.floor(widths.length / 2)] <= SHORT_CELL_CHARS;
+}
+
+// Column by column, top to bottom: the reading order of multi-column prose
+function columnText(lines: LayoutLine[], columns: number[]): string[] {
+  const byColumn = columns.map(() => [] as string[]);
+  for (const line of lines) {
+    line.cells.forEach(cell => { byColumn[Math.max(0, columnOf(columns, cell.x))].push(cell.text); });
+  }
+  return byColumn.filter(col => col.length).map(col => col.join('\n'));
+}
+
+/**
+ * Page text with every detected grid rendered as a Markdown table, other
+ * aligned columns read column by column and the rest as plain lines.
+ */
+export function layoutPageText(items: PositionedText[]): string {
+  const lines = toLines(items);
+  const out: string[] = [];
+  let run: LayoutLine[] = [];
+  let columns: number[] = [];
+
+  const flush = () => {
+    const sorted = [...columns].sort((a, b) => a - b);
+    if (run.length >= MIN_TABLE_LINES && columns.length >= MIN_COLUMNS) {
+      if (hasGridEvidence(run)) out.push('', renderMarkdownTable(toTable(run, sorted)), '');
+      else out.push(columnText(run, sorted).join('\n\n'));
+    } else {
+      run.forEach(line => out.push(line.cells.map(c => c.text).join(' ')));
+    }
+    run = [];
+    columns = [];
+  };
+
+  for (const line of lines) {
+    const aligned = line.cells.filter(c => columnOf(columns, c.x) >= 0).length;
+    const firstColumn = columns.length ? Math.min(...columns) : null;
+    const continuesRun = run.length > 0 && (
+      line.cells.length >= MIN_COLUMNS
+        ? aligned >= Math.min(MIN_COLUMNS, columns.length) && line.cells.every(c => columnOf(columns, c.x) >= 0 || c.x > Math.max(...columns))
+        // A lone cell inside the grid is a wrapped cell, unless it sits at the left margin
+        : aligned === 1 && firstColumn !== null && Math.abs(line.cells[0].x - firstColumn) > COLUMN_TOLERANCE
+    );
+
+    if (!continuesRun) {
+      flush();
+      if (line.cells.length < MIN_COLUMNS) {
+        out.push(line.cells.map(c => c.text).join(' '));
+        continue;
+      }
+    }
+    run.push(line);
+    line.cells.forEach(c => { if (columnOf(columns, c.x) < 0) columns.push(c.x); });
+  }
+  flush();
+
+  return out.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// pdf.js text items carry their position in transform[4..5]
+export function fromPdfItem(item: { str: string; transform: number[]; width?: number }): PositionedText {
+  return { str: item.str, x: item.transform[4], y: item.transform[5], width: item.width || 0 };
+}
+
+/** `pagerender` for pdf-parse: layout-aware text instead of raw item order. */
+export async function renderPdfPage(pageData: { getTextContent: () => Promise<{ items: any[] }> }): Promise<string> {
+  const content = await pageData.getTextContent();
+  return layoutPageText(content.items.filter(item => typeof item.str === 'string').map(fromPdfItem));
+}
+
+// ─── MARKDOWN TABLES ──────────────────────────────────────────────
+
+const SEPARATOR = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+
+function splitRow(line: string): string[] {
+  const cells = line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/);
+  return cells.map(c => c.replace(/\\\|/g, '|').trim());
+}
+
+const isTableLine = (line: string) => line.trim().startsWith('|') && line.includes('|', line.indexOf('|') + 1);
+
+export function renderMarkdownTable(table: MarkdownTable): string {
+  const cell = (text: string) => (text || '').replace(/\|/g, '\\|').replace(/\n+/g, '<br>');
+  const width = Math.max(table.headers.length, ...table.rows.map(r => r.length));
+  const pad = (cells: string[]) => Array.from({ length: width }, (_, i) => cell(cells[i] || ''));
+  return [
+    `| ${pad(table.headers).join(' | ')} |`,
+    `| ${new Array(width).fill('---').join(' | ')} |`,
+    ...table.rows.map(row => `| ${pad(row).join(' | ')} |`)
+  ].join('\n');
+}
+
+/**
+ * Splits markdown into prose and pipe tables (header row + `---` separator).
+ * Prose keeps its original lines, so headings stay where they were.
+ */
+export function splitMarkdownTables(markdown: string): MarkdownSegment[] {
+  const lines = markdown.split('\n');
+  const segments: MarkdownSegment[] = [];
+  let prose: string[] = [];
+
+  const flushProse = () => {
+    if (prose.length) segments.push({ kind: 'text', text: prose.join('\n') });
+    prose = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!isTableLine(lines[i]) || !SEPARATOR.test((lines[i + 1] || '').trim())) {
+      prose.push(lines[i]);
+      continue;
+    }
+    const start = i;
+    const headers = splitRow(lines[i]);
+    const rows: string[][] = [];
+    i += 2;
+    while (i < lines.length && isTableLine(lines[i])) rows.push(splitRow(lines[i++]));
+    i--;
+
+    flushProse();
+    segments.push({ kind: 'table', table: { headers, rows }, markdown: lines.slice(start, i + 1).join('\n') });
+  }
+  flushProse();
+  return segments;
+}
+
+/**
+ * One chunk per body row, each with the header row. A row longer than
+ * `maxChars` is split into column groups that all keep the first (label)
+ * column, so every chunk still reads grade × domain × SLO.
+ */
+export function tableRowChunks(table: MarkdownTable, maxChars: number = 1500): TableRowChunk[] {
+  const chunks: TableRowChunk[] = [];
+  table.rows.forEach((row, rowIndex) => {
+    if (row.every(cell => !cell.trim())) return;
+
+    const whole = renderMarkdownTable({ headers: table.headers, rows: [row] });
+    if (whole.length <= maxChars || row.length <= 2) {
+      chunks.push({ markdown: whole, headers: table.headers, row, rowIndex });
+      return;
+    }
+
+    let columns: number[] = [];
+    const emit = () => {
+      if (!columns.length) return;
+      const pick = (cells: string[]) => [cells[0] || '', ...columns.map(c => cells[c] || '')];
+      const headers = pick(table.headers);
+      const cells = pick(row);
+      chunks.push({ markdown: renderMarkdownTable({ headers, rows: [cells] }), headers, row: cells, rowIndex });
+      columns = [];
+    };
+    for (let col = 1; col < row.length; col++) {
+      const size = (row[0] || '').length + (table.headers[0] || '').length +
+        [...columns, col].reduce((sum, c) => sum + (row[c] || '').length + (table.headers[c] || '').length + 6, 0);
+      if (columns.length && size > maxChars) emit();
+      columns.push(col);
+    }
+    emit();
+  });
+  return chunks;
+}
@@ -0,0 +1,37 @@
+import { supabase } from '../lib/supabase';
+import { ChatThread, ThreadMessage } from '../lib/chat/chat-memory';
+
+async function threadFetch(path: string, init: RequestInit = {}): Promise<any> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const response = await fetch(`/api/chat/threads${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session?.access_token}`
+    }
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || `Thread request failed (${response.status})`);
+  return data;
+}
+
+export const chatThreadService = {
+  async list(): Promise<ChatThread[]> {
+    const { threads } = await threadFetch('');
+    return threads || [];
+  },
+
+  /** Thread with its messages, for resuming. */
+  async load(threadId: string): Promise<{ thread: ChatThread; messages: ThreadMessage[] }> {
+    return threadFetch(`/${threadId}`);
+  },
+
+  async rename(threadId: string, title: string): Promise<ChatThread> {
+    const { thread } = await threadFetch(`/${threadId}`, { method: 'PATCH', body: JSON.stringify({ title }) });
+    return thread;
+  },
+
+  async remove(threadId: string): Promise<void> {
+    await threadFetch(`/${threadId}`, { method: 'DELETE' });
+  }
+};
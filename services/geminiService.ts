@@ -2,10 +2,23 @@
 import { NeuralBrain, UserProfile } from "../types";
 import { adaptiveService } from "./adaptiveService";
 import { supabase } from "../lib/supabase";
+import { Assessment, AssessmentOptions } from "../lib/pedagogy/assessment-generator";
+import { VARIANT_HEADER, VariantTags, parseVariantHeader } from "../lib/ai/prompt-variants";
+import { THREAD_HEADER } from "../lib/chat/chat-memory";
+import type { LibraryFilters } from "../lib/rag/library-ranking";
 
 // Local cooldown to prevent hammering the server after a rate limit
 let globalCooldownUntil = 0;
 
+// A 429 names its own wait; honour it before the next request goes out
+function noteRetryAfter(response: Response) {
+  if (response.status !== 429) return;
+  const seconds = Number(response.headers.get('Retry-After'));
+  if (Number.isFinite(seconds) && seconds > 0) {
+    globalCooldownUntil = Math.max(globalCooldownUntil, Date.now() + seconds * 1000);
+  }
+}
+
 function parseAIError(errorData: any): string {
   const msg = typeof errorData === 'string' ? errorData : (errorData?.error || errorData?.message || "");
   
@@ -55,7 +68,12 @@ export const geminiService = {
     history: { role: 'user' | 'assistant', content: string }[],
     brain: NeuralBrain,
     user?: UserProfile,
-    priorityDocumentId?: string
+    priorityDocumentId?: string,
+    onVariants?: (tags: VariantTags) => void,
+    toolType?: string,
+    signal?: AbortSignal,
+    thread?: { id: string | null; onThread: (id: string) => void },
+    library?: { documentIds: string[]; filters: LibraryFilters }
   ) {
     const wait = this.checkCooldown();
     if (wait > 0) {
@@ -77,16 +95,27 @@ export const geminiService = {
           message,
           history,
           priorityDocumentId,
-          adaptiveContext
-        })
+          adaptiveContext,
+          toolType,
+          ...(library ? { documentIds: library.documentIds, libraryFilters: library.filters } : {}),
+          // Threaded turns use the server's copy of the conversation
+          ...(thread ? { threadId: thread.id || undefined, newThread: !thread.id } : {})
+        }),
+        signal
       });
 
       if (!response.ok) {
+        noteRetryAfter(response);
         const errorData = await response.json().catch(() => ({ error: "AI Alert: Synthesis grid exception." }));
         yield parseAIError(errorData);
         return;
       }
 
+      // Prompt A/B assignment, kept with the artifact so outcomes can be attributed
+      onVariants?.(parseVariantHeader(response.headers.get(VARIANT_HEADER)));
+      const threadId = response.headers.get(THREAD_HEADER);
+      if (thread && threadId) thread.onThread(threadId);
+
       const reader = response.body?.getReader();
       const decoder = new TextDecoder();
       if (!reader) return;
@@ -115,17 +144,37 @@ export const geminiService = {
         reader.releaseLock();
       }
     } catch (err) {
+      // Cancelled by the caller (view closed): nothing left to report to
+      if (signal?.aborted) return;
       yield `AI Alert: Synthesis grid exception.`;
     }
   },
 
+  async generateAssessment(lessonContent: string, options: AssessmentOptions, priorityDocumentId?: string): Promise<Assessment> {
+    const token = await this.getAuthToken();
+    const response = await fetch('/api/ai', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+      body: JSON.stringify({ task: 'generate-assessment', lessonContent, options, priorityDocumentId })
+    });
+
+    const data = await response.json().catch(() => ({ error: "AI Alert: Synthesis grid exception." }));
+    if (!response.ok) {
+      noteRetryAfter(response);
+      throw new Error(parseAIError(data));
+    }
+    return data.assessment;
+  },
+
   async *generatePedagogicalToolStream(
     toolType: string,
     userInput: string,
     doc: { base64?: string; mimeType?: string; filePath?: string; id?: string },
     brain: NeuralBrain,
     user?: UserProfile,
-    priorityDocumentId?: string
+    priorityDocumentId?: string,
+    onVariants?: (tags: VariantTags) => void,
+    signal?: AbortSignal
   ) {
     const wait = this.checkCooldown();
     if (wait > 0) {
@@ -148,15 +197,20 @@ export const geminiService = {
           brain,
           adaptiveContext,
           priorityDocumentId
-        })
+        }),
+        signal
       });
 
       if (!response.ok) {
+        noteRetryAfter(response);
         const errorData = await response.json().catch(() => ({ error: "AI Alert: Synthesis grid exception." }));
         yield parseAIError(errorData);
         return;
       }
 
+      // Prompt A/B assignment, kept with the artifact so outcomes can be attributed
+      onVariants?.(parseVariantHeader(response.headers.get(VARIANT_HEADER)));
+
       const reader = response.body?.getReader();
       const decoder = new TextDecoder();
       if (!reader) return;
@@ -181,6 +235,8 @@ export const geminiService = {
         reader.releaseLock();
       }
     } catch (err) {
+      // Cancelled by the caller (view closed): nothing left to report to
+      if (signal?.aborted) return;
       yield `AI Alert: Synthesis grid exception.`;
     }
   }
@@ -112,6 +112,7 @@ export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: string;
+  artifactId?: string;
 }
 
 export interface TeacherProgress {
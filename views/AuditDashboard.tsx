@@ -10,6 +10,8 @@ import {
 } from 'lucide-react';
 import { UserProfile } from '../types';
 import { supabase } from '../lib/supabase';
+import { EvalRun, EvalMetrics } from '../lib/eval/rag-metrics';
+import GoldenSetPanel from '../components/GoldenSetPanel';
 
 interface AuditDashboardProps {
   user: UserProfile;
@@ -17,6 +19,7 @@ interface AuditDashboardProps {
 
 const AuditDashboard: React.FC<AuditDashboardProps> = ({ user }) => {
   const [report, setReport] = useState<any>(null);
+  const [runs, setRuns] = useState<EvalRun[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isAuditing, setIsAuditing] = useState(false);
   const [auditStep, setAuditStep] = useState('');
@@ -26,24 +29,19 @@ const AuditDashboard: React.FC<AuditDashboardProps> = ({ user }) => {
     fetchAuditReport();
   }, []);
 
+  // Loading runs the infrastructure checks and reads past evaluation runs;
+  // a new evaluation is an explicit action (it replays every golden question)
   const fetchAuditReport = async () => {
     setIsLoading(true);
     try {
-      // First attempt to load dynamic report, fallback to static template
       const { data: { session } } = await supabase.auth.getSession();
-      const res = await fetch('/api/admin/run-audit', {
-        method: 'POST',
-        headers: { 'Authorization': `Bearer ${session?.access_token}` }
-      });
-      
-      if (res.ok) {
-        const data = await res.json();
-        setReport(data);
-      } else {
-        const staticRes = await fetch('/audit_report.json');
-        const staticData = await staticRes.json();
-        setReport(staticData);
-      }
+      const headers = { 'Content-Type': 'application/json', 'Authorization': `Bearer ${session?.access_token}` };
+      const [history, infra] = await Promise.all([
+        fetch('/api/admin/run-audit', { headers }),
+        fetch('/api/admin/run-audit', { method: 'POST', headers, body: JSON.stringify({ skipEvaluation: true }) })
+      ]);
+      if (history.ok) setRuns((await history.json()).runs || []);
+      if (infra.ok) setReport(await infra.json());
     } catch (err) {
       console.error("Audit load fault:", err);
     } finally {
@@ -58,23 +56,42 @@ const AuditDashboard: React.FC<AuditDashboardProps> = ({ user }) => {
     try {
       const { data: { session } } = await supabase.auth.getSession();
       
-      await new Promise(r => setTimeout(r, 800));
-      setAuditStep('Polling Vector Database Health...');
-      await new Promise(r => setTimeout(r, 800));
-      setAuditStep('Verifying AI Synthesis Handshake...');
+      setAuditStep('Replaying Golden Questions...');
 
       const response = await fetch('/api/admin/run-audit', {
         method: 'POST',
         headers: {
+          'Content-Type': 'application/json',
           'Authorization': `Bearer ${session?.access_token}`
-        }
+        },
+        body: JSON.stringify({})
       });
 
       if (!response.ok) throw new Error("Audit Grid Exception");
 
       const newReport = await response.json();
       setReport(newReport);
-      setAuditStep('Neural Mapping Complete.');
+
+      // Each request advances the run by one batch of questions
+      let evaluation: EvalRun | null = newReport.evaluation;
+      while (evaluation?.status === 'running') {
+        setAuditStep(`Replaying Golden Questions (${evaluation.results.length}/${evaluation.questionIds.length})...`);
+        const next = await fetch('/api/admin/run-audit', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session?.access_token}`
+          },
+          body: JSON.stringify({ runId: evaluation.id })
+        });
+        if (!next.ok) throw new Error("Audit Grid Exception");
+        const { evaluation: advanced, findings } = await next.json();
+        evaluation = advanced;
+        setReport((prev: any) => ({ ...prev, evaluation: advanced, findings: [...(prev?.findings || []), ...findings] }));
+      }
+      const history = await fetch('/api/admin/run-audit', { headers: { 'Authorization': `Bearer ${session?.access_token}` } });
+      if (history.ok) setRuns((await history.json()).runs || []);
+      setAuditStep('Evaluation Complete.');
       setTimeout(() => setIsAuditing(false), 800);
     } catch (err) {
       alert("Audit Failed: Infrastructure node unreachable.");
@@ -82,21 +99,26 @@ const AuditDashboard: React.FC<AuditDashboardProps> = ({ user }) => {
     }
   };
 
+  // Newest completed run drives the cards; `report` only adds live findings
+  const latest = runs.find(r => r.status === 'completed' && r.metrics) || null;
+
   const generateWhitepaper = () => {
-    if (!report) return;
-    const roadmapText = report.roadmap?.map((item: string) => `- ${item}`).join('\n') || '';
-    const content = `# EDUNEXUS AI: SYSTEM AUDIT v${report.audit_version}
+    if (!report && !latest) return;
+    const roadmapText = report?.roadmap?.map((item: string) => `- ${item}`).join('\n') || '';
+    const content = `# EDUNEXUS AI: SYSTEM AUDIT v${report?.audit_version || 'EVAL'}
 Generated: ${new Date().toLocaleString()}
 
 ## 1. PERFORMANCE METRICS
-- RAG Precision: ${(report.benchmarks?.rag_precision * 100).toFixed(1)}%
-- Hallucination Rate: ${(report.benchmarks?.hallucination_rate * 100).toFixed(3)}%
-- Latency: ${report.benchmarks?.average_latency}
+- Recall@${latest?.k ?? '-'}: ${percent(latest?.metrics?.recallAtK)}
+- MRR: ${latest?.metrics ? latest.metrics.mrr.toFixed(3) : 'N/A'}
+- Citation Accuracy: ${percent(latest?.metrics?.citationAccuracy)}
+- SLO Hallucination Rate: ${percent(latest?.metrics?.sloHallucinationRate)}
+- Latency: ${latest?.metrics ? `${latest.metrics.averageLatencyMs}ms` : 'N/A'}
 
 ## 2. WORLD-CLASS ROADMAP
 ${roadmapText}
 
-STATUS: ${report.benchmarks?.infrastructure_health}
+STATUS: ${report?.benchmarks?.infrastructure_health || 'NOT CHECKED'}
 `;
     const blob = new Blob([content], { type: 'text/markdown' });
     const url = URL.createObjectURL(blob);
@@ -115,10 +137,6 @@ STATUS: ${report.benchmarks?.infrastructure_health}
     );
   }
 
-  const ragPrecisionValue = report?.benchmarks?.rag_precision != null 
-    ? `${(report.benchmarks.rag_precision * 100).toFixed(1)}%` 
-    : 'N/A';
-
   return (
     <div className="space-y-10 animate-in fade-in slide-in-from-bottom-4 duration-700 pb-20 px-2 md:px-0 text-left">
       <header className="flex flex-col md:flex-row md:items-end justify-between gap-6">
@@ -158,35 +176,39 @@ STATUS: ${report.benchmarks?.infrastructure_health}
       {/* Grid Stats */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
         <MetricCard 
-          label="RAG Precision" 
-          value={ragPrecisionValue} 
-          status="Optimal" 
+          label={`Recall@${latest?.k ?? 'k'}`} 
+          value={percent(latest?.metrics?.recallAtK)} 
+          status={latest ? `${latest.metrics!.questions} questions` : 'No runs'} 
           color="text-emerald-500" 
           isAuditing={isAuditing}
         />
         <MetricCard 
-          label="Neural Latency" 
-          value={isAuditing ? '---' : (report?.benchmarks?.average_latency || "---")} 
-          status="Fast" 
+          label="MRR" 
+          value={latest?.metrics ? latest.metrics.mrr.toFixed(3) : 'N/A'} 
+          status={latest?.metrics ? `${latest.metrics.averageLatencyMs}ms avg` : 'No runs'} 
           color="text-indigo-500" 
           isAuditing={isAuditing}
         />
         <MetricCard 
-          label="Peda-Fidelity" 
-          value={report?.benchmarks?.pedagogical_fidelity ? `${(report.benchmarks.pedagogical_fidelity * 100).toFixed(0)}%` : '0%'} 
-          status="High" 
+          label="Citation Accuracy" 
+          value={percent(latest?.metrics?.citationAccuracy)} 
+          status="Cited SLOs" 
           color="text-amber-500" 
           isAuditing={isAuditing}
         />
         <MetricCard 
-          label="Hallucination" 
-          value={report?.benchmarks?.hallucination_rate ? `${(report.benchmarks.hallucination_rate * 100).toFixed(3)}%` : '0.000%'} 
-          status="Suppressed" 
+          label="SLO Hallucination" 
+          value={percent(latest?.metrics?.sloHallucinationRate)} 
+          status="Unknown codes" 
           color="text-rose-500" 
           isAuditing={isAuditing}
         />
       </div>
 
+      <EvalTrends runs={runs} />
+
+      <GoldenSetPanel />
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         <section className="bg-white dark:bg-slate-900 p-8 md:p-10 rounded-[3rem] border border-slate-200 dark:border-white/5 shadow-sm">
            <h3 className="text-lg font-black text-slate-900 dark:text-white uppercase tracking-tight mb-8 flex items-center gap-3">
@@ -269,6 +291,63 @@ STATUS: ${report.benchmarks?.infrastructure_health}
   );
 };
 
+const percent = (value: number | null | undefined) => value == null ? 'N/A' : `${(value * 100).toFixed(1)}%`;
+
+const TREND_METRICS: Array<{ key: keyof EvalMetrics; label: string; color: string; lowerIsBetter?: boolean }> = [
+  { key: 'recallAtK', label: 'Recall@k', color: 'bg-emerald-500' },
+  { key: 'mrr', label: 'MRR', color: 'bg-indigo-500' },
+  { key: 'citationAccuracy', label: 'Citation Accuracy', color: 'bg-amber-500' },
+  { key: 'sloHallucinationRate', label: 'SLO Hallucination', color: 'bg-rose-500', lowerIsBetter: true },
+];
+
+// One bar per completed run, oldest on the left; every metric is a 0–1 ratio
+const EvalTrends: React.FC<{ runs: EvalRun[] }> = ({ runs }) => {
+  const completed = runs.filter(r => r.status === 'completed' && r.metrics).slice(0, 20).reverse();
+  return (
+    <section className="bg-white dark:bg-slate-900 p-8 md:p-10 rounded-[3rem] border border-slate-200 dark:border-white/5 shadow-sm">
+      <h3 className="text-lg font-black text-slate-900 dark:text-white uppercase tracking-tight mb-8 flex items-center gap-3">
+        <BarChart3 size={20} className="text-indigo-600" /> Retrieval Quality Trends
+      </h3>
+      {completed.length === 0 ? (
+        <p className="text-xs text-slate-400 italic text-center py-10">No evaluation runs yet. Add golden questions and run the audit.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {TREND_METRICS.map(metric => {
+            const values = completed.map(r => r.metrics![metric.key] as number | null);
+            const last = values[values.length - 1];
+            const previous = values.length > 1 ? values[values.length - 2] : null;
+            const delta = last != null && previous != null ? last - previous : null;
+            const improved = delta != null && (metric.lowerIsBetter ? delta < 0 : delta > 0);
+            return (
+              <div key={metric.key} className="p-5 bg-slate-50 dark:bg-white/5 rounded-2xl border border-slate-100 dark:border-white/5">
+                <div className="flex items-center justify-between mb-3">
+                  <span className="text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300">{metric.label}</span>
+                  <span className="text-[10px] font-black text-slate-400">
+                    {percent(last)}
+                    {delta != null && delta !== 0 && (
+                      <span className={`ml-2 ${improved ? 'text-emerald-500' : 'text-rose-500'}`}>{delta > 0 ? '▲' : '▼'} {Math.abs(delta * 100).toFixed(1)}</span>
+                    )}
+                  </span>
+                </div>
+                <div className="flex items-end gap-1 h-20">
+                  {completed.map((run, i) => (
+                    <div
+                      key={run.id}
+                      title={`${new Date(run.createdAt).toLocaleString()} (k=${run.k}): ${percent(values[i])}`}
+                      className={`flex-1 rounded-t min-w-[4px] ${values[i] == null ? 'bg-slate-200 dark:bg-white/10' : metric.color}`}
+                      style={{ height: `${Math.max(2, (values[i] ?? 0) * 100)}%` }}
+                    />
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+};
+
 const MetricCard = ({ label, value, status, color, isAuditing }: any) => (
   <div className="bg-white dark:bg-slate-900 p-6 rounded-[2.5rem] border border-slate-100 dark:border-white/5 shadow-sm group hover:scale-[1.02] transition-all">
      <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-4">{label}</p>
@@ -8,6 +8,8 @@ import {
 import { NeuralBrain, JobStatus, IngestionStep } from '../types';
 import { supabase } from '../lib/supabase';
 import { DEFAULT_MASTER_PROMPT, LATEST_SQL_BLUEPRINT } from '../constants';
+import RoutingTableEditor from '../components/RoutingTableEditor';
+import PromptExperimentsPanel from '../components/PromptExperimentsPanel';
 
 interface BrainControlProps {
   brain: NeuralBrain;
@@ -15,7 +17,7 @@ interface BrainControlProps {
 }
 
 const BrainControl: React.FC<BrainControlProps> = ({ brain, onUpdate }) => {
-  const [activeTab, setActiveTab] = useState<'prompt' | 'blueprint' | 'ingestion' | 'telemetry'>('prompt');
+  const [activeTab, setActiveTab] = useState<'prompt' | 'experiments' | 'routing' | 'blueprint' | 'ingestion' | 'telemetry'>('prompt');
   const [formData, setFormData] = useState<NeuralBrain>(brain);
   const [isSaving, setIsSaving] = useState(false);
   const [isResyncing, setIsResyncing] = useState(false);
@@ -139,7 +141,7 @@ const BrainControl: React.FC<BrainControlProps> = ({ brain, onUpdate }) => {
         </div>
         
         <div className="flex bg-slate-100 dark:bg-slate-900 p-1.5 rounded-2xl border dark:border-white/5 shadow-inner">
-          {['prompt', 'blueprint', 'ingestion'].map(tab => (
+          {['prompt', 'experiments', 'routing', 'blueprint', 'ingestion'].map(tab => (
             <button key={tab} onClick={() => setActiveTab(tab as any)} className={`px-6 py-2.5 rounded-xl text-[10px] font-bold uppercase tracking-widest transition-all ${activeTab === tab ? 'bg-white dark:bg-slate-800 text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-indigo-600'}`}>{tab}</button>
           ))}
         </div>
@@ -182,6 +184,10 @@ const BrainControl: React.FC<BrainControlProps> = ({ brain, onUpdate }) => {
         </div>
       )}
 
+      {activeTab === 'experiments' && <PromptExperimentsPanel masterPrompt={formData.masterPrompt} />}
+
+      {activeTab === 'routing' && <RoutingTableEditor />}
+
       {activeTab === 'blueprint' && (
         <div className="bg-white dark:bg-slate-900 p-10 rounded-[3.5rem] border border-slate-200 dark:border-white/5 shadow-sm space-y-8">
            <div className="flex items-center justify-between">
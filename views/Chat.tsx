@@ -15,9 +15,17 @@ import { DifferentiationPanel } from '../components/pedagogy/DifferentiationPane
 import { AssessmentGenerator } from '../components/pedagogy/AssessmentGenerator';
 import { validateLessonStructure, LessonValidation } from '../lib/pedagogy/pedagogy-engine';
 import { buildDifferentiationPrompt, parseDifferentiatedResponse, DifferentiatedLesson } from '../lib/pedagogy/differentiation';
-import { buildAssessmentPrompt, AssessmentOptions, Assessment } from '../lib/pedagogy/assessment-generator';
+import { AssessmentOptions, Assessment } from '../lib/pedagogy/assessment-generator';
 import { DocumentSelector } from '../components/chat/DocumentSelector';
 import { supabase } from '../lib/supabase';
+import { VariantTags } from '../lib/ai/prompt-variants';
+import { ToolType, parseClarification } from '../lib/ai/tool-router';
+import { ChatThread, ThreadMessage, answerBody } from '../lib/chat/chat-memory';
+import { chatThreadService } from '../services/chatThreadService';
+import { ThreadList } from '../components/chat/ThreadList';
+import { DocumentReader } from '../components/DocumentReader';
+import { ChunkSource } from '../lib/ai/chunk-citations';
+import { LibraryFilters } from '../lib/rag/library-ranking';
 
 interface ChatProps {
   brain: NeuralBrain;
@@ -29,11 +37,15 @@ interface ChatProps {
 
 const Chat: React.FC<ChatProps> = ({ brain, documents, onQuery, canQuery, user }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
   const [localDocs, setLocalDocs] = useState<Document[]>(documents);
   const [isLoading, setIsLoading] = useState(false);
   const [activeTool, setActiveTool] = useState<string | null>(null);
   const [currentValidation, setCurrentValidation] = useState<LessonValidation | null>(null);
   const [focusedDocId, setFocusedDocId] = useState<string | null>(null); 
+  const [citation, setCitation] = useState<{ doc: Document; source: ChunkSource } | null>(null);
+  const [libraryFilters, setLibraryFilters] = useState<LibraryFilters>({});
   
   const [diffResults, setDiffResults] = useState<Record<string, DifferentiatedLesson | null>>({ below: null, at: null, above: null });
   const [diffLoading, setDiffLoading] = useState(false);
@@ -42,9 +54,11 @@ const Chat: React.FC<ChatProps> = ({ brain, documents, onQuery, canQuery, user }
 
   const [showSidebar, setShowSidebar] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const streamAbort = useRef<AbortController | null>(null);
 
-  const selectedDocsCount = localDocs.filter(d => d.isSelected).length;
-  const activeDoc = localDocs.find(d => d.isSelected);
+  const selectedDocIds = localDocs.filter(d => d.isSelected).map(d => d.id);
+  const selectedDocsCount = selectedDocIds.length;
+  const activeDoc = localDocs.find(d => d.id === focusedDocId) || localDocs.find(d => d.isSelected);
 
   useEffect(() => {
     if (typeof window !== 'undefined' && window.innerWidth >= 768) {
@@ -52,6 +66,19 @@ const Chat: React.FC<ChatProps> = ({ brain, documents, onQuery, canQuery, user }
     }
   }, []);
 
+  // Leaving the chat cancels the in-flight answer all the way to the engine
+  useEffect(() => () => streamAbort.current?.abort(), []);
+
+  const refreshThreads = async () => {
+    try {
+      setThreads(await chatThreadService.list());
+    } catch (e) {
+      console.error("Thread list error:", e);
+    }
+  };
+
+  useEffect(() => { refreshThreads(); }, []);
+
   useEffect(() => {
     setLocalDocs(documents);
     const selected = documents.find(d => d.isSelected);
@@ -64,22 +91,29 @@ const Chat: React.FC<ChatProps> = ({ brain, documents, onQuery, canQuery, user }
     }
   }, [messages, isLoading, currentValidation]);
 
-  const toggleDocContext = async (docId: string) => {
-    const updated = localDocs.map(d => ({ 
-      ...d, 
-      isSelected: d.id === docId ? !d.isSelected : false 
-    }));
+  // Several documents can be linked; the one linked last is the focused one
+  const setDocSelected = async (docId: string, selected: boolean) => {
+    const updated = localDocs.map(d => d.id === docId ? { ...d, isSelected: selected } : d);
     setLocalDocs(updated);
-    
-    const targetDoc = updated.find(d => d.id === docId);
-    const newFocusId = targetDoc?.isSelected ? docId : null;
-    setFocusedDocId(newFocusId);
+    setFocusedDocId(selected ? docId : (focusedDocId === docId ? updated.find(d => d.isSelected)?.id || null : focusedDocId));
+
+    try {
+      await supabase.from('documents').update({ is_selected: selected }).eq('id', docId);
+    } catch (e) {
+      console.error("Context sync error:", e);
+    }
+  };
 
+  const toggleDocContext = (docId: string) => {
+    const doc = localDocs.find(d => d.id === docId);
+    if (doc) setDocSelected(docId, !doc.isSelected);
+  };
+
+  const clearDocContext = async () => {
+    setLocalDocs(localDocs.map(d => ({ ...d, isSelected: false })));
+    setFocusedDocId(null);
     try {
       await supabase.from('documents').update({ is_selected: false }).eq('user_id', user.id);
-      if (newFocusId) {
-        await supabase.from('documents').update({ is_selected: true }).eq('id', docId);
-      }
     } catch (e) {
       console.error("Context sync error:", e);
     }
@@ -100,13 +134,63 @@ const Chat: React.FC<ChatProps> = ({ brain, documents, onQuery, canQuery, user }
     }
   };
 
+  const resetView = (next: ChatMessage[] = []) => {
+    setMessages(next);
+    setActiveTool(null);
+    setCurrentValidation(null);
+    setDiffResults({ below: null, at: null, above: null });
+    setAssessmentResult(null);
+  };
+
+  const startNewThread = () => {
+    if (isLoading) return;
+    setActiveThreadId(null);
+    resetView();
+  };
+
+  const resumeThread = async (threadId: string) => {
+    if (isLoading || threadId === activeThreadId) return;
+    try {
+      const { thread, messages: stored } = await chatThreadService.load(threadId);
+      setActiveThreadId(thread.id);
+      resetView(stored.map((m: ThreadMessage) => ({ id: m.id, role: m.role, content: m.content, timestamp: m.createdAt })));
+      // The thread's pinned document becomes the focused one again
+      if (thread.documentId && thread.documentId !== focusedDocId && localDocs.some(d => d.id === thread.documentId)) {
+        setDocSelected(thread.documentId, true);
+      }
+    } catch (e) {
+      console.error("Thread load error:", e);
+    }
+  };
+
+  const renameThread = async (threadId: string) => {
+    const current = threads.find(t => t.id === threadId);
+    const title = window.prompt('Rename conversation', current?.title || '');
+    if (!title?.trim()) return;
+    try {
+      const updated = await chatThreadService.rename(threadId, title);
+      setThreads(prev => prev.map(t => t.id === threadId ? updated : t));
+    } catch (e) {
+      console.error("Thread rename error:", e);
+    }
+  };
+
+  const deleteThread = async (threadId: string) => {
+    if (!window.confirm('Delete this conversation permanently?')) return;
+    try {
+      await chatThreadService.remove(threadId);
+      setThreads(prev => prev.filter(t => t.id !== threadId));
+      if (threadId === activeThreadId) startNewThread();
+    } catch (e) {
+      console.error("Thread delete error:", e);
+    }
+  };
+
   const clearChat = () => {
-    if (window.confirm('Erase current synthesis history?')) {
-      setMessages([]);
-      setActiveTool(null);
-      setCurrentValidation(null);
-      setDiffResults({ below: null, at: null, above: null });
-      setAssessmentResult(null);
+    if (activeThreadId) {
+      deleteThread(activeThreadId);
+    } else if (window.confirm('Erase current synthesis history?')) {
+      resetView();
     }
   };
 
@@ -137,15 +221,8 @@ const Chat: React.FC<ChatProps> = ({ brain, documents, onQuery, canQuery, user }
 
     setAssessmentLoading(true);
     try {
-      const prompt = buildAssessmentPrompt(lastAiMsg.content, options);
-      let fullResponse = "";
-      const stream = geminiService.chatWithDocumentStream(prompt, {}, [], brain, user, focusedDocId || undefined);
-      for await (const chunk of stream) {
-        fullResponse += chunk;
-      }
-      const cleaned = fullResponse.replace(/```json|```/g, '').trim();
-      const parsed = JSON.parse(cleaned);
-      setAssessmentResult(parsed);
+      const assessment = await geminiService.generateAssessment(lastAiMsg.content, options, focusedDocId || undefined);
+      setAssessmentResult(assessment);
     } catch (e) {
       console.error("Assessment failed", e);
     } finally {
@@ -153,7 +230,20 @@ const Chat: React.FC<ChatProps> = ({ brain, documents, onQuery, canQuery, user }
     }
   };
 
-  const handleSend = async (msgContent: string) => {
+  // Quick-reply to a routing clarification: re-ask the original question with the chosen tool
+  const handleQuickReply = (messageId: string, tool: ToolType) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    const question = messages.slice(0, index).reverse().find(m => m.role === 'user');
+    if (question) handleSend(question.content, tool);
+  };
+
+  // Citation footnote: open the cited chunk in the reader
+  const openCitation = (source: ChunkSource) => {
+    const doc = localDocs.find(d => d.id === source.documentId);
+    if (doc) setCitation({ doc, source });
+  };
+
+  const handleSend = async (msgContent: string, toolType?: ToolType) => {
     if (!msgContent.trim() || isLoading || !canQuery) return;
 
     const userMessage: ChatMessage = {
@@ -185,16 +275,24 @@ const Chat: React.FC<ChatProps> = ({ brain, documents, onQuery, canQuery, user }
         .filter(m => m.role === 'user' || m.role === 'assistant')
         .map(m => ({ 
           role: m.role as 'user' | 'assistant', 
-          content: m.content 
+          content: answerBody(m.content)
         }));
 
+      let promptVariants: VariantTags = {};
+      const controller = new AbortController();
+      streamAbort.current = controller;
       const stream = geminiService.chatWithDocumentStream(
         msgContent,
         {},
         history,
         brain,
         user,
-        focusedDocId || undefined
+        focusedDocId || undefined,
+        tags => { promptVariants = tags; },
+        toolType,
+        controller.signal,
+        { id: activeThreadId, onThread: setActiveThreadId },
+        { documentIds: selectedDocIds, filters: libraryFilters }
       );
 
       for await (const chunk of stream) {
@@ -203,11 +301,18 @@ const Chat: React.FC<ChatProps> = ({ brain, documents, onQuery, canQuery, user }
           setMessages(prev => prev.map(m => m.id === aiMessageId ? { ...m, content: fullContent } : m));
         }
       }
-      
+      if (controller.signal.aborted) return;
+      refreshThreads();
+
+      // Source, tool-step and SLO-check markers are display-only
+      const answer = answerBody(fullContent);
       if (activeTool === 'validate') {
-        setCurrentValidation(validateLessonStructure(fullContent));
+        setCurrentValidation(validateLessonStructure(answer));
+      }
+      if (!parseClarification(answer)) {
+        const artifactId = await adaptiveService.captureGeneration(user.id, 'chat', answer, { query: msgContent, promptVariants, toolType });
+        setMessages(prev => prev.map(m => m.id === aiMessageId ? { ...m, artifactId } : m));
       }
-      await adaptiveService.captureGeneration(user.id, 'chat', fullContent, { query: msgContent });
     } catch (err) {
       setMessages(prev => prev.map(m => m.id === aiMessageId ? { ...m, content: "Synthesis gate timed out. The neural grid is currently under high load." } : m));
     } finally {
@@ -240,13 +345,27 @@ const Chat: React.FC<ChatProps> = ({ brain, documents, onQuery, canQuery, user }
                </button>
              </div>
           </div>
-          <div className="flex-1 overflow-y-auto custom-scrollbar">
-            <DocumentSelector documents={localDocs} onToggle={toggleDocContext} />
+          <div className="flex-1 overflow-y-auto custom-scrollbar space-y-4">
+            <ThreadList
+              threads={threads}
+              activeThreadId={activeThreadId}
+              onSelect={resumeThread}
+              onNew={startNewThread}
+              onRename={renameThread}
+              onDelete={deleteThread}
+            />
+            <DocumentSelector
+              documents={localDocs}
+              onToggle={toggleDocContext}
+              onClear={clearDocContext}
+              filters={libraryFilters}
+              onFiltersChange={setLibraryFilters}
+            />
           </div>
           
           <div className="mt-auto p-4 bg-indigo-500/10 border border-indigo-500/20 rounded-2xl">
             <p className="text-[10px] text-indigo-400 font-bold leading-relaxed">
-              <b>PRO TIP:</b> Grounding is locked to one document for maximum SLO precision. Switch assets to change context.
+              <b>PRO TIP:</b> Link several assets to search them together, or none to search your whole vault.
             </p>
           </div>
         </div>
@@ -275,7 +394,7 @@ const Chat: React.FC<ChatProps> = ({ brain, documents, onQuery, canQuery, user }
               <div className="hidden sm:flex items-center gap-2 px-3 py-1 bg-emerald-500/10 border border-emerald-500/20 rounded-full">
                 <ShieldCheck size={12} className="text-emerald-500" />
                 <span className="text-[9px] font-black uppercase tracking-wider text-emerald-600 truncate max-w-[120px]">
-                  {activeDoc?.name}
+                  {activeDoc?.name}{selectedDocsCount > 1 ? ` +${selectedDocsCount - 1}` : ''}
                 </span>
               </div>
             )}
@@ -308,7 +427,7 @@ const Chat: React.FC<ChatProps> = ({ brain, documents, onQuery, canQuery, user }
                   <p className="text-slate-500 dark:text-slate-400 max-w-sm mx-auto text-sm font-medium">
                     {focusedDocId 
                       ? `Neural sync active for your curriculum: "${activeDoc?.name}". Ask for a lesson plan or quiz on a specific SLO.`
-                      : 'Select a curriculum asset from the sidebar to enable precision standards-aligned synthesis.'}
+                      : 'Answers draw on your whole curriculum vault. Link assets in the sidebar to narrow the search.'}
                   </p>
                 </div>
                 <SuggestedPrompts onSelect={handleSend} />
@@ -325,6 +444,10 @@ const Chat: React.FC<ChatProps> = ({ brain, documents, onQuery, canQuery, user }
                     content={m.content} 
                     timestamp={m.timestamp} 
                     isLatest={idx === messages.length - 1} 
+                    isStreaming={isLoading && m.role === 'assistant' && idx === messages.length - 1}
+                    onCopy={m.artifactId ? () => adaptiveService.captureEvent(user.id, m.artifactId!, 'export') : undefined}
+                    onQuickReply={!isLoading && idx === messages.length - 1 ? tool => handleQuickReply(m.id, tool) : undefined}
+                    onOpenCitation={openCitation}
                   />
                 ))}
                 
@@ -360,6 +483,14 @@ const Chat: React.FC<ChatProps> = ({ brain, documents, onQuery, canQuery, user }
           <ChatInput onSend={handleSend} isLoading={isLoading} disabled={!canQuery} />
         </div>
       </div>
+
+      {citation && (
+        <DocumentReader
+          document={citation.doc}
+          focus={{ chunkId: citation.source.chunkId, sloCodes: citation.source.sloCodes }}
+          onClose={() => setCitation(null)}
+        />
+      )}
     </div>
   );
 };
@@ -2,7 +2,7 @@ import React, { useState, useEffect, useRef } from 'react';
 import { 
   Upload, FileText, Plus, 
   Loader2, CheckCircle2,
-  Database, Trash2, ExternalLink, Sparkles, BrainCircuit, RefreshCw, Layers, ListChecks, BookOpen, Lock, AlertTriangle
+  Database, Trash2, ExternalLink, Sparkles, BrainCircuit, RefreshCw, Layers, ListChecks, BookOpen, Lock, AlertTriangle, Globe
 } from 'lucide-react';
 import { Document, SubscriptionPlan, UserProfile, UserRole } from '../types';
 import { ROLE_LIMITS } from '../constants';
@@ -30,6 +30,7 @@ const Documents: React.FC<DocumentsProps> = ({
 }) => {
   const [showUploader, setShowUploader] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [sharingId, setSharingId] = useState<string | null>(null);
   const [readingDoc, setReadingDoc] = useState<Document | null>(null);
   const pollingRef = useRef<ReturnType<typeof setInterval> | null>(null);
   
@@ -145,6 +146,30 @@ const Documents: React.FC<DocumentsProps> = ({
     }
   };
 
+  // Shared documents join other teachers' library searches once an admin approves them
+  const handleShare = async (doc: Document) => {
+    setSharingId(doc.id);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      const response = await fetch('/api/docs/publish', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${session?.access_token}` },
+        body: JSON.stringify({ documentId: doc.id, isPublic: !doc.isPublic })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        alert(`Policy Restriction: ${data.issues?.join(' ') || data.error || 'The public library rejected the request.'}`);
+        return;
+      }
+      await onUpdateDocument(doc.id, { isPublic: data.isPublic, isApproved: data.isApproved });
+    } catch (err) {
+      console.error("Publication failure:", err);
+      alert("Connectivity Fault: Unable to reach the public library.");
+    } finally {
+      setSharingId(null);
+    }
+  };
+
   return (
     <div className="space-y-8 animate-in fade-in duration-500 pb-24 px-4 text-left">
       {showUploader && (
@@ -207,6 +232,17 @@ const Documents: React.FC<DocumentsProps> = ({
                   </div>
                   <div className="flex flex-col gap-3">
                     {isReady && <button onClick={() => setReadingDoc(doc)} className="p-2.5 bg-indigo-600 text-white rounded-full hover:scale-110 transition-transform shadow-lg"><BookOpen size={16} /></button>}
+
+                    {isReady && (
+                      <button
+                        onClick={() => handleShare(doc)}
+                        disabled={sharingId === doc.id}
+                        className={`p-2.5 rounded-full transition-all shadow-sm disabled:opacity-50 ${doc.isPublic ? 'bg-emerald-50 text-emerald-600 hover:bg-rose-50 hover:text-rose-500' : 'bg-slate-50 text-slate-400 opacity-0 group-hover:opacity-100 hover:text-indigo-600'}`}
+                        title={doc.isPublic ? 'Withdraw from the public library' : 'Share with the public library (after admin approval)'}
+                      >
+                        {sharingId === doc.id ? <Loader2 size={16} className="animate-spin" /> : <Globe size={16} />}
+                      </button>
+                    )}
                     
                     {showDelete && (
                       <button 
@@ -233,6 +269,7 @@ const Documents: React.FC<DocumentsProps> = ({
                     {isReady && <span className="px-3 py-1 bg-emerald-50 text-emerald-600 rounded-full text-[9px] font-black uppercase tracking-widest flex items-center gap-1.5"><Sparkles size={10}/> Standard Anchored</span>}
                     {isProcessing && <span className="px-3 py-1 bg-amber-50 text-amber-600 rounded-full text-[9px] font-black uppercase tracking-widest flex items-center gap-1.5"><RefreshCw size={10} className="animate-spin"/> Syncing...</span>}
                     {isIndexing && <span className="px-3 py-1 bg-indigo-50 text-indigo-600 rounded-full text-[9px] font-black uppercase tracking-widest flex items-center gap-1.5"><Database size={10} className="animate-pulse"/> Indexing...</span>}
+                    {doc.isPublic && <span className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest flex items-center gap-1.5 ${doc.isApproved ? 'bg-sky-50 text-sky-600' : 'bg-slate-50 text-slate-500'}`}><Globe size={10}/> {doc.isApproved ? 'Public Library' : 'Awaiting Review'}</span>}
                     {isFailed && <span className="px-3 py-1 bg-rose-50 text-rose-600 rounded-full text-[9px] font-black uppercase tracking-widest flex items-center gap-1.5"><AlertTriangle size={10}/> Extraction Fault</span>}
                  </div>
                  <p className="text-xs text-slate-500 dark:text-slate-400 line-clamp-3 leading-relaxed italic">
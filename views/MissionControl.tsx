@@ -10,6 +10,10 @@ import {
   Scale, Eye, UserCircle, Building
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import SpendLedger from '../components/SpendLedger';
+import RateLimitsPanel from '../components/RateLimitsPanel';
+import PrivacyPanel from '../components/PrivacyPanel';
+import PublicLibraryPanel from '../components/PublicLibraryPanel';
 import { UserProfile, SubscriptionPlan, UserRole, StakeholderRole } from '../types';
 
 const MissionControl: React.FC = () => {
@@ -209,6 +213,14 @@ const MissionControl: React.FC = () => {
                  </table>
               </div>
            </div>
+
+           <SpendLedger />
+
+           <RateLimitsPanel />
+
+           <PrivacyPanel />
+
+           <PublicLibraryPanel />
         </section>
       </div>
     </div>
@@ -15,6 +15,7 @@ import { MessageItem } from '../components/chat/MessageItem';
 import { supabase } from '../lib/supabase';
 import { ToolType, getToolDisplayName } from '../lib/ai/tool-router';
 import { renderSTEM } from '../lib/math-renderer';
+import { VariantTags } from '../lib/ai/prompt-variants';
 
 interface ToolsProps {
   brain: NeuralBrain;
@@ -44,9 +45,15 @@ const Tools: React.FC<ToolsProps> = ({ brain, documents, onQuery, canQuery, user
   const [workflowRecommendation, setWorkflowRecommendation] = useState<{tool: ToolType, reason: string} | null>(null);
   
   const scrollRef = useRef<HTMLDivElement>(null);
+  // Latest artifact, so copy/hand-off/replacement can be reported as an outcome
+  const lastArtifact = useRef<{ id: string; kept: boolean } | null>(null);
+  const streamAbort = useRef<AbortController | null>(null);
   const activeDoc = localDocs.find(d => d.isSelected);
   const isPro = user.plan !== SubscriptionPlan.FREE;
 
+  // Leaving the tool cancels the in-flight synthesis all the way to the engine
+  useEffect(() => () => streamAbort.current?.abort(), []);
+
   useEffect(() => {
     setLocalDocs(documents);
   }, [documents]);
@@ -91,6 +98,10 @@ const Tools: React.FC<ToolsProps> = ({ brain, documents, onQuery, canQuery, user
     if (!userInput.trim() || isGenerating || !canQuery) return;
     
     const effectiveTool = activeTool || 'master_plan';
+    if (lastArtifact.current && !lastArtifact.current.kept) {
+      adaptiveService.captureEvent(user.id, lastArtifact.current.id, 'abandon');
+    }
+    lastArtifact.current = null;
     setIsGenerating(true);
     setWorkflowRecommendation(null);
     const aiMsgId = crypto.randomUUID();
@@ -117,13 +128,18 @@ ${handoffContext ? `[WORKFLOW_CONTEXT: Use the following previous synthesis as a
 
 USER_QUERY: ${userInput}`;
 
+      let promptVariants: VariantTags = {};
+      const controller = new AbortController();
+      streamAbort.current = controller;
       const stream = geminiService.generatePedagogicalToolStream(
         effectiveTool, 
         personaPrompt, 
         { base64: activeDoc?.base64Data, mimeType: activeDoc?.mimeType, filePath: activeDoc?.filePath, id: activeDoc?.id }, 
         brain, 
         user, 
-        isCurriculumEnabled ? activeDoc?.id : undefined 
+        isCurriculumEnabled ? activeDoc?.id : undefined,
+        tags => { promptVariants = tags; },
+        controller.signal
       );
       
       let fullContent = '';
@@ -134,16 +150,25 @@ USER_QUERY: ${userInput}`;
           setCanvasContent(fullContent); 
         }
       }
-      await adaptiveService.captureGeneration(user.id, effectiveTool, fullContent, { tool: effectiveTool, document_id: activeDoc?.id, persona, isGlobalEnabled });
+      if (controller.signal.aborted) return;
+      const artifactId = await adaptiveService.captureGeneration(user.id, effectiveTool, fullContent, { tool: effectiveTool, document_id: activeDoc?.id, persona, isGlobalEnabled, promptVariants });
+      lastArtifact.current = { id: artifactId, kept: false };
     } catch (err: any) {
       setMessages(prev => prev.map(m => m.id === aiMsgId ? { ...m, content: `Synthesis Error: ${err.message}` } : m));
     } finally { setIsGenerating(false); }
   };
 
+  const keepArtifact = (eventType: 'accept' | 'export') => {
+    if (!lastArtifact.current) return;
+    adaptiveService.captureEvent(user.id, lastArtifact.current.id, eventType);
+    lastArtifact.current.kept = true;
+  };
+
   const handleWorkflowTransition = () => {
     if (!workflowRecommendation || isGenerating) return;
     const previousArtifact = canvasContent.split('--- Workflow Recommendation')[0].trim();
     const toolName = getToolDisplayName(workflowRecommendation.tool);
+    keepArtifact('accept');
     setActiveTool(workflowRecommendation.tool);
     handleGenerate(`Based on the previous ${getToolDisplayName(activeTool)}, synthesize a ${toolName}.`, previousArtifact);
   };
@@ -152,6 +177,7 @@ USER_QUERY: ${userInput}`;
     if (!canvasContent) return;
     const cleanText = canvasContent.split('--- Workflow Recommendation')[0].trim();
     await navigator.clipboard.writeText(cleanText);
+    keepArtifact('export');
     setCopySuccess(true);
     setTimeout(() => setCopySuccess(false), 2000);
   };